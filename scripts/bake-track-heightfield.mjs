@@ -0,0 +1,287 @@
+// Bake a road heightfield into a track file from its GLTF model.
+//
+//   node scripts/bake-track-heightfield.mjs <track.json> [--materials a,b] [--size 256] [--padding 50]
+//
+// The track's `visual` must be a gltf; its modelPath is read from static/
+// and placed with the track's visual transform, the same way Track.svelte
+// renders it. Triangles whose material name is listed in --materials (by
+// default any material with "road" in its name) are rasterized onto a
+// size x size grid over the road's XZ bounds (plus --padding world units
+// on every side), keeping the highest surface in each cell. The result is written back as the file's `heightfield`.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const workspaceRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+// Must match the decoder in src/lib/racing/track.ts
+const HEIGHTFIELD_STEP = 0.01;
+const HEIGHTFIELD_SENTINEL = -32768;
+const MAX_RUN = 65535;
+
+function parseArgs(argv) {
+  const args = { trackFile: null, materials: null, size: 256, padding: 50 };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--materials") args.materials = argv[++i].split(",");
+    else if (argv[i] === "--size") args.size = Number(argv[++i]);
+    else if (argv[i] === "--padding") args.padding = Number(argv[++i]);
+    else args.trackFile = argv[i];
+  }
+  if (!args.trackFile || !Number.isInteger(args.size) || args.size < 2 || !(args.padding >= 0)) {
+    console.error(
+      "Usage: node scripts/bake-track-heightfield.mjs <track.json> [--materials a,b] [--size 256] [--padding 50]",
+    );
+    process.exit(1);
+  }
+  return args;
+}
+
+// ---------------------------------------------------------------------------
+// Matrices (column-major, like glTF)
+// ---------------------------------------------------------------------------
+
+function multiply(a, b) {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) out[col * 4 + row] += a[k * 4 + row] * b[col * 4 + k];
+    }
+  }
+  return out;
+}
+
+function compose(t = [0, 0, 0], q = [0, 0, 0, 1], s = [1, 1, 1]) {
+  const [x, y, z, w] = q;
+  return [
+    (1 - 2 * (y * y + z * z)) * s[0], 2 * (x * y + z * w) * s[0], 2 * (x * z - y * w) * s[0], 0,
+    2 * (x * y - z * w) * s[1], (1 - 2 * (x * x + z * z)) * s[1], 2 * (y * z + x * w) * s[1], 0,
+    2 * (x * z + y * w) * s[2], 2 * (y * z - x * w) * s[2], (1 - 2 * (x * x + y * y)) * s[2], 0,
+    t[0], t[1], t[2], 1,
+  ];
+}
+
+/** Quaternion for a three.js Euler rotation in the default XYZ order */
+function eulerXYZToQuaternion({ x, y, z }) {
+  const [c1, c2, c3] = [Math.cos(x / 2), Math.cos(y / 2), Math.cos(z / 2)];
+  const [s1, s2, s3] = [Math.sin(x / 2), Math.sin(y / 2), Math.sin(z / 2)];
+  return [
+    s1 * c2 * c3 + c1 * s2 * s3,
+    c1 * s2 * c3 - s1 * c2 * s3,
+    c1 * c2 * s3 + s1 * s2 * c3,
+    c1 * c2 * c3 - s1 * s2 * s3,
+  ];
+}
+
+function transformPoint(m, x, y, z) {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// GLTF reading
+// ---------------------------------------------------------------------------
+
+const COMPONENT_ARRAYS = {
+  5121: Uint8Array,
+  5123: Uint16Array,
+  5125: Uint32Array,
+  5126: Float32Array,
+};
+
+function loadBuffers(gltf, baseDir) {
+  return gltf.buffers.map((buffer) => {
+    if (buffer.uri.startsWith("data:")) {
+      return Buffer.from(buffer.uri.slice(buffer.uri.indexOf(",") + 1), "base64");
+    }
+    return readFileSync(resolve(baseDir, decodeURIComponent(buffer.uri)));
+  });
+}
+
+function readAccessor(gltf, buffers, index, components) {
+  const accessor = gltf.accessors[index];
+  const view = gltf.bufferViews[accessor.bufferView];
+  const ArrayType = COMPONENT_ARRAYS[accessor.componentType];
+  const buffer = buffers[view.buffer];
+  const start = buffer.byteOffset + (view.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const stride = view.byteStride ? view.byteStride / ArrayType.BYTES_PER_ELEMENT : components;
+  const bytes = buffer.buffer.slice(start, buffer.byteOffset + (view.byteOffset ?? 0) + view.byteLength);
+  const data = new ArrayType(bytes, 0, Math.floor(bytes.byteLength / ArrayType.BYTES_PER_ELEMENT));
+  const out = [];
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) out.push(data[i * stride + c]);
+  }
+  return out;
+}
+
+/** World-space road triangles as flat [x, y, z] triples, three per triangle */
+function collectRoadTriangles(gltf, buffers, rootMatrix, includeMaterial) {
+  const triangles = [];
+
+  function visit(nodeIndex, parent) {
+    const node = gltf.nodes[nodeIndex];
+    const local = node.matrix ?? compose(node.translation, node.rotation, node.scale);
+    const world = multiply(parent, local);
+
+    if (node.mesh !== undefined) {
+      for (const primitive of gltf.meshes[node.mesh].primitives) {
+        if ((primitive.mode ?? 4) !== 4) continue;
+        const material = gltf.materials?.[primitive.material]?.name ?? "";
+        if (!includeMaterial(material)) continue;
+
+        const positions = readAccessor(gltf, buffers, primitive.attributes.POSITION, 3);
+        const vertexCount = positions.length / 3;
+        const indices =
+          primitive.indices !== undefined
+            ? readAccessor(gltf, buffers, primitive.indices, 1)
+            : Array.from({ length: vertexCount }, (_, i) => i);
+        for (const i of indices) {
+          triangles.push(transformPoint(world, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]));
+        }
+      }
+    }
+    for (const child of node.children ?? []) visit(child, world);
+  }
+
+  const scene = gltf.scenes[gltf.scene ?? 0];
+  for (const nodeIndex of scene.nodes) visit(nodeIndex, rootMatrix);
+  return triangles;
+}
+
+// ---------------------------------------------------------------------------
+// Rasterizing and encoding
+// ---------------------------------------------------------------------------
+
+function rasterize(triangles, size, padding) {
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  for (const [x, , z] of triangles) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minZ = Math.min(minZ, z);
+    maxZ = Math.max(maxZ, z);
+  }
+  minX -= padding;
+  maxX += padding;
+  minZ -= padding;
+  maxZ += padding;
+  const cellWidth = (maxX - minX) / size;
+  const cellHeight = (maxZ - minZ) / size;
+  const heights = new Float64Array(size * size).fill(-Infinity);
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const [a, b, c] = [triangles[t], triangles[t + 1], triangles[t + 2]];
+    const det = (b[2] - c[2]) * (a[0] - c[0]) + (c[0] - b[0]) * (a[2] - c[2]);
+    if (Math.abs(det) < 1e-9) continue; // Vertical or degenerate
+
+    const colStart = Math.max(0, Math.floor((Math.min(a[0], b[0], c[0]) - minX) / cellWidth - 0.5));
+    const colEnd = Math.min(size - 1, Math.ceil((Math.max(a[0], b[0], c[0]) - minX) / cellWidth - 0.5));
+    const rowStart = Math.max(0, Math.floor((Math.min(a[2], b[2], c[2]) - minZ) / cellHeight - 0.5));
+    const rowEnd = Math.min(size - 1, Math.ceil((Math.max(a[2], b[2], c[2]) - minZ) / cellHeight - 0.5));
+
+    for (let row = rowStart; row <= rowEnd; row++) {
+      const z = minZ + (row + 0.5) * cellHeight;
+      for (let col = colStart; col <= colEnd; col++) {
+        const x = minX + (col + 0.5) * cellWidth;
+        const l1 = ((b[2] - c[2]) * (x - c[0]) + (c[0] - b[0]) * (z - c[2])) / det;
+        const l2 = ((c[2] - a[2]) * (x - c[0]) + (a[0] - c[0]) * (z - c[2])) / det;
+        const l3 = 1 - l1 - l2;
+        if (l1 < 0 || l2 < 0 || l3 < 0) continue;
+        const y = l1 * a[1] + l2 * b[1] + l3 * c[1];
+        const cell = row * size + col;
+        if (y > heights[cell]) heights[cell] = y;
+      }
+    }
+  }
+
+  return { originX: minX, originZ: minZ, cellWidth, cellHeight, heights };
+}
+
+/**
+ * Heights as little-endian int16 in HEIGHTFIELD_STEP units, base64. Cells
+ * off the road are the sentinel followed by how many of them are in a row.
+ */
+function encodeHeights(heights) {
+  const bytes = Buffer.alloc(heights.length * 2);
+  let offset = 0;
+  for (let i = 0; i < heights.length; ) {
+    if (heights[i] === -Infinity) {
+      let run = 0;
+      while (i < heights.length && heights[i] === -Infinity && run < MAX_RUN) {
+        run++;
+        i++;
+      }
+      offset = bytes.writeInt16LE(HEIGHTFIELD_SENTINEL, offset);
+      offset = bytes.writeUInt16LE(run, offset);
+    } else {
+      const value = Math.round(heights[i] / HEIGHTFIELD_STEP);
+      offset = bytes.writeInt16LE(Math.max(-32767, Math.min(32767, value)), offset);
+      i++;
+    }
+  }
+  return bytes.subarray(0, offset).toString("base64");
+}
+
+/** Same layout as formatTrackFile in src/lib/racing/track-loader.ts */
+function formatTrackFile(file) {
+  return (
+    JSON.stringify(file, null, 2)
+      .replace(/\[\s*(-?[\d.e+-]+(?:,\s*-?[\d.e+-]+)*)\s*\]/g, (_, body) => `[${body.split(/,\s*/).join(", ")}]`)
+      .replace(
+        /\{\n\s*((?:"\w+": (?:-?[\d.e+-]+|"[^"]*"),?\n\s*)+)\}/g,
+        (_, body) => `{ ${body.trim().split(/,\n\s*/).join(", ")} }`,
+      ) + "\n"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+const args = parseArgs(process.argv.slice(2));
+const trackPath = resolve(process.cwd(), args.trackFile);
+const track = JSON.parse(readFileSync(trackPath, "utf8"));
+if (track.visual?.kind !== "gltf") {
+  console.error(`${args.trackFile} has no gltf visual to bake from`);
+  process.exit(1);
+}
+
+const modelPath = resolve(workspaceRoot, "static", track.visual.modelPath.replace(/^\//, ""));
+const gltf = JSON.parse(readFileSync(modelPath, "utf8"));
+const buffers = loadBuffers(gltf, dirname(modelPath));
+const { position, rotation, scale } = track.visual.transform;
+const rootMatrix = compose(
+  [position.x, position.y, position.z],
+  eulerXYZToQuaternion(rotation),
+  [scale.x, scale.y, scale.z],
+);
+const includeMaterial = args.materials
+  ? (name) => args.materials.includes(name)
+  : (name) => /road/i.test(name);
+
+const triangles = collectRoadTriangles(gltf, buffers, rootMatrix, includeMaterial);
+if (triangles.length === 0) {
+  console.error("No road triangles matched; pass --materials with the road material names");
+  process.exit(1);
+}
+
+const grid = rasterize(triangles, args.size, args.padding);
+const round = (n) => Math.round(n * 1e6) / 1e6;
+track.heightfield = {
+  originX: round(grid.originX),
+  originZ: round(grid.originZ),
+  cellWidth: round(grid.cellWidth),
+  cellHeight: round(grid.cellHeight),
+  cols: args.size,
+  rows: args.size,
+  sentinel: HEIGHTFIELD_SENTINEL,
+  data: encodeHeights(grid.heights),
+};
+writeFileSync(trackPath, formatTrackFile(track));
+
+const roadCells = grid.heights.filter((h) => h !== -Infinity).length;
+console.log(
+  `Baked ${triangles.length / 3} triangles into ${args.size}x${args.size} cells (${roadCells} on the road) → ${args.trackFile}`,
+);
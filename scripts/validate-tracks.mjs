@@ -0,0 +1,59 @@
+// Check tracks for layouts that load but race badly.
+//
+//   node scripts/validate-tracks.mjs [track.json ...]
+//
+// With no arguments every track in the registry is checked; otherwise each
+// file is registered (so parse errors are reported too) and checked on its
+// own. The track modules are TypeScript, so they're loaded through Vite.
+// Prints each track's issues and exits with 1 when any of them is an error.
+
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const workspaceRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+const server = await createServer({
+  root: workspaceRoot,
+  configFile: false,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false },
+});
+
+let failed = false;
+
+try {
+  const { registerTrack, getTrack, getTrackName, listTrackIds } = await server.ssrLoadModule(
+    "/src/lib/racing/track.ts",
+  );
+  const { validateTrack } = await server.ssrLoadModule("/src/lib/racing/track-validator.ts");
+
+  const trackIds = [];
+  for (const path of process.argv.slice(2)) {
+    try {
+      trackIds.push(registerTrack(JSON.parse(readFileSync(resolve(path), "utf8"))).id);
+    } catch (err) {
+      console.log(`✗ ${path}\n  ${err instanceof Error ? err.message : err}\n`);
+      failed = true;
+    }
+  }
+  if (process.argv.length <= 2) trackIds.push(...listTrackIds());
+
+  for (const trackId of trackIds) {
+    const issues = validateTrack(getTrack(trackId));
+    const errors = issues.filter((issue) => issue.severity === "error").length;
+    failed ||= errors > 0;
+
+    const summary = issues.length === 0 ? "ok" : `${errors} errors, ${issues.length - errors} warnings`;
+    console.log(`${errors > 0 ? "✗" : "✓"} ${getTrackName(trackId)} (${trackId}): ${summary}`);
+    for (const issue of issues) {
+      console.log(`  ${issue.severity === "error" ? "error  " : "warning"} [${issue.check}] ${issue.message}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failed ? 1 : 0);
@@ -50,20 +50,42 @@ import {
   type PhysicsSnapshot,
   type PlayerInput,
   type PlayerState,
+  type RatingReport,
+  type RatingsChangedEvent,
+  type RoomHeartbeat,
+  type RoomListing,
   type Vec3,
 } from "../../game/types.js";
+import type { PlayerProfile } from "../../racing/types.js";
+import { isPlayerToken } from "../../racing/identity.js";
+import { internalKey, isInternalKey } from "../internal.js";
 
 // ---------------------------------------------------------------------------
 // Connection types
 // ---------------------------------------------------------------------------
 
+/** Passed via `createWithInput` by the lobby */
+interface GameRoomInput {
+  /** Only other actors know it; input without it is refused */
+  internalKey?: string;
+  listing?: RoomListing;
+}
+
+/** Persisted state: the shared room state plus how the lobby lists the room */
+interface GameRoomActorState extends GameRoomState {
+  listing?: RoomListing | null;
+}
+
 interface ConnParams {
   playerName: string;
+  /** Key of the player's profile actor; only players with a profile are rated */
+  playerToken?: string;
 }
 
 interface ConnState {
   playerId: string;
   playerName: string;
+  profileId: string | null;
   input: PlayerInput;
   dashCooldownUntil: number;
   dashStartedAt: number;
@@ -100,6 +122,70 @@ function resetForKickoff(c: any): void {
   c.state.ball = createBall();
 }
 
+// ---------------------------------------------------------------------------
+// Ratings
+// ---------------------------------------------------------------------------
+
+/** True if a connection already plays under this ID */
+function isPlayerIdInUse(c: any, playerId: string): boolean {
+  if (playerId in c.state.players) return true;
+  for (const conn of c.conns.values()) {
+    if ((conn.state as ConnState | undefined)?.playerId === playerId) return true;
+  }
+  return false;
+}
+
+/** Players whose ID is their profile ID; only they are rated */
+function ratedPlayerIds(c: any): Set<string> {
+  const ids = new Set<string>();
+  for (const conn of c.conns.values()) {
+    const cs = conn.state as ConnState | undefined;
+    if (cs?.profileId && cs.profileId === cs.playerId) ids.add(cs.playerId);
+  }
+  return ids;
+}
+
+/**
+ * Report the match result to the bump ratings and pass the changes on to the
+ * players. `forfeit` is a player who left mid-match and counts as losing.
+ */
+async function reportRatings(c: any, winnerId: string | null, forfeit?: ConnState): Promise<void> {
+  const state = c.state as GameRoomState;
+  const rated = ratedPlayerIds(c);
+  const report: RatingReport = {
+    matchId: `${state.id}:${Date.now()}`,
+    standings: Object.values(state.players)
+      .filter((p) => rated.has(p.id))
+      .map((p) => ({ playerId: p.id, playerName: p.name, place: p.id === winnerId ? 1 : 2 })),
+  };
+  if (forfeit?.profileId && forfeit.profileId === forfeit.playerId) {
+    report.standings.push({ playerId: forfeit.playerId, playerName: forfeit.playerName, place: 2 });
+  }
+  if (!winnerId || report.standings.length < 2) return;
+
+  try {
+    const ratings = c.getActor({ name: "rating", key: ["bump"] });
+    const changes = await ratings.reportMatch(internalKey(), report);
+    if (changes.length > 0) c.broadcast("ratingsChanged", { game: "bump", changes });
+  } catch (e) {
+    console.error("[gameRoom] Failed to report ratings:", e);
+  }
+}
+
+/** The player's profile ID, or null to play unrated */
+async function loadProfileId(c: any, playerToken: unknown): Promise<string | null> {
+  if (!isPlayerToken(playerToken)) return null;
+  try {
+    const profile = (await c
+      .getActor({ name: "player", key: [playerToken] })
+      .getProfile()) as PlayerProfile;
+    return profile.id;
+  } catch (e) {
+    console.error("[gameRoom] Failed to load player profile:", e);
+    return null;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Lobby notification helper (fire-and-forget)
 // ---------------------------------------------------------------------------
@@ -124,7 +210,7 @@ async function notifyLobby(
 async function ensureLobbyRegistration(c: any): Promise<void> {
   try {
     const lobbyActor = c.getActor({ name: "lobby", key: ["main"] });
-    await lobbyActor.registerRoom(c.state.id, c.state.name);
+    await lobbyActor.registerRoom(c.state.id, c.state.name, "bump", c.state.listing ?? undefined);
   } catch {
     // Best-effort
   }
@@ -135,27 +221,40 @@ async function ensureLobbyRegistration(c: any): Promise<void> {
 // ---------------------------------------------------------------------------
 
 export const gameRoom = actor({
-  createState: (c: any): GameRoomState => ({
-    id: c.key?.[0] ?? `room_${Date.now().toString(36)}`,
-    name: "Soccer",
-    players: {},
-    ball: createBall(),
-    scores: [0, 0] as [number, number],
-    phase: "waiting" as GamePhase,
-    timeRemaining: MATCH_TIME_LIMIT,
-    phaseStartedAt: Date.now(),
-    maxPlayers: MAX_PLAYERS,
-    createdAt: Date.now(),
-  }),
-
-  createConnState: (c: any, params: ConnParams): ConnState => {
+  createState: (c: any, input?: GameRoomInput): GameRoomActorState => {
+    if (input?.listing && !isInternalKey(input.internalKey)) {
+      throw new Error("Only the lobby can create a listed room");
+    }
+    return {
+      id: c.key?.[0] ?? `room_${Date.now().toString(36)}`,
+      name: "Soccer",
+      players: {},
+      ball: createBall(),
+      scores: [0, 0] as [number, number],
+      phase: "waiting" as GamePhase,
+      timeRemaining: MATCH_TIME_LIMIT,
+      phaseStartedAt: Date.now(),
+      maxPlayers: MAX_PLAYERS,
+      createdAt: Date.now(),
+      listing: input?.listing ?? null,
+    };
+  },
+
+  createConnState: async (c: any, params: ConnParams): Promise<ConnState> => {
     if (Object.keys(c.state.players).length >= MAX_PLAYERS) {
       throw new Error("Room is full");
     }
-    const playerId = `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+    const profileId = await loadProfileId(c, params.playerToken);
+    // Players with a profile play under its ID, so their rating changes can
+    // be matched to them; a second tab on the same profile plays unrated
+    const playerId =
+      profileId && !isPlayerIdInUse(c, profileId)
+        ? profileId
+        : `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
     return {
       playerId,
       playerName: sanitizeName(params.playerName),
+      profileId,
       input: { tx: 0, tz: 0, active: false, dash: false },
       dashCooldownUntil: 0,
       dashStartedAt: 0,
@@ -178,6 +277,7 @@ export const gameRoom = actor({
       scores: [number, number];
     }>(),
     phaseChanged: event<{ phase: GamePhase; timeRemaining: number }>(),
+    ratingsChanged: event<RatingsChangedEvent>(),
   },
 
   onBeforeConnect: (c: any) => {
@@ -238,7 +338,8 @@ export const gameRoom = actor({
   },
 
   onDisconnect: (c: any, conn: any) => {
-    const { playerId, playerName } = conn.state as ConnState;
+    const cs = conn.state as ConnState;
+    const { playerId, playerName } = cs;
     if (!c.state.players[playerId]) return;
 
     delete c.state.players[playerId];
@@ -257,6 +358,7 @@ export const gameRoom = actor({
         winnerTeam: winner?.team ?? null,
         scores: c.state.scores,
       });
+      reportRatings(c, winner?.id ?? null, cs);
       c.broadcast("phaseChanged", {
         phase: "finished",
         timeRemaining: c.state.timeRemaining,
@@ -325,6 +427,17 @@ export const gameRoom = actor({
   // -----------------------------------------------------------------------
 
   actions: {
+    /** Liveness check from the lobby */
+    heartbeat: (c: any): RoomHeartbeat => {
+      const s = c.state as GameRoomState;
+      return {
+        roomId: s.id,
+        playerCount: Object.keys(s.players).length,
+        status: s.phase === "waiting" ? "waiting" : s.phase === "finished" ? "finished" : "playing",
+        connections: c.conns.size,
+      };
+    },
+
     getJoinState: (c: any): JoinStateResult => {
       const connState = c.conn?.state as ConnState | undefined;
       const s = c.state as GameRoomState;
@@ -402,6 +515,7 @@ function phaseTick(c: any, now: number, dtMs: number): void {
             winnerTeam,
             scores: state.scores,
           });
+          reportRatings(c, winner?.id ?? null);
           c.broadcast("phaseChanged", {
             phase: "finished",
             timeRemaining: state.timeRemaining,
@@ -441,6 +555,7 @@ function phaseTick(c: any, now: number, dtMs: number): void {
             winnerTeam,
             scores: state.scores,
           });
+          reportRatings(c, winner?.id ?? null);
           c.broadcast("phaseChanged", {
             phase: "finished",
             timeRemaining: 0,
@@ -0,0 +1,39 @@
+/**
+ * Actor-to-actor calls.
+ *
+ * Rivet doesn't tell an action who called it, so actions meant only for
+ * other actors (match results, race records) take the server's internal key
+ * as their first argument. Clients never see the key. ACTOR_INTERNAL_KEY
+ * must be set outside development, where actors may run in more than one
+ * process; `npm run dev` makes one up instead.
+ */
+
+import { UserError } from "rivetkit";
+
+const IS_DEV =
+  typeof process !== "undefined" &&
+  (process.env.NODE_ENV === "development" || !process.env.NODE_ENV);
+
+let resolvedKey: string | null = null;
+
+/** Read on first use rather than at import, so builds don't need the secret */
+export function internalKey(): string {
+  if (resolvedKey) return resolvedKey;
+  const configured = typeof process !== "undefined" ? process.env.ACTOR_INTERNAL_KEY : undefined;
+  if (!configured && !IS_DEV) {
+    throw new Error("ACTOR_INTERNAL_KEY is not set; actors can't vouch for calls to each other");
+  }
+  resolvedKey = configured || crypto.randomUUID();
+  return resolvedKey;
+}
+
+export function isInternalKey(key: unknown): boolean {
+  return key === internalKey();
+}
+
+/** Throws unless `key` is the internal key */
+export function assertInternalCall(key: unknown): void {
+  if (!isInternalKey(key)) {
+    throw new UserError("Only other actors can call this", { code: "internal_only" });
+  }
+}
@@ -0,0 +1 @@
+export { leaderboard } from "./leaderboard.actor.js";
@@ -0,0 +1,149 @@
+/**
+ * leaderboard actor — persistent fastest times for one track.
+ *
+ * Keyed by [trackId]. Race rooms report every finished race here, and the
+ * lobby page reads it back. Each mode keeps its own top total race times and
+ * best laps, with one entry per player name (their fastest).
+ */
+
+import { actor, event } from "rivetkit";
+import {
+  ALLOWED_ORIGINS,
+  LEADERBOARD_SIZE,
+  RACE_DEFAULT_SPEED_CLASS,
+  RACE_LAP_COUNT,
+  sanitizeName,
+  type LeaderboardBoard,
+  type LeaderboardEntry,
+  type LeaderboardReport,
+  type LeaderboardState,
+  type LeaderboardUpdatedEvent,
+  type RaceMode,
+  type TrackId,
+} from "../../racing/types.js";
+import { coerceRaceCarId } from "../../racing/car-catalog.js";
+import { listTrackIds } from "../../racing/track.js";
+import { assertInternalCall } from "../internal.js";
+
+function emptyBoard(): LeaderboardBoard {
+  return { totalTimes: [], bestLaps: [] };
+}
+
+function coerceMode(mode: unknown): RaceMode {
+  return mode === "timeTrial" ? "timeTrial" : "race";
+}
+
+function isValidTime(time: unknown): time is number {
+  return typeof time === "number" && Number.isFinite(time) && time > 0;
+}
+
+/**
+ * Insert `entry` into a fastest-first board. Returns the new board, or null
+ * if it didn't make the cut or the player already has a faster time on it.
+ */
+function withEntry(
+  board: LeaderboardEntry[],
+  entry: LeaderboardEntry,
+): LeaderboardEntry[] | null {
+  const previous = board.find((e) => e.playerName === entry.playerName);
+  if (previous && previous.time <= entry.time) return null;
+
+  const next = board
+    .filter((e) => e !== previous)
+    .concat(entry)
+    .sort((a, b) => a.time - b.time || a.recordedAt - b.recordedAt)
+    .slice(0, LEADERBOARD_SIZE);
+  return next.includes(entry) ? next : null;
+}
+
+export const leaderboard = actor({
+  createState: (c: any): LeaderboardState => {
+    const key = c.key?.[0];
+    const trackId: TrackId = listTrackIds().includes(key) ? key : "track1";
+    return {
+      trackId,
+      boards: { race: emptyBoard(), timeTrial: emptyBoard() },
+    };
+  },
+
+  events: {
+    leaderboardUpdated: event<LeaderboardUpdatedEvent>(),
+  },
+
+  onBeforeConnect: (c: any) => {
+    const origin = c.request?.headers.get("origin") ?? "";
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+      throw new Error("Origin not allowed");
+    }
+  },
+
+  actions: {
+    /** Called by raceRoom when a race finishes */
+    reportResults: (c: any, key: string, report: LeaderboardReport): void => {
+      assertInternalCall(key);
+      // Slower classes would never place; only the full-speed class is ranked
+      if ((report?.speedClass ?? RACE_DEFAULT_SPEED_CLASS) !== RACE_DEFAULT_SPEED_CLASS) return;
+      const state = c.state as LeaderboardState;
+      const mode = coerceMode(report?.mode);
+      const board = state.boards[mode];
+      // Total times only compare across races of the standard length
+      const countsTotal = report?.lapCount === RACE_LAP_COUNT;
+      const recordedAt = Date.now();
+      let changed = false;
+
+      for (const result of report?.results ?? []) {
+        const playerName = sanitizeName(result.playerName);
+        const carId = coerceRaceCarId(result.carId);
+
+        if (countsTotal && isValidTime(result.finishTime)) {
+          const next = withEntry(board.totalTimes, {
+            playerName,
+            carId,
+            time: result.finishTime,
+            recordedAt,
+          });
+          if (next) {
+            board.totalTimes = next;
+            changed = true;
+          }
+        }
+
+        if (isValidTime(result.bestLapTime)) {
+          const next = withEntry(board.bestLaps, {
+            playerName,
+            carId,
+            time: result.bestLapTime,
+            recordedAt,
+          });
+          if (next) {
+            board.bestLaps = next;
+            changed = true;
+          }
+        }
+      }
+
+      if (changed) {
+        c.broadcast("leaderboardUpdated", { mode, board });
+      }
+    },
+
+    getLeaderboard: (c: any, mode?: RaceMode): LeaderboardBoard => {
+      return (c.state as LeaderboardState).boards[coerceMode(mode)];
+    },
+
+    /** A player's standing on each board of a mode (1-based rank, or null) */
+    getPlayerRanks: (
+      c: any,
+      playerName: string,
+      mode?: RaceMode,
+    ): { totalTime: number | null; bestLap: number | null } => {
+      const board = (c.state as LeaderboardState).boards[coerceMode(mode)];
+      const name = sanitizeName(playerName);
+      const rank = (list: LeaderboardEntry[]) => {
+        const i = list.findIndex((e) => e.playerName === name);
+        return i >= 0 ? i + 1 : null;
+      };
+      return { totalTime: rank(board.totalTimes), bestLap: rank(board.bestLaps) };
+    },
+  },
+});
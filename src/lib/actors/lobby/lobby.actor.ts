@@ -1,42 +1,517 @@
 import { actor, event } from "rivetkit";
 import {
   ALLOWED_ORIGINS,
+  DEFAULT_PLAYER_RATING,
+  INVITE_CODE_ALPHABET,
+  INVITE_CODE_LENGTH,
+  MATCHMAKING_BASE_WINDOW,
+  MATCHMAKING_MAX_WAIT,
+  MATCHMAKING_MAX_WINDOW,
+  MATCHMAKING_PARTIAL_AFTER,
+  MATCHMAKING_TICK_INTERVAL,
+  MATCHMAKING_WINDOW_GROWTH,
   MAX_PLAYERS,
   MAX_ROOMS,
   MAX_ROOM_NAME_LEN,
+  MAX_ROOM_PASSWORD_LEN,
+  sanitizeName,
+  type ActionResult,
+  type CreateRoomOptions,
+  type GameType,
+  type InviteLookupResult,
+  type LobbyHealth,
   type LobbyState,
+  type MatchFoundEvent,
+  type MatchmakingTicket,
+  type PlayerRating,
+  type QueueStatusEvent,
+  type RoomListPage,
+  type RoomHeartbeat,
+  type RoomListQuery,
+  type RoomListing,
   type RoomSummary,
+  type RoomUpdatedEvent,
   type CreateRoomResult,
 } from "../../game/types.js";
+import { compareRooms, matchesRoomQuery, normalizeRoomQuery } from "../../game/room-query.js";
+import { RACE_MAX_PLAYERS, type PlayerProfile } from "../../racing/types.js";
+import { isPlayerToken } from "../../racing/identity.js";
+import { internalKey } from "../internal.js";
+import { hashRoomPassword } from "../room-password.js";
 
 const SWEEP_INTERVAL = 60_000;
 const ROOM_TTL = 300_000;
+const MATCH_RESERVATION_TTL = 30_000;
+const RECONCILE_INTERVAL = 15_000;
+const HEARTBEAT_TIMEOUT = 3_000;
+const HEARTBEAT_MAX_MISSES = 2; // consecutive failed checks before a room is dropped
+const EMPTY_ROOM_GRACE = 60_000; // how long a live room may report nobody in it
+
+/** Summary fields a room can change after it's listed */
+const ROOM_PATCH_FIELDS = [
+  "playerCount",
+  "status",
+  "maxPlayers",
+  "trackId",
+  "lapCount",
+  "speedClass",
+  "itemMode",
+  "mode",
+  "hostName",
+] as const satisfies readonly (keyof RoomSummary)[];
+
+/** A queued ticket; it isn't matched until the stored rating has been looked up */
+interface QueuedTicket extends MatchmakingTicket {
+  rated: boolean;
+}
+
+interface LobbyVars {
+  /** Matchmaking tickets, oldest first; tied to live connections so never persisted */
+  queue: QueuedTicket[];
+  /** Matched rooms held for their group until it has had time to connect */
+  reservedUntil: Record<string, number>;
+  reconcile: ReconcileVars;
+}
+
+interface ReconcileVars {
+  running: boolean;
+  startedAt: number;
+  /** Room ID -> consecutive heartbeats that failed or timed out */
+  misses: Record<string, number>;
+  /** Room ID -> when its heartbeat first reported it empty */
+  emptySince: Record<string, number>;
+  lastAt: number | null;
+  lastMs: number | null;
+  roomsChecked: number;
+  roomsDropped: number;
+  countsCorrected: number;
+  heartbeatFailures: number;
+}
+
+function coerceGame(game: unknown): GameType {
+  return game === "race" ? "race" : "bump";
+}
+
+function maxPlayersFor(game: GameType): number {
+  return game === "race" ? RACE_MAX_PLAYERS : MAX_PLAYERS;
+}
+
+function newRoomId(): string {
+  return `room_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Private rooms & invite codes
+// ---------------------------------------------------------------------------
+
+/** A short code no other room is using */
+function newInviteCode(c: any): string {
+  const taken = new Set(c.state.rooms.map((r: RoomSummary) => r.inviteCode));
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)];
+    }
+    if (!taken.has(code)) return code;
+  }
+}
+
+/** `code` if it's well-formed and free, otherwise a new one */
+function reclaimInviteCode(c: any, code: unknown): string {
+  const normalized = normalizeInviteCode(code);
+  const taken = c.state.rooms.some((r: RoomSummary) => r.inviteCode === normalized);
+  return normalized.length === INVITE_CODE_LENGTH && !taken ? normalized : newInviteCode(c);
+}
+
+/** Codes are typed by hand: ignore case, spaces and dashes */
+function normalizeInviteCode(raw: unknown): string {
+  if (typeof raw !== "string") return "";
+  return raw.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, INVITE_CODE_LENGTH);
+}
+
+/** Private rooms stay out of listings and room broadcasts */
+function isListed(room: RoomSummary): boolean {
+  return room.visibility !== "private";
+}
+
+/** Add a room to the directory and announce it if it's public */
+function addRoom(c: any, room: RoomSummary): void {
+  c.state.rooms.push(room);
+  if (isListed(room)) c.broadcast("roomCreated", { room });
+}
+
+/**
+ * Apply a room's reported changes to its summary and broadcast the fields
+ * that actually changed (public rooms only).
+ */
+function applyRoomPatch(c: any, room: RoomSummary, patch: Record<string, unknown>): void {
+  const before: RoomSummary = { ...room };
+  // Race room settings first, so a raised cap applies to this player count
+  if (room.game === "race") {
+    if (typeof patch.maxPlayers === "number" && patch.maxPlayers >= 1 && patch.maxPlayers <= RACE_MAX_PLAYERS) {
+      room.maxPlayers = patch.maxPlayers;
+    }
+    if (typeof patch.trackId === "string") room.trackId = patch.trackId.slice(0, 40);
+    if (typeof patch.lapCount === "number") room.lapCount = patch.lapCount;
+    if (typeof patch.speedClass === "string") room.speedClass = patch.speedClass.slice(0, 10);
+    if (typeof patch.itemMode === "string") room.itemMode = patch.itemMode.slice(0, 10);
+    if (typeof patch.mode === "string") room.mode = patch.mode.slice(0, 20);
+  }
+  if (typeof patch.hostName === "string") room.hostName = sanitizeName(patch.hostName);
+  if (patch.hostName === null) room.hostName = null;
+  if (typeof patch.playerCount === "number" && patch.playerCount >= 0 && patch.playerCount <= room.maxPlayers) {
+    room.playerCount = patch.playerCount;
+  }
+  if (patch.status === "waiting" || patch.status === "playing") {
+    room.status = patch.status;
+  }
+  if (!isListed(room)) return;
+
+  const changed: Partial<RoomSummary> = {};
+  for (const key of ROOM_PATCH_FIELDS) {
+    if (room[key] !== before[key]) (changed as Record<string, unknown>)[key] = room[key];
+  }
+  if (Object.keys(changed).length === 0) return;
+  const event: RoomUpdatedEvent = { roomId: room.id, patch: changed };
+  c.broadcast("roomUpdated", event);
+}
+
+/** Take a room out of the directory along with everything kept about it */
+function dropRoom(c: any, roomId: string): void {
+  const room = c.state.rooms.find((r: RoomSummary) => r.id === roomId);
+  c.state.rooms = c.state.rooms.filter((r: RoomSummary) => r.id !== roomId);
+  const vars = c.vars as LobbyVars;
+  delete vars.reservedUntil[roomId];
+  delete vars.reconcile.misses[roomId];
+  delete vars.reconcile.emptySince[roomId];
+  if (!room || isListed(room)) c.broadcast("roomRemoved", { roomId });
+}
+
+/** First public waiting room of `game` with `seats` free that isn't held for a matched group */
+function findOpenRoom(c: any, game: GameType, seats = 1): RoomSummary | undefined {
+  const reserved = (c.vars as LobbyVars).reservedUntil;
+  const now = Date.now();
+  return c.state.rooms.find(
+    (r: RoomSummary) =>
+      r.status === "waiting" &&
+      r.playerCount + seats <= r.maxPlayers &&
+      (r.game ?? "bump") === game &&
+      isListed(r) &&
+      !r.hasPassword &&
+      !((reserved[r.id] ?? 0) > now),
+  );
+}
+
+function sweepStaleRooms(c: any): void {
+  const now = Date.now();
+  const stale = c.state.rooms.filter(
+    (room: RoomSummary) => room.playerCount === 0 && now - room.createdAt > ROOM_TTL,
+  );
+  for (const room of stale) dropRoom(c, room.id);
+  if (stale.length > 0) {
+    console.log(`[lobby] Swept ${stale.length} stale rooms`);
+  }
+
+  const reserved = (c.vars as LobbyVars).reservedUntil;
+  for (const [roomId, until] of Object.entries(reserved)) {
+    if (until <= now) delete reserved[roomId];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matchmaking
+// ---------------------------------------------------------------------------
+
+/** ± rating a ticket accepts after waiting `waitMs` */
+function ratingWindow(waitMs: number): number {
+  return Math.min(
+    MATCHMAKING_MAX_WINDOW,
+    MATCHMAKING_BASE_WINDOW + (waitMs / 1000) * MATCHMAKING_WINDOW_GROWTH,
+  );
+}
+
+function findConn(c: any, connId: string): any {
+  for (const conn of c.conns.values()) {
+    if (conn.id === connId) return conn;
+  }
+  return null;
+}
+
+/** Players a group of tickets brings, counting each party in full */
+function seatsFor(group: QueuedTicket[]): number {
+  return group.reduce((sum, t) => sum + t.partySize, 0);
+}
+
+/**
+ * Pick a group for the oldest unmatched ticket: the closest-rated tickets
+ * whose windows both accept each other, up to a full room. Parties are never
+ * split, so a party that doesn't fit is skipped. Returns null while the group
+ * should keep waiting for more players.
+ */
+function formGroup(
+  anchor: QueuedTicket,
+  pool: QueuedTicket[],
+  now: number,
+): QueuedTicket[] | null {
+  if (!anchor.rated) return null;
+  const size = maxPlayersFor(anchor.game);
+  const anchorWindow = ratingWindow(now - anchor.enqueuedAt);
+  const candidates = pool
+    .filter((t) => {
+      if (t === anchor || t.game !== anchor.game || !t.rated) return false;
+      const gap = Math.abs(t.rating - anchor.rating);
+      return gap <= anchorWindow && gap <= ratingWindow(now - t.enqueuedAt);
+    })
+    .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+  const group = [anchor];
+  for (const t of candidates) {
+    if (seatsFor(group) + t.partySize <= size) group.push(t);
+  }
+
+  const seats = seatsFor(group);
+  const waited = now - anchor.enqueuedAt;
+  if (seats >= size) return group;
+  if (seats >= 2 && waited >= MATCHMAKING_PARTIAL_AFTER) return group;
+  if (waited >= MATCHMAKING_MAX_WAIT) return group;
+  return null;
+}
+
+/**
+ * Look up a queued player's stored rating through their profile. Until it
+ * arrives the ticket isn't matched; without a profile it stays at the default.
+ */
+async function loadTicketRating(c: any, ticket: QueuedTicket, playerToken: unknown): Promise<void> {
+  try {
+    if (!isPlayerToken(playerToken)) return;
+    const profile = (await c
+      .getActor({ name: "player", key: [playerToken] })
+      .getProfile()) as PlayerProfile;
+    const stored = (await c
+      .getActor({ name: "rating", key: [ticket.game] })
+      .getRating(profile.id)) as PlayerRating;
+    ticket.rating = stored.rating;
+  } catch {
+    // Match at the default rating rather than not at all
+  } finally {
+    ticket.rated = true;
+  }
+}
+
+/** Put a matched group in a room and tell each of them where to go */
+function placeGroup(c: any, group: QueuedTicket[]): void {
+  const game = group[0].game;
+  let roomId: string | null = null;
+
+  // Nobody compatible turned up: fall back to any open room
+  if (group.length === 1) {
+    roomId = findOpenRoom(c, game, group[0].partySize)?.id ?? null;
+  }
+
+  if (!roomId) {
+    if (c.state.rooms.length >= MAX_ROOMS) return;
+    roomId = newRoomId();
+    const room: RoomSummary = {
+      id: roomId,
+      name: game === "race" ? "Matched Race" : "Matched Game",
+      game,
+      playerCount: 0,
+      maxPlayers: maxPlayersFor(game),
+      status: "waiting",
+      createdAt: Date.now(),
+      inviteCode: newInviteCode(c),
+    };
+    addRoom(c, room);
+    (c.vars as LobbyVars).reservedUntil[roomId] = Date.now() + MATCH_RESERVATION_TTL;
+  }
+
+  const queue = (c.vars as LobbyVars).queue;
+  const event: MatchFoundEvent = {
+    roomId,
+    game,
+    playerNames: group.map((t) => t.playerName),
+  };
+  for (const ticket of group) {
+    queue.splice(queue.indexOf(ticket), 1);
+    findConn(c, ticket.connId)?.send("matchFound", event);
+  }
+}
+
+function matchmakingTick(c: any): void {
+  const queue = (c.vars as LobbyVars).queue;
+  const now = Date.now();
+
+  // Drop tickets whose connection has gone
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (!findConn(c, queue[i].connId)) queue.splice(i, 1);
+  }
+
+  let i = 0;
+  while (i < queue.length) {
+    const group = formGroup(queue[i], queue, now);
+    if (group) placeGroup(c, group);
+    // Placed tickets leave the queue, so rescan; a full lobby leaves them queued
+    if (group && !queue.includes(group[0])) i = 0;
+    else i++;
+  }
+
+  for (const ticket of queue) {
+    const waitMs = now - ticket.enqueuedAt;
+    const status: QueueStatusEvent = {
+      game: ticket.game,
+      queued: seatsFor(queue.filter((t) => t.game === ticket.game)),
+      waitMs,
+      ratingWindow: Math.round(ratingWindow(waitMs)),
+    };
+    findConn(c, ticket.connId)?.send("queueStatus", status);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("Heartbeat timed out")), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Ask a room actor how it's doing; null if it didn't answer in time */
+async function probeRoom(c: any, room: RoomSummary): Promise<RoomHeartbeat | null> {
+  try {
+    const name = room.game === "race" ? "raceRoom" : "gameRoom";
+    return await withTimeout<RoomHeartbeat>(
+      c.getActor({ name, key: [room.id] }).heartbeat(),
+      HEARTBEAT_TIMEOUT,
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** Act on one room's heartbeat: drop it if it's dead, fix its listing if it drifted */
+function applyHeartbeat(c: any, roomId: string, heartbeat: RoomHeartbeat | null, now: number): void {
+  const room = c.state.rooms.find((r: RoomSummary) => r.id === roomId) as RoomSummary | undefined;
+  if (!room) return; // removed while the heartbeat was in flight
+  const rv = (c.vars as LobbyVars).reconcile;
+  rv.roomsChecked += 1;
+
+  if (!heartbeat) {
+    rv.heartbeatFailures += 1;
+    rv.misses[roomId] = (rv.misses[roomId] ?? 0) + 1;
+    if (rv.misses[roomId] >= HEARTBEAT_MAX_MISSES) {
+      console.log(`[lobby] Dropping ${roomId}: no heartbeat`);
+      rv.roomsDropped += 1;
+      dropRoom(c, roomId);
+    }
+    return;
+  }
+  delete rv.misses[roomId];
+
+  if (heartbeat.status === "finished") {
+    rv.roomsDropped += 1;
+    dropRoom(c, roomId);
+    return;
+  }
+
+  // A crashed room that the check woke back up reports nobody in it
+  const reserved = ((c.vars as LobbyVars).reservedUntil[roomId] ?? 0) > now;
+  if (heartbeat.playerCount === 0 && heartbeat.connections === 0 && !reserved) {
+    rv.emptySince[roomId] ??= now;
+    if (now - rv.emptySince[roomId] >= EMPTY_ROOM_GRACE) {
+      console.log(`[lobby] Dropping ${roomId}: empty for ${EMPTY_ROOM_GRACE / 1000}s`);
+      rv.roomsDropped += 1;
+      dropRoom(c, roomId);
+      return;
+    }
+  } else {
+    delete rv.emptySince[roomId];
+  }
+
+  if (heartbeat.playerCount !== room.playerCount || heartbeat.status !== room.status) {
+    rv.countsCorrected += 1;
+    applyRoomPatch(c, room, { playerCount: heartbeat.playerCount, status: heartbeat.status });
+  }
+}
+
+/**
+ * Check every registered room against its actor. Rooms normally keep the
+ * directory current themselves, but one that crashes or is evicted never
+ * says goodbye; this catches those and any player counts that drifted.
+ */
+async function reconcileRooms(c: any): Promise<void> {
+  const rv = (c.vars as LobbyVars).reconcile;
+  if (rv.running) return;
+  rv.running = true;
+  const started = Date.now();
+  try {
+    const roomIds = (c.state.rooms as RoomSummary[]).map((r) => r.id);
+    const heartbeats = await Promise.all(
+      (c.state.rooms as RoomSummary[]).map((room) => probeRoom(c, room)),
+    );
+    if (c.aborted) return;
+    const now = Date.now();
+    roomIds.forEach((roomId, i) => applyHeartbeat(c, roomId, heartbeats[i], now));
+    rv.lastAt = now;
+    rv.lastMs = now - started;
+  } catch (e) {
+    console.error("[lobby] Reconciliation failed:", e);
+  } finally {
+    rv.running = false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Actor definition
+// ---------------------------------------------------------------------------
 
 export const lobby = actor({
   state: { rooms: [] as RoomSummary[] } satisfies LobbyState,
 
+  createVars: (): LobbyVars => ({
+    queue: [],
+    reservedUntil: {},
+    reconcile: {
+      running: false,
+      startedAt: Date.now(),
+      misses: {},
+      emptySince: {},
+      lastAt: null,
+      lastMs: null,
+      roomsChecked: 0,
+      roomsDropped: 0,
+      countsCorrected: 0,
+      heartbeatFailures: 0,
+    },
+  }),
+
   run: async (c: any) => {
+    let lastSweep = Date.now();
+    let lastReconcile = Date.now();
     while (!c.aborted) {
-      await new Promise((r) => setTimeout(r, SWEEP_INTERVAL));
-      const now = Date.now();
-      const before = c.state.rooms.length;
-      c.state.rooms = c.state.rooms.filter((room: RoomSummary) => {
-        if (room.playerCount === 0 && now - room.createdAt > ROOM_TTL) {
-          c.broadcast("roomRemoved", { roomId: room.id });
-          return false;
-        }
-        return true;
-      });
-      if (c.state.rooms.length !== before) {
-        console.log(`[lobby] Swept ${before - c.state.rooms.length} stale rooms`);
+      await new Promise((r) => setTimeout(r, MATCHMAKING_TICK_INTERVAL));
+      matchmakingTick(c);
+      if (Date.now() - lastReconcile >= RECONCILE_INTERVAL) {
+        lastReconcile = Date.now();
+        // Not awaited: slow rooms mustn't hold up matchmaking
+        reconcileRooms(c);
+      }
+      if (Date.now() - lastSweep >= SWEEP_INTERVAL) {
+        lastSweep = Date.now();
+        sweepStaleRooms(c);
       }
     }
   },
 
   events: {
     roomCreated: event<{ room: RoomSummary }>(),
-    roomUpdated: event<{ roomId: string; patch: Partial<RoomSummary> }>(),
+    roomUpdated: event<RoomUpdatedEvent>(),
     roomRemoved: event<{ roomId: string }>(),
+    // Sent only to the queued connection
+    matchFound: event<MatchFoundEvent>(),
+    queueStatus: event<QueueStatusEvent>(),
   },
 
   onBeforeConnect: (c: any) => {
@@ -46,36 +521,125 @@ export const lobby = actor({
     }
   },
 
+  onDisconnect: (c: any, conn: any) => {
+    const queue = (c.vars as LobbyVars).queue;
+    const i = queue.findIndex((t) => t.connId === conn.id);
+    if (i >= 0) queue.splice(i, 1);
+  },
+
   actions: {
-    listRooms: (c: any): RoomSummary[] => c.state.rooms,
+    /** One page of public rooms matching `query`, newest first by default */
+    listRooms: (c: any, query?: RoomListQuery): RoomListPage => {
+      const q = normalizeRoomQuery(query);
+      const matching = (c.state.rooms as RoomSummary[])
+        .filter((room) => isListed(room) && matchesRoomQuery(room, q))
+        .sort(compareRooms(q.sort));
+      return {
+        rooms: matching.slice(q.offset, q.offset + q.limit),
+        total: matching.length,
+        offset: q.offset,
+        limit: q.limit,
+      };
+    },
+
+    /** Round trip for the lobby page's latency readout */
+    ping: (): number => Date.now(),
 
-    createRoom: (c: any, name: string, game?: string): CreateRoomResult => {
+    /**
+     * Create a room. Private rooms are only reachable through their invite
+     * code. The room actor is created here with its listing, so it can
+     * register again on the same terms if the lobby ever drops it, and a
+     * race room with a password gets the password's hash, which it checks
+     * players against when they connect.
+     */
+    createRoom: async (
+      c: any,
+      name: string,
+      game?: string,
+      options?: CreateRoomOptions,
+    ): Promise<CreateRoomResult> => {
       if (c.state.rooms.length >= MAX_ROOMS) {
         return { success: false, message: "Too many active rooms" };
       }
-      const gameType = (game === "race" ? "race" : "bump") as "bump" | "race";
+      const gameType = coerceGame(game);
       const defaultName = gameType === "race" ? "Race Room" : "Soccer Match";
       const safeName = (typeof name === "string" ? name : "").trim().slice(0, MAX_ROOM_NAME_LEN) || defaultName;
-      const roomId = `room_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+      const password =
+        gameType === "race" && typeof options?.password === "string"
+          ? options.password.slice(0, MAX_ROOM_PASSWORD_LEN)
+          : "";
+      const roomId = newRoomId();
+      const listing: RoomListing = {
+        visibility: options?.visibility === "private" ? "private" : "public",
+        inviteCode: newInviteCode(c),
+      };
+      try {
+        const passwordHash = password ? await hashRoomPassword(password) : undefined;
+        await c
+          .getActor({
+            name: gameType === "race" ? "raceRoom" : "gameRoom",
+            key: [roomId],
+            createWithInput: { internalKey: internalKey(), listing, passwordHash },
+          })
+          .heartbeat();
+      } catch (e) {
+        console.error("[lobby] Failed to create room:", e);
+        return { success: false, message: "Couldn't create the room" };
+      }
+      // Creating the room yields, so the room count or codes in use may have moved
+      if (c.state.rooms.length >= MAX_ROOMS) {
+        return { success: false, message: "Too many active rooms" };
+      }
+      if (c.state.rooms.some((r: RoomSummary) => r.inviteCode === listing.inviteCode)) {
+        return { success: false, message: "Couldn't create the room" };
+      }
       const room: RoomSummary = {
         id: roomId,
         name: safeName,
         game: gameType,
         playerCount: 0,
-        maxPlayers: gameType === "race" ? 4 : MAX_PLAYERS,
+        maxPlayers: maxPlayersFor(gameType),
         status: "waiting",
         createdAt: Date.now(),
+        ...listing,
+        hasPassword: password.length > 0,
+      };
+      addRoom(c, room);
+      return { success: true, roomId, inviteCode: room.inviteCode };
+    },
+
+    /** Find the room behind an invite code, public or private */
+    resolveInvite: (c: any, code: string): InviteLookupResult => {
+      const normalized = normalizeInviteCode(code);
+      const room = normalized
+        ? c.state.rooms.find((r: RoomSummary) => r.inviteCode === normalized)
+        : undefined;
+      if (!room) return { success: false, message: "No room with that code" };
+      return {
+        success: true,
+        roomId: room.id,
+        name: room.name,
+        game: room.game ?? "bump",
+        hasPassword: !!room.hasPassword,
       };
-      c.state.rooms.push(room);
-      c.broadcast("roomCreated", { room });
-      return { success: true, roomId };
     },
 
-    registerRoom: (c: any, roomId: string, name: string, game?: string): void => {
+    /**
+     * A room that finds itself missing from the directory adds itself back.
+     * Rooms the lobby created pass their listing, so a private room stays
+     * private and keeps its invite code while no other room has taken it.
+     */
+    registerRoom: (
+      c: any,
+      roomId: string,
+      name: string,
+      game?: string,
+      listing?: Partial<RoomListing>,
+    ): void => {
       const existing = c.state.rooms.find((r: RoomSummary) => r.id === roomId);
       if (existing) return;
       if (c.state.rooms.length >= MAX_ROOMS) return;
-      const gameType = (game === "race" ? "race" : "bump") as "bump" | "race";
+      const gameType = coerceGame(game);
       const defaultName = gameType === "race" ? "Race Room" : "Soccer Match";
       const safeName = (typeof name === "string" ? name : "").trim().slice(0, MAX_ROOM_NAME_LEN) || defaultName;
       const room: RoomSummary = {
@@ -83,45 +647,95 @@ export const lobby = actor({
         name: safeName,
         game: gameType,
         playerCount: 0,
-        maxPlayers: gameType === "race" ? 4 : MAX_PLAYERS,
+        maxPlayers: maxPlayersFor(gameType),
         status: "waiting",
         createdAt: Date.now(),
+        visibility: listing?.visibility === "private" ? "private" : "public",
+        inviteCode: reclaimInviteCode(c, listing?.inviteCode),
+        hasPassword: gameType === "race" && listing?.hasPassword === true,
       };
-      c.state.rooms.push(room);
-      c.broadcast("roomCreated", { room });
+      addRoom(c, room);
     },
 
+    /** Rooms report changes here; listeners get only the fields that changed */
     updateRoom: (
       c: any,
       roomId: string,
       patch: Record<string, unknown>,
     ): void => {
       const room = c.state.rooms.find((r: RoomSummary) => r.id === roomId);
-      if (!room) return;
-      if (typeof patch.playerCount === "number" && patch.playerCount >= 0 && patch.playerCount <= room.maxPlayers) {
-        room.playerCount = patch.playerCount;
-      }
-      if (patch.status === "waiting" || patch.status === "playing") {
-        room.status = patch.status;
-      }
-      c.broadcast("roomUpdated", { roomId, patch: { playerCount: room.playerCount, status: room.status } });
+      if (room) applyRoomPatch(c, room, patch);
     },
 
     removeRoom: (c: any, roomId: string): void => {
-      c.state.rooms = c.state.rooms.filter(
-        (r: RoomSummary) => r.id !== roomId,
-      );
-      c.broadcast("roomRemoved", { roomId });
+      dropRoom(c, roomId);
+    },
+
+    /** Directory, queue and reconciliation counters for monitoring */
+    getHealth: (c: any): LobbyHealth => {
+      const vars = c.vars as LobbyVars;
+      const now = Date.now();
+      return {
+        rooms: c.state.rooms.length,
+        listedRooms: c.state.rooms.filter(isListed).length,
+        queuedTickets: vars.queue.length,
+        reservedRooms: Object.values(vars.reservedUntil).filter((until) => until > now).length,
+        uptimeMs: now - vars.reconcile.startedAt,
+        lastReconcileAt: vars.reconcile.lastAt,
+        lastReconcileMs: vars.reconcile.lastMs,
+        roomsChecked: vars.reconcile.roomsChecked,
+        roomsDropped: vars.reconcile.roomsDropped,
+        countsCorrected: vars.reconcile.countsCorrected,
+        heartbeatFailures: vars.reconcile.heartbeatFailures,
+      };
+    },
+
+    /**
+     * Join the matchmaking queue for `game` at the player's stored rating.
+     * The run loop groups players of similar rating, widening the accepted
+     * gap the longer they wait, and sends `matchFound` with the room to join.
+     * A party leader queues with the party's size so the group is matched
+     * into a room with seats for all of them. `playerToken` is the key of
+     * the player's profile, which holds their rating.
+     */
+    enqueue: (
+      c: any,
+      playerName: string,
+      game?: string,
+      partySize?: number,
+      playerToken?: string,
+    ): ActionResult => {
+      const connId = c.conn?.id;
+      if (!connId) return { success: false, message: "Not connected" };
+      const queue = (c.vars as LobbyVars).queue;
+      const existing = queue.findIndex((t) => t.connId === connId);
+      if (existing >= 0) queue.splice(existing, 1);
+
+      const gameType = coerceGame(game);
+      const size = Math.round(Number(partySize));
+      const ticket: QueuedTicket = {
+        connId,
+        playerName: sanitizeName(playerName),
+        rating: DEFAULT_PLAYER_RATING,
+        game: gameType,
+        enqueuedAt: Date.now(),
+        partySize: Number.isFinite(size) ? Math.max(1, Math.min(maxPlayersFor(gameType), size)) : 1,
+        rated: false,
+      };
+      queue.push(ticket);
+      loadTicketRating(c, ticket, playerToken);
+      return { success: true };
+    },
+
+    leaveQueue: (c: any): void => {
+      const queue = (c.vars as LobbyVars).queue;
+      const i = queue.findIndex((t) => t.connId === c.conn?.id);
+      if (i >= 0) queue.splice(i, 1);
     },
 
     findOrCreateRoom: (c: any, game?: string): CreateRoomResult => {
-      const gameType = (game === "race" ? "race" : "bump") as "bump" | "race";
-      const available = c.state.rooms.find(
-        (r: RoomSummary) =>
-          r.status === "waiting" &&
-          r.playerCount < r.maxPlayers &&
-          (r.game ?? "bump") === gameType,
-      );
+      const gameType = coerceGame(game);
+      const available = findOpenRoom(c, gameType);
       if (available) {
         return { success: true, roomId: available.id };
       }
@@ -129,18 +743,18 @@ export const lobby = actor({
         return { success: false, message: "Too many active rooms" };
       }
       const defaultName = gameType === "race" ? "Quick Race" : "Quick Match";
-      const roomId = `room_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+      const roomId = newRoomId();
       const room: RoomSummary = {
         id: roomId,
         name: defaultName,
         game: gameType,
         playerCount: 0,
-        maxPlayers: gameType === "race" ? 4 : MAX_PLAYERS,
+        maxPlayers: maxPlayersFor(gameType),
         status: "waiting",
         createdAt: Date.now(),
+        inviteCode: newInviteCode(c),
       };
-      c.state.rooms.push(room);
-      c.broadcast("roomCreated", { room });
+      addRoom(c, room);
       return { success: true, roomId };
     },
   },
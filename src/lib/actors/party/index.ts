@@ -0,0 +1 @@
+export { party } from "./party.actor.js";
@@ -0,0 +1,275 @@
+/**
+ * party actor — friends who race together.
+ *
+ * Keyed by [partyId], a random ID picked by whoever starts the party.
+ * Members are stored by public profile ID rather than by connection, so a
+ * member stays in the party while their pages come and go between the lobby
+ * and race rooms; presence is just whether they're connected right now.
+ * The leader shares the invite token, kicks members, and moves the whole
+ * party into a race room.
+ */
+
+import { UserError, actor, event } from "rivetkit";
+import {
+  ALLOWED_ORIGINS,
+  PARTY_MAX_SIZE,
+  sanitizeName,
+  type PartyJoinResult,
+  type PartyKickedEvent,
+  type PartyMember,
+  type PartyMovedEvent,
+  type PartySnapshot,
+  type PartyUpdatedEvent,
+  type PlayerProfile,
+} from "../../racing/types.js";
+import { coerceRaceCarId } from "../../racing/car-catalog.js";
+import { isPlayerToken } from "../../racing/identity.js";
+import type { ActionResult } from "../../game/types.js";
+
+/** Kicked members are remembered so an old invite link can't bring them back */
+const MAX_BANNED = 50;
+
+interface ConnParams {
+  playerToken?: string;
+}
+
+interface ConnState {
+  memberId: string;
+  name: string;
+  carId: string;
+}
+
+interface PartyState {
+  id: string;
+  leaderId: string | null;
+  members: PartyMember[];
+  /** Must be presented to join; only the leader can read it */
+  inviteToken: string;
+  banned: string[];
+  roomId: string | null;
+  createdAt: number;
+}
+
+function newInviteToken(): string {
+  return Math.random().toString(36).slice(2, 10) + Math.random().toString(36).slice(2, 10);
+}
+
+function callerId(c: any): string | null {
+  return (c.conn?.state as ConnState | undefined)?.memberId ?? null;
+}
+
+function isLeader(c: any): boolean {
+  const id = callerId(c);
+  return id !== null && id === (c.state as PartyState).leaderId;
+}
+
+function onlineIds(c: any): Set<string> {
+  const ids = new Set<string>();
+  for (const conn of c.conns.values()) {
+    const id = (conn.state as ConnState | undefined)?.memberId;
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+function snapshot(c: any): PartySnapshot {
+  const state = c.state as PartyState;
+  const online = onlineIds(c);
+  return {
+    id: state.id,
+    leaderId: state.leaderId,
+    members: state.members.map((m) => ({ ...m, online: online.has(m.id) })),
+    roomId: state.roomId,
+  };
+}
+
+function broadcastParty(c: any): void {
+  const event: PartyUpdatedEvent = { party: snapshot(c) };
+  c.broadcast("partyUpdated", event);
+}
+
+function sendToMember(c: any, memberId: string, name: string, data: unknown, skip?: any): void {
+  for (const conn of c.conns.values()) {
+    if (conn === skip) continue;
+    if ((conn.state as ConnState | undefined)?.memberId === memberId) conn.send(name, data);
+  }
+}
+
+/**
+ * Take a member out. A departing leader hands over to the longest-standing
+ * member who is online, or failing that to whoever joined first. The last
+ * one out resets the party so its ID can be reused from scratch.
+ */
+function removeMember(c: any, memberId: string): void {
+  const state = c.state as PartyState;
+  state.members = state.members.filter((m) => m.id !== memberId);
+  if (state.members.length === 0) {
+    state.leaderId = null;
+    state.roomId = null;
+    state.inviteToken = newInviteToken();
+    return;
+  }
+  if (state.leaderId === memberId) {
+    const online = onlineIds(c);
+    state.leaderId = (state.members.find((m) => online.has(m.id)) ?? state.members[0]).id;
+  }
+}
+
+export const party = actor({
+  createState: (c: any): PartyState => ({
+    id: c.key?.[0] ?? `party_${Date.now().toString(36)}`,
+    leaderId: null,
+    members: [],
+    inviteToken: newInviteToken(),
+    banned: [],
+    roomId: null,
+    createdAt: Date.now(),
+  }),
+
+  events: {
+    partyUpdated: event<PartyUpdatedEvent>(),
+    // Sent only to members' connections
+    partyMoved: event<PartyMovedEvent>(),
+    partyKicked: event<PartyKickedEvent>(),
+  },
+
+  onBeforeConnect: (c: any) => {
+    const origin = c.request?.headers.get("origin") ?? "";
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+      throw new Error("Origin not allowed");
+    }
+  },
+
+  /** Parties track people, so every connection needs a player profile */
+  createConnState: async (c: any, params: ConnParams): Promise<ConnState> => {
+    if (!isPlayerToken(params?.playerToken)) {
+      throw new UserError("Parties need a player profile", { code: "profile_required" });
+    }
+    let profile: PlayerProfile;
+    try {
+      profile = (await c
+        .getActor({ name: "player", key: [params.playerToken] })
+        .getProfile()) as PlayerProfile;
+    } catch (e) {
+      console.error("[party] Failed to load player profile:", e);
+      throw new UserError("Couldn't load your profile", { code: "profile_unavailable" });
+    }
+    return {
+      memberId: profile.id,
+      name: sanitizeName(profile.displayName),
+      carId: coerceRaceCarId(profile.carId),
+    };
+  },
+
+  onConnect: (c: any, conn: any) => {
+    // Pick up name and car changes made since the member last connected
+    const cs = conn.state as ConnState;
+    const member = (c.state as PartyState).members.find((m) => m.id === cs.memberId);
+    if (member) {
+      member.name = cs.name;
+      member.carId = coerceRaceCarId(cs.carId);
+      broadcastParty(c);
+    }
+  },
+
+  onDisconnect: (c: any, conn: any) => {
+    const cs = conn.state as ConnState | undefined;
+    if (cs && (c.state as PartyState).members.some((m) => m.id === cs.memberId)) {
+      broadcastParty(c);
+    }
+  },
+
+  actions: {
+    getParty: (c: any): PartySnapshot => snapshot(c),
+
+    /**
+     * Join with the leader's invite token. Whoever joins an empty party
+     * becomes its leader and needs no token; members calling again just
+     * refresh their entry.
+     */
+    join: (c: any, inviteToken?: string): PartyJoinResult => {
+      const state = c.state as PartyState;
+      const cs = c.conn?.state as ConnState | undefined;
+      if (!cs) return { success: false, message: "Not connected" };
+
+      const existing = state.members.find((m) => m.id === cs.memberId);
+      if (existing) {
+        return { success: true, memberId: cs.memberId };
+      }
+      if (state.banned.includes(cs.memberId)) {
+        return { success: false, message: "You were removed from this party" };
+      }
+      if (state.members.length > 0 && inviteToken !== state.inviteToken) {
+        return { success: false, message: "That party invite has expired" };
+      }
+      if (state.members.length >= PARTY_MAX_SIZE) {
+        return { success: false, message: "Party is full" };
+      }
+
+      state.members.push({
+        id: cs.memberId,
+        name: cs.name,
+        carId: coerceRaceCarId(cs.carId),
+        joinedAt: Date.now(),
+      });
+      state.leaderId ??= cs.memberId;
+      broadcastParty(c);
+      return { success: true, memberId: cs.memberId };
+    },
+
+    /**
+     * The token to put in an invite link (leader only). `renew` replaces it,
+     * so links already handed out stop working.
+     */
+    invite: (c: any, renew?: boolean): string | null => {
+      if (!isLeader(c)) return null;
+      const state = c.state as PartyState;
+      if (renew) state.inviteToken = newInviteToken();
+      return state.inviteToken;
+    },
+
+    leave: (c: any): void => {
+      const id = callerId(c);
+      if (!id || !(c.state as PartyState).members.some((m) => m.id === id)) return;
+      removeMember(c, id);
+      broadcastParty(c);
+    },
+
+    kick: (c: any, memberId: string): ActionResult => {
+      const state = c.state as PartyState;
+      if (!isLeader(c)) return { success: false, message: "Only the party leader can kick" };
+      if (memberId === state.leaderId) return { success: false, message: "Can't kick yourself" };
+      if (!state.members.some((m) => m.id === memberId)) {
+        return { success: false, message: "Not in this party" };
+      }
+
+      removeMember(c, memberId);
+      state.banned = [...state.banned.filter((id) => id !== memberId), memberId].slice(-MAX_BANNED);
+      const kicked: PartyKickedEvent = { partyId: state.id };
+      sendToMember(c, memberId, "partyKicked", kicked);
+      broadcastParty(c);
+      return { success: true };
+    },
+
+    /**
+     * Leader only: send every member to `roomId`. The password, if the room
+     * has one, goes to members' connections and is never broadcast.
+     */
+    moveTo: (c: any, roomId: string, password?: string): ActionResult => {
+      const state = c.state as PartyState;
+      if (!isLeader(c)) return { success: false, message: "Only the party leader can move the party" };
+      if (typeof roomId !== "string" || !roomId || roomId.length > 80) {
+        return { success: false, message: "Invalid room" };
+      }
+
+      state.roomId = roomId;
+      const moved: PartyMovedEvent = { roomId };
+      if (typeof password === "string" && password) moved.password = password.slice(0, 80);
+      for (const member of state.members) {
+        sendToMember(c, member.id, "partyMoved", moved, c.conn);
+      }
+      broadcastParty(c);
+      return { success: true };
+    },
+  },
+});
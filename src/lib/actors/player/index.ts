@@ -0,0 +1 @@
+export { player } from "./player.actor.js";
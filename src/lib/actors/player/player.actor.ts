@@ -0,0 +1,166 @@
+/**
+ * player actor — one player's persistent profile.
+ *
+ * Keyed by [token], the private identity token the browser keeps in
+ * localStorage. Holds the display name, preferred car and accent, career
+ * totals and recent races. Race rooms read it when the player connects and
+ * report every finished race back to it.
+ */
+
+import { actor, event } from "rivetkit";
+import {
+  ALLOWED_ORIGINS,
+  PLAYER_RECENT_RACES,
+  RACE_DEFAULT_SPEED_CLASS,
+  SPEED_CLASS_MULTIPLIERS,
+  sanitizeName,
+  type PlayerProfile,
+  type PlayerProfilePatch,
+  type PlayerRaceRecord,
+  type PlayerRaceReport,
+  type ProfileUpdatedEvent,
+  type TrackId,
+} from "../../racing/types.js";
+import {
+  DEFAULT_RACE_CAR_ID,
+  PLAYER_ACCENT_COLORS,
+  coerceRaceCarId,
+} from "../../racing/car-catalog.js";
+import { listTrackIds } from "../../racing/track.js";
+import { assertInternalCall } from "../internal.js";
+
+function nonNegative(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function positiveOrNull(value: unknown): number | null {
+  const n = Number(value);
+  return value !== null && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function coerceAccentIndex(value: unknown): number | null {
+  const n = Number(value);
+  return value !== null && Number.isInteger(n) && n >= 0 && n < PLAYER_ACCENT_COLORS.length
+    ? n
+    : null;
+}
+
+/** Validate a room's report; null if it can't be a real race result */
+function cleanRaceReport(report: PlayerRaceReport): PlayerRaceReport | null {
+  const r = report?.record;
+  if (!r || typeof r.raceId !== "string" || !r.raceId) return null;
+  if (!listTrackIds().includes(r.trackId as TrackId)) return null;
+  const place = Number(r.place);
+  return {
+    record: {
+      raceId: r.raceId.slice(0, 80),
+      roomId: String(r.roomId ?? "").slice(0, 80),
+      trackId: r.trackId,
+      mode: r.mode === "timeTrial" ? "timeTrial" : "race",
+      speedClass: r.speedClass in SPEED_CLASS_MULTIPLIERS ? r.speedClass : RACE_DEFAULT_SPEED_CLASS,
+      lapCount: Math.max(1, Math.round(nonNegative(r.lapCount))),
+      carId: coerceRaceCarId(r.carId),
+      place: Number.isInteger(place) && place >= 1 ? place : null,
+      racers: Math.max(1, Math.round(nonNegative(r.racers))),
+      finishTime: positiveOrNull(r.finishTime),
+      bestLapTime: positiveOrNull(r.bestLapTime),
+    },
+    stats: {
+      itemsUsed: nonNegative(report.stats?.itemsUsed),
+      hitsDealt: nonNegative(report.stats?.hitsDealt),
+      hitsTaken: nonNegative(report.stats?.hitsTaken),
+      driftBoosts: nonNegative(report.stats?.driftBoosts),
+      topSpeed: nonNegative(report.stats?.topSpeed),
+    },
+  };
+}
+
+export const player = actor({
+  createState: (): PlayerProfile => {
+    const now = Date.now();
+    return {
+      id: `p_${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      displayName: `Racer_${Math.random().toString(36).slice(2, 5)}`,
+      carId: DEFAULT_RACE_CAR_ID,
+      accentIndex: null,
+      createdAt: now,
+      lastSeenAt: now,
+      career: {
+        races: 0,
+        wins: 0,
+        podiums: 0,
+        finishes: 0,
+        itemsUsed: 0,
+        hitsDealt: 0,
+        hitsTaken: 0,
+        driftBoosts: 0,
+        topSpeed: 0,
+        bestLaps: {},
+      },
+      recentRaces: [],
+    };
+  },
+
+  events: {
+    profileUpdated: event<ProfileUpdatedEvent>(),
+  },
+
+  onBeforeConnect: (c: any) => {
+    const origin = c.request?.headers.get("origin") ?? "";
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+      throw new Error("Origin not allowed");
+    }
+  },
+
+  actions: {
+    getProfile: (c: any): PlayerProfile => {
+      const profile = c.state as PlayerProfile;
+      profile.lastSeenAt = Date.now();
+      return profile;
+    },
+
+    /** Change the name, preferred car or accent; omitted fields are kept */
+    updateProfile: (c: any, patch: PlayerProfilePatch): PlayerProfile => {
+      const profile = c.state as PlayerProfile;
+      if (patch?.displayName !== undefined) profile.displayName = sanitizeName(patch.displayName);
+      if (patch?.carId !== undefined) profile.carId = coerceRaceCarId(patch.carId);
+      if (patch?.accentIndex !== undefined) profile.accentIndex = coerceAccentIndex(patch.accentIndex);
+      profile.lastSeenAt = Date.now();
+
+      c.broadcast("profileUpdated", { profile });
+      return profile;
+    },
+
+    /** Called by a race room once per finished race */
+    recordRace: (c: any, key: string, report: PlayerRaceReport): boolean => {
+      assertInternalCall(key);
+      const profile = c.state as PlayerProfile;
+      const cleaned = cleanRaceReport(report);
+      if (!cleaned) return false;
+      const { record, stats } = cleaned;
+      if (profile.recentRaces.some((r) => r.raceId === record.raceId)) return false;
+
+      const career = profile.career;
+      career.races += 1;
+      if (record.place === 1 && record.racers > 1) career.wins += 1;
+      if (record.place !== null && record.place <= 3 && record.racers > 1) career.podiums += 1;
+      if (record.finishTime !== null) career.finishes += 1;
+      career.itemsUsed += stats.itemsUsed;
+      career.hitsDealt += stats.hitsDealt;
+      career.hitsTaken += stats.hitsTaken;
+      career.driftBoosts += stats.driftBoosts;
+      career.topSpeed = Math.max(career.topSpeed, stats.topSpeed);
+      const bestLap = career.bestLaps[record.trackId];
+      if (record.bestLapTime !== null && (bestLap === undefined || record.bestLapTime < bestLap)) {
+        career.bestLaps[record.trackId] = record.bestLapTime;
+      }
+
+      const entry: PlayerRaceRecord = { ...record, recordedAt: Date.now() };
+      profile.recentRaces = [entry, ...profile.recentRaces].slice(0, PLAYER_RECENT_RACES);
+
+      c.broadcast("profileUpdated", { profile });
+      return true;
+    },
+  },
+});
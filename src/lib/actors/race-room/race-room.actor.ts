@@ -1,218 +1,193 @@
 /**
  * raceRoom actor — server-authoritative Mario Kart-style racing.
  *
- * Closed-loop track with kart physics, drift boost, items (shells, bananas,
- * mushrooms, star, lightning, blue shell), checkpoint-based lap tracking,
- * and position ranking. Delta-time physics at ~60Hz.
- *
- * Enhanced with: rocket start, hitstop, slipstream/drafting, improved turn
- * curve, snap steering, drift tier events, drift release grace, ready state,
- * rematch system, spectator mode, race stats, improved rubber-banding,
- * hit immunity, and elevation-aware physics.
+ * Owns connections, player identity, ready/rematch flow, CPU bots,
+ * time-trial ghosts, cups, tournament heats, lobby bookkeeping, and
+ * leaderboard, rating and profile reports. The race itself (kart
+ * physics, items, checkpoints, ranking) lives in the deterministic
+ * RaceSimulation; the run loop just feeds it the latest
+ * per-player (or per-bot) input on a ~60Hz wall-clock tick and sends
+ * delta-encoded snapshots at 20Hz.
  */
 
-import { actor, event } from "rivetkit";
+import { UserError, actor, event } from "rivetkit";
 import {
   ALLOWED_ORIGINS,
-  BOOST_PAD_DURATION,
-  BOOST_PAD_SPEED,
-  BANANA_RADIUS,
-  DRIFT_BOOST_DURATIONS,
-  DRIFT_BOOST_SPEEDS,
-  DRIFT_CHARGE_THRESHOLDS,
-  DRIFT_TURN_MULTIPLIER,
-  GREEN_SHELL_MAX_BOUNCES,
-  ITEM_BOX_RESPAWN_TIME,
-  ITEM_PROBABILITIES,
-  KART_ACCELERATION,
-  KART_BRAKE_FORCE,
-  KART_COLLISION_PUSH,
-  KART_DRAG,
-  KART_MAX_SPEED,
-  KART_RADIUS,
-  KART_REVERSE_ACCEL,
-  KART_REVERSE_MAX,
-  KART_TURN_RATE,
-  LIGHTNING_SHRINK_DURATION,
-  MIN_DRIFT_SPEED,
-  MUSHROOM_BOOST_DURATION,
-  MUSHROOM_BOOST_SPEED,
-  NUM_CHECKPOINTS,
-  OFF_ROAD_SPEED_MULT,
-  OFF_ROAD_BOUNDARY,
-  OUT_OF_BOUNDS_BOUNDARY,
-  PRE_RACE_COUNTDOWN,
-  PROJECTILE_MAX_AGE,
-  RACE_FINISH_DISPLAY,
+  CUP_INTERMISSION,
+  CUP_MAX_RACES,
+  CUP_MIN_RACES,
+  DEFAULT_ITEM_WEIGHTS,
+  ITEM_WEIGHT_MAX,
+  RACE_DEFAULT_SPEED_CLASS,
   RACE_LAP_COUNT,
+  RACE_MAX_LAPS,
   RACE_MAX_PLAYERS,
+  RACE_MIN_LAPS,
+  RACE_REJOIN_GRACE,
+  RACE_REPLAY_HISTORY,
   RACE_SERVER_TICK_INTERVAL,
   RACE_SNAPSHOT_INTERVAL,
-  RACE_TIME_LIMIT,
-  SHELL_RADIUS,
-  SHELL_SPEED,
-  SHRUNK_SPEED_PENALTY,
-  SPIN_DURATION,
-  STAR_DURATION,
-  STAR_SPEED_BONUS,
+  SPEED_CLASS_MULTIPLIERS,
   sanitizeName,
-  plainVec3,
-  vec3Zero,
-  vec3Distance2D,
-  // New constants
-  ROCKET_START_WINDOW,
-  ROCKET_START_PERFECT_SPEED,
-  ROCKET_START_PERFECT_DURATION,
-  ROCKET_START_GOOD_SPEED,
-  ROCKET_START_GOOD_DURATION,
-  ROCKET_START_OK_SPEED,
-  ROCKET_START_OK_DURATION,
-  ROCKET_START_STALL_DURATION,
-  ROCKET_START_STALL_MAX_SPEED,
-  HITSTOP_FRAMES,
-  SLIPSTREAM_CONE_ANGLE,
-  SLIPSTREAM_CONE_LENGTH,
-  SLIPSTREAM_CHARGE_TICKS,
-  SLIPSTREAM_BONUS,
-  SLIPSTREAM_DURATION_TICKS,
-  SLIPSTREAM_DECAY_TICKS,
-  TURN_CURVE_EXPONENT,
-  TURN_HIGH_SPEED_REDUCTION,
-  COUNTER_STEER_BONUS,
-  SNAP_STEERING_FRAMES,
-  SNAP_STEERING_MULT,
-  HIT_IMMUNITY_TICKS,
-  BLUE_SHELL_GAP_THRESHOLD,
-  // Grip-budget / slip angle
-  SLIP_ANGLE_BUILDUP,
-  SLIP_ANGLE_RECOVERY,
-  SLIP_ANGLE_MAX,
-  GRIP_LOSS_AT_MAX_SLIP,
-  LATERAL_PUSH_STRENGTH,
-  DRIFT_SLIP_FLOOR,
-  // Surface types
-  SURFACE_GRIP,
-  SURFACE_DRAG,
-  SURFACE_DRIFT_CHARGE_MULT,
-  DUST_CARRYOVER_TICKS,
-  DUST_CARRYOVER_GRIP_PENALTY,
-  // Compression / banking
-  CREST_GRIP_LOSS,
-  COMPRESSION_GRIP_GAIN,
-  LANDING_SCRUB_THRESHOLD,
-  LANDING_SCRUB_PENALTY,
-  LANDING_CLEAN_BONUS,
-  BANKING_GRIP_BONUS,
-  // Contact duel
-  SIDE_RUB_SCRUB_RATE,
-  REAR_TAP_DESTABILIZE,
-  WALL_SCRUB_SPEED_LOSS,
-  WALL_SCRUB_ANGLE_THRESHOLD,
-  MASS_ADVANTAGE_PUSH,
-  // Flow chain
-  FLOW_GAIN_DRIFT_RELEASE,
-  FLOW_GAIN_CLEAN_CORNER,
-  FLOW_GAIN_SLIPSTREAM,
-  FLOW_GAIN_BOOST_PAD,
-  FLOW_GAIN_ROCKET_START,
-  FLOW_DECAY_PER_TICK,
-  FLOW_DECAY_ON_HIT,
-  FLOW_DECAY_OFF_ROAD,
-  FLOW_MAX,
-  FLOW_SPEED_BONUS,
-  FLOW_TURN_BONUS,
-  FLOW_BOOST_EXTEND_MULT,
-  // Types
-  type SurfaceType,
-  type RaceStats,
-  type RocketStartTier,
-  type DriftCharge,
-  type DriftDirection,
-  type DriftState,
-  type HazardState,
-  type ItemBoxState,
+  type BotDifficulty,
+  type CheckpointSplitEvent,
+  type CupUpdatedEvent,
+  type DriftTierEvent,
+  type HostChangedEvent,
+  type ItemPickedUpEvent,
   type ItemType,
+  type ItemUsedEvent,
+  type KartDisconnectedEvent,
   type KartHitEvent,
   type KartInput,
   type KartJoinedEvent,
   type KartLeftEvent,
+  type KartReconnectedEvent,
   type KartState,
-  type KartStatus,
-  type ItemPickedUpEvent,
-  type ItemUsedEvent,
   type LapCompletedEvent,
-  type ProjectileState,
+  type LapGhostEvent,
+  type LeaderboardReport,
+  type PlayerProfile,
+  type PlayerRaceReport,
   type RaceFinishedEvent,
   type RaceJoinStateResult,
+  type RaceMode,
   type RacePhase,
   type RacePhaseChangedEvent,
+  type RaceReplay,
+  type RaceRoomSettings,
   type RaceRoomState,
+  type EncodedRaceSnapshot,
   type RaceSnapshot,
-  type Vec3,
-  type DriftTierEvent,
-  type SlipstreamEvent,
-  type RocketStartEvent,
+  type RaceToastEvent,
   type ReadyStateEvent,
   type RematchVoteEvent,
-  type RaceToastEvent,
+  type ReplaySavedEvent,
+  type RocketStartEvent,
+  type RoomSettingsChangedEvent,
+  type SlipstreamEvent,
+  type TournamentHeatInfo,
+  type TournamentHeatPresence,
+  type TournamentHeatReport,
   type TrackId,
 } from "../../racing/types.js";
-import { coerceRaceCarId } from "../../racing/car-catalog.js";
 import {
-  getTrack,
-  findNearestSegment,
-  getLateralOffset,
-  isOnRoad,
-  isInBoostZone,
-  getRespawnPosition,
-  sampleRoadHeight,
-  sampleRoadDistance,
-} from "../../racing/track.js";
+  ROOM_PASSWORD_LOCKED,
+  ROOM_PASSWORD_LOCKOUT_MS,
+  ROOM_PASSWORD_MAX_FAILURES,
+  ROOM_PASSWORD_REQUIRED,
+  ROOM_PASSWORD_WRONG,
+  type ActionResult,
+  type RatingReport,
+  type RatingsChangedEvent,
+  type RoomHeartbeat,
+  type RoomListing,
+} from "../../game/types.js";
+import {
+  CURATED_RACE_CARS,
+  PLAYER_ACCENT_COLORS,
+  coerceRaceCarId,
+} from "../../racing/car-catalog.js";
+import { isPlayerToken } from "../../racing/identity.js";
+import { randomSeed } from "../../racing/rng.js";
+import {
+  RaceSimulation,
+  generateItemBoxes,
+  idleKartInput,
+} from "../../racing/race-simulation.js";
+import { BotDriver, botName, isBotDifficulty } from "../../racing/bot-driver.js";
+import { GhostRecorder } from "../../racing/ghost.js";
+import { listTrackIds } from "../../racing/track.js";
+import {
+  cleanCupTracks,
+  createCup,
+  currentCupTrack,
+  isLastCupRace,
+  scoreCupRace,
+} from "../../racing/cup.js";
+import { ReplayRecorder } from "../../racing/replay.js";
+import { SnapshotEncoder } from "../../racing/snapshot-codec.js";
+import { assertInternalCall, internalKey, isInternalKey } from "../internal.js";
+import { verifyRoomPassword } from "../room-password.js";
 
 // ---------------------------------------------------------------------------
 // Connection types
 // ---------------------------------------------------------------------------
 
+/** Passed via `createWithInput` by whoever creates the room */
+interface RaceRoomInput {
+  mode?: RaceMode;
+  /** Only other actors know it; the fields below are refused without it */
+  internalKey?: string;
+  /** Set by the lobby for a room it lists, with the password's hash if it has one */
+  listing?: RoomListing;
+  passwordHash?: string;
+  /** Set by a tournament for one of its heats, with the organizer's track and laps */
+  heat?: TournamentHeatInfo;
+  heatSettings?: Partial<Pick<RaceRoomSettings, "trackId" | "lapCount">>;
+}
+
 interface ConnParams {
   playerName: string;
   carId: string;
+  /** Key of the player's profile actor; name and car fall back to the params without it */
+  playerToken?: string;
+  /** Per-tab token; reconnecting with it reclaims a kart held after a dropped connection */
+  rejoinToken?: string;
+  /** Required if the room was created with a password */
+  password?: string;
+  /** Join as a spectator even while the room is waiting (replay viewers) */
+  spectate?: boolean;
 }
 
 interface ConnState {
   playerId: string;
+  // Private: only used to report results back to the player actor
+  playerToken: string | null;
+  profileId: string | null;
+  rejoinToken: string | null;
   playerName: string;
   carId: string;
   accentIndex: number;
   input: KartInput;
   lastInputAt: number;
+  // Client prediction: newest input seq received / last one fed to the sim
+  inputSeq: number;
+  ackedInputSeq: number;
+  // Last snapshot tick the client decoded; deltas are built on it (-1: keyframe)
+  snapshotAck: number;
+  // Set by the `useItem` action, consumed by the next simulation tick
+  pendingItemUse: boolean;
   // Ready state
   ready: boolean;
   // Spectator mode
   spectator: boolean;
-  // Improved turn curve — counter-steer detection
-  lastSteerDirection: number;
-  // Snap steering
-  steerInputTicks: number;
-  prevSteerSign: number;
-  // Slipstream
-  slipstreamTicks: number;
-  slipstreamBonusTicks: number;
-  // Rocket start
-  accelerateHeldSince: number; // tick counter when throttle was first held during countdown; -1 if not held
-  rocketStartFired: boolean;
-  // Hit immunity
-  immunityTicks: number;
-  // Drift release grace
-  driftReleaseGraceTicks: number;
-  driftReleaseGraceCharge: DriftCharge;
-  // Hitstop pending data
-  hitstopPendingSpeed: number;
-  hitstopPendingDrift: boolean;
-  // Surface / grip-budget
-  dustCarryoverTicks: number;
-  prevElevation: number;
-  airborne: boolean;
-  prevSegIdx: number;
+}
+
+/** Persisted state: the shared race state plus this room's saved replays */
+interface RaceRoomActorState extends RaceRoomState {
+  replays: RaceReplay[];
+  /** Kart ID -> rejoin token of the tab driving it; never sent to clients */
+  rejoinTokens: Record<string, string>;
+  /** Karts whose ID is their driver's profile ID; only these are rated */
+  profileKarts?: Record<string, true>;
+  /** Hash of the password set when the lobby created the room (null: none) */
+  passwordHash?: string | null;
+  /** How the lobby lists the room, to register again the same way if it's dropped */
+  listing?: RoomListing | null;
+}
+
+interface RaceRoomVars {
+  sim: RaceSimulation;
+  /** Active while a race is in progress */
+  recorder: ReplayRecorder | null;
+  snapshotEncoder: SnapshotEncoder;
+  /** Drivers for the kart IDs in `state.bots`, created on first use */
+  botDrivers: Record<string, BotDriver>;
+  /** Time trials only: samples the racer's current lap */
+  ghostRecorder: GhostRecorder | null;
+  /** Client address -> when its recent wrong passwords were tried, oldest first */
+  passwordFailures: Record<string, number[]>;
 }
 
 // ---------------------------------------------------------------------------
@@ -224,241 +199,501 @@ function uid(): string {
   return `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
 }
 
-/** Create default drift state */
-function defaultDrift(): DriftState {
-  return { active: false, direction: 0, charge: 0, timer: 0 };
+/**
+ * Create the room's simulation. Simulation events are broadcast as-is; phase
+ * changes additionally stamp the wall clock and update the lobby listing.
+ */
+function createSimulation(c: any): RaceSimulation {
+  return new RaceSimulation({
+    state: c.state as RaceRoomState,
+    seed: randomSeed(),
+    emit: (name, payload) => {
+      c.broadcast(name, payload);
+      if (name === "lapCompleted") onTimeTrialLap(c, payload as LapCompletedEvent);
+      if (name === "raceFinished") {
+        reportLeaderboard(c);
+        reportRatings(c);
+        reportPlayerRaces(c);
+        scoreCup(c, payload as RaceFinishedEvent);
+        reportHeat(c, payload as RaceFinishedEvent);
+      }
+      if (name !== "phaseChanged") return;
+
+      const state = c.state as RaceRoomState;
+      state.phaseStartedAt = Date.now();
+      const phase = (payload as RacePhaseChangedEvent).phase;
+      if (phase === "racing" && state.mode === "timeTrial") {
+        (c.vars as RaceRoomVars).ghostRecorder = new GhostRecorder();
+      }
+      if (phase === "finished") {
+        notifyLobby(c, state.id, null);
+      } else {
+        notifyLobby(c, state.id, {
+          playerCount: getNonSpectatorCount(c),
+          status: phase === "waiting" ? "waiting" : "playing",
+        });
+      }
+    },
+  });
+}
+
+function getSim(c: any): RaceSimulation {
+  return (c.vars as RaceRoomVars).sim;
+}
+
+// ---------------------------------------------------------------------------
+// Replay recording
+// ---------------------------------------------------------------------------
+
+function startRecording(c: any): void {
+  const state = c.state as RaceRoomState;
+  const vars = c.vars as RaceRoomVars;
+
+  // Every bot starts the race with a new driver, so playback can rebuild it from its seed
+  const botSeeds: Record<string, number> = {};
+  vars.botDrivers = {};
+  for (const [kartId, difficulty] of Object.entries(state.bots)) {
+    botSeeds[kartId] = randomSeed();
+    vars.botDrivers[kartId] = new BotDriver(difficulty, botSeeds[kartId]);
+  }
+  vars.recorder = new ReplayRecorder(getSim(c), state.id, Date.now(), botSeeds);
+}
+
+/** Store the finished race's replay and tell clients where to find it */
+function saveReplay(c: any): void {
+  const vars = c.vars as RaceRoomVars;
+  if (!vars.recorder) return;
+
+  const replay = vars.recorder.finish();
+  vars.recorder = null;
+
+  const state = c.state as RaceRoomActorState;
+  state.replays = [...(state.replays ?? []), replay].slice(-RACE_REPLAY_HISTORY);
+  c.broadcast("replaySaved", { replayId: replay.id });
+}
+
+// ---------------------------------------------------------------------------
+// Time trial ghosts
+// ---------------------------------------------------------------------------
+
+function recordGhostTick(c: any): void {
+  const recorder = (c.vars as RaceRoomVars).ghostRecorder;
+  if (!recorder) return;
+  const state = c.state as RaceRoomState;
+  for (const kart of Object.values(state.players)) {
+    if (kart.finishTime === null) recorder.sample(kart, state.raceTimer);
+  }
+}
+
+/** Close off the lap's ghost and hand it to clients, who keep their best */
+function onTimeTrialLap(c: any, data: LapCompletedEvent): void {
+  const recorder = (c.vars as RaceRoomVars).ghostRecorder;
+  const state = c.state as RaceRoomState;
+  const kart = state.players[data.kartId];
+  if (!recorder || !kart) return;
+
+  const splits = state.stats[kart.id]?.splits[data.lap - 1] ?? [];
+  const ghost = recorder.completeLap(kart, data.raceTime, state.trackId, splits);
+  c.broadcast("lapGhost", { ghost });
+}
+
+// ---------------------------------------------------------------------------
+// Cups
+// ---------------------------------------------------------------------------
+
+function broadcastCup(c: any): void {
+  const event: CupUpdatedEvent = { cup: (c.state as RaceRoomState).cup };
+  c.broadcast("cupUpdated", event);
+}
+
+/** Score the race that just ended and, unless it was the last, start the intermission */
+function scoreCup(c: any, finished: RaceFinishedEvent): void {
+  const state = c.state as RaceRoomState;
+  const cup = state.cup;
+  if (!cup || cup.championId) return;
+
+  const names: Record<string, string> = {};
+  for (const kart of Object.values(state.players)) names[kart.id] = kart.name;
+  scoreCupRace(cup, finished, names);
+  cup.nextRaceAt = cup.championId ? null : Date.now() + CUP_INTERMISSION;
+  broadcastCup(c);
+}
+
+/**
+ * Move on to the cup's next track and start it straight away: everyone
+ * racing the cup already agreed to the whole run, so nobody readies up again.
+ */
+function startNextCupRace(c: any): void {
+  const state = c.state as RaceRoomState;
+  const cup = state.cup;
+  if (!cup || cup.championId || isLastCupRace(cup)) return;
+
+  cup.raceIndex += 1;
+  cup.nextRaceAt = null;
+  getSim(c).returnToWaiting();
+
+  const settings = resolveRoomSettings(c, {});
+  getSim(c).applySettings(settings);
+  c.broadcast("roomSettingsChanged", { settings });
+  broadcastCup(c);
+
+  for (const conn of c.conns.values()) {
+    const cs = conn.state as ConnState;
+    cs.ready = !cs.spectator;
+  }
+  tryStartCountdown(c);
 }
 
-/** Create default race stats */
-function defaultStats(): RaceStats {
+// ---------------------------------------------------------------------------
+// Tournament heats
+// ---------------------------------------------------------------------------
+
+/** The heat a tournament created this room for, cleaned up */
+function heatFromInput(info: TournamentHeatInfo | undefined): TournamentHeatInfo | null {
+  if (!info || typeof info.tournamentId !== "string" || typeof info.heatId !== "string") return null;
   return {
-    itemsUsed: 0,
-    hitsDealt: 0,
-    hitsTaken: 0,
-    driftBoosts: 0,
-    topSpeed: 0,
-    bestLapTime: null,
+    tournamentId: info.tournamentId,
+    heatId: info.heatId,
+    label: String(info.label ?? "").slice(0, 80) || "Tournament Heat",
+    entrantIds: (Array.isArray(info.entrantIds) ? info.entrantIds : [])
+      .map(String)
+      .slice(0, RACE_MAX_PLAYERS),
   };
 }
 
-/** Create a fresh KartState at a grid position */
-function createKart(
-  id: string,
-  name: string,
-  carId: string,
-  accentIndex: number,
-  position: Vec3,
-  heading: number,
-): KartState {
-  return {
-    id,
-    name,
-    carId: coerceRaceCarId(carId),
-    accentIndex,
-    position: plainVec3(position),
-    heading,
-    speed: 0,
-    velocity: vec3Zero(),
-    driftState: defaultDrift(),
-    lap: 0,
-    checkpoint: 0,
-    currentItem: null,
-    itemCharges: 0,
-    status: "normal",
-    statusTimer: 0,
-    raceProgress: 0,
-    finishTime: null,
-    finishPosition: null,
-    boostTimer: 0,
-    boostSpeed: 0,
-    slipstreamActive: false,
-    slipstreamTicks: 0,
-    hitstopTicks: 0,
-    rocketStartTier: "none",
-    slipAngle: 0,
-    flowMeter: 0,
-    surface: "asphalt",
-    loadFactor: 1,
+/** Hand the heat's finishing order to its tournament */
+async function reportHeat(c: any, finished: RaceFinishedEvent): Promise<void> {
+  const state = c.state as RaceRoomState;
+  if (!state.heat) return;
+  const report: TournamentHeatReport = {
+    heatId: state.heat.heatId,
+    roomId: state.id,
+    positions: finished.positions.filter((id) => !(id in state.bots)),
   };
+  try {
+    await c
+      .getActor({ name: "tournament", key: [state.heat.tournamentId] })
+      .reportHeat(internalKey(), report);
+  } catch (e) {
+    console.error("[raceRoom] Failed to report tournament heat:", e);
+  }
 }
 
-/** Generate initial item boxes from the track definition */
-function generateItemBoxes(trackId: TrackId): ItemBoxState[] {
-  const track = getTrack(trackId);
-  const boxes: ItemBoxState[] = [];
-  let boxId = 0;
-  for (const zone of track.itemBoxZones) {
-    for (const pos of zone.positions) {
-      boxes.push({
-        id: boxId++,
-        position: plainVec3(pos),
-        active: true,
-        respawnTimer: 0,
-      });
-    }
+// ---------------------------------------------------------------------------
+// Leaderboards
+// ---------------------------------------------------------------------------
+
+/** Send the human racers' results to the track's leaderboard */
+async function reportLeaderboard(c: any): Promise<void> {
+  const state = c.state as RaceRoomState;
+  const report: LeaderboardReport = {
+    roomId: state.id,
+    mode: state.mode,
+    lapCount: state.lapCount,
+    speedClass: state.speedClass,
+    results: Object.values(state.players)
+      .filter((kart) => !(kart.id in state.bots))
+      .map((kart) => ({
+        playerName: kart.name,
+        carId: kart.carId,
+        // Karts still racing at the time limit get a placeholder finish time
+        finishTime: kart.lap >= state.lapCount ? kart.finishTime : null,
+        bestLapTime: state.stats[kart.id]?.bestLapTime ?? null,
+      })),
+  };
+  if (report.results.length === 0) return;
+
+  try {
+    const board = c.getActor({ name: "leaderboard", key: [state.trackId] });
+    await board.reportResults(internalKey(), report);
+  } catch (e) {
+    console.error("[raceRoom] Failed to report leaderboard results:", e);
   }
-  return boxes;
 }
 
-/** Reset all karts to grid positions for race start */
-function resetForRaceStart(c: any): void {
-  const track = getTrack(c.state.trackId);
-  const playerIds = Object.keys(c.state.players);
-  for (let i = 0; i < playerIds.length; i++) {
-    const kart = c.state.players[playerIds[i]] as KartState;
-    const gridPos = track.startPositions[i] ?? track.startPositions[0];
-    kart.position = plainVec3(gridPos);
-    kart.heading = track.startHeading;
-    kart.speed = 0;
-    kart.velocity = vec3Zero();
-    kart.driftState = defaultDrift();
-    kart.lap = 0;
-    kart.checkpoint = 0;
-    kart.currentItem = null;
-    kart.itemCharges = 0;
-    kart.status = "normal";
-    kart.statusTimer = 0;
-    kart.raceProgress = 0;
-    kart.finishTime = null;
-    kart.finishPosition = null;
-    kart.boostTimer = 0;
-    kart.boostSpeed = 0;
-    kart.slipstreamActive = false;
-    kart.slipstreamTicks = 0;
-    kart.hitstopTicks = 0;
-    kart.rocketStartTier = "none";
-    kart.slipAngle = 0;
-    kart.flowMeter = 0;
-    kart.surface = "asphalt";
-    kart.loadFactor = 1;
+// ---------------------------------------------------------------------------
+// Ratings
+// ---------------------------------------------------------------------------
+
+function profileKarts(c: any): Record<string, true> {
+  (c.state as RaceRoomActorState).profileKarts ??= {};
+  return (c.state as RaceRoomActorState).profileKarts!;
+}
+
+/** Rate the racers with a profile by finishing place and share the changes */
+async function reportRatings(c: any): Promise<void> {
+  const state = c.state as RaceRoomState;
+  if (state.mode === "timeTrial") return;
+  const report: RatingReport = {
+    matchId: `${state.id}:${Date.now()}`,
+    standings: Object.values(state.players)
+      .filter((kart) => profileKarts(c)[kart.id] && kart.finishPosition !== null)
+      .map((kart) => ({ playerId: kart.id, playerName: kart.name, place: kart.finishPosition! })),
+  };
+  if (report.standings.length < 2) return;
+
+  try {
+    const ratings = c.getActor({ name: "rating", key: ["race"] });
+    const changes = await ratings.reportMatch(internalKey(), report);
+    if (changes.length > 0) c.broadcast("ratingsChanged", { game: "race", changes });
+  } catch (e) {
+    console.error("[raceRoom] Failed to report ratings:", e);
   }
-  // Reset items on track
-  c.state.projectiles = [];
-  c.state.hazards = [];
-  c.state.itemBoxes = generateItemBoxes(c.state.trackId);
-  c.state.finishedCount = 0;
-  c.state.positions = playerIds;
-  c.state.rematchVotes = {};
-
-  // Initialize stats for each player
-  c.state.stats = {} as Record<string, RaceStats>;
-  for (const pid of playerIds) {
-    c.state.stats[pid] = defaultStats();
+}
+
+// ---------------------------------------------------------------------------
+// Player identity
+// ---------------------------------------------------------------------------
+
+interface ResolvedIdentity {
+  playerToken: string | null;
+  /** Public profile ID, used as the kart ID so it stays the same across visits */
+  profileId: string | null;
+  playerName: string;
+  carId: string;
+  accentIndex: number | null;
+}
+
+/**
+ * Look the connecting player up by their identity token. Without a token,
+ * or if the player actor can't be reached, the conn params are used as-is.
+ */
+async function resolveIdentity(c: any, params: ConnParams): Promise<ResolvedIdentity> {
+  const anonymous: ResolvedIdentity = {
+    playerToken: null,
+    profileId: null,
+    playerName: sanitizeName(params?.playerName),
+    carId: coerceRaceCarId(params?.carId),
+    accentIndex: null,
+  };
+  if (!isPlayerToken(params?.playerToken)) return anonymous;
+
+  try {
+    const profile = (await c
+      .getActor({ name: "player", key: [params.playerToken] })
+      .getProfile()) as PlayerProfile;
+    return {
+      playerToken: params.playerToken,
+      profileId: profile.id,
+      playerName: sanitizeName(profile.displayName),
+      carId: coerceRaceCarId(profile.carId),
+      accentIndex: profile.accentIndex,
+    };
+  } catch (e) {
+    console.error("[raceRoom] Failed to load player profile:", e);
+    return { ...anonymous, playerToken: params.playerToken };
   }
+}
 
-  // Reset connection-level state
+/** True if another connection already races or watches under this ID */
+function isPlayerIdInUse(c: any, playerId: string): boolean {
+  if (playerId in c.state.players) return true;
   for (const conn of c.conns.values()) {
-    const cs = conn.state as ConnState;
-    cs.slipstreamTicks = 0;
-    cs.slipstreamBonusTicks = 0;
-    cs.accelerateHeldSince = -1;
-    cs.rocketStartFired = false;
-    cs.immunityTicks = 0;
-    cs.steerInputTicks = 0;
-    cs.prevSteerSign = 0;
-    cs.lastSteerDirection = 0;
-    cs.driftReleaseGraceTicks = 0;
-    cs.driftReleaseGraceCharge = 0;
-    cs.hitstopPendingSpeed = 0;
-    cs.hitstopPendingDrift = false;
-    cs.dustCarryoverTicks = 0;
-    cs.prevElevation = 0;
-    cs.airborne = false;
-    cs.prevSegIdx = 0;
+    if ((conn.state as ConnState | undefined)?.playerId === playerId) return true;
+  }
+  return false;
+}
+
+/**
+ * The player's preferred accent if nobody on the grid has it yet, otherwise
+ * the first free one (preferences make the join-order slot likely to clash).
+ */
+function pickAccentIndex(state: RaceRoomState, preferred: number | null): number {
+  const taken = new Set(Object.values(state.players).map((kart) => kart.accentIndex));
+  if (preferred !== null && preferred < PLAYER_ACCENT_COLORS.length && !taken.has(preferred)) {
+    return preferred;
   }
+  for (let i = 0; i < RACE_MAX_PLAYERS; i++) {
+    if (!taken.has(i)) return i;
+  }
+  return Object.keys(state.players).length % RACE_MAX_PLAYERS;
 }
 
-/** Pick a random item based on improved rubber-banding (positionRatio-based) */
-function rollItem(
-  state: RaceRoomState,
-  kartId: string,
-): { item: ItemType; charges: number } {
-  const positions = state.positions;
-  const karts = Object.values(state.players) as KartState[];
-  const activeKarts = karts.filter((k) => k.finishTime === null);
-
-  if (activeKarts.length <= 1) {
-    // Solo / only player — default to old behavior with pos 0
-    return rollItemLegacy(0);
+/** Add the finished race to each connected racer's profile */
+async function reportPlayerRaces(c: any): Promise<void> {
+  const state = c.state as RaceRoomState;
+  const raceId = `${state.id}:${Date.now()}`;
+  const racers = Object.keys(state.players).length;
+
+  for (const conn of c.conns.values()) {
+    const cs = conn.state as ConnState | undefined;
+    if (!cs?.playerToken || cs.spectator) continue;
+    const kart = state.players[cs.playerId];
+    if (!kart) continue;
+    const stats = state.stats[kart.id];
+    const report: PlayerRaceReport = {
+      record: {
+        raceId,
+        roomId: state.id,
+        trackId: state.trackId,
+        mode: state.mode,
+        speedClass: state.speedClass,
+        lapCount: state.lapCount,
+        carId: kart.carId,
+        place: kart.finishPosition,
+        racers,
+        finishTime: kart.lap >= state.lapCount ? kart.finishTime : null,
+        bestLapTime: stats?.bestLapTime ?? null,
+      },
+      stats: {
+        itemsUsed: stats?.itemsUsed ?? 0,
+        hitsDealt: stats?.hitsDealt ?? 0,
+        hitsTaken: stats?.hitsTaken ?? 0,
+        driftBoosts: stats?.driftBoosts ?? 0,
+        topSpeed: stats?.topSpeed ?? 0,
+      },
+    };
+
+    try {
+      await c
+        .getActor({ name: "player", key: [cs.playerToken] })
+        .recordRace(internalKey(), report);
+    } catch (e) {
+      console.error("[raceRoom] Failed to record race on player profile:", e);
+    }
   }
+}
 
-  const posIdx = positions.indexOf(kartId);
-  const positionRatio = activeKarts.length > 1
-    ? Math.max(0, posIdx) / (activeKarts.length - 1)
-    : 0; // 0 = leader, 1 = last
+// ---------------------------------------------------------------------------
+// Room password
+// ---------------------------------------------------------------------------
 
-  // Compute distance spread for blue shell threshold
-  let leadProgress = 0;
-  let secondProgress = 0;
-  let totalSpread = 1;
+function passwordError(given: string): UserError {
+  return given
+    ? new UserError("Wrong room password", { code: ROOM_PASSWORD_WRONG })
+    : new UserError("This room needs a password", { code: ROOM_PASSWORD_REQUIRED });
+}
 
-  if (positions.length >= 2) {
-    const leader = state.players[positions[0]] as KartState | undefined;
-    const second = state.players[positions[1]] as KartState | undefined;
-    const last = state.players[positions[positions.length - 1]] as KartState | undefined;
+/** The connecting client's address as the proxy in front of the server reports it */
+function clientAddress(c: any): string {
+  const headers: Headers | undefined = c.request?.headers;
+  const forwarded = headers?.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || headers?.get("x-real-ip") || "unknown";
+}
 
-    if (leader) leadProgress = leader.raceProgress;
-    if (second) secondProgress = second.raceProgress;
-    if (leader && last) totalSpread = Math.max(1, leader.raceProgress - last.raceProgress);
+/**
+ * Throw unless `password` opens the room. After ROOM_PASSWORD_MAX_FAILURES
+ * wrong guesses from one address, the room turns that address away until
+ * the oldest of them is ROOM_PASSWORD_LOCKOUT_MS old; others still get in.
+ */
+async function checkRoomPassword(c: any, password: unknown): Promise<void> {
+  const hash = (c.state as RaceRoomActorState).passwordHash;
+  if (!hash) return;
+
+  const vars = c.vars as RaceRoomVars;
+  const now = Date.now();
+  for (const [address, times] of Object.entries(vars.passwordFailures)) {
+    const recent = times.filter((at) => now - at < ROOM_PASSWORD_LOCKOUT_MS);
+    if (recent.length > 0) vars.passwordFailures[address] = recent;
+    else delete vars.passwordFailures[address];
+  }
+  const address = clientAddress(c);
+  const failures = vars.passwordFailures[address] ?? [];
+  if (failures.length >= ROOM_PASSWORD_MAX_FAILURES) {
+    throw new UserError("Too many wrong passwords, try again in a minute", {
+      code: ROOM_PASSWORD_LOCKED,
+    });
   }
 
-  const gapRatio = totalSpread > 0 ? (leadProgress - secondProgress) / totalSpread : 0;
-
-  // Rubber-banded weights: interpolate based on positionRatio
-  // Leader (positionRatio=0) → defensive items; Last (positionRatio=1) → offensive items
-  const weights: Record<ItemType, number> = {
-    greenShell:  lerp(30, 5, positionRatio),
-    banana:      lerp(25, 5, positionRatio),
-    redShell:    lerp(5, 15, positionRatio),
-    triMushroom: lerp(0, 15, positionRatio),
-    mushroom:    lerp(15, 10, positionRatio),
-    star:        lerp(0, 20, positionRatio),
-    lightning:   lerp(0, 12, positionRatio),
-    blueShell:   gapRatio > BLUE_SHELL_GAP_THRESHOLD ? lerp(0, 15, positionRatio) : 0,
-  };
+  const given = typeof password === "string" ? password : "";
+  if (given && (await verifyRoomPassword(given, hash))) return;
+  if (given) vars.passwordFailures[address] = [...failures, now];
+  throw passwordError(given);
+}
 
-  let totalWeight = 0;
-  const entries = Object.entries(weights) as [ItemType, number][];
-  for (const [, w] of entries) totalWeight += w;
+// ---------------------------------------------------------------------------
+// Reconnects
+// ---------------------------------------------------------------------------
 
-  let roll = Math.random() * totalWeight;
-  for (const [item, w] of entries) {
-    roll -= w;
-    if (roll <= 0) {
-      const charges = item === "triMushroom" ? 3 : 1;
-      return { item, charges };
+/** The held kart a reconnecting tab may take back, if any */
+function findRejoinableKart(c: any, rejoinToken: string): KartState | null {
+  const state = c.state as RaceRoomActorState;
+  for (const kartId of Object.keys(state.disconnected)) {
+    if (state.rejoinTokens[kartId] === rejoinToken && state.players[kartId]) {
+      return state.players[kartId];
     }
   }
-  return { item: "greenShell", charges: 1 };
+  return null;
 }
 
-function lerp(a: number, b: number, t: number): number {
-  return a + (b - a) * t;
+/** Put a rejoining racer back in control of their held kart */
+function reattachKart(c: any, cs: ConnState): void {
+  const state = c.state as RaceRoomState;
+  delete state.disconnected[cs.playerId];
+  c.broadcast("kartReconnected", { kartId: cs.playerId, kartName: cs.playerName });
+  if (!state.hostId) {
+    state.hostId = cs.playerId;
+    c.broadcast("hostChanged", { hostId: cs.playerId });
+  }
 }
 
-/** Legacy item roll (fallback, position-index based) */
-function rollItemLegacy(positionIndex: number): { item: ItemType; charges: number } {
-  const clampedPos = Math.min(positionIndex, 3) as 0 | 1 | 2 | 3;
-  const entries = Object.entries(ITEM_PROBABILITIES) as [ItemType, [number, number, number, number]][];
-  let totalWeight = 0;
-  for (const [, weights] of entries) {
-    totalWeight += weights[clampedPos];
+/** Take a kart off the grid for good, ending the race if nobody is left to race */
+function dropKart(c: any, playerId: string, playerName: string): void {
+  const state = c.state as RaceRoomActorState;
+  const sim = getSim(c);
+  (c.vars as RaceRoomVars).recorder?.recordKartRemoved(playerId);
+  sim.removeKart(playerId);
+  delete state.disconnected[playerId];
+  delete state.rejoinTokens[playerId];
+  delete profileKarts(c)[playerId];
+  c.broadcast("kartLeft", { kartId: playerId, kartName: playerName });
+
+  const remaining = Object.values(state.players) as KartState[];
+  const humans = remaining.length - getBotCount(c);
+
+  if (
+    (remaining.length < 2 || humans === 0) &&
+    state.phase !== "waiting" &&
+    state.phase !== "finished"
+  ) {
+    // Forfeit — remaining player wins
+    sim.forfeit();
+    saveReplay(c);
   }
-  let roll = Math.random() * totalWeight;
-  for (const [item, weights] of entries) {
-    roll -= weights[clampedPos];
-    if (roll <= 0) {
-      const charges = item === "triMushroom" ? 3 : 1;
-      return { item, charges };
-    }
+
+  // Before the lobby hears about it, so the listing shows the new host
+  if (playerId === state.hostId) reassignHost(c);
+
+  if (humans === 0) {
+    // Nobody left to race the bots
+    for (const botId of Object.keys(state.bots)) removeBot(c, botId);
+    notifyLobby(c, state.id, null);
+  } else {
+    notifyLobby(c, state.id, {
+      playerCount: humans,
+      status: state.phase === "waiting" ? "waiting" : "playing",
+    });
+  }
+}
+
+/** Drop held karts whose racer ran out of time, or all of them once the room is back to waiting */
+function expireDisconnectedKarts(c: any, now: number): void {
+  const state = c.state as RaceRoomState;
+  for (const [kartId, since] of Object.entries(state.disconnected)) {
+    if (state.phase !== "waiting" && now - since < RACE_REJOIN_GRACE) continue;
+    const kart = state.players[kartId];
+    if (kart) dropKart(c, kartId, kart.name);
+    else delete state.disconnected[kartId];
   }
-  return { item: "greenShell", charges: 1 };
 }
 
 // ---------------------------------------------------------------------------
 // Lobby notification helper (fire-and-forget)
 // ---------------------------------------------------------------------------
 
+/** Room settings and host shown in the lobby listing */
+function lobbyRoomDetails(state: RaceRoomState) {
+  return {
+    maxPlayers: state.maxPlayers,
+    trackId: state.trackId,
+    lapCount: state.lapCount,
+    speedClass: state.speedClass,
+    itemMode: state.itemMode,
+    mode: state.cup ? "cup" : state.mode,
+    hostName: state.hostId ? (state.players[state.hostId]?.name ?? null) : null,
+  };
+}
+
 async function notifyLobby(
   c: any,
   roomId: string,
@@ -467,7 +702,7 @@ async function notifyLobby(
   try {
     const lobbyActor = c.getActor({ name: "lobby", key: ["main"] });
     if (patch) {
-      await lobbyActor.updateRoom(roomId, patch);
+      await lobbyActor.updateRoom(roomId, { ...patch, ...lobbyRoomDetails(c.state) });
     } else {
       await lobbyActor.removeRoom(roomId);
     }
@@ -477,9 +712,13 @@ async function notifyLobby(
 }
 
 async function ensureLobbyRegistration(c: any): Promise<void> {
+  // Time trials are private single-player sessions; heats are reached from their bracket
+  if (c.state.mode === "timeTrial" || c.state.heat) return;
   try {
     const lobbyActor = c.getActor({ name: "lobby", key: ["main"] });
-    await lobbyActor.registerRoom(c.state.id, c.state.name, "race");
+    const state = c.state as RaceRoomActorState;
+    const listing = state.listing ? { ...state.listing, hasPassword: !!state.passwordHash } : undefined;
+    await lobbyActor.registerRoom(state.id, state.name, "race", listing);
   } catch {
     // Best-effort
   }
@@ -521,20 +760,149 @@ function tryStartCountdown(c: any): void {
   const readyCount = getReadyCount(c);
 
   // A solo player can start immediately once ready; larger groups still require
-  // every active racer to ready up before the countdown begins.
-  if (nonSpectators >= 1 && readyCount === nonSpectators) {
-    state.phase = "countdown";
-    state.phaseStartedAt = Date.now();
-    state.raceTimer = 0;
-    resetForRaceStart(c);
-    notifyLobby(c, state.id, {
-      playerCount: nonSpectators,
-      status: "playing",
-    });
-    c.broadcast("phaseChanged", {
-      phase: state.phase,
-      raceTimer: state.raceTimer,
-    });
+  // every active racer to ready up before the countdown begins. Time trials
+  // skip the ready step entirely.
+  const ready = state.mode === "timeTrial" || readyCount === nonSpectators;
+  if (nonSpectators >= 1 && ready) {
+    getSim(c).beginCountdown();
+    startRecording(c);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Host & bots
+// ---------------------------------------------------------------------------
+
+function getBotCount(c: any): number {
+  return Object.keys((c.state as RaceRoomState).bots).length;
+}
+
+/** Hand the host role to the longest-connected racer (or nobody) */
+function reassignHost(c: any): void {
+  const state = c.state as RaceRoomState;
+  let next: string | null = null;
+  for (const conn of c.conns.values()) {
+    const cs = conn.state as ConnState;
+    if (!cs.spectator && state.players[cs.playerId] && !(cs.playerId in state.disconnected)) {
+      next = cs.playerId;
+      break;
+    }
+  }
+  if (next === state.hostId) return;
+  state.hostId = next;
+  c.broadcast("hostChanged", { hostId: next });
+}
+
+function isHost(c: any): boolean {
+  const connState = c.conn?.state as ConnState | undefined;
+  return !!connState && !connState.spectator && connState.playerId === c.state.hostId;
+}
+
+function addBot(c: any, difficulty: BotDifficulty): KartState {
+  const state = c.state as RaceRoomState;
+  const playerCount = Object.keys(state.players).length;
+  const id = `bot_${uid()}`;
+  const car = CURATED_RACE_CARS[Math.floor(Math.random() * CURATED_RACE_CARS.length)];
+
+  const kart = getSim(c).addKart({
+    id,
+    name: botName(getBotCount(c), difficulty),
+    carId: car.id,
+    accentIndex: playerCount % RACE_MAX_PLAYERS,
+  });
+  state.bots[id] = difficulty;
+  c.broadcast("kartJoined", { kart, botDifficulty: difficulty });
+  return kart;
+}
+
+function removeBot(c: any, kartId: string): void {
+  const state = c.state as RaceRoomState;
+  const kart = state.players[kartId];
+  if (!kart || !state.bots[kartId]) return;
+
+  (c.vars as RaceRoomVars).recorder?.recordKartRemoved(kartId);
+  getSim(c).removeKart(kartId);
+  delete (c.vars as RaceRoomVars).botDrivers[kartId];
+  c.broadcast("kartLeft", { kartId, kartName: kart.name });
+}
+
+function getBotDriver(c: any, kartId: string): BotDriver {
+  const vars = c.vars as RaceRoomVars;
+  let driver = vars.botDrivers[kartId];
+  if (!driver) {
+    driver = new BotDriver(c.state.bots[kartId], randomSeed());
+    vars.botDrivers[kartId] = driver;
+  }
+  return driver;
+}
+
+// ---------------------------------------------------------------------------
+// Room settings
+// ---------------------------------------------------------------------------
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+/**
+ * Merge a host's settings patch over the current ones, dropping or clamping
+ * anything invalid. The grid can't shrink below the humans already in it.
+ */
+function resolveRoomSettings(c: any, patch: Partial<RaceRoomSettings>): RaceRoomSettings {
+  const state = c.state as RaceRoomState;
+  const humans = Object.keys(state.players).length - getBotCount(c);
+
+  // A running cup decides the track
+  const trackId =
+    state.cup && !state.cup.championId
+      ? currentCupTrack(state.cup)
+      : patch.trackId && listTrackIds().includes(patch.trackId)
+        ? patch.trackId
+        : state.trackId;
+  const speedClass =
+    patch.speedClass && patch.speedClass in SPEED_CLASS_MULTIPLIERS
+      ? patch.speedClass
+      : state.speedClass;
+  let itemMode =
+    patch.itemMode === "normal" || patch.itemMode === "off" || patch.itemMode === "custom"
+      ? patch.itemMode
+      : state.itemMode;
+
+  const itemWeights = { ...state.itemWeights };
+  if (patch.itemWeights && typeof patch.itemWeights === "object") {
+    for (const item of Object.keys(DEFAULT_ITEM_WEIGHTS) as ItemType[]) {
+      if (item in patch.itemWeights) {
+        itemWeights[item] = clampInt(patch.itemWeights[item], 0, ITEM_WEIGHT_MAX, itemWeights[item]);
+      }
+    }
+  }
+  // Custom odds with every item zeroed out just means no items
+  if (itemMode === "custom" && Object.values(itemWeights).every((w) => w === 0)) {
+    itemMode = "off";
+  }
+
+  return {
+    trackId,
+    lapCount: clampInt(patch.lapCount ?? state.lapCount, RACE_MIN_LAPS, RACE_MAX_LAPS, state.lapCount),
+    itemMode,
+    itemWeights,
+    speedClass,
+    maxPlayers: clampInt(
+      patch.maxPlayers ?? state.maxPlayers,
+      Math.max(1, humans),
+      RACE_MAX_PLAYERS,
+      state.maxPlayers,
+    ),
+  };
+}
+
+/** Bots beyond a lowered player cap have to go, newest first */
+function trimBotsToCapacity(c: any): void {
+  const state = c.state as RaceRoomState;
+  const botIds = Object.keys(state.bots);
+  while (Object.keys(state.players).length > state.maxPlayers && botIds.length > 0) {
+    removeBot(c, botIds.pop()!);
   }
 }
 
@@ -543,72 +911,122 @@ function tryStartCountdown(c: any): void {
 // ---------------------------------------------------------------------------
 
 export const raceRoom = actor({
-  createState: (c: any): RaceRoomState => ({
-    id: c.key?.[0] ?? `race_${Date.now().toString(36)}`,
-    name: "Track 1",
-    players: {},
-    projectiles: [],
-    hazards: [],
-    itemBoxes: generateItemBoxes("track1"),
-    phase: "waiting" as RacePhase,
-    lapCount: RACE_LAP_COUNT,
-    raceTimer: 0,
-    maxPlayers: RACE_MAX_PLAYERS,
-    trackId: "track1",
-    createdAt: Date.now(),
-    phaseStartedAt: Date.now(),
-    positions: [],
-    finishedCount: 0,
-    readyPlayers: [],
-    rematchVotes: {},
-    stats: {},
-  }),
+  createState: (c: any, input?: RaceRoomInput): RaceRoomActorState => {
+    const mode: RaceMode = input?.mode === "timeTrial" ? "timeTrial" : "race";
+    if ((input?.listing || input?.passwordHash || input?.heat) && !isInternalKey(input?.internalKey)) {
+      throw new Error("Only other actors can create a listed, password or heat room");
+    }
+    const heat = mode === "race" ? heatFromInput(input?.heat) : null;
+    const trackId: TrackId =
+      heat && input?.heatSettings?.trackId && listTrackIds().includes(input.heatSettings.trackId)
+        ? input.heatSettings.trackId
+        : "track1";
+    const maxPlayers =
+      mode === "timeTrial" ? 1 : heat ? Math.max(1, heat.entrantIds.length) : RACE_MAX_PLAYERS;
+    return {
+      id: c.key?.[0] ?? `race_${Date.now().toString(36)}`,
+      name: heat?.label ?? (mode === "timeTrial" ? "Time Trial" : "Track 1"),
+      players: {},
+      projectiles: [],
+      hazards: [],
+      itemBoxes: mode === "timeTrial" ? [] : generateItemBoxes(trackId),
+      phase: "waiting" as RacePhase,
+      lapCount: heat
+        ? clampInt(input?.heatSettings?.lapCount, RACE_MIN_LAPS, RACE_MAX_LAPS, RACE_LAP_COUNT)
+        : RACE_LAP_COUNT,
+      itemMode: "normal",
+      itemWeights: { ...DEFAULT_ITEM_WEIGHTS },
+      speedClass: RACE_DEFAULT_SPEED_CLASS,
+      raceTimer: 0,
+      maxPlayers,
+      trackId,
+      createdAt: Date.now(),
+      phaseStartedAt: Date.now(),
+      positions: [],
+      finishedCount: 0,
+      readyPlayers: [],
+      rematchVotes: {},
+      stats: {},
+      hostId: null,
+      bots: {},
+      mode,
+      disconnected: {},
+      cup: null,
+      heat,
+      replays: [],
+      rejoinTokens: {},
+      profileKarts: {},
+      // Entry to a heat is by bracket, never by password
+      passwordHash: heat ? null : (input?.passwordHash ?? null),
+      listing: heat ? null : (input?.listing ?? null),
+    };
+  },
 
-  createConnState: (c: any, params: ConnParams): ConnState => {
+  createConnState: async (c: any, params: ConnParams): Promise<ConnState> => {
+    const identity = await resolveIdentity(c, params);
     const state = c.state as RaceRoomState;
+
+    // A racer whose connection dropped mid-race gets their kart back
+    const rejoinToken = isPlayerToken(params?.rejoinToken) ? params.rejoinToken : null;
+    const heldKart = rejoinToken ? findRejoinableKart(c, rejoinToken) : null;
+
+    // Time trials are single-player; a reclaimed kart already got past this once
+    if (state.mode !== "timeTrial" && !heldKart) await checkRoomPassword(c, params?.password);
+
+    // Counted after the lookups above, which may have let someone else in
     const playerCount = Object.keys(state.players).length;
 
-    // Once a room leaves the waiting phase, late joiners can only spectate.
-    const isSpectator = state.phase !== "waiting";
+    // Once a room leaves the waiting phase, late joiners can only spectate,
+    // and only a heat's entrants get a kart in it.
+    const outsider = !!state.heat && !state.heat.entrantIds.includes(identity.profileId ?? "");
+    const isSpectator =
+      !heldKart && (Boolean(params.spectate) || state.phase !== "waiting" || outsider);
 
-    if (!isSpectator && playerCount >= RACE_MAX_PLAYERS) {
+    // Bots give up their slot to a joining player
+    if (!heldKart && !isSpectator && playerCount - getBotCount(c) >= state.maxPlayers) {
       throw new Error("Room is full");
     }
 
-    const playerId = `k_${uid()}`;
-    const accentIndex = Math.max(0, playerCount % RACE_MAX_PLAYERS);
+    // A second tab with the same identity gets a throwaway kart ID
+    const playerId =
+      heldKart?.id ??
+      (identity.profileId && !isPlayerIdInUse(c, identity.profileId)
+        ? identity.profileId
+        : `k_${uid()}`);
     return {
       playerId,
-      playerName: sanitizeName(params.playerName),
-      carId: coerceRaceCarId(params.carId),
-      accentIndex,
-      input: { steering: 0, throttle: false, brake: false, drift: false, useItem: false },
+      playerToken: identity.playerToken,
+      profileId: identity.profileId,
+      rejoinToken,
+      playerName: heldKart?.name ?? identity.playerName,
+      carId: heldKart?.carId ?? identity.carId,
+      accentIndex: heldKart?.accentIndex ?? pickAccentIndex(state, identity.accentIndex),
+      input: idleKartInput(),
       lastInputAt: 0,
+      inputSeq: -1,
+      ackedInputSeq: -1,
+      snapshotAck: -1,
+      pendingItemUse: false,
       ready: false,
       spectator: isSpectator,
-      lastSteerDirection: 0,
-      steerInputTicks: 0,
-      prevSteerSign: 0,
-      slipstreamTicks: 0,
-      slipstreamBonusTicks: 0,
-      accelerateHeldSince: -1,
-      rocketStartFired: false,
-      immunityTicks: 0,
-      driftReleaseGraceTicks: 0,
-      driftReleaseGraceCharge: 0,
-      hitstopPendingSpeed: 0,
-      hitstopPendingDrift: false,
-      dustCarryoverTicks: 0,
-      prevElevation: 0,
-      airborne: false,
-      prevSegIdx: 0,
     };
   },
 
+  createVars: (c: any): RaceRoomVars => ({
+    sim: createSimulation(c),
+    recorder: null,
+    snapshotEncoder: new SnapshotEncoder(),
+    botDrivers: {},
+    ghostRecorder: null,
+    passwordFailures: {},
+  }),
+
   events: {
     kartJoined: event<KartJoinedEvent>(),
     kartLeft: event<KartLeftEvent>(),
-    raceSnapshot: event<RaceSnapshot>(),
+    kartDisconnected: event<KartDisconnectedEvent>(),
+    kartReconnected: event<KartReconnectedEvent>(),
+    raceSnapshot: event<EncodedRaceSnapshot>(),
     phaseChanged: event<RacePhaseChangedEvent>(),
     itemPickedUp: event<ItemPickedUpEvent>(),
     itemUsed: event<ItemUsedEvent>(),
@@ -622,6 +1040,13 @@ export const raceRoom = actor({
     readyStateChanged: event<ReadyStateEvent>(),
     rematchVote: event<RematchVoteEvent>(),
     raceToast: event<RaceToastEvent>(),
+    replaySaved: event<ReplaySavedEvent>(),
+    hostChanged: event<HostChangedEvent>(),
+    checkpointSplit: event<CheckpointSplitEvent>(),
+    lapGhost: event<LapGhostEvent>(),
+    roomSettingsChanged: event<RoomSettingsChangedEvent>(),
+    ratingsChanged: event<RatingsChangedEvent>(),
+    cupUpdated: event<CupUpdatedEvent>(),
   },
 
   onBeforeConnect: (c: any) => {
@@ -645,33 +1070,46 @@ export const raceRoom = actor({
       return;
     }
 
-    const existingCount = Object.keys(state.players).length;
-    if (existingCount >= RACE_MAX_PLAYERS) {
-      conn.close?.();
+    // Only a reclaimed kart already exists before its connection does
+    if (state.players[playerId]) {
+      reattachKart(c, cs);
       return;
     }
 
-    const track = getTrack(state.trackId);
-    const gridPos = track.startPositions[existingCount] ?? track.startPositions[0];
+    if (Object.keys(state.players).length >= state.maxPlayers) {
+      // Grid is full of bots — drop the newest one to make room
+      const botIds = Object.keys(state.bots);
+      if (state.phase !== "waiting" || botIds.length === 0) {
+        conn.close?.();
+        return;
+      }
+      removeBot(c, botIds[botIds.length - 1]);
+    }
 
-    const kart = createKart(
-      playerId,
-      playerName,
+    const kart = getSim(c).addKart({
+      id: playerId,
+      name: playerName,
       carId,
       accentIndex,
-      gridPos,
-      track.startHeading,
-    );
-
-    state.players[playerId] = kart;
+    });
+    if (cs.rejoinToken) (state as RaceRoomActorState).rejoinTokens[playerId] = cs.rejoinToken;
+    if (cs.profileId === playerId) profileKarts(c)[playerId] = true;
     c.broadcast("kartJoined", { kart });
 
-    const playerCount = Object.keys(state.players).length;
+    if (!state.hostId) {
+      state.hostId = playerId;
+      c.broadcast("hostChanged", { hostId: playerId });
+    }
+
+    const playerCount = getNonSpectatorCount(c);
 
     if (playerCount === 1) {
       ensureLobbyRegistration(c);
     }
 
+    // Time trials go straight to the countdown
+    if (state.mode === "timeTrial") tryStartCountdown(c);
+
     notifyLobby(c, state.id, {
       playerCount,
       status: state.phase === "waiting" ? "waiting" : "playing",
@@ -685,58 +1123,22 @@ export const raceRoom = actor({
     // Spectators just leave
     if (cs.spectator) return;
 
-    if (!c.state.players[playerId]) return;
-
-    delete c.state.players[playerId];
-    c.broadcast("kartLeft", { kartId: playerId, kartName: playerName });
-
-    // Remove any projectiles/hazards owned by this player
-    c.state.projectiles = (c.state.projectiles as ProjectileState[]).filter(
-      (p) => p.ownerId !== playerId,
-    );
-    c.state.hazards = (c.state.hazards as HazardState[]).filter(
-      (h) => h.ownerId !== playerId,
-    );
-
-    // Clean up stats and rematch votes
-    delete c.state.stats[playerId];
-    delete c.state.rematchVotes[playerId];
-
-    const remaining = Object.values(c.state.players) as KartState[];
-
-    if (
-      remaining.length < 2 &&
-      c.state.phase !== "waiting" &&
-      c.state.phase !== "finished"
-    ) {
-      // Forfeit — remaining player wins
-      c.state.phase = "finished";
-      c.state.phaseStartedAt = Date.now();
-
-      const positions = remaining.map((k) => k.id);
-      const finishTimes: Record<string, number | null> = {};
-      for (const k of remaining) {
-        finishTimes[k.id] = k.finishTime;
-      }
-
-      c.broadcast("raceFinished", {
-        positions,
-        finishTimes,
-        stats: c.state.stats,
-      });
-      c.broadcast("phaseChanged", {
-        phase: "finished",
-        raceTimer: c.state.raceTimer,
-      });
-      notifyLobby(c, c.state.id, null);
-    } else if (remaining.length === 0) {
-      notifyLobby(c, c.state.id, null);
-    } else {
-      notifyLobby(c, c.state.id, {
-        playerCount: remaining.length,
-        status: c.state.phase === "waiting" ? "waiting" : "playing",
+    const state = c.state as RaceRoomState;
+    if (!state.players[playerId]) return;
+
+    // Mid-race the kart coasts for a while in case the racer comes back
+    if (state.phase === "countdown" || state.phase === "racing") {
+      state.disconnected[playerId] = Date.now();
+      c.broadcast("kartDisconnected", {
+        kartId: playerId,
+        kartName: playerName,
+        graceMs: RACE_REJOIN_GRACE,
       });
+      if (playerId === state.hostId) reassignHost(c);
+      return;
     }
+
+    dropKart(c, playerId, playerName);
   },
 
   // -----------------------------------------------------------------------
@@ -744,8 +1146,9 @@ export const raceRoom = actor({
   // -----------------------------------------------------------------------
 
   run: async (c: any) => {
+    const vars = c.vars as RaceRoomVars;
+    const sim = vars.sim;
     let lastSnapshot = 0;
-    let tickCounter = 0;
     let lastTickTime = Date.now();
     let nextTickTarget = lastTickTime + RACE_SERVER_TICK_INTERVAL;
     let emptyAt: number | null = null;
@@ -756,12 +1159,13 @@ export const raceRoom = actor({
     while (!c.aborted) {
       const now = Date.now();
       const dtMs = Math.min(now - lastTickTime, 50);
-      const dt = dtMs / RACE_SERVER_TICK_INTERVAL;
       lastTickTime = now;
 
-      // Empty room auto-shutdown
+      expireDisconnectedKarts(c, now);
+
+      // Empty room auto-shutdown, unless a dropped racer may still come back
       const connCount = c.conns?.size ?? 0;
-      if (connCount === 0) {
+      if (connCount === 0 && Object.keys(c.state.disconnected).length === 0) {
         if (!emptyAt) emptyAt = now;
         if (c.state.phase === "finished" || now - emptyAt > EMPTY_TIMEOUT) {
           notifyLobby(c, c.state.id, null);
@@ -771,11 +1175,11 @@ export const raceRoom = actor({
         emptyAt = null;
       }
 
-      // Auto-start timer: if waiting with 2+ non-spectator players for 30s
+      // Auto-start timer: if waiting with 2+ racers (bots count) for 30s
       const state = c.state as RaceRoomState;
       if (state.phase === "waiting") {
         const nonSpectators = getNonSpectatorCount(c);
-        if (nonSpectators >= 2) {
+        if (nonSpectators >= 1 && nonSpectators + getBotCount(c) >= 2) {
           if (!waitingAutoStartAt) {
             waitingAutoStartAt = now;
           } else if (now - waitingAutoStartAt >= 30000) {
@@ -794,37 +1198,34 @@ export const raceRoom = actor({
         waitingAutoStartAt = null;
       }
 
-      // Track rocket start throttle during countdown
-      if (state.phase === "countdown") {
-        rocketStartCountdownTick(c, tickCounter);
-      }
-
-      // Phase management
-      phaseTick(c, now, dtMs, tickCounter);
-
-      // Physics simulation when racing
-      if (state.phase === "racing") {
-        const track = getTrack(state.trackId);
-        kartPhysicsTick(c, dt, now, track, tickCounter);
-        slipstreamTick(c, track);
-        kartCollisionTick(c, dt);
-        projectileTick(c, dt, now, track);
-        hazardTick(c, track);
-        itemBoxTick(c, now, track);
-        checkpointTick(c, track);
-        positionTick(c, track);
+      // Advance the simulation with each racer's latest input
+      const inputs = collectInputs(c);
+      vars.recorder?.recordTick(inputs, dtMs);
+      sim.advance(inputs, dtMs);
+      if (state.phase === "racing") recordGhostTick(c);
+      if (state.phase === "finished") saveReplay(c);
+
+      // Cup intermission over: on to the next track
+      const nextRaceAt = state.cup?.nextRaceAt;
+      if (state.phase === "finished" && nextRaceAt && now >= nextRaceAt) {
+        startNextCupRace(c);
       }
 
-      // Broadcast snapshot at 20Hz
+      // Send snapshots at 20Hz, each delta-encoded against what that client has
       if (
         state.phase === "racing" &&
         now - lastSnapshot >= RACE_SNAPSHOT_INTERVAL
       ) {
         lastSnapshot += RACE_SNAPSHOT_INTERVAL;
-        broadcastSnapshot(c, tickCounter);
+        if (Object.keys(state.players).length > 0) {
+          vars.snapshotEncoder.begin(buildSnapshot(c, sim));
+          for (const conn of c.conns.values()) {
+            const cs = conn.state as ConnState;
+            conn.send("raceSnapshot", vars.snapshotEncoder.encode(cs.snapshotAck));
+          }
+        }
       }
 
-      tickCounter++;
       nextTickTarget += RACE_SERVER_TICK_INTERVAL;
       const sleepMs = Math.max(1, nextTickTarget - Date.now());
       await new Promise((r) => setTimeout(r, sleepMs));
@@ -836,7 +1237,28 @@ export const raceRoom = actor({
   // -----------------------------------------------------------------------
 
   actions: {
-    getJoinState: (c: any): RaceJoinStateResult => {
+    /** Liveness check from the lobby; held karts count as players */
+    heartbeat: (c: any): RoomHeartbeat => {
+      const state = c.state as RaceRoomState;
+      return {
+        roomId: state.id,
+        playerCount: Object.keys(state.players).length - getBotCount(c),
+        status: state.phase === "waiting" ? "waiting" : state.phase === "finished" ? "finished" : "playing",
+        connections: c.conns.size,
+      };
+    },
+
+    /** Heats only: asked by the tournament once the heat's deadline has passed */
+    getHeatPresence: (c: any, key: string): TournamentHeatPresence => {
+      assertInternalCall(key);
+      const state = c.state as RaceRoomState;
+      return {
+        underway: state.phase === "countdown" || state.phase === "racing",
+        entrantIds: (state.heat?.entrantIds ?? []).filter((id) => id in state.players),
+      };
+    },
+
+    getJoinState: (c: any): RaceJoinStateResult => {
       const connState = c.conn?.state as ConnState | undefined;
       const s = c.state as RaceRoomState;
       return {
@@ -859,6 +1281,15 @@ export const raceRoom = actor({
           readyPlayers: s.readyPlayers,
           rematchVotes: s.rematchVotes,
           stats: s.stats,
+          hostId: s.hostId,
+          bots: s.bots,
+          mode: s.mode,
+          itemMode: s.itemMode,
+          itemWeights: s.itemWeights,
+          speedClass: s.speedClass,
+          disconnected: s.disconnected,
+          cup: s.cup,
+          heat: s.heat,
         },
         playerId: connState?.playerId ?? "",
         isSpectator: connState?.spectator ?? false,
@@ -880,6 +1311,13 @@ export const raceRoom = actor({
       const steering = Number(input.steering);
       if (!Number.isFinite(steering)) return;
 
+      // Drop stale inputs that arrive out of order
+      const seq = Number(input.seq);
+      if (Number.isFinite(seq)) {
+        if (seq <= connState.inputSeq) return;
+        connState.inputSeq = seq;
+      }
+
       connState.input = {
         steering: Math.max(-1, Math.min(1, steering)),
         throttle: Boolean(input.throttle),
@@ -890,6 +1328,16 @@ export const raceRoom = actor({
       };
     },
 
+    /** Client decoded snapshot `tick`; -1 asks for a keyframe */
+    ackSnapshot: (c: any, tick: number): void => {
+      const connState = c.conn?.state as ConnState | undefined;
+      if (!connState) return;
+      const t = Number(tick);
+      if (!Number.isInteger(t)) return;
+      if (t < 0) connState.snapshotAck = -1;
+      else if (t > connState.snapshotAck) connState.snapshotAck = t;
+    },
+
     useItem: (c: any): void => {
       const connState = c.conn?.state as ConnState | undefined;
       if (!connState) return;
@@ -899,7 +1347,8 @@ export const raceRoom = actor({
       const kart = c.state.players[connState.playerId] as KartState | undefined;
       if (!kart || !kart.currentItem) return;
 
-      executeItemUse(c, kart, connState.playerId);
+      // Fired on the next simulation tick as part of this player's input
+      connState.pendingItemUse = true;
     },
 
     readyUp: (c: any): void => {
@@ -933,6 +1382,8 @@ export const raceRoom = actor({
 
       const state = c.state as RaceRoomState;
       if (state.phase !== "finished") return;
+      // A heat is a single race; the bracket decides what comes next
+      if (state.heat) return;
 
       // Record vote
       state.rematchVotes[connState.playerId] = true;
@@ -957,11 +1408,11 @@ export const raceRoom = actor({
 
       // If all connected players voted yes, reset to waiting
       if (voteCount >= needed && needed > 0) {
-        state.phase = "waiting";
-        state.phaseStartedAt = Date.now();
-        state.raceTimer = 0;
-        state.rematchVotes = {};
-        state.stats = {};
+        // Mid-cup, everyone voting just cuts the intermission short
+        if (state.cup && !state.cup.championId) {
+          startNextCupRace(c);
+          return;
+        }
 
         // Reset ready state for all connections
         for (const conn of c.conns.values()) {
@@ -969,1458 +1420,155 @@ export const raceRoom = actor({
           cs.ready = false;
         }
 
-        c.broadcast("phaseChanged", {
-          phase: "waiting",
-          raceTimer: 0,
-        });
+        getSim(c).returnToWaiting();
 
+        // A finished cup starts over from its first track
+        if (state.cup) {
+          state.cup = createCup(state.cup.tracks);
+          const settings = resolveRoomSettings(c, {});
+          getSim(c).applySettings(settings);
+          c.broadcast("roomSettingsChanged", { settings });
+          broadcastCup(c);
+        }
+
+        if (state.mode === "timeTrial") {
+          tryStartCountdown(c);
+          return;
+        }
         c.broadcast("raceToast", {
           text: "Rematch! Waiting for players to ready up...",
           color: "#44AAFF",
         });
-
-        notifyLobby(c, state.id, {
-          playerCount: getNonSpectatorCount(c),
-          status: "waiting",
-        });
       }
     },
-  },
-});
-
-// ---------------------------------------------------------------------------
-// Rocket start — countdown throttle tracking
-// ---------------------------------------------------------------------------
-
-function rocketStartCountdownTick(c: any, tickCounter: number): void {
-  for (const conn of c.conns.values()) {
-    const cs = conn.state as ConnState;
-    if (cs.spectator || cs.rocketStartFired) continue;
-
-    if (cs.input.throttle) {
-      if (cs.accelerateHeldSince === -1) {
-        cs.accelerateHeldSince = tickCounter;
-      }
-    } else {
-      // Released throttle during countdown — note the release
-      // (accelerateHeldSince stays set so we know they pressed and released)
-      // No action here — the evaluation happens on phase transition
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Rocket start — evaluate on GO
-// ---------------------------------------------------------------------------
-
-function evaluateRocketStarts(c: any, goTick: number): void {
-  const state = c.state as RaceRoomState;
 
-  for (const conn of c.conns.values()) {
-    const cs = conn.state as ConnState;
-    if (cs.spectator || cs.rocketStartFired) continue;
+    /** Host only: add a CPU racer to an open grid slot while waiting */
+    addBot: (c: any, difficulty?: BotDifficulty): string | null => {
+      if (!isHost(c)) return null;
+      const state = c.state as RaceRoomState;
+      if (state.phase !== "waiting" || state.mode === "timeTrial" || state.heat) return null;
+      if (Object.keys(state.players).length >= state.maxPlayers) return null;
 
-    cs.rocketStartFired = true;
+      const kart = addBot(c, isBotDifficulty(difficulty) ? difficulty : "normal");
+      return kart.id;
+    },
 
-    const kart = state.players[cs.playerId] as KartState | undefined;
-    if (!kart) continue;
+    /** Host only: remove a CPU racer (the newest one when no id is given) */
+    removeBot: (c: any, kartId?: string): void => {
+      if (!isHost(c)) return;
+      const state = c.state as RaceRoomState;
+      if (state.phase !== "waiting") return;
 
-    // If never pressed throttle during countdown, no rocket start
-    if (cs.accelerateHeldSince === -1) {
-      kart.rocketStartTier = "none";
-      continue;
-    }
+      const botIds = Object.keys(state.bots);
+      const target = kartId ?? botIds[botIds.length - 1];
+      if (target) removeBot(c, target);
+    },
 
-    // If throttle was held continuously through GO (never released)
-    if (cs.input.throttle && cs.accelerateHeldSince < goTick - 1) {
-      // Stall penalty: held throttle through the entire countdown
-      kart.rocketStartTier = "stall";
-      kart.boostSpeed = 0;
-      kart.boostTimer = ROCKET_START_STALL_DURATION;
-      // Stall: cap max speed temporarily (handled in kartPhysicsTick)
-      c.broadcast("rocketStart", {
-        kartId: kart.id,
-        tier: "stall" as RocketStartTier,
-        boostSpeed: 0,
-      });
-      c.broadcast("raceToast", {
-        text: `${kart.name} stalled!`,
-        color: "#FF4444",
+    /**
+     * Host only: change the track, laps, item rules, speed class or grid size
+     * while waiting. Returns the settings now in effect, or null if refused.
+     */
+    updateRoomSettings: (c: any, patch?: Partial<RaceRoomSettings>): RaceRoomSettings | null => {
+      if (!isHost(c)) return null;
+      const state = c.state as RaceRoomState;
+      if (state.phase !== "waiting" || state.mode === "timeTrial" || state.heat) return null;
+      if (!patch || typeof patch !== "object") return null;
+
+      const settings = resolveRoomSettings(c, patch);
+      getSim(c).applySettings(settings);
+      trimBotsToCapacity(c);
+      c.broadcast("roomSettingsChanged", { settings });
+      notifyLobby(c, state.id, {
+        playerCount: getNonSpectatorCount(c),
+        status: "waiting",
       });
-      continue;
-    }
-
-    // Player released and re-pressed (or is pressing now at GO)
-    // Evaluate timing: how close their current press is to the GO tick
-    const tickDiff = Math.abs(goTick - cs.accelerateHeldSince);
-    // If they released and are now pressing again, use current tick as reference
-    const effectiveDiff = cs.input.throttle ? 0 : tickDiff;
-    const finalDiff = Math.min(tickDiff, effectiveDiff || tickDiff);
-
-    let tier: RocketStartTier;
-    let boostSpeed: number;
-    let boostDuration: number;
-
-    if (finalDiff <= 2) {
-      tier = "perfect";
-      boostSpeed = ROCKET_START_PERFECT_SPEED;
-      boostDuration = ROCKET_START_PERFECT_DURATION;
-    } else if (finalDiff <= 4) {
-      tier = "good";
-      boostSpeed = ROCKET_START_GOOD_SPEED;
-      boostDuration = ROCKET_START_GOOD_DURATION;
-    } else if (finalDiff <= ROCKET_START_WINDOW) {
-      tier = "ok";
-      boostSpeed = ROCKET_START_OK_SPEED;
-      boostDuration = ROCKET_START_OK_DURATION;
-    } else {
-      kart.rocketStartTier = "none";
-      continue;
-    }
-
-    kart.rocketStartTier = tier;
-    kart.boostSpeed = boostSpeed;
-    kart.boostTimer = boostDuration;
-    kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_ROCKET_START * (tier === "perfect" ? 1.0 : tier === "good" ? 0.6 : 0.3));
-
-    c.broadcast("rocketStart", {
-      kartId: kart.id,
-      tier,
-      boostSpeed,
-    });
-
-    const tierColors: Record<string, string> = {
-      perfect: "#FFDD00",
-      good: "#44FF88",
-      ok: "#88AAFF",
-    };
-    c.broadcast("raceToast", {
-      text: `${kart.name}: ${tier.toUpperCase()} start!`,
-      color: tierColors[tier] || "#FFFFFF",
-    });
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Item use execution
-// ---------------------------------------------------------------------------
-
-function executeItemUse(c: any, kart: KartState, playerId?: string): void {
-  const item = kart.currentItem;
-  if (!item) return;
-
-  const state = c.state as RaceRoomState;
-
-  // Track stats
-  const pid = playerId ?? kart.id;
-  if (state.stats[pid]) {
-    state.stats[pid].itemsUsed++;
-  }
-
-  switch (item) {
-    case "greenShell": {
-      const projectile = createShellProjectile(kart, "greenShell", null);
-      state.projectiles.push(projectile);
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item, projectile });
-      break;
-    }
-
-    case "redShell": {
-      // Target the next kart ahead in position ranking
-      const targetId = findNextKartAhead(state, kart.id);
-      const projectile = createShellProjectile(kart, "redShell", targetId);
-      state.projectiles.push(projectile);
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item, projectile });
-      break;
-    }
-
-    case "blueShell": {
-      // Target 1st place kart
-      const firstId = state.positions.length > 0 ? state.positions[0] : null;
-      const targetId = firstId && firstId !== kart.id ? firstId : null;
-      const projectile = createShellProjectile(kart, "blueShell", targetId);
-      state.projectiles.push(projectile);
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item, projectile });
-      break;
-    }
-
-    case "banana": {
-      const hazard = createBananaHazard(kart);
-      state.hazards.push(hazard);
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item, hazard });
-      break;
-    }
-
-    case "mushroom": {
-      applyMushroom(kart);
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item });
-      break;
-    }
+      return settings;
+    },
 
-    case "triMushroom": {
-      applyMushroom(kart);
-      kart.itemCharges -= 1;
-      if (kart.itemCharges <= 0) {
-        kart.currentItem = null;
-        kart.itemCharges = 0;
+    /**
+     * Host only: run the room as a cup over `tracks` (in order), or pass null
+     * to go back to single races. Can't be changed once a cup is under way.
+     */
+    configureCup: (c: any, tracks: TrackId[] | null): ActionResult => {
+      if (!isHost(c)) return { success: false, message: "Only the host can set up a cup" };
+      const state = c.state as RaceRoomState;
+      if (state.phase !== "waiting" || state.mode === "timeTrial") {
+        return { success: false, message: "Cups can only be set up while waiting" };
+      }
+      if (state.heat) return { success: false, message: "Tournament heats can't run a cup" };
+      if (state.cup && !state.cup.championId && state.cup.results.length > 0) {
+        return { success: false, message: "This cup is already under way" };
       }
-      c.broadcast("itemUsed", { kartId: kart.id, item });
-      break;
-    }
-
-    case "star": {
-      kart.status = "starred";
-      kart.statusTimer = STAR_DURATION;
-      kart.boostSpeed = STAR_SPEED_BONUS;
-      kart.boostTimer = STAR_DURATION;
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item });
-      break;
-    }
 
-    case "lightning": {
-      // Hit all other karts
-      const karts = Object.values(state.players) as KartState[];
-      for (const other of karts) {
-        if (other.id === kart.id) continue;
-        if (other.status === "starred") continue; // Star grants immunity
-        other.status = "shrunk";
-        other.statusTimer = LIGHTNING_SHRINK_DURATION;
-        // Track hit stats
-        if (state.stats[kart.id]) state.stats[kart.id].hitsDealt++;
-        if (state.stats[other.id]) state.stats[other.id].hitsTaken++;
-        c.broadcast("kartHit", {
-          kartId: other.id,
-          byKartId: kart.id,
-          itemType: "lightning",
-        });
+      if (tracks === null) {
+        state.cup = null;
+      } else {
+        const cleaned = cleanCupTracks(tracks);
+        if (!cleaned) {
+          return {
+            success: false,
+            message: `A cup needs ${CUP_MIN_RACES}-${CUP_MAX_RACES} races`,
+          };
+        }
+        state.cup = createCup(cleaned);
       }
-      kart.currentItem = null;
-      kart.itemCharges = 0;
-      c.broadcast("itemUsed", { kartId: kart.id, item });
-      break;
-    }
-  }
-}
 
-/** Create a shell projectile heading in the kart's forward direction */
-function createShellProjectile(
-  kart: KartState,
-  type: "greenShell" | "redShell" | "blueShell",
-  targetId: string | null,
-): ProjectileState {
-  const forwardX = Math.sin(kart.heading);
-  const forwardZ = Math.cos(kart.heading);
-  return {
-    id: `proj_${uid()}`,
-    type,
-    position: {
-      x: kart.position.x + forwardX * (KART_RADIUS + SHELL_RADIUS + 0.2),
-      y: kart.position.y + 0.3,
-      z: kart.position.z + forwardZ * (KART_RADIUS + SHELL_RADIUS + 0.2),
-    },
-    velocity: {
-      x: forwardX * SHELL_SPEED,
-      y: 0,
-      z: forwardZ * SHELL_SPEED,
+      const settings = resolveRoomSettings(c, {});
+      getSim(c).applySettings(settings);
+      c.broadcast("roomSettingsChanged", { settings });
+      broadcastCup(c);
+      notifyLobby(c, state.id, {
+        playerCount: getNonSpectatorCount(c),
+        status: "waiting",
+      });
+      return { success: true };
     },
-    ownerId: kart.id,
-    targetId,
-    bounces: 0,
-    age: 0,
-  };
-}
 
-/** Create a banana hazard behind the kart */
-function createBananaHazard(kart: KartState): HazardState {
-  const backX = -Math.sin(kart.heading);
-  const backZ = -Math.cos(kart.heading);
-  return {
-    id: `haz_${uid()}`,
-    type: "banana",
-    position: {
-      x: kart.position.x + backX * (KART_RADIUS + BANANA_RADIUS + 0.3),
-      y: kart.position.y + 0.15,
-      z: kart.position.z + backZ * (KART_RADIUS + BANANA_RADIUS + 0.3),
+    /** A saved replay by id, or the most recent one when no id is given */
+    getReplay: (c: any, replayId?: string): RaceReplay | null => {
+      const replays = (c.state as RaceRoomActorState).replays ?? [];
+      if (!replayId) return replays[replays.length - 1] ?? null;
+      return replays.find((r) => r.id === replayId) ?? null;
     },
-    ownerId: kart.id,
-  };
-}
-
-/** Apply mushroom boost to a kart */
-function applyMushroom(kart: KartState): void {
-  kart.boostSpeed = MUSHROOM_BOOST_SPEED;
-  kart.boostTimer = MUSHROOM_BOOST_DURATION;
-}
-
-/** Find the next kart ahead in position ranking */
-function findNextKartAhead(state: RaceRoomState, kartId: string): string | null {
-  const idx = state.positions.indexOf(kartId);
-  if (idx <= 0) return null; // Already 1st or not found
-  return state.positions[idx - 1];
-}
+  },
+});
 
 // ---------------------------------------------------------------------------
-// Apply hit to a kart (with hitstop)
+// Simulation input
 // ---------------------------------------------------------------------------
 
-function applyHitToKart(
-  c: any,
-  kart: KartState,
-  connState: ConnState | null,
-  speedMult: number,
-  byKartId: string | null,
-  itemType: ItemType | "collision",
-): void {
+/** Latest input per racing kart; consumes any queued item use */
+function collectInputs(c: any): Record<string, KartInput> {
   const state = c.state as RaceRoomState;
-
-  // Set hitstop frames — freeze the kart briefly before applying the spin
-  kart.hitstopTicks = HITSTOP_FRAMES;
-
-  // Store pending hit data on the connection state if available
-  if (connState) {
-    connState.hitstopPendingSpeed = speedMult;
-    connState.hitstopPendingDrift = true;
-  } else {
-    // No connState (offline player?) — apply immediately without hitstop
-    kart.status = "spinning";
-    kart.statusTimer = SPIN_DURATION;
-    kart.speed *= speedMult;
-    kart.driftState = defaultDrift();
-  }
-
-  kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_ON_HIT);
-  kart.slipAngle = 0;
-
-  if (byKartId && state.stats[byKartId]) state.stats[byKartId].hitsDealt++;
-  if (state.stats[kart.id]) state.stats[kart.id].hitsTaken++;
-
-  c.broadcast("kartHit", {
-    kartId: kart.id,
-    byKartId,
-    itemType,
-  });
-}
-
-/** Find ConnState for a given playerId across all connections */
-function findConnStateForPlayer(c: any, playerId: string): ConnState | null {
+  const inputs: Record<string, KartInput> = {};
   for (const conn of c.conns.values()) {
     const cs = conn.state as ConnState;
-    if (cs.playerId === playerId) return cs;
+    if (cs.spectator || !state.players[cs.playerId]) continue;
+    inputs[cs.playerId] = { ...cs.input, useItem: cs.pendingItemUse };
+    cs.pendingItemUse = false;
+    cs.ackedInputSeq = cs.inputSeq;
   }
-  return null;
-}
-
-// ---------------------------------------------------------------------------
-// Phase management
-// ---------------------------------------------------------------------------
-
-function phaseTick(c: any, now: number, dtMs: number, tickCounter: number): void {
-  const state = c.state as RaceRoomState;
-  const elapsed = now - state.phaseStartedAt;
-
-  switch (state.phase) {
-    case "countdown": {
-      if (elapsed >= PRE_RACE_COUNTDOWN) {
-        state.phase = "racing";
-        state.phaseStartedAt = now;
-        state.raceTimer = 0;
-
-        // Initialize lap start times for stats
-        for (const pid of Object.keys(state.players)) {
-          if (state.stats[pid]) {
-            (state.stats[pid] as any).lapStartTime = 0;
-          }
-        }
-
-        c.broadcast("phaseChanged", {
-          phase: "racing",
-          raceTimer: 0,
-        });
-
-        notifyLobby(c, state.id, {
-          playerCount: getNonSpectatorCount(c),
-          status: "playing",
-        });
-
-        // Evaluate rocket starts on GO
-        evaluateRocketStarts(c, tickCounter);
-      }
-      break;
-    }
-
-    case "racing": {
-      state.raceTimer += dtMs;
 
-      // Check if all karts have finished
-      const karts = Object.values(state.players) as KartState[];
-      const allFinished = karts.length > 0 && karts.every((k) => k.finishTime !== null);
-
-      // Check time limit
-      const timeExpired = state.raceTimer >= RACE_TIME_LIMIT;
-
-      if (allFinished || timeExpired) {
-        state.phase = "finished";
-        state.phaseStartedAt = now;
-
-        // Assign finish positions to any unfinished karts
-        const unfinished = karts.filter((k) => k.finishTime === null);
-        unfinished.sort((a, b) => b.raceProgress - a.raceProgress);
-        for (const k of unfinished) {
-          state.finishedCount += 1;
-          k.finishPosition = state.finishedCount;
-          k.finishTime = state.raceTimer;
-        }
-
-        const finishTimes: Record<string, number | null> = {};
-        for (const k of karts) {
-          finishTimes[k.id] = k.finishTime;
-        }
-
-        c.broadcast("raceFinished", {
-          positions: state.positions,
-          finishTimes,
-          stats: state.stats,
-        });
-        c.broadcast("phaseChanged", {
-          phase: "finished",
-          raceTimer: state.raceTimer,
-        });
-        notifyLobby(c, state.id, null);
-      }
-      break;
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Slipstream / Drafting tick
-// ---------------------------------------------------------------------------
-
-function slipstreamTick(c: any, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const kartIds = Object.keys(state.players);
-
-  // Build kart data array for cone checks
-  const kartData: Array<{
-    id: string;
-    pos: Vec3;
-    heading: number;
-    speed: number;
-    vx: number;
-    vz: number;
-  }> = [];
-
-  for (const kid of kartIds) {
-    const k = state.players[kid] as KartState;
-    if (k.finishTime !== null) continue;
-    kartData.push({
-      id: kid,
-      pos: k.position,
-      heading: k.heading,
-      speed: k.speed,
-      vx: k.velocity.x,
-      vz: k.velocity.z,
-    });
-  }
-
-  // For each kart, check if any other kart is directly ahead (in their forward cone)
-  for (const conn of c.conns.values()) {
-    const cs = conn.state as ConnState;
-    if (cs.spectator) continue;
-
-    const kart = state.players[cs.playerId] as KartState | undefined;
-    if (!kart || kart.finishTime !== null) continue;
-
-    const myFwdX = Math.sin(kart.heading);
-    const myFwdZ = Math.cos(kart.heading);
-    const mySpeed = Math.sqrt(kart.velocity.x * kart.velocity.x + kart.velocity.z * kart.velocity.z);
-
-    let foundAhead = false;
-
-    if (mySpeed > 0.05) {
-      for (const other of kartData) {
-        if (other.id === cs.playerId) continue;
-
-        // Vector from this kart to other
-        const dx = other.pos.x - kart.position.x;
-        const dz = other.pos.z - kart.position.z;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-
-        if (dist > SLIPSTREAM_CONE_LENGTH || dist < 0.1) continue;
-
-        // Angle between forward direction and direction to other
-        const ndx = dx / dist;
-        const ndz = dz / dist;
-        const dot = myFwdX * ndx + myFwdZ * ndz;
-        const angle = Math.acos(Math.max(-1, Math.min(1, dot)));
-
-        if (angle > SLIPSTREAM_CONE_ANGLE) continue;
-
-        // Check velocity alignment (both going roughly same direction)
-        const otherSpeed = Math.sqrt(other.vx * other.vx + other.vz * other.vz);
-        if (otherSpeed < 0.05) continue;
-
-        const myNvx = kart.velocity.x / mySpeed;
-        const myNvz = kart.velocity.z / mySpeed;
-        const otherNvx = other.vx / otherSpeed;
-        const otherNvz = other.vz / otherSpeed;
-        const velDot = myNvx * otherNvx + myNvz * otherNvz;
-
-        if (velDot > 0.7) {
-          foundAhead = true;
-          break;
-        }
-      }
-    }
-
-    const wasActive = kart.slipstreamActive;
-
-    if (foundAhead) {
-      cs.slipstreamTicks = Math.min(cs.slipstreamTicks + 1, SLIPSTREAM_CHARGE_TICKS + 10);
-
-      if (cs.slipstreamTicks >= SLIPSTREAM_CHARGE_TICKS && !kart.slipstreamActive) {
-        kart.slipstreamActive = true;
-        cs.slipstreamBonusTicks = SLIPSTREAM_DURATION_TICKS;
-        kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_SLIPSTREAM);
-        c.broadcast("slipstream", { kartId: kart.id, active: true });
-      }
-    } else {
-      // Not in cone — decay slipstream ticks (grace period: lose 10/tick)
-      if (cs.slipstreamTicks > 0) {
-        cs.slipstreamTicks = Math.max(0, cs.slipstreamTicks - 10);
-      }
-    }
-
-    // Manage bonus duration
-    if (kart.slipstreamActive) {
-      if (!foundAhead) {
-        cs.slipstreamBonusTicks--;
-      }
-      if (cs.slipstreamBonusTicks <= 0) {
-        kart.slipstreamActive = false;
-        cs.slipstreamTicks = 0;
-        cs.slipstreamBonusTicks = 0;
-        if (wasActive) {
-          c.broadcast("slipstream", { kartId: kart.id, active: false });
-        }
-      }
-    }
-
-    // Update kart slipstreamTicks for snapshot
-    kart.slipstreamTicks = cs.slipstreamTicks;
+  // Karts waiting for their racer to reconnect just coast
+  for (const kartId of Object.keys(state.disconnected)) {
+    if (state.players[kartId]) inputs[kartId] = idleKartInput();
   }
-}
-
-/** Compute slipstream speed bonus for a kart (called in kartPhysicsTick) */
-function getSlipstreamBonus(cs: ConnState): number {
-  if (cs.slipstreamBonusTicks <= 0) return 0;
 
-  // Full bonus for most of the duration, decay in last SLIPSTREAM_DECAY_TICKS
-  if (cs.slipstreamBonusTicks > SLIPSTREAM_DECAY_TICKS) {
-    return SLIPSTREAM_BONUS;
+  // Bots drive through the same inputs as players (replays re-run them from their seeds)
+  const track = getSim(c).track;
+  for (const botId of Object.keys(state.bots)) {
+    const kart = state.players[botId];
+    if (kart) inputs[botId] = getBotDriver(c, botId).nextInput(kart, state, track);
   }
-  // Linear decay
-  return SLIPSTREAM_BONUS * (cs.slipstreamBonusTicks / SLIPSTREAM_DECAY_TICKS);
+  return inputs;
 }
 
-// ---------------------------------------------------------------------------
-// Kart physics tick
-// ---------------------------------------------------------------------------
-
-function kartPhysicsTick(
-  c: any,
-  dt: number,
-  now: number,
-  track: ReturnType<typeof getTrack>,
-  tickCounter: number,
-): void {
-  const state = c.state as RaceRoomState;
-  const segments = track.segments;
-
+/** Snapshot plus the input seq each client's prediction can discard up to */
+function buildSnapshot(c: any, sim: RaceSimulation): RaceSnapshot {
+  const inputAcks: Record<string, number> = {};
   for (const conn of c.conns.values()) {
     const cs = conn.state as ConnState;
-    if (cs.spectator) continue;
-
-    const kart = state.players[cs.playerId] as KartState | undefined;
-    if (!kart) continue;
-
-    // Already finished — freeze kart
-    if (kart.finishTime !== null) continue;
-
-    // --- Hitstop: freeze kart for N ticks on impact ---
-    if (kart.hitstopTicks > 0) {
-      kart.hitstopTicks--;
-      if (kart.hitstopTicks <= 0) {
-        // Hitstop expired — now apply the spin/knockback
-        kart.status = "spinning";
-        kart.statusTimer = SPIN_DURATION;
-        kart.speed *= cs.hitstopPendingSpeed;
-        if (cs.hitstopPendingDrift) {
-          kart.driftState = defaultDrift();
-        }
-        cs.hitstopPendingSpeed = 0;
-        cs.hitstopPendingDrift = false;
-      }
-      // Skip all physics while in hitstop
-      continue;
-    }
-
-    // --- Hit immunity tick ---
-    if (cs.immunityTicks > 0) {
-      cs.immunityTicks--;
-    }
-
-    // --- Status effect handling ---
-    if (kart.status === "spinning" || kart.status === "falling") {
-      kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
-      kart.speed *= 0.92; // Rapid deceleration while spinning
-      if (kart.statusTimer <= 0) {
-        // Respawn if falling, otherwise just recover
-        if (kart.status === "falling") {
-          const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z);
-          const respawn = getRespawnPosition(segments, segIdx);
-          kart.position = plainVec3(respawn.position);
-          kart.heading = respawn.heading;
-          kart.speed = 0;
-        }
-        kart.status = "normal";
-        kart.statusTimer = 0;
-        // Grant hit immunity after recovering from spin
-        cs.immunityTicks = HIT_IMMUNITY_TICKS;
-      }
-      // Update velocity for snapshot
-      kart.velocity = {
-        x: Math.sin(kart.heading) * kart.speed,
-        y: 0,
-        z: Math.cos(kart.heading) * kart.speed,
-      };
-      continue;
-    }
-
-    // --- Starred timer ---
-    if (kart.status === "starred") {
-      kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
-      if (kart.statusTimer <= 0) {
-        kart.status = "normal";
-        kart.statusTimer = 0;
-      }
-    }
-
-    // --- Shrunk timer ---
-    if (kart.status === "shrunk") {
-      kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
-      if (kart.statusTimer <= 0) {
-        kart.status = "normal";
-        kart.statusTimer = 0;
-      }
-    }
-
-    // --- Read input ---
-    const input = cs.input;
-
-    // --- Acceleration / Braking ---
-    const shrunkMult = kart.status === "shrunk" ? SHRUNK_SPEED_PENALTY : 1.0;
-
-    // Rocket start stall penalty: cap speed during stall
-    const isStalling = kart.rocketStartTier === "stall" && kart.boostTimer > 0;
-
-    if (input.throttle) {
-      kart.speed += KART_ACCELERATION * dt * shrunkMult;
-    }
-
-    if (input.brake) {
-      if (kart.speed > 0) {
-        // Braking (only when not drifting)
-        if (!kart.driftState.active) {
-          kart.speed -= KART_BRAKE_FORCE * dt;
-          if (kart.speed < 0) kart.speed = 0;
-        }
-      } else {
-        // Reverse
-        kart.speed -= KART_REVERSE_ACCEL * dt;
-      }
-    }
-
-    // --- Surface check & classification ---
-    const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z, cs.prevSegIdx);
-    const seg = segments[segIdx];
-    const hw = Math.sqrt(
-      (seg.right.x - seg.left.x) ** 2 + (seg.right.z - seg.left.z) ** 2,
-    ) / 2;
-    const lateralDist = Math.abs(getLateralOffset(segments, segIdx, kart.position.x, kart.position.z));
-    const onRoadHw = hw * 1.3;
-    const meshRoadDistance =
-      state.trackId === "track1"
-        ? sampleRoadDistance(kart.position.x, kart.position.z)
-        : 0;
-    const onRoad =
-      state.trackId === "track1"
-        ? meshRoadDistance <= 4
-        : lateralDist <= onRoadHw;
-
-    let surface: SurfaceType = "asphalt";
-    if (!onRoad) {
-      const outOfBounds =
-        state.trackId === "track1"
-          ? meshRoadDistance > 120
-          : lateralDist > onRoadHw * OUT_OF_BOUNDS_BOUNDARY;
-      if (outOfBounds) {
-        kart.status = "falling";
-        kart.statusTimer = SPIN_DURATION;
-        kart.speed = 0;
-        kart.driftState = defaultDrift();
-        kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_ON_HIT);
-        continue;
-      }
-      if (state.trackId === "track1") {
-        surface = meshRoadDistance > 40 ? "sand" : "shoulder";
-      } else {
-        const offRoadRatio = (lateralDist - onRoadHw) / (onRoadHw * (OUT_OF_BOUNDS_BOUNDARY - 1));
-        surface = offRoadRatio > 0.6 ? "sand" : "shoulder";
-      }
-    } else {
-      if (state.trackId === "track1") {
-        if (meshRoadDistance > 0 && meshRoadDistance < 10) surface = "rumble";
-      } else {
-        const edgeProximity = lateralDist / onRoadHw;
-        if (edgeProximity > 0.95) surface = "rumble";
-      }
-    }
-    kart.surface = surface;
-
-    const surfaceGrip = SURFACE_GRIP[surface];
-    const surfaceDrag = SURFACE_DRAG[surface];
-    const surfaceDriftMult = SURFACE_DRIFT_CHARGE_MULT[surface];
-
-    if (cs.dustCarryoverTicks > 0) cs.dustCarryoverTicks--;
-    if (surface !== "asphalt" && surface !== "rumble") {
-      cs.dustCarryoverTicks = DUST_CARRYOVER_TICKS;
-    }
-    const dustPenalty = cs.dustCarryoverTicks > 0 ? DUST_CARRYOVER_GRIP_PENALTY : 0;
-
-    // --- Compression / banking / load factor ---
-    // Use only adjacent segment for elevation delta to avoid large jumps
-    const adjSegIdx = Math.abs(segIdx - cs.prevSegIdx) <= 2
-      ? cs.prevSegIdx
-      : (segIdx - 1 + segments.length) % segments.length;
-    const prevSeg = segments[adjSegIdx] || seg;
-    const elevDelta = seg.center.y - prevSeg.center.y;
-    let loadFactor = 1.0;
-    // Clamp elevation delta to reasonable range to prevent wild grip swings
-    const clampedDelta = Math.max(-2, Math.min(2, elevDelta));
-    if (clampedDelta > 0.1) {
-      loadFactor = 1.0 + Math.min(clampedDelta * 0.5, COMPRESSION_GRIP_GAIN);
-    } else if (clampedDelta < -0.1) {
-      loadFactor = 1.0 - Math.min(Math.abs(clampedDelta) * 0.5, CREST_GRIP_LOSS);
-    }
-
-    const bankAngle = seg.left.y !== seg.right.y
-      ? Math.atan2(Math.abs(seg.left.y - seg.right.y), hw * 2)
-      : 0;
-    const bankBonus = bankAngle * BANKING_GRIP_BONUS * 10;
-    loadFactor = Math.max(0.6, Math.min(1.3, loadFactor + bankBonus));
-    kart.loadFactor = loadFactor;
-
-    const wasAirborne = cs.airborne;
-    cs.airborne = loadFactor < 0.55;
-    if (wasAirborne && !cs.airborne) {
-      if (Math.abs(kart.slipAngle) > LANDING_SCRUB_THRESHOLD) {
-        kart.speed *= 1 - LANDING_SCRUB_PENALTY;
-      } else {
-        kart.speed += LANDING_CLEAN_BONUS;
-        kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + 0.02);
-      }
-    }
-    cs.prevSegIdx = segIdx;
-    cs.prevElevation = seg.center.y;
-
-    // --- Effective grip (combines surface, load, dust, flow) ---
-    const flowGripBonus = kart.flowMeter * FLOW_TURN_BONUS;
-    const effectiveGrip = Math.max(0.2, (surfaceGrip - dustPenalty) * loadFactor + flowGripBonus);
-
-    // --- Drag (surface-aware) ---
-    kart.speed *= 1 - KART_DRAG * surfaceDrag * dt;
-
-    // --- Off-road flow decay + wall scrub ---
-    if (!onRoad) {
-      const offAmount =
-        state.trackId === "track1"
-          ? Math.min(1, meshRoadDistance / 40)
-          : (lateralDist - onRoadHw) / onRoadHw;
-      const offRoadDrag = (1 - OFF_ROAD_SPEED_MULT) * 0.02 * Math.min(1, offAmount) * dt;
-      kart.speed *= 1 - offRoadDrag;
-      kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_OFF_ROAD * 0.5 * dt);
-
-      if (offAmount > 0.5) {
-        const headingAlignToNormal = Math.abs(
-          Math.sin(kart.heading) * seg.normal.x + Math.cos(kart.heading) * seg.normal.z
-        );
-        if (headingAlignToNormal > WALL_SCRUB_ANGLE_THRESHOLD) {
-          kart.speed *= 1 - WALL_SCRUB_SPEED_LOSS * 0.5;
-          kart.slipAngle = Math.min(SLIP_ANGLE_MAX, kart.slipAngle + 0.03);
-        }
-      }
-    }
-
-    // --- Boost zone check ---
-    if (isInBoostZone(track.boostZones, segIdx)) {
-      if (kart.boostTimer <= 0 || kart.boostSpeed < BOOST_PAD_SPEED) {
-        kart.boostSpeed = BOOST_PAD_SPEED;
-        kart.boostTimer = BOOST_PAD_DURATION;
-        kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_BOOST_PAD);
-      }
-    }
-
-    // --- Active boost timer (flow extends duration) ---
-    if (kart.boostTimer > 0) {
-      const boostDecay = dt * RACE_SERVER_TICK_INTERVAL;
-      const flowExtend = kart.flowMeter > 0.5 ? FLOW_BOOST_EXTEND_MULT : 1.0;
-      kart.boostTimer -= boostDecay / flowExtend;
-      if (kart.boostTimer <= 0) {
-        kart.boostTimer = 0;
-        kart.boostSpeed = 0;
-        if (kart.rocketStartTier === "stall") {
-          kart.rocketStartTier = "none";
-        }
-      }
-    }
-
-    // --- Speed cap (with flow bonus) ---
-    const slipBonus = getSlipstreamBonus(cs);
-    const flowSpeedBonus = kart.flowMeter * FLOW_SPEED_BONUS;
-    let maxSpeed = (KART_MAX_SPEED + kart.boostSpeed + slipBonus + flowSpeedBonus) * shrunkMult;
-
-    if (isStalling) {
-      maxSpeed = Math.min(maxSpeed, ROCKET_START_STALL_MAX_SPEED);
-    }
-
-    const maxReverse = KART_REVERSE_MAX * shrunkMult;
-    if (kart.speed > maxSpeed) kart.speed = maxSpeed;
-    if (kart.speed < -maxReverse) kart.speed = -maxReverse;
-
-    if (state.stats[cs.playerId]) {
-      if (Math.abs(kart.speed) > state.stats[cs.playerId].topSpeed) {
-        state.stats[cs.playerId].topSpeed = Math.abs(kart.speed);
-      }
-    }
-
-    // --- Improved Turn Curve (grip-aware) ---
-    const speedRatio = Math.abs(kart.speed) / KART_MAX_SPEED;
-    let turnRate = KART_TURN_RATE * (1 - TURN_HIGH_SPEED_REDUCTION * Math.pow(speedRatio, TURN_CURVE_EXPONENT));
-    turnRate *= effectiveGrip;
-
-    if (kart.driftState.active) {
-      turnRate *= DRIFT_TURN_MULTIPLIER;
-    }
-
-    // --- Counter-steer bonus ---
-    const currentSteerDir = input.steering > 0.01 ? 1 : (input.steering < -0.01 ? -1 : 0);
-    if (currentSteerDir !== 0 && cs.lastSteerDirection !== 0 && currentSteerDir !== cs.lastSteerDirection) {
-      turnRate *= COUNTER_STEER_BONUS;
-    }
-
-    // --- Snap Steering ---
-    const prevSign = cs.prevSteerSign;
-    if (currentSteerDir !== 0 && (prevSign === 0 || currentSteerDir !== prevSign)) {
-      cs.steerInputTicks = 0;
-    }
-
-    if (currentSteerDir !== 0 && cs.steerInputTicks < SNAP_STEERING_FRAMES) {
-      const snapProgress = cs.steerInputTicks / SNAP_STEERING_FRAMES;
-      const snapMult = SNAP_STEERING_MULT + (1.0 - SNAP_STEERING_MULT) * snapProgress;
-      turnRate *= snapMult;
-      cs.steerInputTicks++;
-    } else if (currentSteerDir !== 0) {
-      cs.steerInputTicks++;
-    }
-
-    cs.prevSteerSign = currentSteerDir;
-    if (currentSteerDir !== 0) {
-      cs.lastSteerDirection = currentSteerDir;
-    }
-
-    const steerAmount = input.steering * turnRate * dt;
-    kart.heading -= steerAmount;
-
-    // --- Slip angle / lateral velocity (Grip-Budget) ---
-    const steerMagnitude = Math.abs(steerAmount);
-    const speedFactor = Math.min(1, Math.abs(kart.speed) / KART_MAX_SPEED);
-    const slipBuildup = steerMagnitude * speedFactor * SLIP_ANGLE_BUILDUP * 0.7;
-    const slipRecovery = SLIP_ANGLE_RECOVERY * effectiveGrip * dt * 1.5;
-    const driftFloor = kart.driftState.active ? DRIFT_SLIP_FLOOR : 0;
-
-    kart.slipAngle = Math.max(driftFloor, Math.min(SLIP_ANGLE_MAX,
-      kart.slipAngle + slipBuildup - slipRecovery
-    ));
-
-    const gripLoss = (kart.slipAngle / SLIP_ANGLE_MAX) * GRIP_LOSS_AT_MAX_SLIP;
-    if (kart.slipAngle > 0.15) {
-      kart.speed *= 1 - gripLoss * 0.01 * dt;
-    }
-
-    const lateralPush = kart.slipAngle * LATERAL_PUSH_STRENGTH * Math.sign(input.steering || kart.driftState.direction) * kart.speed;
-
-    // --- Flow meter natural decay ---
-    kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_PER_TICK * dt);
-
-    // --- Flow: clean corner detection (high speed through turn without off-road) ---
-    if (onRoad && steerMagnitude > 0.01 && speedRatio > 0.7 && kart.slipAngle < SLIP_ANGLE_MAX * 0.6) {
-      kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_CLEAN_CORNER * dt);
-    }
-
-    // --- Drift mechanics ---
-    const drift = kart.driftState;
-
-    if (
-      !drift.active &&
-      input.drift &&
-      Math.abs(kart.speed) > MIN_DRIFT_SPEED &&
-      Math.abs(input.steering) > 0.3
-    ) {
-      // Start drift
-      drift.active = true;
-      drift.direction = (input.steering > 0 ? 1 : -1) as DriftDirection;
-      drift.charge = 0;
-      drift.timer = 0;
-      // Reset drift release grace
-      cs.driftReleaseGraceTicks = 0;
-      cs.driftReleaseGraceCharge = 0;
-    }
-
-    if (drift.active) {
-      if (input.drift && Math.abs(kart.speed) > MIN_DRIFT_SPEED * 0.5) {
-        drift.timer += surfaceDriftMult;
-
-        // Check charge thresholds and broadcast tier events
-        const prevCharge = drift.charge;
-
-        if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[2] && drift.charge < 3) {
-          drift.charge = 3 as DriftCharge;
-        } else if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[1] && drift.charge < 2) {
-          drift.charge = 2 as DriftCharge;
-        } else if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[0] && drift.charge < 1) {
-          drift.charge = 1 as DriftCharge;
-        }
-
-        // Broadcast drift tier events on threshold crossing
-        if (drift.charge > prevCharge) {
-          c.broadcast("driftTierReached", {
-            kartId: kart.id,
-            tier: drift.charge,
-          });
-          // Track the latest tier reached (for grace window)
-          cs.driftReleaseGraceTicks = 4; // Reset grace ticks on new tier
-          cs.driftReleaseGraceCharge = drift.charge;
-        } else if (cs.driftReleaseGraceTicks > 0) {
-          cs.driftReleaseGraceTicks--;
-        }
-      } else {
-        // Release drift — apply boost based on charge
-        let chargeToUse = drift.charge;
-
-        // Drift Release Grace Window: if within 4 ticks of reaching a new tier, grant that tier
-        if (cs.driftReleaseGraceTicks > 0 && cs.driftReleaseGraceCharge > drift.charge) {
-          chargeToUse = cs.driftReleaseGraceCharge;
-        }
-
-        if (chargeToUse > 0) {
-          const chargeIdx = (chargeToUse - 1) as 0 | 1 | 2;
-          kart.boostSpeed = DRIFT_BOOST_SPEEDS[chargeIdx];
-          kart.boostTimer = DRIFT_BOOST_DURATIONS[chargeIdx];
-          kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_DRIFT_RELEASE * chargeToUse);
-
-          if (state.stats[cs.playerId]) {
-            state.stats[cs.playerId].driftBoosts++;
-          }
-        }
-
-        // Reset drift
-        drift.active = false;
-        drift.direction = 0;
-        drift.charge = 0;
-        drift.timer = 0;
-        cs.driftReleaseGraceTicks = 0;
-        cs.driftReleaseGraceCharge = 0;
-      }
-    }
-
-    // --- Mesh heightfield placement ---
-    // Track1 elevation should come from the baked road mesh, not the sampled
-    // centerline, so the kart stays glued to the visible road surface.
-    const nextSegIdx = (segIdx + 1) % segments.length;
-    const prevSegIdx2 = (segIdx - 1 + segments.length) % segments.length;
-    const nextSeg = segments[nextSegIdx];
-    const prevSeg2 = segments[prevSegIdx2];
-    const meshY = sampleRoadHeight(kart.position.x, kart.position.z);
-    const targetY = meshY ?? seg.center.y;
-
-    // --- Position integration (with lateral push from slip angle) ---
-    const vx = Math.sin(kart.heading) * kart.speed;
-    const vz = Math.cos(kart.heading) * kart.speed;
-    const lateralNx = -Math.cos(kart.heading);
-    const lateralNz = Math.sin(kart.heading);
-
-    kart.position.x += (vx + lateralNx * lateralPush) * dt;
-    kart.position.z += (vz + lateralNz * lateralPush) * dt;
-
-    const desiredY = targetY + 2.5;
-    kart.position.y += (desiredY - kart.position.y) * 0.3;
-
-    // --- Slope force (smoothed over 3 segments) ---
-    const slopeGradient = (nextSeg.center.y - prevSeg2.center.y) /
-      (Math.max(1, segments[nextSegIdx].distance - segments[prevSegIdx2].distance) || 1);
-    const headingDirX = Math.sin(kart.heading);
-    const headingDirZ = Math.cos(kart.heading);
-    const alignment = headingDirX * seg.forward.x + headingDirZ * seg.forward.z;
-    const slopeForce = -slopeGradient * 0.015 * alignment * dt;
-    kart.speed += slopeForce;
-
-    // --- Update velocity for snapshot interpolation ---
-    kart.velocity = { x: vx + lateralNx * lateralPush, y: 0, z: vz + lateralNz * lateralPush };
+    if (!cs.spectator && cs.ackedInputSeq >= 0) inputAcks[cs.playerId] = cs.ackedInputSeq;
   }
-}
-
-// ---------------------------------------------------------------------------
-// Kart-kart collision
-// ---------------------------------------------------------------------------
-
-function kartCollisionTick(c: any, dt: number): void {
-  const state = c.state as RaceRoomState;
-  const kartIds = Object.keys(state.players);
-
-  for (let i = 0; i < kartIds.length; i++) {
-    const a = state.players[kartIds[i]] as KartState;
-    if (a.finishTime !== null) continue;
-
-    for (let j = i + 1; j < kartIds.length; j++) {
-      const b = state.players[kartIds[j]] as KartState;
-      if (b.finishTime !== null) continue;
-
-      const dx = b.position.x - a.position.x;
-      const dz = b.position.z - a.position.z;
-      const distSq = dx * dx + dz * dz;
-      const minDist = KART_RADIUS * 2;
-
-      if (distSq >= minDist * minDist || distSq < 0.0001) continue;
-
-      const dist = Math.sqrt(distSq);
-      const nx = dx / dist;
-      const nz = dz / dist;
-
-      const overlap = (minDist - dist) / 2;
-      a.position.x -= nx * overlap;
-      a.position.z -= nz * overlap;
-      b.position.x += nx * overlap;
-      b.position.z += nz * overlap;
-
-      const aForwardX = Math.sin(a.heading);
-      const aForwardZ = Math.cos(a.heading);
-      const bForwardX = Math.sin(b.heading);
-      const bForwardZ = Math.cos(b.heading);
-
-      const aDot = aForwardX * nx + aForwardZ * nz;
-      const bDot = bForwardX * (-nx) + bForwardZ * (-nz);
-
-      const isSideContact = Math.abs(aDot) < 0.5 && Math.abs(bDot) < 0.5;
-      const isRearTap = (aDot > 0.6 && bDot < -0.3) || (bDot > 0.6 && aDot < -0.3);
-
-      if (isSideContact) {
-        a.speed -= SIDE_RUB_SCRUB_RATE * Math.abs(a.speed);
-        b.speed -= SIDE_RUB_SCRUB_RATE * Math.abs(b.speed);
-        a.slipAngle = Math.min(SLIP_ANGLE_MAX, a.slipAngle + 0.03);
-        b.slipAngle = Math.min(SLIP_ANGLE_MAX, b.slipAngle + 0.03);
-      } else if (isRearTap) {
-        if (aDot > bDot) {
-          b.slipAngle = Math.min(SLIP_ANGLE_MAX, b.slipAngle + REAR_TAP_DESTABILIZE);
-          b.speed -= KART_COLLISION_PUSH * 1.5;
-          a.speed -= KART_COLLISION_PUSH * 0.5;
-        } else {
-          a.slipAngle = Math.min(SLIP_ANGLE_MAX, a.slipAngle + REAR_TAP_DESTABILIZE);
-          a.speed -= KART_COLLISION_PUSH * 1.5;
-          b.speed -= KART_COLLISION_PUSH * 0.5;
-        }
-      } else {
-        a.speed -= aDot * KART_COLLISION_PUSH;
-        b.speed -= bDot * KART_COLLISION_PUSH;
-      }
-
-      // Star collision — starred kart spins the other
-      if (a.status === "starred" && b.status !== "starred") {
-        if (b.status !== "spinning" && b.status !== "falling") {
-          const bConn = findConnStateForPlayer(c, b.id);
-          // Check hit immunity
-          if (!bConn || bConn.immunityTicks <= 0) {
-            applyHitToKart(c, b, bConn, 0.3, a.id, "collision");
-          }
-        }
-      } else if (b.status === "starred" && a.status !== "starred") {
-        if (a.status !== "spinning" && a.status !== "falling") {
-          const aConn = findConnStateForPlayer(c, a.id);
-          if (!aConn || aConn.immunityTicks <= 0) {
-            applyHitToKart(c, a, aConn, 0.3, b.id, "collision");
-          }
-        }
-      }
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Projectile tick (shells)
-// ---------------------------------------------------------------------------
-
-function projectileTick(c: any, dt: number, now: number, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const projectiles = state.projectiles as ProjectileState[];
-  const segments = track.segments;
-  const toRemove: Set<string> = new Set();
-
-  for (const proj of projectiles) {
-    // Age check
-    proj.age += dt * RACE_SERVER_TICK_INTERVAL;
-    if (proj.age >= PROJECTILE_MAX_AGE) {
-      toRemove.add(proj.id);
-      continue;
-    }
-
-    // Red shell & blue shell homing
-    if ((proj.type === "redShell" || proj.type === "blueShell") && proj.targetId) {
-      // For blue shell, dynamically retarget 1st place
-      let targetId = proj.targetId;
-      if (proj.type === "blueShell" && state.positions.length > 0) {
-        targetId = state.positions[0];
-        proj.targetId = targetId;
-      }
-
-      const target = state.players[targetId] as KartState | undefined;
-      if (target && target.finishTime === null) {
-        const dx = target.position.x - proj.position.x;
-        const dz = target.position.z - proj.position.z;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-        if (dist > 0.1) {
-          const nx = dx / dist;
-          const nz = dz / dist;
-          // Steer toward target
-          const currentSpeed = Math.sqrt(
-            proj.velocity.x * proj.velocity.x + proj.velocity.z * proj.velocity.z,
-          );
-          const speed = Math.max(currentSpeed, SHELL_SPEED);
-          proj.velocity.x = nx * speed;
-          proj.velocity.z = nz * speed;
-        }
-      }
-    }
-
-    // Move projectile
-    proj.position.x += proj.velocity.x * dt;
-    proj.position.z += proj.velocity.z * dt;
-
-    // Track boundary bounce/destroy
-    const segIdx = findNearestSegment(segments, proj.position.x, proj.position.z);
-    const onRoad = isOnRoad(segments, segIdx, proj.position.x, proj.position.z);
-
-    if (!onRoad) {
-      if (proj.type === "greenShell") {
-        // Bounce green shell
-        proj.bounces += 1;
-        if (proj.bounces > GREEN_SHELL_MAX_BOUNCES) {
-          toRemove.add(proj.id);
-          continue;
-        }
-        // Reflect velocity off track boundary normal
-        const seg = segments[segIdx];
-        const lateral = getLateralOffset(segments, segIdx, proj.position.x, proj.position.z);
-        // Reflect off the track normal (left/right boundary)
-        const reflectNx = lateral > 0 ? -seg.normal.x : seg.normal.x;
-        const reflectNz = lateral > 0 ? -seg.normal.z : seg.normal.z;
-        const dot = proj.velocity.x * reflectNx + proj.velocity.z * reflectNz;
-        proj.velocity.x -= 2 * dot * reflectNx;
-        proj.velocity.z -= 2 * dot * reflectNz;
-        // Push back onto road
-        proj.position.x += reflectNx * 0.5;
-        proj.position.z += reflectNz * 0.5;
-      } else {
-        // Red and blue shells destroy on wall hit
-        toRemove.add(proj.id);
-        continue;
-      }
-    }
-
-    // Check kart collision
-    const kartIds = Object.keys(state.players);
-    for (const kid of kartIds) {
-      if (kid === proj.ownerId && proj.age < 500) continue; // Brief owner immunity
-      const kart = state.players[kid] as KartState;
-      if (kart.finishTime !== null) continue;
-      if (kart.status === "starred") continue; // Star grants immunity
-      if (kart.status === "spinning" || kart.status === "falling") continue;
-      if (kart.hitstopTicks > 0) continue; // Already in hitstop
-
-      // Check hit immunity
-      const kartConn = findConnStateForPlayer(c, kid);
-      if (kartConn && kartConn.immunityTicks > 0) continue;
-
-      const hitDist = vec3Distance2D(proj.position, kart.position);
-      if (hitDist < SHELL_RADIUS + KART_RADIUS) {
-        applyHitToKart(c, kart, kartConn, 0.3, proj.ownerId, proj.type);
-        toRemove.add(proj.id);
-        break;
-      }
-    }
-  }
-
-  // Remove destroyed projectiles
-  if (toRemove.size > 0) {
-    state.projectiles = projectiles.filter((p) => !toRemove.has(p.id));
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Hazard tick (bananas)
-// ---------------------------------------------------------------------------
-
-function hazardTick(c: any, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const hazards = state.hazards as HazardState[];
-  const toRemove: Set<string> = new Set();
-
-  const kartIds = Object.keys(state.players);
-
-  for (const hazard of hazards) {
-    for (const kid of kartIds) {
-      const kart = state.players[kid] as KartState;
-      if (kart.finishTime !== null) continue;
-      if (kart.status === "starred") continue; // Star grants immunity
-      if (kart.status === "spinning" || kart.status === "falling") continue;
-      if (kart.hitstopTicks > 0) continue; // Already in hitstop
-
-      // Check hit immunity
-      const kartConn = findConnStateForPlayer(c, kid);
-      if (kartConn && kartConn.immunityTicks > 0) continue;
-
-      // Brief owner immunity (based on distance — owner just dropped it)
-      if (kart.id === hazard.ownerId) {
-        const dropDist = vec3Distance2D(kart.position, hazard.position);
-        if (dropDist < KART_RADIUS * 3) continue;
-      }
-
-      const hitDist = vec3Distance2D(hazard.position, kart.position);
-      if (hitDist < BANANA_RADIUS + KART_RADIUS) {
-        applyHitToKart(c, kart, kartConn, 0.5, hazard.ownerId, "banana");
-        toRemove.add(hazard.id);
-        break;
-      }
-    }
-  }
-
-  if (toRemove.size > 0) {
-    state.hazards = hazards.filter((h) => !toRemove.has(h.id));
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Item box tick
-// ---------------------------------------------------------------------------
-
-function itemBoxTick(c: any, now: number, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const itemBoxes = state.itemBoxes as ItemBoxState[];
-
-  for (const box of itemBoxes) {
-    if (!box.active) {
-      // Countdown respawn
-      box.respawnTimer -= RACE_SERVER_TICK_INTERVAL;
-      if (box.respawnTimer <= 0) {
-        box.active = true;
-        box.respawnTimer = 0;
-      }
-      continue;
-    }
-
-    // Check kart collision with active box
-    const kartIds = Object.keys(state.players);
-    for (const kid of kartIds) {
-      const kart = state.players[kid] as KartState;
-      if (kart.finishTime !== null) continue;
-      if (kart.currentItem !== null) continue; // Already holding an item
-
-      const hitDist = vec3Distance2D(box.position, kart.position);
-      if (hitDist < KART_RADIUS + 0.8) {
-        // Pick up item — use improved rubber-banding
-        const { item, charges } = rollItem(state, kart.id);
-        kart.currentItem = item;
-        kart.itemCharges = charges;
-
-        box.active = false;
-        box.respawnTimer = ITEM_BOX_RESPAWN_TIME;
-
-        c.broadcast("itemPickedUp", {
-          kartId: kart.id,
-          item,
-          charges,
-          boxId: box.id,
-        });
-        break;
-      }
-    }
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Checkpoint & lap tracking
-// ---------------------------------------------------------------------------
-
-function checkpointTick(c: any, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const segments = track.segments;
-  const totalSegments = segments.length;
-  const checkpoints = track.checkpoints;
-
-  const kartIds = Object.keys(state.players);
-  for (const kid of kartIds) {
-    const kart = state.players[kid] as KartState;
-    if (kart.finishTime !== null) continue;
-
-    const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z);
-
-    // Check if kart is near their next checkpoint
-    const nextCp = kart.checkpoint;
-    if (nextCp >= checkpoints.length) {
-      // All checkpoints passed — check if crossing start/finish (segment 0 region)
-      if (segIdx < totalSegments * 0.1) {
-        // Crossed start/finish — complete lap
-        kart.lap += 1;
-        kart.checkpoint = 0;
-
-        // Track best lap time in stats
-        const stats = state.stats[kid];
-        if (stats) {
-          const lapTime = state.raceTimer - ((stats as any).lapStartTime || 0);
-          if (kart.lap > 1 && (stats.bestLapTime === null || lapTime < stats.bestLapTime)) {
-            stats.bestLapTime = lapTime;
-          }
-          (stats as any).lapStartTime = state.raceTimer;
-        }
-
-        c.broadcast("lapCompleted", {
-          kartId: kart.id,
-          lap: kart.lap,
-          raceTime: state.raceTimer,
-        });
-
-        // Check if race finished for this kart
-        if (kart.lap >= RACE_LAP_COUNT) {
-          state.finishedCount += 1;
-          kart.finishPosition = state.finishedCount;
-          kart.finishTime = state.raceTimer;
-          kart.speed = 0;
-          kart.velocity = vec3Zero();
-        }
-      }
-      continue;
-    }
-
-    const cpSegIdx = checkpoints[nextCp].segmentIndex;
-    // Check if kart segment is within range of the checkpoint segment
-    const segDiff = Math.abs(segIdx - cpSegIdx);
-    const wrappedDiff = Math.min(segDiff, totalSegments - segDiff);
-
-    if (wrappedDiff < totalSegments * 0.05) {
-      // Close enough — advance checkpoint
-      kart.checkpoint = nextCp + 1;
-    }
-
-    // Update race progress for ranking
-    kart.raceProgress = kart.lap * totalSegments + segIdx;
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Position ranking
-// ---------------------------------------------------------------------------
-
-function positionTick(c: any, track: ReturnType<typeof getTrack>): void {
-  const state = c.state as RaceRoomState;
-  const kartIds = Object.keys(state.players);
-  const totalSegments = track.segments.length;
-
-  // Sort by race progress (finished karts ranked by finish position)
-  kartIds.sort((aId, bId) => {
-    const a = state.players[aId] as KartState;
-    const b = state.players[bId] as KartState;
-
-    // Finished karts go first, ranked by finish position
-    if (a.finishTime !== null && b.finishTime !== null) {
-      return (a.finishPosition ?? 99) - (b.finishPosition ?? 99);
-    }
-    if (a.finishTime !== null) return -1;
-    if (b.finishTime !== null) return 1;
-
-    // Higher progress = further ahead
-    return b.raceProgress - a.raceProgress;
-  });
-
-  state.positions = kartIds;
-}
-
-// ---------------------------------------------------------------------------
-// Broadcast snapshot
-// ---------------------------------------------------------------------------
-
-function broadcastSnapshot(c: any, tick: number): void {
-  const state = c.state as RaceRoomState;
-  const kartIds = Object.keys(state.players);
-  if (kartIds.length === 0) return;
-
-  const karts: RaceSnapshot["karts"] = {};
-  for (const id of kartIds) {
-    const k = state.players[id] as KartState;
-    karts[id] = {
-      position: k.position,
-      heading: k.heading,
-      speed: k.speed,
-      velocity: k.velocity,
-      driftState: k.driftState,
-      status: k.status,
-      statusTimer: k.statusTimer,
-      currentItem: k.currentItem,
-      itemCharges: k.itemCharges,
-      lap: k.lap,
-      checkpoint: k.checkpoint,
-      boostTimer: k.boostTimer,
-      boostSpeed: k.boostSpeed,
-      slipstreamActive: k.slipstreamActive,
-      slipAngle: k.slipAngle,
-      flowMeter: k.flowMeter,
-      surface: k.surface,
-      loadFactor: k.loadFactor,
-    };
-  }
-
-  const itemBoxSnapshots = (state.itemBoxes as ItemBoxState[]).map((b) => ({
-    id: b.id,
-    active: b.active,
-  }));
-
-  c.broadcast("raceSnapshot", {
-    karts,
-    projectiles: state.projectiles,
-    hazards: state.hazards,
-    itemBoxes: itemBoxSnapshots,
-    raceTimer: state.raceTimer,
-    positions: state.positions,
-    tick,
-  } satisfies RaceSnapshot);
+  return { ...sim.snapshot(), inputAcks };
 }
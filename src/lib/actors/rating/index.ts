@@ -0,0 +1 @@
+export { rating } from "./rating.actor.js";
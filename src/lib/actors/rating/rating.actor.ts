@@ -0,0 +1,109 @@
+/**
+ * rating actor — persistent skill ratings for one game type.
+ *
+ * Keyed by [game] ("race" or "bump"). Rooms report each finished match's
+ * standings here; the lobby reads ratings back for matchmaking and the
+ * results screens show the change. Players are identified by their profile
+ * ID, so only players with a profile are rated; the name is kept for display.
+ */
+
+import { actor, event } from "rivetkit";
+import {
+  ALLOWED_ORIGINS,
+  RATING_RECENT_MATCHES,
+  sanitizeName,
+  type PlayerRating,
+  type RatingChange,
+  type RatingReport,
+  type RatingsChangedEvent,
+  type RatingState,
+  type RatingStanding,
+} from "../../game/types.js";
+import { newPlayerRating, rateMatch } from "../../game/rating.js";
+import { assertInternalCall } from "../internal.js";
+
+const PLAYER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function isPlayerId(value: unknown): value is string {
+  return typeof value === "string" && PLAYER_ID_PATTERN.test(value);
+}
+
+/** Sanitized standings with one entry per player (their best place) */
+function cleanStandings(standings: unknown): RatingStanding[] {
+  if (!Array.isArray(standings)) return [];
+  const best = new Map<string, RatingStanding>();
+  for (const s of standings as Partial<RatingStanding>[]) {
+    const place = Number(s?.place);
+    if (!Number.isInteger(place) || place < 1 || !isPlayerId(s?.playerId)) continue;
+    const seen = best.get(s.playerId);
+    if (seen && seen.place <= place) continue;
+    best.set(s.playerId, { playerId: s.playerId, playerName: sanitizeName(s.playerName), place });
+  }
+  return [...best.values()];
+}
+
+function storedRating(c: any, playerId: unknown): PlayerRating {
+  if (!isPlayerId(playerId)) return newPlayerRating("", "Player");
+  return (c.state as RatingState).ratings[playerId] ?? newPlayerRating(playerId, "Player");
+}
+
+export const rating = actor({
+  createState: (c: any): RatingState => ({
+    game: c.key?.[0] === "bump" ? "bump" : "race",
+    ratings: {},
+    recentMatchIds: [],
+  }),
+
+  events: {
+    ratingsChanged: event<RatingsChangedEvent>(),
+  },
+
+  onBeforeConnect: (c: any) => {
+    const origin = c.request?.headers.get("origin") ?? "";
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+      throw new Error("Origin not allowed");
+    }
+  },
+
+  actions: {
+    /** Called by a room when a match ends; returns each player's change */
+    reportMatch: (c: any, key: string, report: RatingReport): RatingChange[] => {
+      assertInternalCall(key);
+      const state = c.state as RatingState;
+      const ratings = (c.state as RatingState).ratings;
+      const matchId = String(report?.matchId ?? "");
+      if (!matchId || state.recentMatchIds.includes(matchId)) return [];
+
+      const standings = cleanStandings(report?.standings);
+      const changes = rateMatch(standings, ratings);
+      if (changes.length === 0) return [];
+
+      const now = Date.now();
+      for (const change of changes) {
+        const player = ratings[change.playerId] ?? newPlayerRating(change.playerId, change.playerName);
+        const place = standings.find((s) => s.playerId === change.playerId)?.place;
+        player.playerName = change.playerName;
+        player.rating = change.after;
+        player.games += 1;
+        if (place === 1) player.wins += 1;
+        player.updatedAt = now;
+        ratings[change.playerId] = player;
+      }
+      state.recentMatchIds = [...state.recentMatchIds, matchId].slice(-RATING_RECENT_MATCHES);
+
+      c.broadcast("ratingsChanged", { game: state.game, changes });
+      return changes;
+    },
+
+    getRating: (c: any, playerId: string): PlayerRating => storedRating(c, playerId),
+
+    /** Current rating per profile ID, defaulting players who haven't played yet */
+    getRatings: (c: any, playerIds: string[]): Record<string, number> => {
+      const result: Record<string, number> = {};
+      for (const playerId of Array.isArray(playerIds) ? playerIds.slice(0, 50) : []) {
+        if (isPlayerId(playerId)) result[playerId] = storedRating(c, playerId).rating;
+      }
+      return result;
+    },
+  },
+});
@@ -2,11 +2,21 @@ import { setup } from "rivetkit";
 import { lobby } from "./lobby/index.js";
 import { gameRoom } from "./game-room/index.js";
 import { raceRoom } from "./race-room/index.js";
+import { leaderboard } from "./leaderboard/index.js";
+import { rating } from "./rating/index.js";
+import { player } from "./player/index.js";
+import { party } from "./party/index.js";
+import { tournament } from "./tournament/index.js";
 
 export const registry = setup({
   use: {
     lobby,
     gameRoom,
     raceRoom,
+    leaderboard,
+    rating,
+    player,
+    party,
+    tournament,
   },
 });
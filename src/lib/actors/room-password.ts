@@ -0,0 +1,62 @@
+/**
+ * Room password hashing.
+ *
+ * The lobby hashes a new room's password and hands the room only the hash;
+ * the room checks connecting players against it. Hashes are salted PBKDF2,
+ * stored as `pbkdf2$<iterations>$<salt>$<hash>` (base64).
+ */
+
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (ch) => ch.charCodeAt(0));
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashRoomPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `pbkdf2$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/** False for a wrong password and for a hash this module didn't produce */
+export async function verifyRoomPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, rounds, salt, expected] = stored.split("$");
+  const iterations = Number(rounds);
+  if (scheme !== "pbkdf2" || !Number.isInteger(iterations) || iterations < 1 || !salt || !expected) {
+    return false;
+  }
+  let want: Uint8Array;
+  let got: Uint8Array;
+  try {
+    want = fromBase64(expected);
+    got = await derive(password, fromBase64(salt), iterations);
+  } catch {
+    return false;
+  }
+  // Compare every byte so the time taken doesn't hint at the match length
+  let diff = want.length ^ got.length;
+  for (let i = 0; i < want.length; i++) diff |= want[i] ^ (got[i] ?? 0);
+  return diff === 0;
+}
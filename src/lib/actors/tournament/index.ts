@@ -0,0 +1 @@
+export { tournament } from "./tournament.actor.js";
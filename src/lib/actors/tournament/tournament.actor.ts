@@ -0,0 +1,354 @@
+/**
+ * tournament actor — a bracketed racing event.
+ *
+ * Keyed by [tournamentId]. Whoever opens the tournament organizes it:
+ * racers sign up with their player profile, the organizer starts it, and
+ * the actor seeds the field by rating and creates a raceRoom per heat.
+ * Each heat's room reports its finishing order back with `reportHeat`; the
+ * top finishers move on until one heat is left, and its winner takes the
+ * tournament. A heat still not under way at its deadline is decided by
+ * who showed up. Anyone can connect to watch the bracket.
+ */
+
+import { UserError, actor, event } from "rivetkit";
+import {
+  ALLOWED_ORIGINS,
+  RACE_LAP_COUNT,
+  RACE_MAX_LAPS,
+  RACE_MIN_LAPS,
+  TOURNAMENT_DEADLINE_CHECK_INTERVAL,
+  TOURNAMENT_MAX_ENTRANTS,
+  TOURNAMENT_MIN_ENTRANTS,
+  sanitizeName,
+  type PlayerProfile,
+  type TournamentEntrant,
+  type TournamentHeat,
+  type TournamentHeatInfo,
+  type TournamentHeatPresence,
+  type TournamentHeatReport,
+  type TournamentSettings,
+  type TournamentSnapshot,
+  type TournamentStatus,
+  type TournamentUpdatedEvent,
+  type TrackId,
+} from "../../racing/types.js";
+import type { ActionResult, PlayerRating } from "../../game/types.js";
+import { isPlayerToken } from "../../racing/identity.js";
+import { DEFAULT_TRACK_ID, listTrackIds } from "../../racing/track.js";
+import {
+  drawHeats,
+  finishHeat,
+  forfeitHeat,
+  roundAdvancers,
+  seedEntrants,
+} from "../../racing/tournament.js";
+import { assertInternalCall, internalKey } from "../internal.js";
+
+const MAX_NAME_LEN = 40;
+
+interface ConnParams {
+  playerToken?: string;
+}
+
+/** Viewers without a profile can watch but not sign up */
+interface ConnState {
+  memberId: string | null;
+  name: string;
+  rating: number | null;
+}
+
+interface TournamentState {
+  id: string;
+  name: string;
+  status: TournamentStatus;
+  hostId: string | null;
+  trackId: TrackId;
+  lapCount: number;
+  entrants: TournamentEntrant[];
+  rounds: TournamentHeat[][];
+  championId: string | null;
+  createdAt: number;
+}
+
+function callerState(c: any): ConnState | null {
+  return (c.conn?.state as ConnState | undefined) ?? null;
+}
+
+function isHost(c: any): boolean {
+  const id = callerState(c)?.memberId;
+  return !!id && id === (c.state as TournamentState).hostId;
+}
+
+function snapshot(c: any): TournamentSnapshot {
+  const state = c.state as TournamentState;
+  return {
+    id: state.id,
+    name: state.name,
+    status: state.status,
+    hostId: state.hostId,
+    trackId: state.trackId,
+    lapCount: state.lapCount,
+    entrants: state.entrants,
+    rounds: state.rounds,
+    championId: state.championId,
+    createdAt: state.createdAt,
+  };
+}
+
+function broadcastTournament(c: any): void {
+  const event: TournamentUpdatedEvent = { tournament: snapshot(c) };
+  c.broadcast("tournamentUpdated", event);
+}
+
+function heatLabel(state: TournamentState, heat: TournamentHeat): string {
+  const round = state.rounds[heat.round] ?? [];
+  if (round.length === 1) return `${state.name} · Final`;
+  return `${state.name} · Round ${heat.round + 1} · Heat ${round.indexOf(heat) + 1}`;
+}
+
+/**
+ * Create each heat's room, told at creation who is racing in it and on what
+ * track (fire-and-forget). Only actors can create a room as a heat, so
+ * failures are logged; the heat then waits on a room that never reports.
+ */
+async function openHeatRooms(c: any, heats: TournamentHeat[]): Promise<void> {
+  const state = c.state as TournamentState;
+  for (const heat of heats) {
+    const info: TournamentHeatInfo = {
+      tournamentId: state.id,
+      heatId: heat.id,
+      label: heatLabel(state, heat),
+      entrantIds: heat.entrantIds,
+    };
+    try {
+      await c
+        .getActor({
+          name: "raceRoom",
+          key: [heat.roomId],
+          createWithInput: {
+            internalKey: internalKey(),
+            heat: info,
+            heatSettings: { trackId: state.trackId, lapCount: state.lapCount },
+          },
+        })
+        .heartbeat();
+    } catch (e) {
+      console.error(`[tournament] Failed to set up heat ${heat.id}:`, e);
+    }
+  }
+}
+
+/** Every heat of the current round is in: crown a champion or draw the next round */
+function advanceRound(c: any): void {
+  const state = c.state as TournamentState;
+  const current = state.rounds[state.rounds.length - 1];
+  const advancers = roundAdvancers(current, state.entrants);
+
+  for (const entrant of state.entrants) {
+    if (!advancers.includes(entrant.id)) entrant.eliminated = true;
+  }
+
+  if (current.length === 1 || advancers.length <= 1) {
+    state.championId = advancers[0] ?? null;
+    state.status = "finished";
+    return;
+  }
+
+  const heats = drawHeats(state.id, state.rounds.length, advancers);
+  state.rounds.push(heats);
+  openHeatRooms(c, heats);
+}
+
+/**
+ * Decide the current round's heats that are past their deadline and not
+ * under way. Entrants missing from the room forfeit; a room that doesn't
+ * answer counts as empty.
+ */
+async function expireHeats(c: any): Promise<void> {
+  const state = c.state as TournamentState;
+  if (state.status !== "running") return;
+  const roundIndex = state.rounds.length - 1;
+  const round = state.rounds[roundIndex] ?? [];
+  let decided = false;
+  for (const heat of round) {
+    if (heat.status !== "pending" || Date.now() < heat.deadlineAt) continue;
+    let presence: TournamentHeatPresence = { underway: false, entrantIds: [] };
+    try {
+      presence = (await c
+        .getActor({ name: "raceRoom", key: [heat.roomId] })
+        .getHeatPresence(internalKey())) as TournamentHeatPresence;
+    } catch (e) {
+      console.error(`[tournament] Heat ${heat.id} didn't answer at its deadline:`, e);
+    }
+    // The room may have reported while we waited
+    if (heat.status !== "pending" || presence.underway) continue;
+    forfeitHeat(heat, presence.entrantIds, round.length === 1);
+    decided = true;
+  }
+  if (!decided) return;
+  // A report that came in meanwhile may already have closed the round
+  const stillCurrent = state.status === "running" && state.rounds.length - 1 === roundIndex;
+  if (stillCurrent && round.every((h) => h.status === "finished")) advanceRound(c);
+  broadcastTournament(c);
+}
+
+export const tournament = actor({
+  createState: (c: any): TournamentState => ({
+    id: c.key?.[0] ?? `tour_${Date.now().toString(36)}`,
+    name: "Tournament",
+    status: "signup",
+    hostId: null,
+    trackId: DEFAULT_TRACK_ID,
+    lapCount: RACE_LAP_COUNT,
+    entrants: [],
+    rounds: [],
+    championId: null,
+    createdAt: Date.now(),
+  }),
+
+  events: {
+    tournamentUpdated: event<TournamentUpdatedEvent>(),
+  },
+
+  run: async (c: any) => {
+    while (!c.aborted) {
+      await new Promise((r) => setTimeout(r, TOURNAMENT_DEADLINE_CHECK_INTERVAL));
+      await expireHeats(c);
+    }
+  },
+
+  onBeforeConnect: (c: any) => {
+    const origin = c.request?.headers.get("origin") ?? "";
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+      throw new Error("Origin not allowed");
+    }
+  },
+
+  /** Racers connect with their profile; the rating is read once here for seeding */
+  createConnState: async (c: any, params: ConnParams): Promise<ConnState> => {
+    if (!isPlayerToken(params?.playerToken)) {
+      return { memberId: null, name: "Spectator", rating: null };
+    }
+    let profile: PlayerProfile;
+    try {
+      profile = (await c
+        .getActor({ name: "player", key: [params.playerToken] })
+        .getProfile()) as PlayerProfile;
+    } catch (e) {
+      console.error("[tournament] Failed to load player profile:", e);
+      throw new UserError("Couldn't load your profile", { code: "profile_unavailable" });
+    }
+
+    const name = sanitizeName(profile.displayName);
+    let rating: number | null = null;
+    try {
+      const result = (await c
+        .getActor({ name: "rating", key: ["race"] })
+        .getRating(profile.id)) as PlayerRating;
+      // A racer with no rated races yet is seeded after everyone who has some
+      if (result.games > 0) rating = result.rating;
+    } catch {
+      // Best-effort; unrated entrants are seeded by sign-up order
+    }
+    return { memberId: profile.id, name, rating };
+  },
+
+  actions: {
+    getTournament: (c: any): TournamentSnapshot => snapshot(c),
+
+    /** The caller's profile ID, or null for viewers without one */
+    getMemberId: (c: any): string | null => callerState(c)?.memberId ?? null,
+
+    /** Claim a fresh tournament as its organizer and set the name and race rules */
+    open: (c: any, settings?: Partial<TournamentSettings>): ActionResult => {
+      const state = c.state as TournamentState;
+      const cs = callerState(c);
+      if (!cs?.memberId) return { success: false, message: "You need a player profile" };
+      if (state.hostId && state.hostId !== cs.memberId) {
+        return { success: false, message: "This tournament already has an organizer" };
+      }
+      if (state.status !== "signup") return { success: false, message: "Sign-ups are closed" };
+
+      const name = (typeof settings?.name === "string" ? settings.name : "").trim();
+      const laps = Math.round(Number(settings?.lapCount));
+      state.hostId = cs.memberId;
+      state.name = name.slice(0, MAX_NAME_LEN) || `${cs.name}'s Tournament`;
+      if (settings?.trackId && listTrackIds().includes(settings.trackId)) {
+        state.trackId = settings.trackId;
+      }
+      if (Number.isFinite(laps)) {
+        state.lapCount = Math.max(RACE_MIN_LAPS, Math.min(RACE_MAX_LAPS, laps));
+      }
+      broadcastTournament(c);
+      return { success: true };
+    },
+
+    signUp: (c: any): ActionResult => {
+      const state = c.state as TournamentState;
+      const cs = callerState(c);
+      if (!cs?.memberId) return { success: false, message: "You need a player profile" };
+      if (!state.hostId) return { success: false, message: "This tournament isn't open yet" };
+      if (state.status !== "signup") return { success: false, message: "Sign-ups are closed" };
+      if (state.entrants.some((e) => e.id === cs.memberId)) return { success: true };
+      if (state.entrants.length >= TOURNAMENT_MAX_ENTRANTS) {
+        return { success: false, message: "Tournament is full" };
+      }
+
+      state.entrants.push({
+        id: cs.memberId,
+        name: cs.name,
+        rating: cs.rating,
+        seed: 0,
+        eliminated: false,
+      });
+      broadcastTournament(c);
+      return { success: true };
+    },
+
+    withdraw: (c: any): ActionResult => {
+      const state = c.state as TournamentState;
+      const id = callerState(c)?.memberId;
+      if (state.status !== "signup") return { success: false, message: "Sign-ups are closed" };
+      if (!id || !state.entrants.some((e) => e.id === id)) {
+        return { success: false, message: "Not signed up" };
+      }
+      state.entrants = state.entrants.filter((e) => e.id !== id);
+      broadcastTournament(c);
+      return { success: true };
+    },
+
+    /** Organizer only: close sign-ups, seed the field and open the first round's heats */
+    start: (c: any): ActionResult => {
+      const state = c.state as TournamentState;
+      if (!isHost(c)) return { success: false, message: "Only the organizer can start" };
+      if (state.status !== "signup") return { success: false, message: "Already started" };
+      if (state.entrants.length < TOURNAMENT_MIN_ENTRANTS) {
+        return { success: false, message: `Needs at least ${TOURNAMENT_MIN_ENTRANTS} racers` };
+      }
+
+      seedEntrants(state.entrants);
+      const seeded = [...state.entrants].sort((a, b) => a.seed - b.seed).map((e) => e.id);
+      const heats = drawHeats(state.id, 0, seeded);
+      state.rounds = [heats];
+      state.status = "running";
+      openHeatRooms(c, heats);
+      broadcastTournament(c);
+      return { success: true };
+    },
+
+    /** Called by a heat's raceRoom when its race finishes; repeats are ignored */
+    reportHeat: (c: any, key: string, report: TournamentHeatReport): void => {
+      assertInternalCall(key);
+      const state = c.state as TournamentState;
+      if (state.status !== "running") return;
+      const round = state.rounds[state.rounds.length - 1] ?? [];
+      const heat = round.find((h) => h.id === report?.heatId);
+      if (!heat || heat.status !== "pending" || heat.roomId !== report.roomId) return;
+
+      const positions = Array.isArray(report.positions) ? report.positions.map(String) : [];
+      finishHeat(heat, positions, round.length === 1);
+      if (round.every((h) => h.status === "finished")) advanceRound(c);
+      broadcastTournament(c);
+    },
+  },
+});
@@ -15,6 +15,8 @@ import {
   type JoinStateResult,
   type PhysicsSnapshot,
   type PlayerState,
+  type RatingChange,
+  type RatingsChangedEvent,
 } from "./types.js";
 
 export class GameStore {
@@ -41,6 +43,7 @@ export class GameStore {
   lastGoalTeam = $state<1 | 2 | null>(null);
   winnerId = $state<string | null>(null);
   winnerTeam = $state<1 | 2 | null>(null);
+  ratingChanges = $state<Record<string, RatingChange>>({});
 
   // ---------------------------------------------------------------------------
   // Derived state
@@ -161,6 +164,12 @@ export class GameStore {
     this.scores = [...data.scores] as [number, number];
   }
 
+  applyRatingsChanged(data: RatingsChangedEvent): void {
+    const next: Record<string, RatingChange> = {};
+    for (const change of data.changes) next[change.playerId] = change;
+    this.ratingChanges = next;
+  }
+
   reset(): void {
     this.players = {};
     this.localPlayerId = null;
@@ -178,5 +187,6 @@ export class GameStore {
     this.lastGoalTeam = null;
     this.winnerId = null;
     this.winnerTeam = null;
+    this.ratingChanges = {};
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * Elo ratings for free-for-all matches.
+ *
+ * A match with N players is scored as every pair playing each other once:
+ * the better-placed player of a pair wins it, equal places draw. Each
+ * player's pairwise gains are averaged over their N - 1 opponents, so a
+ * 4-kart race moves ratings about as much as a 1v1 does. New players use a
+ * larger K factor until their rating has had a few games to settle.
+ */
+
+import {
+  DEFAULT_PLAYER_RATING,
+  RATING_FLOOR,
+  RATING_K_FACTOR,
+  RATING_PROVISIONAL_GAMES,
+  RATING_PROVISIONAL_K,
+  type PlayerRating,
+  type RatingChange,
+  type RatingStanding,
+} from "./types.js";
+
+/** Chance that a player rated `a` beats one rated `b` */
+export function expectedScore(a: number, b: number): number {
+  return 1 / (1 + Math.pow(10, (b - a) / 400));
+}
+
+export function newPlayerRating(playerId: string, playerName: string): PlayerRating {
+  return {
+    playerId,
+    playerName,
+    rating: DEFAULT_PLAYER_RATING,
+    games: 0,
+    wins: 0,
+    updatedAt: 0,
+  };
+}
+
+/**
+ * Rating changes for one match. `ratings` holds the current rating of every
+ * player in `standings` (missing players start at the default).
+ */
+export function rateMatch(
+  standings: RatingStanding[],
+  ratings: Record<string, PlayerRating>,
+): RatingChange[] {
+  if (standings.length < 2) return [];
+
+  return standings.map((player) => {
+    const current = ratings[player.playerId] ?? newPlayerRating(player.playerId, player.playerName);
+    let gain = 0;
+    for (const other of standings) {
+      if (other === player) continue;
+      const opponent = ratings[other.playerId]?.rating ?? DEFAULT_PLAYER_RATING;
+      const score = player.place < other.place ? 1 : player.place === other.place ? 0.5 : 0;
+      gain += score - expectedScore(current.rating, opponent);
+    }
+
+    const k = current.games < RATING_PROVISIONAL_GAMES ? RATING_PROVISIONAL_K : RATING_K_FACTOR;
+    const after = Math.max(
+      RATING_FLOOR,
+      Math.round(current.rating + (k * gain) / (standings.length - 1)),
+    );
+    return {
+      playerId: player.playerId,
+      playerName: player.playerName,
+      before: current.rating,
+      after,
+      delta: after - current.rating,
+    };
+  });
+}
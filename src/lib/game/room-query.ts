@@ -0,0 +1,66 @@
+/**
+ * Room browser filtering and sorting.
+ *
+ * The lobby runs these over its directory to answer `listRooms(query)`,
+ * and the race lobby page runs the same checks to decide whether a room
+ * from a live event belongs on the page it's showing.
+ */
+
+import {
+  ROOM_LIST_DEFAULT_LIMIT,
+  ROOM_LIST_MAX_LIMIT,
+  type RoomListQuery,
+  type RoomSort,
+  type RoomSummary,
+} from "./types.js";
+
+const SORTS: RoomSort[] = ["newest", "players", "name"];
+
+export type NormalizedRoomQuery = RoomListQuery & { sort: RoomSort; offset: number; limit: number };
+
+/** Clamp a client's query to sane values */
+export function normalizeRoomQuery(query: RoomListQuery | undefined): NormalizedRoomQuery {
+  const q = query && typeof query === "object" ? query : {};
+  const offset = Math.floor(Number(q.offset));
+  const limit = Math.floor(Number(q.limit));
+  return {
+    ...q,
+    search: typeof q.search === "string" ? q.search.trim().toLowerCase().slice(0, 40) : undefined,
+    sort: SORTS.includes(q.sort as RoomSort) ? (q.sort as RoomSort) : "newest",
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+    limit:
+      Number.isFinite(limit) && limit > 0
+        ? Math.min(limit, ROOM_LIST_MAX_LIMIT)
+        : ROOM_LIST_DEFAULT_LIMIT,
+  };
+}
+
+export function matchesRoomQuery(room: RoomSummary, query: RoomListQuery): boolean {
+  if (query.game && (room.game ?? "bump") !== query.game) return false;
+  if (query.status && room.status !== query.status) return false;
+  if (query.trackId && room.trackId !== query.trackId) return false;
+  if (query.hideFull && room.playerCount >= room.maxPlayers) return false;
+  if (query.hideLocked && room.hasPassword) return false;
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    const host = room.hostName?.toLowerCase() ?? "";
+    if (!room.name.toLowerCase().includes(search) && !host.includes(search)) return false;
+  }
+  return true;
+}
+
+export function compareRooms(sort: RoomSort): (a: RoomSummary, b: RoomSummary) => number {
+  switch (sort) {
+    case "players":
+      // Fullest first, but rooms with space before full ones
+      return (a, b) => {
+        const aFull = a.playerCount >= a.maxPlayers ? 1 : 0;
+        const bFull = b.playerCount >= b.maxPlayers ? 1 : 0;
+        return aFull - bFull || b.playerCount - a.playerCount || b.createdAt - a.createdAt;
+      };
+    case "name":
+      return (a, b) => a.name.localeCompare(b.name) || b.createdAt - a.createdAt;
+    default:
+      return (a, b) => b.createdAt - a.createdAt;
+  }
+}
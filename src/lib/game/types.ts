@@ -79,11 +79,87 @@ export interface GameRoomState {
 export interface RoomSummary {
   id: string;
   name: string;
-  game?: "bump" | "race";
+  game?: GameType;
   playerCount: number;
   maxPlayers: number;
   status: "waiting" | "playing";
   createdAt: number;
+  // Race rooms only: the host's current settings
+  trackId?: string;
+  lapCount?: number;
+  speedClass?: string;
+  itemMode?: string;
+  mode?: string;
+  hostName?: string | null;
+  // Private rooms are left out of listings and only reachable by invite code
+  visibility?: RoomVisibility;
+  inviteCode?: string;
+  hasPassword?: boolean;
+}
+
+export type RoomVisibility = "public" | "private";
+
+export interface CreateRoomOptions {
+  visibility?: RoomVisibility;
+  password?: string;
+}
+
+/** How the lobby lists a room; the room keeps it to register again on the same terms */
+export interface RoomListing {
+  visibility: RoomVisibility;
+  inviteCode: string;
+  hasPassword?: boolean;
+}
+
+export type RoomSort = "newest" | "players" | "name";
+
+/** Filters for the room browser; everything is optional */
+export interface RoomListQuery {
+  game?: GameType;
+  search?: string; // matches the room name or the host's name
+  status?: RoomSummary["status"];
+  trackId?: string;
+  hideFull?: boolean;
+  hideLocked?: boolean; // password-protected rooms
+  sort?: RoomSort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface RoomListPage {
+  rooms: RoomSummary[];
+  total: number; // rooms matching the filters, across all pages
+  offset: number;
+  limit: number;
+}
+
+/** Only the fields that changed */
+export interface RoomUpdatedEvent {
+  roomId: string;
+  patch: Partial<RoomSummary>;
+}
+
+/** A room's answer to the lobby's periodic liveness check */
+export interface RoomHeartbeat {
+  roomId: string;
+  playerCount: number;
+  status: RoomSummary["status"] | "finished";
+  connections: number;
+}
+
+/** Lobby counters; the totals count from when the lobby actor last started */
+export interface LobbyHealth {
+  rooms: number;
+  listedRooms: number;
+  queuedTickets: number;
+  reservedRooms: number;
+  uptimeMs: number;
+  lastReconcileAt: number | null;
+  lastReconcileMs: number | null; // how long the last pass over the rooms took
+  roomsChecked: number;
+  roomsDropped: number;
+  countsCorrected: number;
+  heartbeatFailures: number;
 }
 
 export interface LobbyState {
@@ -97,6 +173,87 @@ export interface ActionResult {
 
 export interface CreateRoomResult extends ActionResult {
   roomId?: string;
+  inviteCode?: string;
+}
+
+export interface InviteLookupResult extends ActionResult {
+  roomId?: string;
+  name?: string;
+  game?: GameType;
+  hasPassword?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Matchmaking
+// ---------------------------------------------------------------------------
+
+export type GameType = "bump" | "race";
+
+/** One connection waiting in the lobby's matchmaking queue */
+export interface MatchmakingTicket {
+  connId: string;
+  playerName: string;
+  rating: number;
+  game: GameType;
+  enqueuedAt: number;
+  partySize: number; // a party queues as one ticket under its leader
+}
+
+export interface MatchFoundEvent {
+  roomId: string;
+  game: GameType;
+  playerNames: string[];
+}
+
+export interface QueueStatusEvent {
+  game: GameType;
+  queued: number; // players waiting for the same game
+  waitMs: number;
+  ratingWindow: number; // ± rating this ticket currently accepts
+}
+
+// ---------------------------------------------------------------------------
+// Ratings
+// ---------------------------------------------------------------------------
+
+export interface PlayerRating {
+  playerId: string; // profile ID
+  playerName: string; // as of their last rated match
+  rating: number;
+  games: number;
+  wins: number;
+  updatedAt: number;
+}
+
+/** One player's finishing place in a match; equal places are a draw */
+export interface RatingStanding {
+  playerId: string; // profile ID
+  playerName: string;
+  place: number; // 1 = winner
+}
+
+export interface RatingReport {
+  matchId: string; // room id plus finish time, so a retried report is ignored
+  standings: RatingStanding[];
+}
+
+export interface RatingChange {
+  playerId: string;
+  playerName: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RatingsChangedEvent {
+  game: GameType;
+  changes: RatingChange[];
+}
+
+export interface RatingState {
+  game: GameType;
+  ratings: Record<string, PlayerRating>; // keyed by profile ID
+  recentMatchIds: string[];
 }
 
 export interface JoinStateResult {
@@ -256,6 +413,40 @@ export const GAME_ROOM_KEY = Symbol("game-room");
 export const MAX_ROOMS = 50;
 export const MAX_ROOM_NAME_LEN = 40;
 export const MAX_PLAYER_NAME_LEN = 24;
+export const MAX_ROOM_PASSWORD_LEN = 32;
+export const INVITE_CODE_LENGTH = 6;
+export const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+export const ROOM_LIST_DEFAULT_LIMIT = 10;
+export const ROOM_LIST_MAX_LIMIT = MAX_ROOMS;
+
+// Error codes a room's connection can fail with
+export const ROOM_PASSWORD_REQUIRED = "password_required";
+export const ROOM_PASSWORD_WRONG = "password_wrong";
+export const ROOM_PASSWORD_LOCKED = "password_locked"; // too many wrong passwords lately
+export const ROOM_PASSWORD_MAX_FAILURES = 5; // wrong passwords a room takes from one address per lockout window
+export const ROOM_PASSWORD_LOCKOUT_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Constants — Ratings
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PLAYER_RATING = 1000;
+export const RATING_K_FACTOR = 24;
+export const RATING_PROVISIONAL_K = 48; // faster movement while a rating settles
+export const RATING_PROVISIONAL_GAMES = 10;
+export const RATING_FLOOR = 100;
+export const RATING_RECENT_MATCHES = 50; // match ids remembered to drop duplicate reports
+
+// ---------------------------------------------------------------------------
+// Constants — Matchmaking
+// ---------------------------------------------------------------------------
+
+export const MATCHMAKING_TICK_INTERVAL = 1000;
+export const MATCHMAKING_BASE_WINDOW = 100; // ± rating accepted straight away
+export const MATCHMAKING_WINDOW_GROWTH = 25; // extra ± rating per second waited
+export const MATCHMAKING_MAX_WINDOW = 800;
+export const MATCHMAKING_PARTIAL_AFTER = 15_000; // ms before a short group may start
+export const MATCHMAKING_MAX_WAIT = 45_000; // ms before a lone player takes any open room
 
 // ---------------------------------------------------------------------------
 // CORS
@@ -19,8 +19,10 @@ import {
   type PhysicsSnapshot,
   type PlayerInput,
   type PlayerState,
+  type RatingsChangedEvent,
   type Vec3,
 } from "./types.js";
+import { getPlayerToken } from "../racing/identity.js";
 
 interface UseGameRoomOptions {
   roomId: string;
@@ -40,7 +42,7 @@ export function useGameRoom(opts: UseGameRoomOptions): GameRoomControls {
   const room = useActor(() => ({
     name: "gameRoom" as const,
     key: [roomId],
-    params: { playerName },
+    params: { playerName, playerToken: getPlayerToken() },
   })) as ReturnType<typeof useActor> & GameRoomActions;
 
   // -------------------------------------------------------------------------
@@ -107,6 +109,10 @@ export function useGameRoom(opts: UseGameRoomOptions): GameRoomControls {
     },
   );
 
+  room.onEvent("ratingsChanged", (data: RatingsChangedEvent) => {
+    store.applyRatingsChanged(data);
+  });
+
   room.onEvent(
     "phaseChanged",
     (data: { phase: GamePhase; timeRemaining: number }) => {
@@ -0,0 +1,427 @@
+/**
+ * CPU racers.
+ *
+ * A BotDriver turns the race state into a KartInput each tick, exactly like a
+ * player's keyboard would, so bots go through the same simulation, items,
+ * rankings and replays as everyone else. They steer at a point on a racing
+ * line built from the track's segments a speed-dependent distance ahead, cut
+ * toward the inside of corners, slow and drift through the tight ones and fire
+ * items on simple rules. Difficulty tunes how tidy each of those is.
+ */
+
+import {
+  KART_MAX_SPEED,
+  MIN_DRIFT_SPEED,
+  SPEED_CLASS_MULTIPLIERS,
+  TRACK_ROAD_WIDTH,
+  type BotDifficulty,
+  type KartInput,
+  type KartState,
+  type RaceRoomState,
+  type TrackDefinition,
+  type TrackSegment,
+} from "./types.js";
+import { getRaceCar } from "./car-catalog.js";
+import { findNearestSegment, sampleRoadDistance } from "./track.js";
+import { idleKartInput } from "./race-simulation.js";
+import { createSeededRng, type SeededRng } from "./rng.js";
+
+interface BotProfile {
+  /** Fraction of its car's top speed the bot is willing to hold */
+  speedCap: number;
+  /** Base aim distance ahead, plus this many units per unit of speed */
+  lookahead: number;
+  lookaheadPerSpeed: number;
+  /** How far toward the inside of a corner the line cuts (0..1 of half-width) */
+  cornerCut: number;
+  /** Corner angle (radians over the next stretch) that triggers a drift; Infinity never drifts */
+  driftAngle: number;
+  /** Random steering wobble amplitude */
+  steerNoise: number;
+  /** Ticks an item is held before the bot considers using it */
+  itemDelay: number;
+  /** Whether the bot detours for item boxes */
+  seeksItems: boolean;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    speedCap: 0.8,
+    lookahead: 30,
+    lookaheadPerSpeed: 10,
+    cornerCut: 0,
+    driftAngle: Infinity,
+    steerNoise: 0.35,
+    itemDelay: 240,
+    seeksItems: false,
+  },
+  normal: {
+    speedCap: 0.92,
+    lookahead: 26,
+    lookaheadPerSpeed: 12,
+    cornerCut: 0.35,
+    driftAngle: 0.7,
+    steerNoise: 0.15,
+    itemDelay: 120,
+    seeksItems: true,
+  },
+  hard: {
+    speedCap: 1,
+    lookahead: 24,
+    lookaheadPerSpeed: 14,
+    cornerCut: 0.6,
+    driftAngle: 0.5,
+    steerNoise: 0.03,
+    itemDelay: 45,
+    seeksItems: true,
+  },
+};
+
+const BOT_NAMES = [
+  "Turbo Tess",
+  "Drift Dmitri",
+  "Nitro Nia",
+  "Apex Arlo",
+  "Skid Sasha",
+  "Rev Ren",
+  "Boost Bo",
+  "Slick Sol",
+];
+
+export const BOT_DIFFICULTIES: readonly BotDifficulty[] = ["easy", "normal", "hard"];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty);
+}
+
+/** Display name for the n-th bot in a room */
+export function botName(index: number, difficulty: BotDifficulty): string {
+  const name = BOT_NAMES[index % BOT_NAMES.length];
+  return difficulty === "normal" ? `CPU ${name}` : `CPU ${name} (${difficulty})`;
+}
+
+// Distance (track units) over which upcoming corners are measured
+const CORNER_SCAN_DISTANCE = 60;
+// Speed kept per radian of upcoming bend, and the floor it never drops under
+const CORNER_SLOWDOWN = 0.3;
+const CORNER_MIN_SPEED = 0.45;
+// Item range heuristics (world units)
+const SHELL_RANGE = 80;
+const BANANA_RANGE = 25;
+const ITEM_BOX_DETOUR = 12;
+
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= Math.PI * 2;
+  while (a < -Math.PI) a += Math.PI * 2;
+  return a;
+}
+
+// ---------------------------------------------------------------------------
+// Racing line
+// ---------------------------------------------------------------------------
+
+interface LinePoint {
+  x: number;
+  z: number;
+  /** Direction of travel, radians (same convention as kart heading) */
+  angle: number;
+  /** Length of line from this point to the next */
+  length: number;
+}
+
+// Lateral search used to pull a mesh track's spline onto its baked road
+const MESH_SEARCH_RANGE = 160;
+const MESH_SEARCH_STEP = 4;
+const LINE_SMOOTHING = 3;
+
+// Keyed by definition: re-registering a track builds a new one, and with it a new line
+const racingLines = new WeakMap<TrackDefinition, LinePoint[]>();
+
+/**
+ * One point per segment the bots can actually drive along. Procedural tracks
+ * use the segment centres; a mesh track's road strays from its spline, so
+ * each centre is slid sideways onto the nearest cell of its heightfield.
+ */
+function getRacingLine(track: TrackDefinition): LinePoint[] {
+  const cached = racingLines.get(track);
+  if (cached) return cached;
+
+  const segments = track.segments;
+  const n = segments.length;
+  let offsets = segments.map(() => 0);
+
+  if (track.heightfield) {
+    let prev = 0;
+    offsets = segments.map((seg) => {
+      let best = prev;
+      let bestScore = Infinity;
+      for (let o = -MESH_SEARCH_RANGE; o <= MESH_SEARCH_RANGE; o += MESH_SEARCH_STEP) {
+        const d = sampleRoadDistance(track, seg.center.x + seg.normal.x * o, seg.center.z + seg.normal.z * o, 2);
+        // Prefer on-road points, then the spline itself, then continuity
+        const score = (d > 0 ? 1000 + d : 0) + Math.abs(o) * 0.1 + Math.abs(o - prev) * 0.05;
+        if (score < bestScore) {
+          bestScore = score;
+          best = o;
+        }
+      }
+      prev = best;
+      return best;
+    });
+  }
+
+  // Smooth the offsets so the line doesn't zig-zag between cells
+  const smoothed = offsets.map((_, i) => {
+    let sum = 0;
+    for (let k = -LINE_SMOOTHING; k <= LINE_SMOOTHING; k++) sum += offsets[(i + k + n) % n];
+    return sum / (LINE_SMOOTHING * 2 + 1);
+  });
+
+  const points = segments.map((seg, i) => ({
+    x: seg.center.x + seg.normal.x * smoothed[i],
+    z: seg.center.z + seg.normal.z * smoothed[i],
+    angle: 0,
+    length: 0,
+  }));
+  for (let i = 0; i < n; i++) {
+    const a = points[(i - 2 + n) % n];
+    const b = points[(i + 2) % n];
+    const next = points[(i + 1) % n];
+    points[i].angle = Math.atan2(b.x - a.x, b.z - a.z);
+    points[i].length = Math.hypot(next.x - points[i].x, next.z - points[i].z);
+  }
+
+  racingLines.set(track, points);
+  return points;
+}
+
+// Window searched around the bot's last line point, and how far off it the
+// bot may be before it re-syncs with the nearest segment (e.g. after a respawn)
+const LINE_SEARCH_BACK = 3;
+const LINE_SEARCH_AHEAD = 12;
+const LINE_RESYNC_DISTANCE = 60;
+
+/**
+ * Closest line point to (x, z), searched forward from `from`. Where track1's
+ * road strays from its spline a global nearest-segment lookup can land on a
+ * different leg of the track, so progress is tracked locally instead.
+ */
+function nearestLinePoint(
+  line: LinePoint[],
+  track: TrackDefinition,
+  x: number,
+  z: number,
+  from: number,
+): number {
+  if (from < 0) return findNearestSegment(track.segments, x, z);
+  const n = line.length;
+  let best = from;
+  let bestDist = Infinity;
+  for (let k = -LINE_SEARCH_BACK; k <= LINE_SEARCH_AHEAD; k++) {
+    const i = (from + k + n) % n;
+    const d = Math.hypot(line[i].x - x, line[i].z - z);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return bestDist > LINE_RESYNC_DISTANCE ? findNearestSegment(track.segments, x, z) : best;
+}
+
+/** Index of the line point `distance` units along the line from `from` */
+function pointAhead(line: LinePoint[], from: number, distance: number): number {
+  const n = line.length;
+  let i = from;
+  let travelled = 0;
+  for (let steps = 0; steps < n; steps++) {
+    travelled += line[i].length;
+    i = (i + 1) % n;
+    if (travelled >= distance) return i;
+  }
+  return i;
+}
+
+/**
+ * First line point ahead of `from` at least `distance` from the kart. Going by
+ * straight-line distance rather than distance along the line keeps the aim
+ * from landing beside the kart where the line doubles back on itself.
+ */
+function aimPoint(line: LinePoint[], from: number, x: number, z: number, distance: number): number {
+  const n = line.length;
+  let i = from;
+  for (let steps = 0; steps < n / 4; steps++) {
+    i = (i + 1) % n;
+    if (Math.hypot(line[i].x - x, line[i].z - z) >= distance) return i;
+  }
+  return i;
+}
+
+export class BotDriver {
+  readonly difficulty: BotDifficulty;
+  private readonly profile: BotProfile;
+  private readonly rng: SeededRng;
+  private segIdx = -1;
+  private itemHeldTicks = 0;
+  private wobble = 0;
+
+  constructor(difficulty: BotDifficulty, seed: number) {
+    this.difficulty = difficulty;
+    this.profile = BOT_PROFILES[difficulty];
+    this.rng = createSeededRng(seed);
+  }
+
+  /** Input for `kart` this tick */
+  nextInput(kart: KartState, state: RaceRoomState, track: TrackDefinition): KartInput {
+    const input = idleKartInput();
+    if (state.phase !== "racing" || kart.finishTime !== null) return input;
+
+    const profile = this.profile;
+    const segments = track.segments;
+    const line = getRacingLine(track);
+    this.segIdx = nearestLinePoint(line, track, kart.position.x, kart.position.z, this.segIdx);
+
+    // How hard the track bends over the next stretch, and which way
+    const here = line[this.segIdx];
+    const cornerAngle = wrapAngle(
+      line[pointAhead(line, this.segIdx, CORNER_SCAN_DISTANCE)].angle - here.angle,
+    );
+
+    // Aim point: along the line, pulled toward the inside of the bend
+    const speed = Math.abs(kart.speed);
+    const aimIdx = aimPoint(
+      line,
+      this.segIdx,
+      kart.position.x,
+      kart.position.z,
+      profile.lookahead + speed * profile.lookaheadPerSpeed,
+    );
+    const aim = line[aimIdx];
+    const aimSeg = segments[aimIdx];
+    // Heading grows toward the kart's left, so a positive bend turns left
+    const leftX = Math.cos(aim.angle);
+    const leftZ = -Math.sin(aim.angle);
+    const insideSign = Math.sign(cornerAngle);
+    const bend = Math.min(1, Math.abs(cornerAngle) / 1.2);
+    let cutX = leftX * insideSign * profile.cornerCut * bend * (TRACK_ROAD_WIDTH / 2);
+    let cutZ = leftZ * insideSign * profile.cornerCut * bend * (TRACK_ROAD_WIDTH / 2);
+
+    // Swing past a nearby item box when empty-handed
+    if (profile.seeksItems && kart.currentItem === null) {
+      const box = this.findItemBox(state, aim, aimSeg);
+      if (box) {
+        cutX = box.x - aim.x;
+        cutZ = box.z - aim.z;
+      }
+    }
+
+    const targetX = aim.x + cutX;
+    const targetZ = aim.z + cutZ;
+    const desired = Math.atan2(targetX - kart.position.x, targetZ - kart.position.z);
+    const diff = wrapAngle(desired - kart.heading);
+
+    // Wobble drifts slowly so easy bots weave rather than jitter
+    this.wobble += (this.rng.next() * 2 - 1 - this.wobble) * 0.05;
+    // Heading grows with negative steering in the physics
+    const steering = Math.max(-1, Math.min(1, -diff * 3 + this.wobble * profile.steerNoise));
+    input.steering = steering;
+
+    // Ease off for tight corners and when pointing well away from the aim
+    const cornerSharp = Math.abs(cornerAngle);
+    const targetSpeed =
+      KART_MAX_SPEED *
+      getRaceCar(kart.carId).stats.speed *
+      SPEED_CLASS_MULTIPLIERS[state.speedClass] *
+      profile.speedCap *
+      Math.max(CORNER_MIN_SPEED, 1 - cornerSharp * CORNER_SLOWDOWN - Math.abs(diff) * 0.3);
+    input.throttle = kart.speed < targetSpeed;
+    // Way off line (e.g. after a spin-out facing backwards): brake to turn in place
+    input.brake =
+      (Math.abs(diff) > 2.2 && speed > MIN_DRIFT_SPEED) || kart.speed > targetSpeed + 0.4;
+
+    // Drift through corners sharp enough for this profile; hold until it straightens
+    if (kart.driftState.active) {
+      input.drift = cornerSharp > profile.driftAngle * 0.5;
+    } else {
+      input.drift =
+        cornerSharp > profile.driftAngle &&
+        speed > MIN_DRIFT_SPEED * 1.2 &&
+        Math.abs(steering) > 0.3;
+    }
+
+    input.useItem = this.wantsItem(kart, state, cornerSharp);
+    return input;
+  }
+
+  /** An active item box close to the aim point, if any */
+  private findItemBox(
+    state: RaceRoomState,
+    aim: LinePoint,
+    seg: TrackSegment,
+  ): { x: number; z: number } | null {
+    for (const box of state.itemBoxes) {
+      if (!box.active) continue;
+      const dx = box.position.x - aim.x;
+      const dz = box.position.z - aim.z;
+      const along = dx * seg.forward.x + dz * seg.forward.z;
+      if (Math.abs(along) > ITEM_BOX_DETOUR) continue;
+      if (Math.hypot(dx, dz) < TRACK_ROAD_WIDTH / 2) return box.position;
+    }
+    return null;
+  }
+
+  private wantsItem(kart: KartState, state: RaceRoomState, cornerSharp: number): boolean {
+    if (!kart.currentItem || kart.status === "spinning" || kart.status === "falling") {
+      this.itemHeldTicks = 0;
+      return false;
+    }
+    this.itemHeldTicks++;
+    if (this.itemHeldTicks < this.profile.itemDelay) return false;
+
+    // Hold on to anything for a while, but never forever
+    const overdue = this.itemHeldTicks > this.profile.itemDelay * 4;
+    const fwdX = Math.sin(kart.heading);
+    const fwdZ = Math.cos(kart.heading);
+
+    let fire = overdue;
+    switch (kart.currentItem) {
+      case "mushroom":
+      case "triMushroom":
+      case "star":
+        fire ||= cornerSharp < 0.3;
+        break;
+      case "greenShell":
+      case "redShell":
+        fire ||= this.kartInCone(kart, state, fwdX, fwdZ, SHELL_RANGE, true);
+        break;
+      case "banana":
+        fire ||= this.kartInCone(kart, state, fwdX, fwdZ, BANANA_RANGE, false);
+        break;
+      case "blueShell":
+      case "lightning":
+        fire ||= state.positions[0] !== kart.id;
+        break;
+    }
+    if (fire) this.itemHeldTicks = 0;
+    return fire;
+  }
+
+  /** Another racing kart within `range` roughly ahead (or behind) */
+  private kartInCone(
+    kart: KartState,
+    state: RaceRoomState,
+    fwdX: number,
+    fwdZ: number,
+    range: number,
+    ahead: boolean,
+  ): boolean {
+    for (const other of Object.values(state.players)) {
+      if (other.id === kart.id || other.finishTime !== null) continue;
+      const dx = other.position.x - kart.position.x;
+      const dz = other.position.z - kart.position.z;
+      const dist = Math.hypot(dx, dz);
+      if (dist > range || dist < 1) continue;
+      const dot = (dx * fwdX + dz * fwdZ) / dist;
+      if (ahead ? dot > 0.9 : dot < -0.7) return true;
+    }
+    return false;
+  }
+}
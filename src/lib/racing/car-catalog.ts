@@ -7,6 +7,31 @@ export const PLAYER_ACCENT_COLORS = [
 
 export type PlayerAccentColor = (typeof PLAYER_ACCENT_COLORS)[number];
 
+/**
+ * Handling relative to the baseline kart: each value scales one of the global
+ * physics constants, so 1 everywhere drives exactly like the default tuning.
+ */
+export type RaceCarStats = {
+  /** Top speed (KART_MAX_SPEED) */
+  speed: number;
+  /** Throttle response (KART_ACCELERATION) */
+  acceleration: number;
+  /** Turn rate (KART_TURN_RATE) */
+  handling: number;
+  /** Mass in kart-to-kart contact (KART_MASS) */
+  weight: number;
+  /** How quickly drifts build charge tiers */
+  driftCharge: number;
+};
+
+export const RACE_CAR_STAT_LABELS: readonly [keyof RaceCarStats, string][] = [
+  ["speed", "Speed"],
+  ["acceleration", "Accel"],
+  ["handling", "Handling"],
+  ["weight", "Weight"],
+  ["driftCharge", "Drift"],
+];
+
 type RaceCarCatalogData = {
   id: string;
   name: string;
@@ -22,6 +47,7 @@ type RaceCarCatalogData = {
   };
   scale: number;
   rotationY: number;
+  stats: RaceCarStats;
 };
 
 const CURATED_RACE_CAR_DATA = [
@@ -40,6 +66,13 @@ const CURATED_RACE_CAR_DATA = [
     },
     scale: 0.68,
     rotationY: 0,
+    stats: {
+      speed: 0.96,
+      acceleration: 0.92,
+      handling: 0.94,
+      weight: 1.35,
+      driftCharge: 1.1,
+    },
   },
   {
     id: "lazergini-centari",
@@ -56,6 +89,13 @@ const CURATED_RACE_CAR_DATA = [
     },
     scale: 0.68,
     rotationY: 0,
+    stats: {
+      speed: 1.06,
+      acceleration: 0.94,
+      handling: 0.92,
+      weight: 0.9,
+      driftCharge: 0.92,
+    },
   },
   {
     id: "macrain-jetttail",
@@ -72,6 +112,13 @@ const CURATED_RACE_CAR_DATA = [
     },
     scale: 0.66,
     rotationY: 0,
+    stats: {
+      speed: 1.0,
+      acceleration: 1.0,
+      handling: 1.1,
+      weight: 0.95,
+      driftCharge: 1.12,
+    },
   },
   {
     id: "raycan-nevada",
@@ -88,6 +135,13 @@ const CURATED_RACE_CAR_DATA = [
     },
     scale: 0.7,
     rotationY: 0,
+    stats: {
+      speed: 0.99,
+      acceleration: 1.16,
+      handling: 1.0,
+      weight: 1.1,
+      driftCharge: 0.94,
+    },
   },
 ] as const satisfies readonly RaceCarCatalogData[];
 
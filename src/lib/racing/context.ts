@@ -1,6 +1,14 @@
 import { getContext, setContext } from "svelte";
 import { RaceStore } from "./race-store.svelte.js";
-import { RACE_STORE_KEY, RACE_ROOM_KEY, type KartInput, type ItemType } from "./types.js";
+import {
+  RACE_STORE_KEY,
+  RACE_ROOM_KEY,
+  type BotDifficulty,
+  type KartInput,
+  type ItemType,
+  type RaceRoomSettings,
+  type TrackId,
+} from "./types.js";
 
 export interface RaceRoomControls {
   sendInput: (input: KartInput) => void;
@@ -8,8 +16,15 @@ export interface RaceRoomControls {
   leave: () => void;
   readyUp: () => void;
   voteRematch: () => void;
+  addBot: (difficulty: BotDifficulty) => void;
+  removeBot: (kartId?: string) => void;
+  updateRoomSettings: (patch: Partial<RaceRoomSettings>) => void;
+  /** Host only: race `tracks` as a cup, or null for single races */
+  configureCup: (tracks: TrackId[] | null) => void;
   readonly isConnected: boolean;
   readonly connStatus: string;
+  /** Set when the room turned this connection away for its password */
+  readonly accessError: string | null;
 }
 
 // ---------------------------------------------------------------------------
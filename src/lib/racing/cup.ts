@@ -0,0 +1,86 @@
+/**
+ * Cup scoring.
+ *
+ * A cup is a fixed list of tracks raced back to back in one room. Each race
+ * hands out CUP_POINTS by finishing place; the standings carry over between
+ * races and whoever leads after the last one is the champion. Ties go to
+ * the racer with more wins, then to whoever was ahead before the race.
+ */
+
+import {
+  CUP_MAX_RACES,
+  CUP_MIN_RACES,
+  CUP_POINTS,
+  type CupRaceResult,
+  type RaceCup,
+  type RaceFinishedEvent,
+  type TrackId,
+} from "./types.js";
+import { listTrackIds } from "./track.js";
+
+/** Known tracks only, capped at CUP_MAX_RACES; null if too few are left */
+export function cleanCupTracks(tracks: unknown): TrackId[] | null {
+  if (!Array.isArray(tracks)) return null;
+  const known = listTrackIds();
+  const cleaned = tracks
+    .filter((t): t is TrackId => known.includes(t as TrackId))
+    .slice(0, CUP_MAX_RACES);
+  return cleaned.length >= CUP_MIN_RACES ? cleaned : null;
+}
+
+export function createCup(tracks: TrackId[]): RaceCup {
+  return {
+    tracks: [...tracks],
+    raceIndex: 0,
+    standings: [],
+    results: [],
+    championId: null,
+    nextRaceAt: null,
+  };
+}
+
+export function currentCupTrack(cup: RaceCup): TrackId {
+  return cup.tracks[Math.min(cup.raceIndex, cup.tracks.length - 1)];
+}
+
+export function isLastCupRace(cup: RaceCup): boolean {
+  return cup.raceIndex >= cup.tracks.length - 1;
+}
+
+/**
+ * Add a finished race to the cup. Karts are placed in `positions` order;
+ * ones that didn't cross the line score nothing. Crowns the champion after
+ * the last race.
+ */
+export function scoreCupRace(
+  cup: RaceCup,
+  finished: RaceFinishedEvent,
+  names: Record<string, string>,
+): CupRaceResult {
+  const result: CupRaceResult = { trackId: currentCupTrack(cup), places: [] };
+  for (const standing of cup.standings) standing.lastPoints = 0;
+
+  finished.positions.forEach((kartId, i) => {
+    const crossed = finished.finishTimes[kartId] != null;
+    const place = crossed ? i + 1 : null;
+    const points = place !== null ? (CUP_POINTS[place - 1] ?? 0) : 0;
+    const name = names[kartId] ?? "Racer";
+    result.places.push({ kartId, name, place, points });
+
+    let standing = cup.standings.find((s) => s.kartId === kartId);
+    if (!standing) {
+      standing = { kartId, name, points: 0, wins: 0, lastPoints: 0 };
+      cup.standings.push(standing);
+    }
+    standing.name = name;
+    standing.points += points;
+    standing.lastPoints = points;
+    if (place === 1) standing.wins += 1;
+  });
+
+  // Stable sort, so equal records keep their previous order
+  cup.standings.sort((a, b) => b.points - a.points || b.wins - a.wins);
+  cup.results.push(result);
+  if (isLastCupRace(cup)) cup.championId = cup.standings[0]?.kartId ?? null;
+  return result;
+}
@@ -0,0 +1,185 @@
+/**
+ * Time-trial ghosts.
+ *
+ * The server samples the racer's kart while they drive and closes off a
+ * RaceGhost at every lap line. Clients keep their best one per track, play
+ * it back next to the live kart, and can export it as JSON (or load someone
+ * else's) to race against a fixed baseline.
+ */
+
+import {
+  GHOST_FORMAT_VERSION,
+  GHOST_FRAME_SIZE,
+  GHOST_SAMPLE_INTERVAL,
+  RACE_SERVER_TICK_INTERVAL,
+  type KartState,
+  type RaceGhost,
+  type TrackId,
+} from "./types.js";
+import { coerceRaceCarId } from "./car-catalog.js";
+import { listTrackIds } from "./track.js";
+
+export interface GhostPose {
+  x: number;
+  y: number;
+  z: number;
+  heading: number;
+  /** Units per tick, estimated from neighbouring frames */
+  speed: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function lerpAngle(a: number, b: number, t: number): number {
+  let diff = b - a;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  return a + diff * t;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+export class GhostRecorder {
+  private frames: number[] = [];
+  private lapStart = 0;
+  private nextSampleAt = 0;
+
+  /** Start over from a lap beginning at `raceTimer` */
+  reset(raceTimer = 0): void {
+    this.frames = [];
+    this.lapStart = raceTimer;
+    this.nextSampleAt = raceTimer;
+  }
+
+  /** Record the kart's pose if a frame is due */
+  sample(kart: KartState, raceTimer: number): void {
+    if (raceTimer < this.nextSampleAt) return;
+    this.frames.push(
+      raceTimer - this.lapStart,
+      round2(kart.position.x),
+      round2(kart.position.y),
+      round2(kart.position.z),
+      Math.round(kart.heading * 1000) / 1000,
+    );
+    this.nextSampleAt += GHOST_SAMPLE_INTERVAL;
+    // Don't try to catch up after a stall; just sample from now on
+    if (this.nextSampleAt < raceTimer) this.nextSampleAt = raceTimer + GHOST_SAMPLE_INTERVAL;
+  }
+
+  /** Close the lap that ended at `raceTimer` and start recording the next one */
+  completeLap(
+    kart: KartState,
+    raceTimer: number,
+    trackId: TrackId,
+    splits: number[],
+  ): RaceGhost {
+    const lapTime = raceTimer - this.lapStart;
+    // End exactly on the line so playback covers the whole lap
+    this.nextSampleAt = raceTimer;
+    this.sample(kart, raceTimer);
+
+    const ghost: RaceGhost = {
+      version: GHOST_FORMAT_VERSION,
+      trackId,
+      carId: kart.carId,
+      playerName: kart.name,
+      recordedAt: Date.now(),
+      lapTime,
+      splits: [...splits],
+      frames: this.frames,
+    };
+
+    this.reset(raceTimer);
+    this.sample(kart, raceTimer);
+    return ghost;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+/** Ghost pose `time` ms into its lap, or null outside the recording */
+export function sampleGhost(ghost: RaceGhost, time: number): GhostPose | null {
+  const f = ghost.frames;
+  const count = f.length / GHOST_FRAME_SIZE;
+  if (count === 0 || time < 0 || time > ghost.lapTime) return null;
+
+  // Binary search for the last frame at or before `time`
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (f[mid * GHOST_FRAME_SIZE] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  const a = lo * GHOST_FRAME_SIZE;
+  const b = Math.min(lo + 1, count - 1) * GHOST_FRAME_SIZE;
+  const span = f[b] - f[a];
+  const t = span > 0 ? Math.min(1, (time - f[a]) / span) : 0;
+  const dist = Math.hypot(f[b + 1] - f[a + 1], f[b + 3] - f[a + 3]);
+
+  return {
+    x: f[a + 1] + (f[b + 1] - f[a + 1]) * t,
+    y: f[a + 2] + (f[b + 2] - f[a + 2]) * t,
+    z: f[a + 3] + (f[b + 3] - f[a + 3]) * t,
+    heading: lerpAngle(f[a + 4], f[b + 4], t),
+    speed: span > 0 ? (dist / span) * RACE_SERVER_TICK_INTERVAL : 0,
+  };
+}
+
+/** Validate a ghost loaded from a file or storage; null if it isn't one */
+export function parseGhost(value: unknown): RaceGhost | null {
+  if (!value || typeof value !== "object") return null;
+  const g = value as Partial<RaceGhost>;
+  if (g.version !== GHOST_FORMAT_VERSION) return null;
+  if (!listTrackIds().includes(g.trackId as TrackId)) return null;
+  if (typeof g.lapTime !== "number" || !(g.lapTime > 0)) return null;
+  if (!Array.isArray(g.frames) || g.frames.length % GHOST_FRAME_SIZE !== 0) return null;
+  if (!g.frames.every((n) => typeof n === "number" && Number.isFinite(n))) return null;
+  const splits = Array.isArray(g.splits)
+    ? g.splits.filter((n): n is number => typeof n === "number" && Number.isFinite(n))
+    : [];
+
+  return {
+    version: g.version,
+    trackId: g.trackId as TrackId,
+    carId: coerceRaceCarId(g.carId),
+    playerName: typeof g.playerName === "string" ? g.playerName.slice(0, 40) : "Ghost",
+    recordedAt: typeof g.recordedAt === "number" ? g.recordedAt : 0,
+    lapTime: g.lapTime,
+    splits,
+    frames: g.frames,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local best (browser only)
+// ---------------------------------------------------------------------------
+
+function storageKey(trackId: TrackId): string {
+  return `rivet-kart:ghost:${trackId}`;
+}
+
+export function loadSavedGhost(trackId: TrackId): RaceGhost | null {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(storageKey(trackId));
+    return raw ? parseGhost(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveGhost(ghost: RaceGhost): void {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(storageKey(ghost.trackId), JSON.stringify(ghost));
+  } catch {
+    // Storage full or disabled — the ghost just won't persist
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Player identity.
+ *
+ * Each browser keeps a random token in localStorage and sends it as a
+ * connection param. The token is the key of that player's `player` actor,
+ * so whoever holds it owns the profile — it is never shown to other players.
+ * Rejoin tokens work the same way but only last as long as the tab.
+ */
+
+import { PLAYER_TOKEN_STORAGE_KEY } from "./types.js";
+
+const TOKEN_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+/** Also the shape of rejoin tokens */
+export function isPlayerToken(value: unknown): value is string {
+  return typeof value === "string" && TOKEN_PATTERN.test(value);
+}
+
+function randomToken(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  let token = "";
+  while (token.length < 32) token += Math.random().toString(36).slice(2);
+  return token.slice(0, 32);
+}
+
+/**
+ * This browser's identity token, created on first use. Falls back to a
+ * token for this page load only when storage is unavailable.
+ */
+export function getPlayerToken(): string {
+  if (typeof localStorage === "undefined") return randomToken();
+  try {
+    const stored = localStorage.getItem(PLAYER_TOKEN_STORAGE_KEY);
+    if (isPlayerToken(stored)) return stored;
+    const token = randomToken();
+    localStorage.setItem(PLAYER_TOKEN_STORAGE_KEY, token);
+    return token;
+  } catch {
+    return randomToken();
+  }
+}
+
+/**
+ * This tab's rejoin token for a room. It lives in sessionStorage, so a
+ * refresh (or an automatic reconnect) can reclaim the kart while another
+ * tab joining the same room can't.
+ */
+export function getRejoinToken(roomId: string): string {
+  if (typeof sessionStorage === "undefined") return randomToken();
+  const key = `rivet-kart:rejoin:${roomId}`;
+  try {
+    const stored = sessionStorage.getItem(key);
+    if (isPlayerToken(stored)) return stored;
+    const token = randomToken();
+    sessionStorage.setItem(key, token);
+    return token;
+  } catch {
+    return randomToken();
+  }
+}
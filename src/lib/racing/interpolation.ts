@@ -0,0 +1,208 @@
+/**
+ * Snapshot interpolation for remote entities.
+ *
+ * Snapshots arrive at 20Hz with uneven spacing, so instead of showing the
+ * newest one (or guessing ahead from it) remote karts, projectiles and
+ * hazards are rendered a little in the past, between the two buffered
+ * snapshots that bracket the render time. The delay grows with measured
+ * arrival jitter so a late packet rarely leaves the buffer empty.
+ */
+
+import {
+  INTERP_BASE_DELAY,
+  INTERP_BUFFER_SIZE,
+  INTERP_JITTER_MULTIPLIER,
+  INTERP_MAX_DELAY,
+  INTERP_MAX_EXTRAPOLATION,
+  RACE_SERVER_TICK_INTERVAL,
+  type RaceSnapshot,
+  type Vec3,
+} from "./types.js";
+
+export interface InterpolatedPose {
+  x: number;
+  y: number;
+  z: number;
+  heading: number;
+}
+
+interface BufferedKart extends InterpolatedPose {
+  vx: number;
+  vz: number;
+}
+
+interface BufferedSnapshot {
+  tick: number;
+  /** Server race time (ms) the snapshot was taken at */
+  serverTime: number;
+  karts: Record<string, BufferedKart>;
+  projectiles: Record<string, Vec3>;
+  hazards: Record<string, Vec3>;
+}
+
+// Smoothing factors applied once per received snapshot
+const OFFSET_SMOOTHING = 0.1;
+const JITTER_SMOOTHING = 0.1;
+const DELAY_SMOOTHING = 0.05;
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpAngle(a: number, b: number, t: number): number {
+  let diff = b - a;
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+  return a + diff * t;
+}
+
+function lerpVec3(a: Vec3, b: Vec3, t: number): Vec3 {
+  return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t), z: lerp(a.z, b.z, t) };
+}
+
+export class SnapshotBuffer {
+  /** Current render delay in ms (adapts to jitter) */
+  delay = INTERP_BASE_DELAY;
+  /** Smoothed deviation of snapshot arrival times, in ms */
+  jitter = 0;
+
+  private entries: BufferedSnapshot[] = [];
+  // Estimated serverTime - local clock
+  private clockOffset = 0;
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(snapshot: RaceSnapshot, now: number): void {
+    const newest = this.entries[this.entries.length - 1];
+    // Duplicate or out-of-order (or the clock restarted with a new race)
+    if (newest && snapshot.tick <= newest.tick) return;
+    if (newest && snapshot.raceTimer < newest.serverTime) this.clear();
+
+    const karts: Record<string, BufferedKart> = {};
+    for (const [id, k] of Object.entries(snapshot.karts)) {
+      karts[id] = {
+        x: k.position.x,
+        y: k.position.y,
+        z: k.position.z,
+        heading: k.heading,
+        vx: k.velocity.x,
+        vz: k.velocity.z,
+      };
+    }
+    const projectiles: Record<string, Vec3> = {};
+    for (const p of snapshot.projectiles) projectiles[p.id] = { ...p.position };
+    const hazards: Record<string, Vec3> = {};
+    for (const h of snapshot.hazards) hazards[h.id] = { ...h.position };
+
+    this.entries.push({
+      tick: snapshot.tick,
+      serverTime: snapshot.raceTimer,
+      karts,
+      projectiles,
+      hazards,
+    });
+    if (this.entries.length > INTERP_BUFFER_SIZE) this.entries.shift();
+
+    // How far this arrival strays from the running clock estimate is jitter
+    const sample = snapshot.raceTimer - now;
+    if (this.entries.length === 1) {
+      this.clockOffset = sample;
+    } else {
+      const deviation = sample - this.clockOffset;
+      this.jitter += (Math.abs(deviation) - this.jitter) * JITTER_SMOOTHING;
+      this.clockOffset += deviation * OFFSET_SMOOTHING;
+    }
+
+    const target = Math.min(
+      INTERP_MAX_DELAY,
+      INTERP_BASE_DELAY + this.jitter * INTERP_JITTER_MULTIPLIER,
+    );
+    this.delay += (target - this.delay) * DELAY_SMOOTHING;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.jitter = 0;
+    this.delay = INTERP_BASE_DELAY;
+  }
+
+  /** Best guess at the server's race clock right now; null before any snapshot */
+  serverTime(now: number): number | null {
+    return this.entries.length > 0 ? now + this.clockOffset : null;
+  }
+
+  /** Server time currently being rendered */
+  renderTime(now: number): number {
+    return now + this.clockOffset - this.delay;
+  }
+
+  kartPose(kartId: string, now: number): InterpolatedPose | null {
+    const span = this.bracket(now);
+    if (!span) return null;
+    const [a, b, t, extraMs] = span;
+    const ka = a.karts[kartId];
+    const kb = b.karts[kartId];
+    if (!ka || !kb) {
+      const k = kb ?? ka;
+      return k ? { x: k.x, y: k.y, z: k.z, heading: k.heading } : null;
+    }
+    if (extraMs > 0) {
+      const ticks = extraMs / RACE_SERVER_TICK_INTERVAL;
+      return { x: kb.x + kb.vx * ticks, y: kb.y, z: kb.z + kb.vz * ticks, heading: kb.heading };
+    }
+    return {
+      x: lerp(ka.x, kb.x, t),
+      y: lerp(ka.y, kb.y, t),
+      z: lerp(ka.z, kb.z, t),
+      heading: lerpAngle(ka.heading, kb.heading, t),
+    };
+  }
+
+  projectilePosition(projectileId: string, now: number): Vec3 | null {
+    const span = this.bracket(now);
+    if (!span) return null;
+    const [a, b, t] = span;
+    const pa = a.projectiles[projectileId];
+    const pb = b.projectiles[projectileId];
+    if (pa && pb) return lerpVec3(pa, pb, t);
+    return pb ?? pa ?? null;
+  }
+
+  /** Null while the hazard doesn't exist yet at the render time */
+  hazardPosition(hazardId: string, now: number): Vec3 | null {
+    const span = this.bracket(now);
+    if (!span) return null;
+    const [a, b, t] = span;
+    return (t < 1 ? a : b).hazards[hazardId] ?? null;
+  }
+
+  /**
+   * The two snapshots around the render time, the blend factor between
+   * them and how many ms the render time is past the newest one.
+   */
+  private bracket(now: number): [BufferedSnapshot, BufferedSnapshot, number, number] | null {
+    const n = this.entries.length;
+    if (n === 0) return null;
+
+    const time = this.renderTime(now);
+    const oldest = this.entries[0];
+    const newest = this.entries[n - 1];
+    if (time <= oldest.serverTime) return [oldest, oldest, 0, 0];
+    if (time >= newest.serverTime) {
+      const extra = Math.min(time - newest.serverTime, INTERP_MAX_EXTRAPOLATION);
+      return [newest, newest, 1, extra];
+    }
+
+    for (let i = n - 1; i > 0; i--) {
+      const a = this.entries[i - 1];
+      if (a.serverTime <= time) {
+        const b = this.entries[i];
+        const span = b.serverTime - a.serverTime;
+        return [a, b, span > 0 ? (time - a.serverTime) / span : 1, 0];
+      }
+    }
+    return [oldest, oldest, 0, 0];
+  }
+}
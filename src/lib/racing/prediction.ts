@@ -0,0 +1,170 @@
+/**
+ * Client-side prediction for the local kart.
+ *
+ * The client runs the same `stepKartPhysics` as the server on its own inputs,
+ * so the local kart responds immediately instead of a round trip later. Every
+ * predicted tick is kept with the input seq it used; when a snapshot arrives
+ * the ticks the server has acknowledged are dropped and, if the server ended
+ * up somewhere else, the kart is reset to the server state and the remaining
+ * ticks are replayed on top of it. The jump this causes is hidden by a
+ * visual offset that decays over a few frames.
+ */
+
+import {
+  PREDICTION_ERROR_DECAY,
+  PREDICTION_HEADING_TOLERANCE,
+  PREDICTION_HISTORY_TICKS,
+  PREDICTION_POSITION_TOLERANCE,
+  RACE_SERVER_TICK_INTERVAL,
+  SLIPSTREAM_DURATION_TICKS,
+  vec3Zero,
+  type KartInput,
+  type KartState,
+  type RaceSnapshot,
+  type RaceSpeedClass,
+  type TrackDefinition,
+  type TrackId,
+  type Vec3,
+} from "./types.js";
+import { defaultKartSim, stepKartPhysics, type KartSimState } from "./race-simulation.js";
+import { getTrack } from "./track.js";
+
+export type KartSnapshot = RaceSnapshot["karts"][string];
+
+interface PredictedTick {
+  seq: number;
+  input: KartInput;
+  dtMs: number;
+  /** Pose after this tick, compared against the server once acknowledged */
+  x: number;
+  z: number;
+  heading: number;
+}
+
+// Prediction runs without a room, so gameplay events are simply dropped
+const noopEmit = () => {};
+
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= Math.PI * 2;
+  while (a < -Math.PI) a += Math.PI * 2;
+  return a;
+}
+
+/** Copy the physics fields of a server snapshot onto a kart */
+function applyKartSnapshot(kart: KartState, data: KartSnapshot): void {
+  kart.position = { ...data.position };
+  kart.heading = data.heading;
+  kart.speed = data.speed;
+  kart.velocity = { ...data.velocity };
+  kart.driftState = { ...data.driftState };
+  kart.status = data.status;
+  kart.statusTimer = data.statusTimer;
+  kart.boostTimer = data.boostTimer;
+  kart.boostSpeed = data.boostSpeed;
+  kart.slipstreamActive = data.slipstreamActive;
+  kart.slipAngle = data.slipAngle ?? 0;
+  kart.flowMeter = data.flowMeter ?? 0;
+  kart.surface = data.surface ?? "asphalt";
+  kart.loadFactor = data.loadFactor ?? 1;
+}
+
+export class KartPredictor {
+  /** Predicted kart — a private copy, never the reactive store object */
+  readonly kart: KartState;
+  private readonly track: TrackDefinition;
+  private readonly speedClass: RaceSpeedClass;
+  private readonly sim: KartSimState = defaultKartSim();
+  private history: PredictedTick[] = [];
+  private errorOffset: Vec3 = vec3Zero();
+
+  constructor(trackId: TrackId, speedClass: RaceSpeedClass, kart: KartState) {
+    this.track = getTrack(trackId);
+    this.speedClass = speedClass;
+    this.kart = JSON.parse(JSON.stringify(kart));
+  }
+
+  /** Predict one tick with `input`, tagged with the seq it will be sent as */
+  step(input: KartInput, seq: number, dtMs: number): void {
+    const tick: PredictedTick = {
+      seq,
+      input: { ...input, useItem: false },
+      dtMs,
+      x: 0,
+      z: 0,
+      heading: 0,
+    };
+    this.simulate(tick);
+    this.history.push(tick);
+    if (this.history.length > PREDICTION_HISTORY_TICKS) this.history.shift();
+
+    const decay = Math.exp(-PREDICTION_ERROR_DECAY * (dtMs / 1000));
+    this.errorOffset.x *= decay;
+    this.errorOffset.y *= decay;
+    this.errorOffset.z *= decay;
+  }
+
+  /**
+   * Check the prediction against a server snapshot of the same kart.
+   * `ackSeq` is the last input seq the server had simulated. Returns true
+   * if the prediction was wrong and had to be rewound and replayed.
+   */
+  reconcile(data: KartSnapshot, ackSeq: number): boolean {
+    let acked: PredictedTick | null = null;
+    while (this.history.length > 0 && this.history[0].seq <= ackSeq) {
+      acked = this.history.shift()!;
+    }
+
+    // Slipstream needs the other karts, so the server's word is final
+    this.sim.slipstreamBonusTicks = data.slipstreamActive ? SLIPSTREAM_DURATION_TICKS : 0;
+
+    // Nothing new acknowledged yet — wait for a snapshot that covers our ticks
+    if (!acked && this.history.length > 0) return false;
+
+    if (
+      acked &&
+      data.status === this.kart.status &&
+      Math.hypot(data.position.x - acked.x, data.position.z - acked.z) <=
+        PREDICTION_POSITION_TOLERANCE &&
+      Math.abs(wrapAngle(data.heading - acked.heading)) <= PREDICTION_HEADING_TOLERANCE
+    ) {
+      return false;
+    }
+
+    // Rewind to the server state and replay everything it hasn't seen yet
+    const before = this.renderPosition();
+    applyKartSnapshot(this.kart, data);
+    for (const tick of this.history) this.simulate(tick);
+
+    this.errorOffset = {
+      x: before.x - this.kart.position.x,
+      y: before.y - this.kart.position.y,
+      z: before.z - this.kart.position.z,
+    };
+    return true;
+  }
+
+  /** Predicted position plus the decaying correction offset */
+  renderPosition(): Vec3 {
+    return {
+      x: this.kart.position.x + this.errorOffset.x,
+      y: this.kart.position.y + this.errorOffset.y,
+      z: this.kart.position.z + this.errorOffset.z,
+    };
+  }
+
+  private simulate(tick: PredictedTick): void {
+    this.sim.input = tick.input;
+    stepKartPhysics(
+      this.track,
+      this.speedClass,
+      this.kart,
+      this.sim,
+      undefined,
+      tick.dtMs / RACE_SERVER_TICK_INTERVAL,
+      noopEmit,
+    );
+    tick.x = this.kart.position.x;
+    tick.z = this.kart.position.z;
+    tick.heading = this.kart.heading;
+  }
+}
@@ -0,0 +1,2156 @@
+/**
+ * RaceSimulation — deterministic, headless kart race simulation.
+ *
+ * Owns everything that used to be private to the raceRoom actor: kart
+ * physics, slipstream, kart-kart contact, projectiles, hazards, item boxes,
+ * checkpoints and position ranking. It mutates a RaceRoomState in place,
+ * draws all randomness from a seeded RNG and advances on an explicit tick
+ * clock (no Date.now / Math.random), so the same seed and input stream always
+ * reproduce the same race.
+ *
+ * The raceRoom actor drives one of these per room; unit tests, offline bots
+ * and replays can drive it directly without a Rivet actor.
+ */
+
+import {
+  BOOST_PAD_DURATION,
+  BOOST_PAD_SPEED,
+  CHECKPOINT_RANGE_FRACTION,
+  BANANA_RADIUS,
+  DRIFT_BOOST_DURATIONS,
+  DRIFT_BOOST_SPEEDS,
+  DRIFT_CHARGE_THRESHOLDS,
+  DRIFT_TURN_MULTIPLIER,
+  GREEN_SHELL_MAX_BOUNCES,
+  ITEM_BOX_PICKUP_RADIUS,
+  ITEM_BOX_RESPAWN_TIME,
+  ITEM_PROBABILITIES,
+  KART_ACCELERATION,
+  KART_BRAKE_FORCE,
+  KART_COLLISION_PUSH,
+  KART_DRAG,
+  KART_MASS,
+  KART_MAX_SPEED,
+  KART_RADIUS,
+  KART_REVERSE_ACCEL,
+  KART_REVERSE_MAX,
+  KART_TURN_RATE,
+  LAP_LINE_FRACTION,
+  LIGHTNING_SHRINK_DURATION,
+  MIN_DRIFT_SPEED,
+  MUSHROOM_BOOST_DURATION,
+  MUSHROOM_BOOST_SPEED,
+  OFF_ROAD_SPEED_MULT,
+  OUT_OF_BOUNDS_BOUNDARY,
+  PRE_RACE_COUNTDOWN,
+  PROJECTILE_MAX_AGE,
+  RACE_LAP_COUNT,
+  RACE_SERVER_TICK_INTERVAL,
+  RACE_TIME_LIMIT,
+  SHELL_RADIUS,
+  SHELL_SPEED,
+  SHRUNK_SPEED_PENALTY,
+  SPIN_DURATION,
+  STAR_DURATION,
+  STAR_SPEED_BONUS,
+  plainVec3,
+  vec3Zero,
+  vec3Distance2D,
+  ROCKET_START_WINDOW,
+  ROCKET_START_PERFECT_SPEED,
+  ROCKET_START_PERFECT_DURATION,
+  ROCKET_START_GOOD_SPEED,
+  ROCKET_START_GOOD_DURATION,
+  ROCKET_START_OK_SPEED,
+  ROCKET_START_OK_DURATION,
+  ROCKET_START_STALL_DURATION,
+  ROCKET_START_STALL_MAX_SPEED,
+  HITSTOP_FRAMES,
+  SLIPSTREAM_CONE_ANGLE,
+  SLIPSTREAM_CONE_LENGTH,
+  SLIPSTREAM_CHARGE_TICKS,
+  SLIPSTREAM_BONUS,
+  SLIPSTREAM_DURATION_TICKS,
+  SLIPSTREAM_DECAY_TICKS,
+  TURN_CURVE_EXPONENT,
+  TURN_HIGH_SPEED_REDUCTION,
+  COUNTER_STEER_BONUS,
+  SNAP_STEERING_FRAMES,
+  SNAP_STEERING_MULT,
+  HIT_IMMUNITY_TICKS,
+  BLUE_SHELL_GAP_THRESHOLD,
+  SLIP_ANGLE_BUILDUP,
+  SLIP_ANGLE_RECOVERY,
+  SLIP_ANGLE_MAX,
+  GRIP_LOSS_AT_MAX_SLIP,
+  LATERAL_PUSH_STRENGTH,
+  DRIFT_SLIP_FLOOR,
+  SURFACE_GRIP,
+  SURFACE_DRAG,
+  SURFACE_DRIFT_CHARGE_MULT,
+  DUST_CARRYOVER_TICKS,
+  DUST_CARRYOVER_GRIP_PENALTY,
+  CREST_GRIP_LOSS,
+  COMPRESSION_GRIP_GAIN,
+  LANDING_SCRUB_THRESHOLD,
+  LANDING_SCRUB_PENALTY,
+  LANDING_CLEAN_BONUS,
+  BANKING_GRIP_BONUS,
+  SIDE_RUB_SCRUB_RATE,
+  REAR_TAP_DESTABILIZE,
+  WALL_SCRUB_SPEED_LOSS,
+  WALL_SCRUB_ANGLE_THRESHOLD,
+  FLOW_GAIN_DRIFT_RELEASE,
+  FLOW_GAIN_CLEAN_CORNER,
+  FLOW_GAIN_SLIPSTREAM,
+  FLOW_GAIN_BOOST_PAD,
+  FLOW_GAIN_ROCKET_START,
+  FLOW_DECAY_PER_TICK,
+  FLOW_DECAY_ON_HIT,
+  FLOW_DECAY_OFF_ROAD,
+  FLOW_MAX,
+  FLOW_SPEED_BONUS,
+  FLOW_TURN_BONUS,
+  FLOW_BOOST_EXTEND_MULT,
+  TIME_TRIAL_MUSHROOMS,
+  SPEED_CLASS_MULTIPLIERS,
+  type SurfaceType,
+  type RaceStats,
+  type CheckpointSplitEvent,
+  type RocketStartTier,
+  type DriftCharge,
+  type DriftDirection,
+  type DriftState,
+  type DriftTierEvent,
+  type HazardState,
+  type ItemBoxState,
+  type ItemPickedUpEvent,
+  type ItemType,
+  type ItemUsedEvent,
+  type KartHitEvent,
+  type KartInput,
+  type KartState,
+  type LapCompletedEvent,
+  type ProjectileState,
+  type RaceFinishedEvent,
+  type RacePhaseChangedEvent,
+  type RaceRoomSettings,
+  type RaceRoomState,
+  type RaceSnapshot,
+  type RaceSpeedClass,
+  type RaceToastEvent,
+  type RocketStartEvent,
+  type SlipstreamEvent,
+  type TrackDefinition,
+  type TrackId,
+  type Vec3,
+} from "./types.js";
+import { coerceRaceCarId, getRaceCar } from "./car-catalog.js";
+import { createSeededRng, type SeededRng } from "./rng.js";
+import {
+  getTrack,
+  findNearestSegment,
+  getLateralOffset,
+  isOnRoad,
+  isInBoostZone,
+  getRespawnPosition,
+  sampleRoadHeight,
+  sampleRoadDistance,
+} from "./track.js";
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-kart simulation bookkeeping that is not part of the broadcast
+ * KartState (steering history, slipstream charge, immunity, hitstop, ...).
+ */
+export interface KartSimState {
+  input: KartInput;
+  // Improved turn curve — counter-steer detection
+  lastSteerDirection: number;
+  // Snap steering
+  steerInputTicks: number;
+  prevSteerSign: number;
+  // Slipstream
+  slipstreamTicks: number;
+  slipstreamBonusTicks: number;
+  // Rocket start
+  accelerateHeldSince: number; // tick when throttle was first held during countdown; -1 if not held
+  rocketStartFired: boolean;
+  // Hit immunity
+  immunityTicks: number;
+  // Drift release grace
+  driftReleaseGraceTicks: number;
+  driftReleaseGraceCharge: DriftCharge;
+  // Hitstop pending data
+  hitstopPendingSpeed: number;
+  hitstopPendingDrift: boolean;
+  // Surface / grip-budget
+  dustCarryoverTicks: number;
+  prevElevation: number;
+  airborne: boolean;
+  prevSegIdx: number;
+  /** Scrubbing along the edge of the course this tick */
+  wallScrub: boolean;
+}
+
+/** Events the simulation raises; names and payloads match the raceRoom actor events */
+export interface RaceSimulationEvents {
+  phaseChanged: RacePhaseChangedEvent;
+  itemPickedUp: ItemPickedUpEvent;
+  itemUsed: ItemUsedEvent;
+  kartHit: KartHitEvent;
+  lapCompleted: LapCompletedEvent;
+  checkpointSplit: CheckpointSplitEvent;
+  raceFinished: RaceFinishedEvent;
+  driftTierReached: DriftTierEvent;
+  slipstream: SlipstreamEvent;
+  rocketStart: RocketStartEvent;
+  raceToast: RaceToastEvent;
+}
+
+export type RaceSimulationEmit = <K extends keyof RaceSimulationEvents>(
+  name: K,
+  payload: RaceSimulationEvents[K],
+) => void;
+
+export interface RaceSimulationOptions {
+  /** State to simulate; mutated in place */
+  state: RaceRoomState;
+  /** RNG seed used for item rolls */
+  seed: number;
+  /** Resume the RNG from a saved state instead of the seed's start */
+  rngState?: number;
+  /** Starting tick (defaults to 0) */
+  tick?: number;
+  /** Receives gameplay events as they happen (optional for headless runs) */
+  emit?: RaceSimulationEmit;
+}
+
+export interface AddKartOptions {
+  id: string;
+  name: string;
+  carId: string;
+  accentIndex: number;
+}
+
+// ---------------------------------------------------------------------------
+// State factories
+// ---------------------------------------------------------------------------
+
+/** Create default drift state */
+function defaultDrift(): DriftState {
+  return { active: false, direction: 0, charge: 0, timer: 0 };
+}
+
+/** Create default race stats */
+export function defaultRaceStats(): RaceStats {
+  return {
+    itemsUsed: 0,
+    hitsDealt: 0,
+    hitsTaken: 0,
+    driftBoosts: 0,
+    topSpeed: 0,
+    bestLapTime: null,
+    lapStartTime: 0,
+    lapTimes: [],
+    splits: [],
+  };
+}
+
+/** Neutral input — no steering, no pedals */
+export function idleKartInput(): KartInput {
+  return { steering: 0, throttle: false, brake: false, drift: false, useItem: false };
+}
+
+/** Create fresh per-kart simulation bookkeeping */
+export function defaultKartSim(): KartSimState {
+  return {
+    input: idleKartInput(),
+    lastSteerDirection: 0,
+    steerInputTicks: 0,
+    prevSteerSign: 0,
+    slipstreamTicks: 0,
+    slipstreamBonusTicks: 0,
+    accelerateHeldSince: -1,
+    rocketStartFired: false,
+    immunityTicks: 0,
+    driftReleaseGraceTicks: 0,
+    driftReleaseGraceCharge: 0,
+    hitstopPendingSpeed: 0,
+    hitstopPendingDrift: false,
+    dustCarryoverTicks: 0,
+    prevElevation: 0,
+    airborne: false,
+    prevSegIdx: 0,
+    wallScrub: false,
+  };
+}
+
+/** Create a fresh KartState at a grid position */
+export function createKart(
+  id: string,
+  name: string,
+  carId: string,
+  accentIndex: number,
+  position: Vec3,
+  heading: number,
+): KartState {
+  return {
+    id,
+    name,
+    carId: coerceRaceCarId(carId),
+    accentIndex,
+    position: plainVec3(position),
+    heading,
+    speed: 0,
+    velocity: vec3Zero(),
+    driftState: defaultDrift(),
+    lap: 0,
+    checkpoint: 0,
+    currentItem: null,
+    itemCharges: 0,
+    status: "normal",
+    statusTimer: 0,
+    raceProgress: 0,
+    finishTime: null,
+    finishPosition: null,
+    boostTimer: 0,
+    boostSpeed: 0,
+    slipstreamActive: false,
+    slipstreamTicks: 0,
+    hitstopTicks: 0,
+    rocketStartTier: "none",
+    slipAngle: 0,
+    flowMeter: 0,
+    surface: "asphalt",
+    loadFactor: 1,
+  };
+}
+
+/** Whether a room's rules put item boxes on the track at all */
+export function roomHasItems(state: RaceRoomState): boolean {
+  if (state.mode === "timeTrial" || state.itemMode === "off") return false;
+  if (state.itemMode === "custom") {
+    return Object.values(state.itemWeights).some((w) => w > 0);
+  }
+  return true;
+}
+
+/** Longest a race may run, scaled up for longer races and slower classes */
+export function raceTimeLimit(state: RaceRoomState): number {
+  const laps = state.lapCount / RACE_LAP_COUNT;
+  return Math.round((RACE_TIME_LIMIT * Math.max(1, laps)) / SPEED_CLASS_MULTIPLIERS[state.speedClass]);
+}
+
+/** Generate initial item boxes from the track definition */
+export function generateItemBoxes(trackId: TrackId): ItemBoxState[] {
+  const track = getTrack(trackId);
+  const boxes: ItemBoxState[] = [];
+  let boxId = 0;
+  for (const zone of track.itemBoxZones) {
+    for (const pos of zone.positions) {
+      boxes.push({
+        id: boxId++,
+        position: plainVec3(pos),
+        active: true,
+        respawnTimer: 0,
+      });
+    }
+  }
+  return boxes;
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+export class RaceSimulation {
+  readonly state: RaceRoomState;
+  readonly rng: SeededRng;
+
+  /** Ticks advanced so far — the simulation's only clock */
+  tick = 0;
+
+  private readonly emit: RaceSimulationEmit;
+  private readonly kartSim: Record<string, KartSimState> = {};
+  private phaseElapsed = 0;
+  private nextEntityId = 0;
+
+  constructor(opts: RaceSimulationOptions) {
+    this.state = opts.state;
+    this.rng = createSeededRng(opts.seed);
+    if (opts.rngState !== undefined) this.rng.setState(opts.rngState);
+    this.tick = opts.tick ?? 0;
+    this.emit = opts.emit ?? (() => {});
+  }
+
+  get track(): TrackDefinition {
+    return getTrack(this.state.trackId);
+  }
+
+  /** Simulation bookkeeping for a kart, created on first use */
+  getKartSim(kartId: string): KartSimState {
+    let sim = this.kartSim[kartId];
+    if (!sim) {
+      sim = defaultKartSim();
+      this.kartSim[kartId] = sim;
+    }
+    return sim;
+  }
+
+  // -------------------------------------------------------------------------
+  // Roster
+  // -------------------------------------------------------------------------
+
+  /** Place a new kart on the next free grid slot */
+  addKart(opts: AddKartOptions): KartState {
+    const track = this.track;
+    const gridIdx = Object.keys(this.state.players).length;
+    const gridPos = track.startPositions[gridIdx] ?? track.startPositions[0];
+    const kart = createKart(
+      opts.id,
+      opts.name,
+      opts.carId,
+      opts.accentIndex,
+      gridPos,
+      track.startHeading,
+    );
+    this.state.players[opts.id] = kart;
+    this.kartSim[opts.id] = defaultKartSim();
+    return kart;
+  }
+
+  /** Remove a kart along with everything it owns on track */
+  removeKart(kartId: string): void {
+    delete this.state.players[kartId];
+    delete this.kartSim[kartId];
+    this.state.projectiles = this.state.projectiles.filter(
+      (p) => p.ownerId !== kartId,
+    );
+    this.state.hazards = this.state.hazards.filter(
+      (h) => h.ownerId !== kartId,
+    );
+    delete this.state.stats[kartId];
+    delete this.state.rematchVotes[kartId];
+    delete this.state.bots[kartId];
+  }
+
+  // -------------------------------------------------------------------------
+  // Phase control
+  // -------------------------------------------------------------------------
+
+  /** Reset the grid and enter the pre-race countdown */
+  beginCountdown(): void {
+    this.state.phase = "countdown";
+    this.state.raceTimer = 0;
+    this.phaseElapsed = 0;
+    this.nextEntityId = 0;
+    this.resetForRaceStart();
+    this.emit("phaseChanged", {
+      phase: this.state.phase,
+      raceTimer: this.state.raceTimer,
+    });
+  }
+
+  /** Go back to the lobby phase after a rematch vote */
+  returnToWaiting(): void {
+    this.state.phase = "waiting";
+    this.state.raceTimer = 0;
+    this.state.rematchVotes = {};
+    this.state.stats = {};
+    this.phaseElapsed = 0;
+    this.emit("phaseChanged", { phase: "waiting", raceTimer: 0 });
+  }
+
+  /** End the race now, e.g. when every opponent has left */
+  forfeit(): void {
+    const remaining = Object.values(this.state.players);
+    this.state.phase = "finished";
+    this.phaseElapsed = 0;
+
+    const finishTimes: Record<string, number | null> = {};
+    for (const k of remaining) {
+      finishTimes[k.id] = k.finishTime;
+    }
+
+    this.emit("raceFinished", {
+      positions: remaining.map((k) => k.id),
+      finishTimes,
+      stats: this.state.stats,
+    });
+    this.emit("phaseChanged", {
+      phase: "finished",
+      raceTimer: this.state.raceTimer,
+    });
+  }
+
+  /** Reset all karts to grid positions for race start */
+  resetForRaceStart(): void {
+    const state = this.state;
+    const track = this.track;
+    const playerIds = Object.keys(state.players);
+    for (let i = 0; i < playerIds.length; i++) {
+      const kart = state.players[playerIds[i]];
+      const gridPos = track.startPositions[i] ?? track.startPositions[0];
+      kart.position = plainVec3(gridPos);
+      kart.heading = track.startHeading;
+      kart.speed = 0;
+      kart.velocity = vec3Zero();
+      kart.driftState = defaultDrift();
+      kart.lap = 0;
+      kart.checkpoint = 0;
+      kart.currentItem = null;
+      kart.itemCharges = 0;
+      kart.status = "normal";
+      kart.statusTimer = 0;
+      kart.raceProgress = 0;
+      kart.finishTime = null;
+      kart.finishPosition = null;
+      kart.boostTimer = 0;
+      kart.boostSpeed = 0;
+      kart.slipstreamActive = false;
+      kart.slipstreamTicks = 0;
+      kart.hitstopTicks = 0;
+      kart.rocketStartTier = "none";
+      kart.slipAngle = 0;
+      kart.flowMeter = 0;
+      kart.surface = "asphalt";
+      kart.loadFactor = 1;
+    }
+    // Reset items on track
+    state.projectiles = [];
+    state.hazards = [];
+    state.itemBoxes = roomHasItems(state) ? generateItemBoxes(state.trackId) : [];
+    state.finishedCount = 0;
+    state.positions = playerIds;
+    state.rematchVotes = {};
+
+    // Initialize stats for each player
+    state.stats = {};
+    for (const pid of playerIds) {
+      state.stats[pid] = defaultRaceStats();
+    }
+
+    // Reset per-kart simulation state (inputs survive so held keys still count)
+    for (const pid of playerIds) {
+      const input = this.kartSim[pid]?.input ?? idleKartInput();
+      this.kartSim[pid] = { ...defaultKartSim(), input };
+    }
+  }
+
+  /**
+   * Apply host-chosen room settings while waiting. A new track moves every
+   * kart onto its grid; otherwise only the item boxes need regenerating.
+   */
+  applySettings(settings: RaceRoomSettings): void {
+    const state = this.state;
+    const trackChanged = settings.trackId !== state.trackId;
+    state.trackId = settings.trackId;
+    state.lapCount = settings.lapCount;
+    state.itemMode = settings.itemMode;
+    state.itemWeights = { ...settings.itemWeights };
+    state.speedClass = settings.speedClass;
+    state.maxPlayers = settings.maxPlayers;
+    if (trackChanged) {
+      this.resetForRaceStart();
+    } else {
+      state.itemBoxes = roomHasItems(state) ? generateItemBoxes(state.trackId) : [];
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Tick
+  // -------------------------------------------------------------------------
+
+  /**
+   * Advance the simulation by one tick.
+   *
+   * `inputs` holds the latest input per kart id; karts without an entry keep
+   * their previous input. `useItem` fires the held item once, on this tick.
+   * `dtMs` is the tick length in milliseconds (nominally
+   * RACE_SERVER_TICK_INTERVAL).
+   */
+  advance(inputs: Record<string, KartInput>, dtMs: number): void {
+    const state = this.state;
+    const dt = dtMs / RACE_SERVER_TICK_INTERVAL;
+
+    const itemUsers: string[] = [];
+    for (const [kartId, input] of Object.entries(inputs)) {
+      if (!state.players[kartId]) continue;
+      const sim = this.getKartSim(kartId);
+      sim.input = { ...input, useItem: false };
+      if (input.useItem) itemUsers.push(kartId);
+    }
+
+    // Track rocket start throttle during countdown
+    if (state.phase === "countdown") {
+      this.rocketStartCountdownTick();
+    }
+
+    // Phase management
+    this.phaseTick(dtMs);
+
+    if (state.phase === "racing") {
+      for (const kartId of itemUsers) {
+        const kart = state.players[kartId];
+        if (kart?.currentItem) this.executeItemUse(kart);
+      }
+
+      const track = this.track;
+      this.kartPhysicsTick(dt, track);
+      this.slipstreamTick();
+      this.kartCollisionTick();
+      this.projectileTick(dt, track);
+      this.hazardTick();
+      this.itemBoxTick();
+      this.checkpointTick(track);
+      this.positionTick();
+    }
+
+    this.tick++;
+  }
+
+  /** Build the network snapshot for the current tick */
+  snapshot(): RaceSnapshot {
+    const state = this.state;
+    const karts: RaceSnapshot["karts"] = {};
+    for (const [id, k] of Object.entries(state.players)) {
+      karts[id] = {
+        position: k.position,
+        heading: k.heading,
+        speed: k.speed,
+        velocity: k.velocity,
+        driftState: k.driftState,
+        status: k.status,
+        statusTimer: k.statusTimer,
+        currentItem: k.currentItem,
+        itemCharges: k.itemCharges,
+        lap: k.lap,
+        checkpoint: k.checkpoint,
+        boostTimer: k.boostTimer,
+        boostSpeed: k.boostSpeed,
+        slipstreamActive: k.slipstreamActive,
+        slipAngle: k.slipAngle,
+        flowMeter: k.flowMeter,
+        surface: k.surface,
+        loadFactor: k.loadFactor,
+      };
+    }
+
+    return {
+      karts,
+      projectiles: state.projectiles,
+      hazards: state.hazards,
+      itemBoxes: state.itemBoxes.map((b) => ({ id: b.id, active: b.active })),
+      raceTimer: state.raceTimer,
+      positions: state.positions,
+      tick: this.tick,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  /** Deterministic entity id (projectiles, hazards) */
+  private entityId(prefix: string): string {
+    return `${prefix}_${this.tick.toString(36)}_${(this.nextEntityId++).toString(36)}`;
+  }
+
+  private activeKartSims(): Array<[KartState, KartSimState]> {
+    const out: Array<[KartState, KartSimState]> = [];
+    for (const kart of Object.values(this.state.players)) {
+      out.push([kart, this.getKartSim(kart.id)]);
+    }
+    return out;
+  }
+
+  // -------------------------------------------------------------------------
+  // Phase management
+  // -------------------------------------------------------------------------
+
+  private phaseTick(dtMs: number): void {
+    const state = this.state;
+    this.phaseElapsed += dtMs;
+
+    switch (state.phase) {
+      case "countdown": {
+        if (this.phaseElapsed >= PRE_RACE_COUNTDOWN) {
+          state.phase = "racing";
+          state.raceTimer = 0;
+          this.phaseElapsed = 0;
+
+          // Initialize lap start times for stats
+          for (const pid of Object.keys(state.players)) {
+            if (state.stats[pid]) {
+              state.stats[pid].lapStartTime = 0;
+            }
+          }
+
+          // Time trials hand out the whole item allowance up front
+          if (state.mode === "timeTrial") {
+            for (const kart of Object.values(state.players)) {
+              kart.currentItem = "triMushroom";
+              kart.itemCharges = TIME_TRIAL_MUSHROOMS;
+            }
+          }
+
+          this.emit("phaseChanged", {
+            phase: "racing",
+            raceTimer: 0,
+          });
+
+          // Evaluate rocket starts on GO
+          this.evaluateRocketStarts(this.tick);
+        }
+        break;
+      }
+
+      case "racing": {
+        state.raceTimer += dtMs;
+
+        // Check if all karts have finished
+        const karts = Object.values(state.players);
+        const allFinished = karts.length > 0 && karts.every((k) => k.finishTime !== null);
+
+        // Check time limit
+        const timeExpired = state.raceTimer >= raceTimeLimit(state);
+
+        if (allFinished || timeExpired) {
+          state.phase = "finished";
+          this.phaseElapsed = 0;
+
+          // Assign finish positions to any unfinished karts
+          const unfinished = karts.filter((k) => k.finishTime === null);
+          unfinished.sort((a, b) => b.raceProgress - a.raceProgress);
+          for (const k of unfinished) {
+            state.finishedCount += 1;
+            k.finishPosition = state.finishedCount;
+            k.finishTime = state.raceTimer;
+          }
+
+          const finishTimes: Record<string, number | null> = {};
+          for (const k of karts) {
+            finishTimes[k.id] = k.finishTime;
+          }
+
+          this.emit("raceFinished", {
+            positions: state.positions,
+            finishTimes,
+            stats: state.stats,
+          });
+          this.emit("phaseChanged", {
+            phase: "finished",
+            raceTimer: state.raceTimer,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Rocket start — countdown throttle tracking
+  // -------------------------------------------------------------------------
+
+  private rocketStartCountdownTick(): void {
+    for (const [, cs] of this.activeKartSims()) {
+      if (cs.rocketStartFired) continue;
+
+      if (cs.input.throttle && cs.accelerateHeldSince === -1) {
+        cs.accelerateHeldSince = this.tick;
+      }
+      // Releasing the throttle keeps accelerateHeldSince set; the evaluation
+      // happens on the phase transition.
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Rocket start — evaluate on GO
+  // -------------------------------------------------------------------------
+
+  private evaluateRocketStarts(goTick: number): void {
+    for (const [kart, cs] of this.activeKartSims()) {
+      if (cs.rocketStartFired) continue;
+
+      cs.rocketStartFired = true;
+
+      // If never pressed throttle during countdown, no rocket start
+      if (cs.accelerateHeldSince === -1) {
+        kart.rocketStartTier = "none";
+        continue;
+      }
+
+      // If throttle was held continuously through GO (never released)
+      if (cs.input.throttle && cs.accelerateHeldSince < goTick - 1) {
+        // Stall penalty: held throttle through the entire countdown
+        kart.rocketStartTier = "stall";
+        kart.boostSpeed = 0;
+        kart.boostTimer = ROCKET_START_STALL_DURATION;
+        // Stall: cap max speed temporarily (handled in kartPhysicsTick)
+        this.emit("rocketStart", {
+          kartId: kart.id,
+          tier: "stall" as RocketStartTier,
+          boostSpeed: 0,
+        });
+        this.emit("raceToast", {
+          text: `${kart.name} stalled!`,
+          color: "#FF4444",
+        });
+        continue;
+      }
+
+      // Player released and re-pressed (or is pressing now at GO)
+      // Evaluate timing: how close their current press is to the GO tick
+      const tickDiff = Math.abs(goTick - cs.accelerateHeldSince);
+      // If they released and are now pressing again, use current tick as reference
+      const effectiveDiff = cs.input.throttle ? 0 : tickDiff;
+      const finalDiff = Math.min(tickDiff, effectiveDiff || tickDiff);
+
+      let tier: RocketStartTier;
+      let boostSpeed: number;
+      let boostDuration: number;
+
+      if (finalDiff <= 2) {
+        tier = "perfect";
+        boostSpeed = ROCKET_START_PERFECT_SPEED;
+        boostDuration = ROCKET_START_PERFECT_DURATION;
+      } else if (finalDiff <= 4) {
+        tier = "good";
+        boostSpeed = ROCKET_START_GOOD_SPEED;
+        boostDuration = ROCKET_START_GOOD_DURATION;
+      } else if (finalDiff <= ROCKET_START_WINDOW) {
+        tier = "ok";
+        boostSpeed = ROCKET_START_OK_SPEED;
+        boostDuration = ROCKET_START_OK_DURATION;
+      } else {
+        kart.rocketStartTier = "none";
+        continue;
+      }
+
+      kart.rocketStartTier = tier;
+      kart.boostSpeed = boostSpeed;
+      kart.boostTimer = boostDuration;
+      kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_ROCKET_START * (tier === "perfect" ? 1.0 : tier === "good" ? 0.6 : 0.3));
+
+      this.emit("rocketStart", {
+        kartId: kart.id,
+        tier,
+        boostSpeed,
+      });
+
+      const tierColors: Record<string, string> = {
+        perfect: "#FFDD00",
+        good: "#44FF88",
+        ok: "#88AAFF",
+      };
+      this.emit("raceToast", {
+        text: `${kart.name}: ${tier.toUpperCase()} start!`,
+        color: tierColors[tier] || "#FFFFFF",
+      });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Item rolls
+  // -------------------------------------------------------------------------
+
+  /** Pick a random item based on improved rubber-banding (positionRatio-based) */
+  rollItem(kartId: string): { item: ItemType; charges: number } {
+    const state = this.state;
+    const positions = state.positions;
+    const karts = Object.values(state.players);
+    const activeKarts = karts.filter((k) => k.finishTime === null);
+
+    if (activeKarts.length <= 1) {
+      // Solo / only player — default to old behavior with pos 0
+      return this.rollItemLegacy(0);
+    }
+
+    const posIdx = positions.indexOf(kartId);
+    const positionRatio = activeKarts.length > 1
+      ? Math.max(0, posIdx) / (activeKarts.length - 1)
+      : 0; // 0 = leader, 1 = last
+
+    // Compute distance spread for blue shell threshold
+    let leadProgress = 0;
+    let secondProgress = 0;
+    let totalSpread = 1;
+
+    if (positions.length >= 2) {
+      const leader = state.players[positions[0]] as KartState | undefined;
+      const second = state.players[positions[1]] as KartState | undefined;
+      const last = state.players[positions[positions.length - 1]] as KartState | undefined;
+
+      if (leader) leadProgress = leader.raceProgress;
+      if (second) secondProgress = second.raceProgress;
+      if (leader && last) totalSpread = Math.max(1, leader.raceProgress - last.raceProgress);
+    }
+
+    const gapRatio = totalSpread > 0 ? (leadProgress - secondProgress) / totalSpread : 0;
+
+    // Rubber-banded weights: interpolate based on positionRatio
+    // Leader (positionRatio=0) → defensive items; Last (positionRatio=1) → offensive items
+    const weights: Record<ItemType, number> = {
+      greenShell:  lerp(30, 5, positionRatio),
+      banana:      lerp(25, 5, positionRatio),
+      redShell:    lerp(5, 15, positionRatio),
+      triMushroom: lerp(0, 15, positionRatio),
+      mushroom:    lerp(15, 10, positionRatio),
+      star:        lerp(0, 20, positionRatio),
+      lightning:   lerp(0, 12, positionRatio),
+      blueShell:   gapRatio > BLUE_SHELL_GAP_THRESHOLD ? lerp(0, 15, positionRatio) : 0,
+    };
+    this.applyCustomItemWeights(weights);
+
+    let totalWeight = 0;
+    const entries = Object.entries(weights) as [ItemType, number][];
+    for (const [, w] of entries) totalWeight += w;
+
+    let roll = this.rng.next() * totalWeight;
+    for (const [item, w] of entries) {
+      roll -= w;
+      if (roll <= 0) {
+        const charges = item === "triMushroom" ? 3 : 1;
+        return { item, charges };
+      }
+    }
+    return { item: "greenShell", charges: 1 };
+  }
+
+  /** Legacy item roll (fallback, position-index based) */
+  private rollItemLegacy(positionIndex: number): { item: ItemType; charges: number } {
+    const clampedPos = Math.min(positionIndex, 3) as 0 | 1 | 2 | 3;
+    const weights = {} as Record<ItemType, number>;
+    for (const [item, byPos] of Object.entries(ITEM_PROBABILITIES) as [ItemType, number[]][]) {
+      weights[item] = byPos[clampedPos];
+    }
+    this.applyCustomItemWeights(weights);
+    const entries = Object.entries(weights) as [ItemType, number][];
+    let totalWeight = 0;
+    for (const [, w] of entries) totalWeight += w;
+    let roll = this.rng.next() * totalWeight;
+    for (const [item, w] of entries) {
+      roll -= w;
+      if (roll <= 0) {
+        const charges = item === "triMushroom" ? 3 : 1;
+        return { item, charges };
+      }
+    }
+    return { item: "greenShell", charges: 1 };
+  }
+
+  /**
+   * Scale rolled odds by the room's custom weights. If that leaves nothing
+   * rollable at this position, fall back to the custom weights alone.
+   */
+  private applyCustomItemWeights(weights: Record<ItemType, number>): void {
+    if (this.state.itemMode !== "custom") return;
+    const custom = this.state.itemWeights;
+    let total = 0;
+    for (const item of Object.keys(weights) as ItemType[]) {
+      weights[item] *= custom[item] ?? 0;
+      total += weights[item];
+    }
+    if (total > 0) return;
+    for (const item of Object.keys(weights) as ItemType[]) {
+      weights[item] = custom[item] ?? 0;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Item use execution
+  // -------------------------------------------------------------------------
+
+  private executeItemUse(kart: KartState): void {
+    const item = kart.currentItem;
+    if (!item) return;
+
+    const state = this.state;
+
+    // Track stats
+    if (state.stats[kart.id]) {
+      state.stats[kart.id].itemsUsed++;
+    }
+
+    switch (item) {
+      case "greenShell": {
+        const projectile = this.createShellProjectile(kart, "greenShell", null);
+        state.projectiles.push(projectile);
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item, projectile });
+        break;
+      }
+
+      case "redShell": {
+        // Target the next kart ahead in position ranking
+        const targetId = this.findNextKartAhead(kart.id);
+        const projectile = this.createShellProjectile(kart, "redShell", targetId);
+        state.projectiles.push(projectile);
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item, projectile });
+        break;
+      }
+
+      case "blueShell": {
+        // Target 1st place kart
+        const firstId = state.positions.length > 0 ? state.positions[0] : null;
+        const targetId = firstId && firstId !== kart.id ? firstId : null;
+        const projectile = this.createShellProjectile(kart, "blueShell", targetId);
+        state.projectiles.push(projectile);
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item, projectile });
+        break;
+      }
+
+      case "banana": {
+        const hazard = this.createBananaHazard(kart);
+        state.hazards.push(hazard);
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item, hazard });
+        break;
+      }
+
+      case "mushroom": {
+        applyMushroom(kart);
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item });
+        break;
+      }
+
+      case "triMushroom": {
+        applyMushroom(kart);
+        kart.itemCharges -= 1;
+        if (kart.itemCharges <= 0) {
+          kart.currentItem = null;
+          kart.itemCharges = 0;
+        }
+        this.emit("itemUsed", { kartId: kart.id, item });
+        break;
+      }
+
+      case "star": {
+        kart.status = "starred";
+        kart.statusTimer = STAR_DURATION;
+        kart.boostSpeed = STAR_SPEED_BONUS;
+        kart.boostTimer = STAR_DURATION;
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item });
+        break;
+      }
+
+      case "lightning": {
+        // Hit all other karts
+        for (const other of Object.values(state.players)) {
+          if (other.id === kart.id) continue;
+          if (other.status === "starred") continue; // Star grants immunity
+          other.status = "shrunk";
+          other.statusTimer = LIGHTNING_SHRINK_DURATION;
+          // Track hit stats
+          if (state.stats[kart.id]) state.stats[kart.id].hitsDealt++;
+          if (state.stats[other.id]) state.stats[other.id].hitsTaken++;
+          this.emit("kartHit", {
+            kartId: other.id,
+            byKartId: kart.id,
+            itemType: "lightning",
+          });
+        }
+        kart.currentItem = null;
+        kart.itemCharges = 0;
+        this.emit("itemUsed", { kartId: kart.id, item });
+        break;
+      }
+    }
+  }
+
+  /** Create a shell projectile heading in the kart's forward direction */
+  private createShellProjectile(
+    kart: KartState,
+    type: "greenShell" | "redShell" | "blueShell",
+    targetId: string | null,
+  ): ProjectileState {
+    const forwardX = Math.sin(kart.heading);
+    const forwardZ = Math.cos(kart.heading);
+    return {
+      id: this.entityId("proj"),
+      type,
+      position: {
+        x: kart.position.x + forwardX * (KART_RADIUS + SHELL_RADIUS + 0.2),
+        y: kart.position.y + 0.3,
+        z: kart.position.z + forwardZ * (KART_RADIUS + SHELL_RADIUS + 0.2),
+      },
+      velocity: {
+        x: forwardX * SHELL_SPEED,
+        y: 0,
+        z: forwardZ * SHELL_SPEED,
+      },
+      ownerId: kart.id,
+      targetId,
+      bounces: 0,
+      age: 0,
+    };
+  }
+
+  /** Create a banana hazard behind the kart */
+  private createBananaHazard(kart: KartState): HazardState {
+    const backX = -Math.sin(kart.heading);
+    const backZ = -Math.cos(kart.heading);
+    return {
+      id: this.entityId("haz"),
+      type: "banana",
+      position: {
+        x: kart.position.x + backX * (KART_RADIUS + BANANA_RADIUS + 0.3),
+        y: kart.position.y + 0.15,
+        z: kart.position.z + backZ * (KART_RADIUS + BANANA_RADIUS + 0.3),
+      },
+      ownerId: kart.id,
+    };
+  }
+
+  /** Find the next kart ahead in position ranking */
+  private findNextKartAhead(kartId: string): string | null {
+    const idx = this.state.positions.indexOf(kartId);
+    if (idx <= 0) return null; // Already 1st or not found
+    return this.state.positions[idx - 1];
+  }
+
+  // -------------------------------------------------------------------------
+  // Apply hit to a kart (with hitstop)
+  // -------------------------------------------------------------------------
+
+  private applyHitToKart(
+    kart: KartState,
+    speedMult: number,
+    byKartId: string | null,
+    itemType: ItemType | "collision",
+  ): void {
+    const state = this.state;
+    const cs = this.getKartSim(kart.id);
+
+    // Set hitstop frames — freeze the kart briefly before applying the spin
+    kart.hitstopTicks = HITSTOP_FRAMES;
+    cs.hitstopPendingSpeed = speedMult;
+    cs.hitstopPendingDrift = true;
+
+    kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_ON_HIT);
+    kart.slipAngle = 0;
+
+    if (byKartId && state.stats[byKartId]) state.stats[byKartId].hitsDealt++;
+    if (state.stats[kart.id]) state.stats[kart.id].hitsTaken++;
+
+    this.emit("kartHit", {
+      kartId: kart.id,
+      byKartId,
+      itemType,
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Slipstream / Drafting tick
+  // -------------------------------------------------------------------------
+
+  private slipstreamTick(): void {
+    const state = this.state;
+
+    // Build kart data array for cone checks
+    const kartData: Array<{
+      id: string;
+      pos: Vec3;
+      vx: number;
+      vz: number;
+    }> = [];
+
+    for (const k of Object.values(state.players)) {
+      if (k.finishTime !== null) continue;
+      kartData.push({
+        id: k.id,
+        pos: k.position,
+        vx: k.velocity.x,
+        vz: k.velocity.z,
+      });
+    }
+
+    // For each kart, check if any other kart is directly ahead (in their forward cone)
+    for (const [kart, cs] of this.activeKartSims()) {
+      if (kart.finishTime !== null) continue;
+
+      const myFwdX = Math.sin(kart.heading);
+      const myFwdZ = Math.cos(kart.heading);
+      const mySpeed = Math.sqrt(kart.velocity.x * kart.velocity.x + kart.velocity.z * kart.velocity.z);
+
+      let foundAhead = false;
+
+      if (mySpeed > 0.05) {
+        for (const other of kartData) {
+          if (other.id === kart.id) continue;
+
+          // Vector from this kart to other
+          const dx = other.pos.x - kart.position.x;
+          const dz = other.pos.z - kart.position.z;
+          const dist = Math.sqrt(dx * dx + dz * dz);
+
+          if (dist > SLIPSTREAM_CONE_LENGTH || dist < 0.1) continue;
+
+          // Angle between forward direction and direction to other
+          const ndx = dx / dist;
+          const ndz = dz / dist;
+          const dot = myFwdX * ndx + myFwdZ * ndz;
+          const angle = Math.acos(Math.max(-1, Math.min(1, dot)));
+
+          if (angle > SLIPSTREAM_CONE_ANGLE) continue;
+
+          // Check velocity alignment (both going roughly same direction)
+          const otherSpeed = Math.sqrt(other.vx * other.vx + other.vz * other.vz);
+          if (otherSpeed < 0.05) continue;
+
+          const myNvx = kart.velocity.x / mySpeed;
+          const myNvz = kart.velocity.z / mySpeed;
+          const otherNvx = other.vx / otherSpeed;
+          const otherNvz = other.vz / otherSpeed;
+          const velDot = myNvx * otherNvx + myNvz * otherNvz;
+
+          if (velDot > 0.7) {
+            foundAhead = true;
+            break;
+          }
+        }
+      }
+
+      const wasActive = kart.slipstreamActive;
+
+      if (foundAhead) {
+        cs.slipstreamTicks = Math.min(cs.slipstreamTicks + 1, SLIPSTREAM_CHARGE_TICKS + 10);
+
+        if (cs.slipstreamTicks >= SLIPSTREAM_CHARGE_TICKS && !kart.slipstreamActive) {
+          kart.slipstreamActive = true;
+          cs.slipstreamBonusTicks = SLIPSTREAM_DURATION_TICKS;
+          kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_SLIPSTREAM);
+          this.emit("slipstream", { kartId: kart.id, active: true });
+        }
+      } else {
+        // Not in cone — decay slipstream ticks (grace period: lose 10/tick)
+        if (cs.slipstreamTicks > 0) {
+          cs.slipstreamTicks = Math.max(0, cs.slipstreamTicks - 10);
+        }
+      }
+
+      // Manage bonus duration
+      if (kart.slipstreamActive) {
+        if (!foundAhead) {
+          cs.slipstreamBonusTicks--;
+        }
+        if (cs.slipstreamBonusTicks <= 0) {
+          kart.slipstreamActive = false;
+          cs.slipstreamTicks = 0;
+          cs.slipstreamBonusTicks = 0;
+          if (wasActive) {
+            this.emit("slipstream", { kartId: kart.id, active: false });
+          }
+        }
+      }
+
+      // Update kart slipstreamTicks for snapshot
+      kart.slipstreamTicks = cs.slipstreamTicks;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Kart physics tick
+  // -------------------------------------------------------------------------
+
+  private kartPhysicsTick(dt: number, track: TrackDefinition): void {
+    for (const [kart, cs] of this.activeKartSims()) {
+      // Already finished — freeze kart
+      if (kart.finishTime !== null) continue;
+      stepKartPhysics(
+        track,
+        this.state.speedClass,
+        kart,
+        cs,
+        this.state.stats[kart.id],
+        dt,
+        this.emit,
+      );
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Kart-kart collision
+  // -------------------------------------------------------------------------
+
+  private kartCollisionTick(): void {
+    const state = this.state;
+    const kartIds = Object.keys(state.players);
+
+    for (let i = 0; i < kartIds.length; i++) {
+      const a = state.players[kartIds[i]];
+      if (a.finishTime !== null) continue;
+
+      for (let j = i + 1; j < kartIds.length; j++) {
+        const b = state.players[kartIds[j]];
+        if (b.finishTime !== null) continue;
+
+        const dx = b.position.x - a.position.x;
+        const dz = b.position.z - a.position.z;
+        const distSq = dx * dx + dz * dz;
+        const minDist = KART_RADIUS * 2;
+
+        if (distSq >= minDist * minDist || distSq < 0.0001) continue;
+
+        const dist = Math.sqrt(distSq);
+        const nx = dx / dist;
+        const nz = dz / dist;
+
+        // Heavier cars give less ground; equal weights split everything evenly
+        const massA = KART_MASS * getRaceCar(a.carId).stats.weight;
+        const massB = KART_MASS * getRaceCar(b.carId).stats.weight;
+        const yieldA = (2 * massB) / (massA + massB);
+        const yieldB = 2 - yieldA;
+
+        const overlap = (minDist - dist) / 2;
+        a.position.x -= nx * overlap * yieldA;
+        a.position.z -= nz * overlap * yieldA;
+        b.position.x += nx * overlap * yieldB;
+        b.position.z += nz * overlap * yieldB;
+
+        const aForwardX = Math.sin(a.heading);
+        const aForwardZ = Math.cos(a.heading);
+        const bForwardX = Math.sin(b.heading);
+        const bForwardZ = Math.cos(b.heading);
+
+        const aDot = aForwardX * nx + aForwardZ * nz;
+        const bDot = bForwardX * (-nx) + bForwardZ * (-nz);
+
+        const isSideContact = Math.abs(aDot) < 0.5 && Math.abs(bDot) < 0.5;
+        const isRearTap = (aDot > 0.6 && bDot < -0.3) || (bDot > 0.6 && aDot < -0.3);
+
+        if (isSideContact) {
+          a.speed -= SIDE_RUB_SCRUB_RATE * Math.abs(a.speed) * yieldA;
+          b.speed -= SIDE_RUB_SCRUB_RATE * Math.abs(b.speed) * yieldB;
+          a.slipAngle = Math.min(SLIP_ANGLE_MAX, a.slipAngle + 0.03);
+          b.slipAngle = Math.min(SLIP_ANGLE_MAX, b.slipAngle + 0.03);
+        } else if (isRearTap) {
+          if (aDot > bDot) {
+            b.slipAngle = Math.min(SLIP_ANGLE_MAX, b.slipAngle + REAR_TAP_DESTABILIZE);
+            b.speed -= KART_COLLISION_PUSH * 1.5 * yieldB;
+            a.speed -= KART_COLLISION_PUSH * 0.5 * yieldA;
+          } else {
+            a.slipAngle = Math.min(SLIP_ANGLE_MAX, a.slipAngle + REAR_TAP_DESTABILIZE);
+            a.speed -= KART_COLLISION_PUSH * 1.5 * yieldA;
+            b.speed -= KART_COLLISION_PUSH * 0.5 * yieldB;
+          }
+        } else {
+          a.speed -= aDot * KART_COLLISION_PUSH * yieldA;
+          b.speed -= bDot * KART_COLLISION_PUSH * yieldB;
+        }
+
+        // Star collision — starred kart spins the other
+        if (a.status === "starred" && b.status !== "starred") {
+          if (b.status !== "spinning" && b.status !== "falling") {
+            // Check hit immunity
+            if (this.getKartSim(b.id).immunityTicks <= 0) {
+              this.applyHitToKart(b, 0.3, a.id, "collision");
+            }
+          }
+        } else if (b.status === "starred" && a.status !== "starred") {
+          if (a.status !== "spinning" && a.status !== "falling") {
+            if (this.getKartSim(a.id).immunityTicks <= 0) {
+              this.applyHitToKart(a, 0.3, b.id, "collision");
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Projectile tick (shells)
+  // -------------------------------------------------------------------------
+
+  private projectileTick(dt: number, track: TrackDefinition): void {
+    const state = this.state;
+    const projectiles = state.projectiles;
+    const segments = track.segments;
+    const toRemove: Set<string> = new Set();
+
+    for (const proj of projectiles) {
+      // Age check
+      proj.age += dt * RACE_SERVER_TICK_INTERVAL;
+      if (proj.age >= PROJECTILE_MAX_AGE) {
+        toRemove.add(proj.id);
+        continue;
+      }
+
+      // Red shell & blue shell homing
+      if ((proj.type === "redShell" || proj.type === "blueShell") && proj.targetId) {
+        // For blue shell, dynamically retarget 1st place
+        let targetId = proj.targetId;
+        if (proj.type === "blueShell" && state.positions.length > 0) {
+          targetId = state.positions[0];
+          proj.targetId = targetId;
+        }
+
+        const target = state.players[targetId] as KartState | undefined;
+        if (target && target.finishTime === null) {
+          const dx = target.position.x - proj.position.x;
+          const dz = target.position.z - proj.position.z;
+          const dist = Math.sqrt(dx * dx + dz * dz);
+          if (dist > 0.1) {
+            const nx = dx / dist;
+            const nz = dz / dist;
+            // Steer toward target
+            const currentSpeed = Math.sqrt(
+              proj.velocity.x * proj.velocity.x + proj.velocity.z * proj.velocity.z,
+            );
+            const speed = Math.max(currentSpeed, SHELL_SPEED);
+            proj.velocity.x = nx * speed;
+            proj.velocity.z = nz * speed;
+          }
+        }
+      }
+
+      // Move projectile
+      proj.position.x += proj.velocity.x * dt;
+      proj.position.z += proj.velocity.z * dt;
+
+      // Track boundary bounce/destroy
+      const segIdx = findNearestSegment(segments, proj.position.x, proj.position.z);
+      const onRoad = isOnRoad(segments, segIdx, proj.position.x, proj.position.z);
+
+      if (!onRoad) {
+        if (proj.type === "greenShell") {
+          // Bounce green shell
+          proj.bounces += 1;
+          if (proj.bounces > GREEN_SHELL_MAX_BOUNCES) {
+            toRemove.add(proj.id);
+            continue;
+          }
+          // Reflect velocity off track boundary normal
+          const seg = segments[segIdx];
+          const lateral = getLateralOffset(segments, segIdx, proj.position.x, proj.position.z);
+          // Reflect off the track normal (left/right boundary)
+          const reflectNx = lateral > 0 ? -seg.normal.x : seg.normal.x;
+          const reflectNz = lateral > 0 ? -seg.normal.z : seg.normal.z;
+          const dot = proj.velocity.x * reflectNx + proj.velocity.z * reflectNz;
+          proj.velocity.x -= 2 * dot * reflectNx;
+          proj.velocity.z -= 2 * dot * reflectNz;
+          // Push back onto road
+          proj.position.x += reflectNx * 0.5;
+          proj.position.z += reflectNz * 0.5;
+        } else {
+          // Red and blue shells destroy on wall hit
+          toRemove.add(proj.id);
+          continue;
+        }
+      }
+
+      // Check kart collision
+      for (const kart of Object.values(state.players)) {
+        if (kart.id === proj.ownerId && proj.age < 500) continue; // Brief owner immunity
+        if (kart.finishTime !== null) continue;
+        if (kart.status === "starred") continue; // Star grants immunity
+        if (kart.status === "spinning" || kart.status === "falling") continue;
+        if (kart.hitstopTicks > 0) continue; // Already in hitstop
+
+        // Check hit immunity
+        if (this.getKartSim(kart.id).immunityTicks > 0) continue;
+
+        const hitDist = vec3Distance2D(proj.position, kart.position);
+        if (hitDist < SHELL_RADIUS + KART_RADIUS) {
+          this.applyHitToKart(kart, 0.3, proj.ownerId, proj.type);
+          toRemove.add(proj.id);
+          break;
+        }
+      }
+    }
+
+    // Remove destroyed projectiles
+    if (toRemove.size > 0) {
+      state.projectiles = projectiles.filter((p) => !toRemove.has(p.id));
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Hazard tick (bananas)
+  // -------------------------------------------------------------------------
+
+  private hazardTick(): void {
+    const state = this.state;
+    const hazards = state.hazards;
+    const toRemove: Set<string> = new Set();
+
+    for (const hazard of hazards) {
+      for (const kart of Object.values(state.players)) {
+        if (kart.finishTime !== null) continue;
+        if (kart.status === "starred") continue; // Star grants immunity
+        if (kart.status === "spinning" || kart.status === "falling") continue;
+        if (kart.hitstopTicks > 0) continue; // Already in hitstop
+
+        // Check hit immunity
+        if (this.getKartSim(kart.id).immunityTicks > 0) continue;
+
+        // Brief owner immunity (based on distance — owner just dropped it)
+        if (kart.id === hazard.ownerId) {
+          const dropDist = vec3Distance2D(kart.position, hazard.position);
+          if (dropDist < KART_RADIUS * 3) continue;
+        }
+
+        const hitDist = vec3Distance2D(hazard.position, kart.position);
+        if (hitDist < BANANA_RADIUS + KART_RADIUS) {
+          this.applyHitToKart(kart, 0.5, hazard.ownerId, "banana");
+          toRemove.add(hazard.id);
+          break;
+        }
+      }
+    }
+
+    if (toRemove.size > 0) {
+      state.hazards = hazards.filter((h) => !toRemove.has(h.id));
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Item box tick
+  // -------------------------------------------------------------------------
+
+  private itemBoxTick(): void {
+    const state = this.state;
+
+    for (const box of state.itemBoxes) {
+      if (!box.active) {
+        // Countdown respawn
+        box.respawnTimer -= RACE_SERVER_TICK_INTERVAL;
+        if (box.respawnTimer <= 0) {
+          box.active = true;
+          box.respawnTimer = 0;
+        }
+        continue;
+      }
+
+      // Check kart collision with active box
+      for (const kart of Object.values(state.players)) {
+        if (kart.finishTime !== null) continue;
+        if (kart.currentItem !== null) continue; // Already holding an item
+
+        const hitDist = vec3Distance2D(box.position, kart.position);
+        if (hitDist < ITEM_BOX_PICKUP_RADIUS) {
+          // Pick up item — use improved rubber-banding
+          const { item, charges } = this.rollItem(kart.id);
+          kart.currentItem = item;
+          kart.itemCharges = charges;
+
+          box.active = false;
+          box.respawnTimer = ITEM_BOX_RESPAWN_TIME;
+
+          this.emit("itemPickedUp", {
+            kartId: kart.id,
+            item,
+            charges,
+            boxId: box.id,
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Checkpoint & lap tracking
+  // -------------------------------------------------------------------------
+
+  private checkpointTick(track: TrackDefinition): void {
+    const state = this.state;
+    const segments = track.segments;
+    const totalSegments = segments.length;
+    const checkpoints = track.checkpoints;
+
+    for (const kart of Object.values(state.players)) {
+      if (kart.finishTime !== null) continue;
+
+      const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z);
+
+      // Check if kart is near their next checkpoint
+      const nextCp = kart.checkpoint;
+      if (nextCp >= checkpoints.length) {
+        // All checkpoints passed — check if crossing start/finish (segment 0 region)
+        if (segIdx < totalSegments * LAP_LINE_FRACTION) {
+          // Crossed start/finish — complete lap
+          kart.lap += 1;
+          kart.checkpoint = 0;
+
+          // Track lap times and the best lap in stats
+          const stats = state.stats[kart.id];
+          if (stats) {
+            const lapTime = state.raceTimer - stats.lapStartTime;
+            stats.lapTimes.push(lapTime);
+            if (kart.lap > 1 && (stats.bestLapTime === null || lapTime < stats.bestLapTime)) {
+              stats.bestLapTime = lapTime;
+            }
+            stats.lapStartTime = state.raceTimer;
+          }
+
+          this.emit("lapCompleted", {
+            kartId: kart.id,
+            lap: kart.lap,
+            raceTime: state.raceTimer,
+          });
+
+          // Check if race finished for this kart
+          if (kart.lap >= state.lapCount) {
+            state.finishedCount += 1;
+            kart.finishPosition = state.finishedCount;
+            kart.finishTime = state.raceTimer;
+            kart.speed = 0;
+            kart.velocity = vec3Zero();
+          }
+        }
+        continue;
+      }
+
+      const cpSegIdx = checkpoints[nextCp].segmentIndex;
+      // Check if kart segment is within range of the checkpoint segment
+      const segDiff = Math.abs(segIdx - cpSegIdx);
+      const wrappedDiff = Math.min(segDiff, totalSegments - segDiff);
+
+      if (wrappedDiff < totalSegments * CHECKPOINT_RANGE_FRACTION) {
+        // Close enough — advance checkpoint
+        kart.checkpoint = nextCp + 1;
+
+        const stats = state.stats[kart.id];
+        if (stats) {
+          const splitTime = state.raceTimer - stats.lapStartTime;
+          (stats.splits[kart.lap] ??= []).push(splitTime);
+          this.emit("checkpointSplit", {
+            kartId: kart.id,
+            lap: kart.lap,
+            checkpoint: nextCp,
+            splitTime,
+          });
+        }
+      }
+
+      // Update race progress for ranking
+      kart.raceProgress = kart.lap * totalSegments + segIdx;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Position ranking
+  // -------------------------------------------------------------------------
+
+  private positionTick(): void {
+    const state = this.state;
+    const kartIds = Object.keys(state.players);
+
+    // Sort by race progress (finished karts ranked by finish position)
+    kartIds.sort((aId, bId) => {
+      const a = state.players[aId];
+      const b = state.players[bId];
+
+      // Finished karts go first, ranked by finish position
+      if (a.finishTime !== null && b.finishTime !== null) {
+        return (a.finishPosition ?? 99) - (b.finishPosition ?? 99);
+      }
+      if (a.finishTime !== null) return -1;
+      if (b.finishTime !== null) return 1;
+
+      // Higher progress = further ahead
+      return b.raceProgress - a.raceProgress;
+    });
+
+    state.positions = kartIds;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Single-kart physics step
+// ---------------------------------------------------------------------------
+
+/** Apply mushroom boost to a kart */
+function applyMushroom(kart: KartState): void {
+  kart.boostSpeed = MUSHROOM_BOOST_SPEED;
+  kart.boostTimer = MUSHROOM_BOOST_DURATION;
+}
+
+/** Compute slipstream speed bonus for a kart */
+function getSlipstreamBonus(cs: KartSimState): number {
+  if (cs.slipstreamBonusTicks <= 0) return 0;
+
+  // Full bonus for most of the duration, decay in last SLIPSTREAM_DECAY_TICKS
+  if (cs.slipstreamBonusTicks > SLIPSTREAM_DECAY_TICKS) {
+    return SLIPSTREAM_BONUS;
+  }
+  // Linear decay
+  return SLIPSTREAM_BONUS * (cs.slipstreamBonusTicks / SLIPSTREAM_DECAY_TICKS);
+}
+
+/**
+ * Advance one kart's driving physics by one tick using `cs.input`.
+ *
+ * Only touches the kart itself, its simulation bookkeeping and its stats, so
+ * it can also be run on its own — the client uses it to predict the local kart.
+ */
+export function stepKartPhysics(
+  track: TrackDefinition,
+  speedClass: RaceSpeedClass,
+  kart: KartState,
+  cs: KartSimState,
+  stats: RaceStats | undefined,
+  dt: number,
+  emit: RaceSimulationEmit,
+): void {
+  const segments = track.segments;
+  // Mesh tracks judge the road by the baked surface rather than the centerline
+  const hasRoadMesh = track.heightfield !== null;
+  cs.wallScrub = false;
+
+  // --- Hitstop: freeze kart for N ticks on impact ---
+  if (kart.hitstopTicks > 0) {
+    kart.hitstopTicks--;
+    if (kart.hitstopTicks <= 0) {
+      // Hitstop expired — now apply the spin/knockback
+      kart.status = "spinning";
+      kart.statusTimer = SPIN_DURATION;
+      kart.speed *= cs.hitstopPendingSpeed;
+      if (cs.hitstopPendingDrift) {
+        kart.driftState = defaultDrift();
+      }
+      cs.hitstopPendingSpeed = 0;
+      cs.hitstopPendingDrift = false;
+    }
+    // Skip all physics while in hitstop
+    return;
+  }
+
+  // --- Hit immunity tick ---
+  if (cs.immunityTicks > 0) {
+    cs.immunityTicks--;
+  }
+
+  // --- Status effect handling ---
+  if (kart.status === "spinning" || kart.status === "falling") {
+    kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
+    kart.speed *= 0.92; // Rapid deceleration while spinning
+    if (kart.statusTimer <= 0) {
+      // Respawn if falling, otherwise just recover
+      if (kart.status === "falling") {
+        const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z);
+        const respawn = getRespawnPosition(segments, segIdx);
+        kart.position = plainVec3(respawn.position);
+        kart.heading = respawn.heading;
+        kart.speed = 0;
+      }
+      kart.status = "normal";
+      kart.statusTimer = 0;
+      // Grant hit immunity after recovering from spin
+      cs.immunityTicks = HIT_IMMUNITY_TICKS;
+    }
+    // Update velocity for snapshot
+    kart.velocity = {
+      x: Math.sin(kart.heading) * kart.speed,
+      y: 0,
+      z: Math.cos(kart.heading) * kart.speed,
+    };
+    return;
+  }
+
+  // --- Starred timer ---
+  if (kart.status === "starred") {
+    kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
+    if (kart.statusTimer <= 0) {
+      kart.status = "normal";
+      kart.statusTimer = 0;
+    }
+  }
+
+  // --- Shrunk timer ---
+  if (kart.status === "shrunk") {
+    kart.statusTimer -= dt * RACE_SERVER_TICK_INTERVAL;
+    if (kart.statusTimer <= 0) {
+      kart.status = "normal";
+      kart.statusTimer = 0;
+    }
+  }
+
+  // --- Read input ---
+  const input = cs.input;
+
+  // --- Per-car handling, scaled by the room's speed class ---
+  const car = getRaceCar(kart.carId).stats;
+  const classMult = SPEED_CLASS_MULTIPLIERS[speedClass];
+  const topSpeed = KART_MAX_SPEED * car.speed * classMult;
+
+  // --- Acceleration / Braking ---
+  const shrunkMult = kart.status === "shrunk" ? SHRUNK_SPEED_PENALTY : 1.0;
+
+  // Rocket start stall penalty: cap speed during stall
+  const isStalling = kart.rocketStartTier === "stall" && kart.boostTimer > 0;
+
+  if (input.throttle) {
+    kart.speed += KART_ACCELERATION * car.acceleration * classMult * dt * shrunkMult;
+  }
+
+  if (input.brake) {
+    if (kart.speed > 0) {
+      // Braking (only when not drifting)
+      if (!kart.driftState.active) {
+        kart.speed -= KART_BRAKE_FORCE * dt;
+        if (kart.speed < 0) kart.speed = 0;
+      }
+    } else {
+      // Reverse
+      kart.speed -= KART_REVERSE_ACCEL * dt;
+    }
+  }
+
+  // --- Surface check & classification ---
+  const segIdx = findNearestSegment(segments, kart.position.x, kart.position.z, cs.prevSegIdx);
+  const seg = segments[segIdx];
+  const hw = Math.sqrt(
+    (seg.right.x - seg.left.x) ** 2 + (seg.right.z - seg.left.z) ** 2,
+  ) / 2;
+  const lateralDist = Math.abs(getLateralOffset(segments, segIdx, kart.position.x, kart.position.z));
+  const onRoadHw = hw * 1.3;
+  const meshRoadDistance =
+    hasRoadMesh
+      ? sampleRoadDistance(track, kart.position.x, kart.position.z)
+      : 0;
+  const onRoad =
+    hasRoadMesh
+      ? meshRoadDistance <= 4
+      : lateralDist <= onRoadHw;
+
+  let surface: SurfaceType = "asphalt";
+  if (!onRoad) {
+    const outOfBounds =
+      hasRoadMesh
+        ? meshRoadDistance > 120
+        : lateralDist > onRoadHw * OUT_OF_BOUNDS_BOUNDARY;
+    if (outOfBounds) {
+      kart.status = "falling";
+      kart.statusTimer = SPIN_DURATION;
+      kart.speed = 0;
+      kart.driftState = defaultDrift();
+      kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_ON_HIT);
+      return;
+    }
+    if (hasRoadMesh) {
+      surface = meshRoadDistance > 40 ? "sand" : "shoulder";
+    } else {
+      const offRoadRatio = (lateralDist - onRoadHw) / (onRoadHw * (OUT_OF_BOUNDS_BOUNDARY - 1));
+      surface = offRoadRatio > 0.6 ? "sand" : "shoulder";
+    }
+  } else {
+    if (hasRoadMesh) {
+      if (meshRoadDistance > 0 && meshRoadDistance < 10) surface = "rumble";
+    } else {
+      const edgeProximity = lateralDist / onRoadHw;
+      if (edgeProximity > 0.95) surface = "rumble";
+    }
+  }
+  kart.surface = surface;
+
+  const surfaceGrip = SURFACE_GRIP[surface];
+  const surfaceDrag = SURFACE_DRAG[surface];
+  const surfaceDriftMult = SURFACE_DRIFT_CHARGE_MULT[surface];
+
+  if (cs.dustCarryoverTicks > 0) cs.dustCarryoverTicks--;
+  if (surface !== "asphalt" && surface !== "rumble") {
+    cs.dustCarryoverTicks = DUST_CARRYOVER_TICKS;
+  }
+  const dustPenalty = cs.dustCarryoverTicks > 0 ? DUST_CARRYOVER_GRIP_PENALTY : 0;
+
+  // --- Compression / banking / load factor ---
+  // Use only adjacent segment for elevation delta to avoid large jumps
+  const adjSegIdx = Math.abs(segIdx - cs.prevSegIdx) <= 2
+    ? cs.prevSegIdx
+    : (segIdx - 1 + segments.length) % segments.length;
+  const prevSeg = segments[adjSegIdx] || seg;
+  const elevDelta = seg.center.y - prevSeg.center.y;
+  let loadFactor = 1.0;
+  // Clamp elevation delta to reasonable range to prevent wild grip swings
+  const clampedDelta = Math.max(-2, Math.min(2, elevDelta));
+  if (clampedDelta > 0.1) {
+    loadFactor = 1.0 + Math.min(clampedDelta * 0.5, COMPRESSION_GRIP_GAIN);
+  } else if (clampedDelta < -0.1) {
+    loadFactor = 1.0 - Math.min(Math.abs(clampedDelta) * 0.5, CREST_GRIP_LOSS);
+  }
+
+  const bankAngle = seg.left.y !== seg.right.y
+    ? Math.atan2(Math.abs(seg.left.y - seg.right.y), hw * 2)
+    : 0;
+  const bankBonus = bankAngle * BANKING_GRIP_BONUS * 10;
+  loadFactor = Math.max(0.6, Math.min(1.3, loadFactor + bankBonus));
+  kart.loadFactor = loadFactor;
+
+  const wasAirborne = cs.airborne;
+  cs.airborne = loadFactor < 0.55;
+  if (wasAirborne && !cs.airborne) {
+    if (Math.abs(kart.slipAngle) > LANDING_SCRUB_THRESHOLD) {
+      kart.speed *= 1 - LANDING_SCRUB_PENALTY;
+    } else {
+      kart.speed += LANDING_CLEAN_BONUS;
+      kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + 0.02);
+    }
+  }
+  cs.prevSegIdx = segIdx;
+  cs.prevElevation = seg.center.y;
+
+  // --- Effective grip (combines surface, load, dust, flow) ---
+  const flowGripBonus = kart.flowMeter * FLOW_TURN_BONUS;
+  const effectiveGrip = Math.max(0.2, (surfaceGrip - dustPenalty) * loadFactor + flowGripBonus);
+
+  // --- Drag (surface-aware) ---
+  kart.speed *= 1 - KART_DRAG * surfaceDrag * dt;
+
+  // --- Off-road flow decay + wall scrub ---
+  if (!onRoad) {
+    const offAmount =
+      hasRoadMesh
+        ? Math.min(1, meshRoadDistance / 40)
+        : (lateralDist - onRoadHw) / onRoadHw;
+    const offRoadDrag = (1 - OFF_ROAD_SPEED_MULT) * 0.02 * Math.min(1, offAmount) * dt;
+    kart.speed *= 1 - offRoadDrag;
+    kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_OFF_ROAD * 0.5 * dt);
+
+    if (offAmount > 0.5) {
+      const headingAlignToNormal = Math.abs(
+        Math.sin(kart.heading) * seg.normal.x + Math.cos(kart.heading) * seg.normal.z
+      );
+      if (headingAlignToNormal > WALL_SCRUB_ANGLE_THRESHOLD) {
+        cs.wallScrub = true;
+        kart.speed *= 1 - WALL_SCRUB_SPEED_LOSS * 0.5;
+        kart.slipAngle = Math.min(SLIP_ANGLE_MAX, kart.slipAngle + 0.03);
+      }
+    }
+  }
+
+  // --- Boost zone check ---
+  if (isInBoostZone(track.boostZones, segIdx)) {
+    if (kart.boostTimer <= 0 || kart.boostSpeed < BOOST_PAD_SPEED) {
+      kart.boostSpeed = BOOST_PAD_SPEED;
+      kart.boostTimer = BOOST_PAD_DURATION;
+      kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_BOOST_PAD);
+    }
+  }
+
+  // --- Active boost timer (flow extends duration) ---
+  if (kart.boostTimer > 0) {
+    const boostDecay = dt * RACE_SERVER_TICK_INTERVAL;
+    const flowExtend = kart.flowMeter > 0.5 ? FLOW_BOOST_EXTEND_MULT : 1.0;
+    kart.boostTimer -= boostDecay / flowExtend;
+    if (kart.boostTimer <= 0) {
+      kart.boostTimer = 0;
+      kart.boostSpeed = 0;
+      if (kart.rocketStartTier === "stall") {
+        kart.rocketStartTier = "none";
+      }
+    }
+  }
+
+  // --- Speed cap (with flow bonus) ---
+  const slipBonus = getSlipstreamBonus(cs);
+  const flowSpeedBonus = kart.flowMeter * FLOW_SPEED_BONUS;
+  let maxSpeed = (topSpeed + kart.boostSpeed + slipBonus + flowSpeedBonus) * shrunkMult;
+
+  if (isStalling) {
+    maxSpeed = Math.min(maxSpeed, ROCKET_START_STALL_MAX_SPEED);
+  }
+
+  const maxReverse = KART_REVERSE_MAX * shrunkMult;
+  if (kart.speed > maxSpeed) kart.speed = maxSpeed;
+  if (kart.speed < -maxReverse) kart.speed = -maxReverse;
+
+  if (stats) {
+    if (Math.abs(kart.speed) > stats.topSpeed) {
+      stats.topSpeed = Math.abs(kart.speed);
+    }
+  }
+
+  // --- Improved Turn Curve (grip-aware) ---
+  const speedRatio = Math.abs(kart.speed) / topSpeed;
+  let turnRate = KART_TURN_RATE * car.handling * (1 - TURN_HIGH_SPEED_REDUCTION * Math.pow(speedRatio, TURN_CURVE_EXPONENT));
+  turnRate *= effectiveGrip;
+
+  if (kart.driftState.active) {
+    turnRate *= DRIFT_TURN_MULTIPLIER;
+  }
+
+  // --- Counter-steer bonus ---
+  const currentSteerDir = input.steering > 0.01 ? 1 : (input.steering < -0.01 ? -1 : 0);
+  if (currentSteerDir !== 0 && cs.lastSteerDirection !== 0 && currentSteerDir !== cs.lastSteerDirection) {
+    turnRate *= COUNTER_STEER_BONUS;
+  }
+
+  // --- Snap Steering ---
+  const prevSign = cs.prevSteerSign;
+  if (currentSteerDir !== 0 && (prevSign === 0 || currentSteerDir !== prevSign)) {
+    cs.steerInputTicks = 0;
+  }
+
+  if (currentSteerDir !== 0 && cs.steerInputTicks < SNAP_STEERING_FRAMES) {
+    const snapProgress = cs.steerInputTicks / SNAP_STEERING_FRAMES;
+    const snapMult = SNAP_STEERING_MULT + (1.0 - SNAP_STEERING_MULT) * snapProgress;
+    turnRate *= snapMult;
+    cs.steerInputTicks++;
+  } else if (currentSteerDir !== 0) {
+    cs.steerInputTicks++;
+  }
+
+  cs.prevSteerSign = currentSteerDir;
+  if (currentSteerDir !== 0) {
+    cs.lastSteerDirection = currentSteerDir;
+  }
+
+  const steerAmount = input.steering * turnRate * dt;
+  kart.heading -= steerAmount;
+
+  // --- Slip angle / lateral velocity (Grip-Budget) ---
+  const steerMagnitude = Math.abs(steerAmount);
+  const speedFactor = Math.min(1, Math.abs(kart.speed) / topSpeed);
+  const slipBuildup = steerMagnitude * speedFactor * SLIP_ANGLE_BUILDUP * 0.7;
+  const slipRecovery = SLIP_ANGLE_RECOVERY * effectiveGrip * dt * 1.5;
+  const driftFloor = kart.driftState.active ? DRIFT_SLIP_FLOOR : 0;
+
+  kart.slipAngle = Math.max(driftFloor, Math.min(SLIP_ANGLE_MAX,
+    kart.slipAngle + slipBuildup - slipRecovery
+  ));
+
+  const gripLoss = (kart.slipAngle / SLIP_ANGLE_MAX) * GRIP_LOSS_AT_MAX_SLIP;
+  if (kart.slipAngle > 0.15) {
+    kart.speed *= 1 - gripLoss * 0.01 * dt;
+  }
+
+  const lateralPush = kart.slipAngle * LATERAL_PUSH_STRENGTH * Math.sign(input.steering || kart.driftState.direction) * kart.speed;
+
+  // --- Flow meter natural decay ---
+  kart.flowMeter = Math.max(0, kart.flowMeter - FLOW_DECAY_PER_TICK * dt);
+
+  // --- Flow: clean corner detection (high speed through turn without off-road) ---
+  if (onRoad && steerMagnitude > 0.01 && speedRatio > 0.7 && kart.slipAngle < SLIP_ANGLE_MAX * 0.6) {
+    kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_CLEAN_CORNER * dt);
+  }
+
+  // --- Drift mechanics ---
+  const drift = kart.driftState;
+
+  if (
+    !drift.active &&
+    input.drift &&
+    Math.abs(kart.speed) > MIN_DRIFT_SPEED &&
+    Math.abs(input.steering) > 0.3
+  ) {
+    // Start drift
+    drift.active = true;
+    drift.direction = (input.steering > 0 ? 1 : -1) as DriftDirection;
+    drift.charge = 0;
+    drift.timer = 0;
+    // Reset drift release grace
+    cs.driftReleaseGraceTicks = 0;
+    cs.driftReleaseGraceCharge = 0;
+  }
+
+  if (drift.active) {
+    if (input.drift && Math.abs(kart.speed) > MIN_DRIFT_SPEED * 0.5) {
+      drift.timer += surfaceDriftMult * car.driftCharge;
+
+      // Check charge thresholds and broadcast tier events
+      const prevCharge = drift.charge;
+
+      if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[2] && drift.charge < 3) {
+        drift.charge = 3 as DriftCharge;
+      } else if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[1] && drift.charge < 2) {
+        drift.charge = 2 as DriftCharge;
+      } else if (drift.timer >= DRIFT_CHARGE_THRESHOLDS[0] && drift.charge < 1) {
+        drift.charge = 1 as DriftCharge;
+      }
+
+      // Broadcast drift tier events on threshold crossing
+      if (drift.charge > prevCharge) {
+        emit("driftTierReached", {
+          kartId: kart.id,
+          tier: drift.charge,
+        });
+        // Track the latest tier reached (for grace window)
+        cs.driftReleaseGraceTicks = 4; // Reset grace ticks on new tier
+        cs.driftReleaseGraceCharge = drift.charge;
+      } else if (cs.driftReleaseGraceTicks > 0) {
+        cs.driftReleaseGraceTicks--;
+      }
+    } else {
+      // Release drift — apply boost based on charge
+      let chargeToUse = drift.charge;
+
+      // Drift Release Grace Window: if within 4 ticks of reaching a new tier, grant that tier
+      if (cs.driftReleaseGraceTicks > 0 && cs.driftReleaseGraceCharge > drift.charge) {
+        chargeToUse = cs.driftReleaseGraceCharge;
+      }
+
+      if (chargeToUse > 0) {
+        const chargeIdx = (chargeToUse - 1) as 0 | 1 | 2;
+        kart.boostSpeed = DRIFT_BOOST_SPEEDS[chargeIdx];
+        kart.boostTimer = DRIFT_BOOST_DURATIONS[chargeIdx];
+        kart.flowMeter = Math.min(FLOW_MAX, kart.flowMeter + FLOW_GAIN_DRIFT_RELEASE * chargeToUse);
+
+        if (stats) {
+          stats.driftBoosts++;
+        }
+      }
+
+      // Reset drift
+      drift.active = false;
+      drift.direction = 0;
+      drift.charge = 0;
+      drift.timer = 0;
+      cs.driftReleaseGraceTicks = 0;
+      cs.driftReleaseGraceCharge = 0;
+    }
+  }
+
+  // --- Mesh heightfield placement ---
+  // On mesh tracks elevation comes from the baked road surface, not the
+  // sampled centerline, so the kart stays glued to the visible road.
+  const nextSegIdx = (segIdx + 1) % segments.length;
+  const prevSegIdx2 = (segIdx - 1 + segments.length) % segments.length;
+  const nextSeg = segments[nextSegIdx];
+  const prevSeg2 = segments[prevSegIdx2];
+  const meshY = sampleRoadHeight(track, kart.position.x, kart.position.z);
+  const targetY = meshY ?? seg.center.y;
+
+  // --- Position integration (with lateral push from slip angle) ---
+  const vx = Math.sin(kart.heading) * kart.speed;
+  const vz = Math.cos(kart.heading) * kart.speed;
+  const lateralNx = -Math.cos(kart.heading);
+  const lateralNz = Math.sin(kart.heading);
+
+  kart.position.x += (vx + lateralNx * lateralPush) * dt;
+  kart.position.z += (vz + lateralNz * lateralPush) * dt;
+
+  const desiredY = targetY + 2.5;
+  kart.position.y += (desiredY - kart.position.y) * 0.3;
+
+  // --- Slope force (smoothed over 3 segments) ---
+  const slopeGradient = (nextSeg.center.y - prevSeg2.center.y) /
+    (Math.max(1, segments[nextSegIdx].distance - segments[prevSegIdx2].distance) || 1);
+  const headingDirX = Math.sin(kart.heading);
+  const headingDirZ = Math.cos(kart.heading);
+  const alignment = headingDirX * seg.forward.x + headingDirZ * seg.forward.z;
+  const slopeForce = -slopeGradient * 0.015 * alignment * dt;
+  kart.speed += slopeForce;
+
+  // --- Update velocity for snapshot interpolation ---
+  kart.velocity = { x: vx + lateralNx * lateralPush, y: 0, z: vz + lateralNz * lateralPush };
+}
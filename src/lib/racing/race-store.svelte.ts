@@ -6,8 +6,17 @@
  */
 
 import {
+  DEFAULT_ITEM_WEIGHTS,
+  GHOST_KART_ID,
+  RACE_DEFAULT_SPEED_CLASS,
+  RACE_LAP_COUNT,
+  RACE_MAX_PLAYERS,
   vec3Zero,
   type Vec3,
+  type BotDifficulty,
+  type CheckpointSplitEvent,
+  type CupUpdatedEvent,
+  type KartInput,
   type KartState,
   type DriftState,
   type KartStatus,
@@ -17,16 +26,34 @@ import {
   type ItemBoxState,
   type RacePhase,
   type RaceSnapshot,
+  type EncodedRaceSnapshot,
   type RaceJoinStateResult,
   type KartHitEvent,
+  type KartDisconnectedEvent,
+  type KartJoinedEvent,
+  type KartReconnectedEvent,
   type LapCompletedEvent,
+  type LapGhostEvent,
   type ItemPickedUpEvent,
   type ItemUsedEvent,
   type RaceFinishedEvent,
+  type RaceGhost,
+  type RaceItemMode,
+  type RaceCup,
+  type RaceMode,
   type RacePhaseChangedEvent,
   type RaceRoomState,
+  type RaceSpeedClass,
+  type RoomSettingsChangedEvent,
+  type TournamentHeatInfo,
   type TrackId,
 } from "./types.js";
+import { KartPredictor } from "./prediction.js";
+import { SnapshotBuffer, type InterpolatedPose } from "./interpolation.js";
+import { SnapshotDecoder } from "./snapshot-codec.js";
+import type { RatingChange, RatingsChangedEvent } from "../game/types.js";
+import { createKart } from "./race-simulation.js";
+import { loadSavedGhost, sampleGhost, saveGhost, type GhostPose } from "./ghost.js";
 
 function defaultDriftState(): DriftState {
   return { active: false, direction: 0, charge: 0, timer: 0 };
@@ -49,8 +76,15 @@ export class RaceStore {
   roomId = $state<string>("");
   roomName = $state<string>("");
   trackId = $state<TrackId>("track1");
+  lapCount = $state(RACE_LAP_COUNT);
   finishedCount = $state(0);
 
+  // Host-chosen room rules (track and laps above)
+  itemMode = $state<RaceItemMode>("normal");
+  itemWeights = $state<Record<ItemType, number>>({ ...DEFAULT_ITEM_WEIGHTS });
+  speedClass = $state<RaceSpeedClass>(RACE_DEFAULT_SPEED_CLASS);
+  maxPlayers = $state(RACE_MAX_PLAYERS);
+
   // Hit flash state (client-only visual)
   lastHitKartId = $state<string | null>(null);
   lastHitTime = $state(0);
@@ -82,6 +116,13 @@ export class RaceStore {
   // Ready state (lobby)
   readyPlayers = $state<Record<string, boolean>>({});
 
+  // Room host (manages bots) and CPU-driven karts
+  hostId = $state<string | null>(null);
+  bots = $state<Record<string, BotDifficulty>>({});
+
+  // Karts held for a racer whose connection dropped (kart ID -> when)
+  disconnectedKarts = $state<Record<string, number>>({});
+
   // Rematch
   rematchVotes = $state<Record<string, boolean>>({});
 
@@ -94,6 +135,39 @@ export class RaceStore {
   // Countdown
   countdownNumber = $state<number | null>(null);
 
+  // Replay of the last finished race
+  lastReplayId = $state<string | null>(null);
+
+  // Rating change per kart ID (rated racers' IDs are their profile IDs) after the last race
+  ratingChanges = $state<Record<string, RatingChange>>({});
+
+  // The room's cup, when it's running one
+  cup = $state<RaceCup | null>(null);
+
+  // The tournament heat this room is running, if any
+  heat = $state<TournamentHeatInfo | null>(null);
+
+  // Time trial: the ghost being raced (own best, or loaded from a file) and
+  // the local racer's laps and splits against it
+  mode = $state<RaceMode>("race");
+  ghost = $state.raw<RaceGhost | null>(null);
+  ghostSource = $state<"best" | "file">("best");
+  lapTimes = $state<number[]>([]);
+  lapStartTime = $state(0);
+  splitDelta = $state<number | null>(null); // ms vs the ghost, negative = ahead
+  private lapSplits: number[] = [];
+
+  // Client-side prediction of the local kart (not reactive)
+  private predictor: KartPredictor | null = null;
+
+  // Remote entities render from here, slightly in the past (not reactive).
+  // Replays turn it off since they drive snapshots from a scrubbable clock.
+  readonly interpolation = new SnapshotBuffer();
+  interpolate = true;
+
+  // Delta baselines for snapshots received over the wire (not reactive)
+  private readonly snapshotDecoder = new SnapshotDecoder();
+
   // ---------------------------------------------------------------------------
   // Derived state
   // ---------------------------------------------------------------------------
@@ -136,6 +210,19 @@ export class RaceStore {
 
   isRacing = $derived(this.phase === "racing");
 
+  isHost = $derived(this.localPlayerId !== null && this.hostId === this.localPlayerId);
+
+  botCount = $derived(Object.keys(this.bots).length);
+
+  isTimeTrial = $derived(this.mode === "timeTrial");
+
+  /** Stand-in kart state for rendering the ghost; null when there's none for this track */
+  ghostKart = $derived.by(() => {
+    const ghost = this.ghost;
+    if (!ghost || ghost.trackId !== this.trackId) return null;
+    return createKart(GHOST_KART_ID, ghost.playerName, ghost.carId, 0, vec3Zero(), 0);
+  });
+
   // ---------------------------------------------------------------------------
   // Mutators
   // ---------------------------------------------------------------------------
@@ -145,6 +232,11 @@ export class RaceStore {
     this.roomId = state.id;
     this.roomName = state.name;
     this.trackId = state.trackId;
+    this.lapCount = state.lapCount;
+    this.itemMode = state.itemMode ?? "normal";
+    this.itemWeights = { ...DEFAULT_ITEM_WEIGHTS, ...state.itemWeights };
+    this.speedClass = state.speedClass ?? RACE_DEFAULT_SPEED_CLASS;
+    this.maxPlayers = state.maxPlayers;
     this.phase = state.phase;
     this.localPlayerId = playerId;
     this.raceTimer = state.raceTimer;
@@ -153,6 +245,16 @@ export class RaceStore {
     this.isSpectator = (result as any).isSpectator ?? false;
     this.rematchVotes = { ...(state.rematchVotes ?? {}) };
     this.raceStats = { ...(state.stats ?? {}) };
+    this.hostId = state.hostId ?? null;
+    this.bots = { ...(state.bots ?? {}) };
+    this.disconnectedKarts = { ...(state.disconnected ?? {}) };
+    this.cup = state.cup ?? null;
+    this.heat = state.heat ?? null;
+    this.mode = state.mode ?? "race";
+    if (this.mode === "timeTrial" && this.ghost?.trackId !== state.trackId) {
+      this.ghost = loadSavedGhost(state.trackId);
+      this.ghostSource = "best";
+    }
 
     // Rebuild karts
     const rebuilt: Record<string, KartState> = {};
@@ -164,6 +266,9 @@ export class RaceStore {
       };
     }
     this.karts = rebuilt;
+    this.predictor = null;
+    this.interpolation.clear();
+    this.snapshotDecoder.reset();
 
     // Item boxes
     this.itemBoxes = state.itemBoxes?.map((b) => ({ ...b })) ?? [];
@@ -173,11 +278,42 @@ export class RaceStore {
     this.hazards = state.hazards?.map((h) => ({ ...h })) ?? [];
   }
 
+  /**
+   * Decode and apply a snapshot from the wire. Returns the tick to
+   * acknowledge, or -1 when it couldn't be decoded and a keyframe is needed.
+   */
+  applyEncodedSnapshot(data: EncodedRaceSnapshot): number {
+    let snapshot: RaceSnapshot | null;
+    try {
+      snapshot = this.snapshotDecoder.decode(data);
+    } catch (err) {
+      console.error("[RaceStore] Failed to decode snapshot:", err);
+      return -1;
+    }
+    if (!snapshot) return -1;
+    this.applySnapshot(snapshot);
+    return snapshot.tick;
+  }
+
   applySnapshot(snapshot: RaceSnapshot): void {
+    if (this.interpolate) this.interpolation.push(snapshot, performance.now());
+
     // Karts — deep mutation
     for (const [id, data] of Object.entries(snapshot.karts)) {
       const kart = this.karts[id];
       if (!kart) continue;
+      kart.currentItem = data.currentItem;
+      kart.itemCharges = data.itemCharges;
+      kart.lap = data.lap;
+      kart.checkpoint = data.checkpoint;
+
+      // Local kart: the server corrects the prediction rather than the pose
+      if (id === this.localPlayerId && this.predictor) {
+        this.predictor.reconcile(data, snapshot.inputAcks?.[id] ?? Infinity);
+        this.applyPrediction(kart);
+        continue;
+      }
+
       kart.position.x = data.position.x;
       kart.position.y = data.position.y;
       kart.position.z = data.position.z;
@@ -192,10 +328,6 @@ export class RaceStore {
       kart.driftState.timer = data.driftState.timer;
       kart.status = data.status;
       kart.statusTimer = data.statusTimer;
-      kart.currentItem = data.currentItem;
-      kart.itemCharges = data.itemCharges;
-      kart.lap = data.lap;
-      kart.checkpoint = data.checkpoint;
       kart.boostTimer = data.boostTimer;
       kart.boostSpeed = data.boostSpeed;
       kart.slipAngle = data.slipAngle ?? 0;
@@ -231,21 +363,143 @@ export class RaceStore {
     this.previousPosition = newPos;
   }
 
-  addKart(kart: KartState): void {
+  /**
+   * Advance the local kart's prediction by one tick. `seq` is the sequence
+   * number `input` will be sent to the server with. Prediction only runs
+   * while the local player is actually racing.
+   */
+  predictLocalKart(input: KartInput, seq: number, dtMs: number): void {
+    const kart = this.localKart;
+    if (
+      this.phase !== "racing" ||
+      this.isSpectator ||
+      !kart ||
+      kart.finishTime !== null ||
+      kart.lap >= this.lapCount
+    ) {
+      this.predictor = null;
+      return;
+    }
+    this.predictor ??= new KartPredictor(this.trackId, this.speedClass, kart);
+    this.predictor.step(input, seq, dtMs);
+    this.applyPrediction(kart);
+  }
+
+  /**
+   * Interpolated pose of a remote kart for rendering. Null means draw the
+   * kart's latest state instead: it's the predicted local kart, interpolation
+   * is off, or nothing has been buffered yet.
+   */
+  getKartPose(kartId: string, now = performance.now()): InterpolatedPose | null {
+    if (!this.interpolate) return null;
+    if (kartId === this.localPlayerId && this.predictor) return null;
+    return this.interpolation.kartPose(kartId, now);
+  }
+
+  /** Interpolated projectile position; null falls back to the latest state */
+  getProjectilePosition(projectileId: string, now = performance.now()): Vec3 | null {
+    if (!this.interpolate) return null;
+    return this.interpolation.projectilePosition(projectileId, now);
+  }
+
+  /**
+   * Where the ghost is at this point of the local racer's current lap. Uses
+   * the server clock estimate rather than the delayed render time so it lines
+   * up with the (predicted) local kart.
+   */
+  getGhostPose(now = performance.now()): GhostPose | null {
+    if (!this.ghostKart || this.phase !== "racing") return null;
+    if (this.lapTimes.length >= this.lapCount) return null;
+    const serverTime = this.interpolation.serverTime(now);
+    if (serverTime === null) return null;
+    return sampleGhost(this.ghost!, serverTime - this.lapStartTime);
+  }
+
+  /** Whether a hazard exists yet at the interpolated render time */
+  isHazardVisible(hazardId: string, now = performance.now()): boolean {
+    if (!this.interpolate || this.interpolation.size === 0) return true;
+    return this.interpolation.hazardPosition(hazardId, now) !== null;
+  }
+
+  private applyPrediction(kart: KartState): void {
+    if (!this.predictor) return;
+    const predicted = this.predictor.kart;
+    const pos = this.predictor.renderPosition();
+    kart.position.x = pos.x;
+    kart.position.y = pos.y;
+    kart.position.z = pos.z;
+    kart.heading = predicted.heading;
+    kart.speed = predicted.speed;
+    kart.velocity.x = predicted.velocity.x;
+    kart.velocity.y = predicted.velocity.y;
+    kart.velocity.z = predicted.velocity.z;
+    kart.driftState.active = predicted.driftState.active;
+    kart.driftState.direction = predicted.driftState.direction;
+    kart.driftState.charge = predicted.driftState.charge;
+    kart.driftState.timer = predicted.driftState.timer;
+    kart.status = predicted.status;
+    kart.statusTimer = predicted.statusTimer;
+    kart.boostTimer = predicted.boostTimer;
+    kart.boostSpeed = predicted.boostSpeed;
+    kart.slipAngle = predicted.slipAngle;
+    kart.flowMeter = predicted.flowMeter;
+    kart.surface = predicted.surface;
+    kart.loadFactor = predicted.loadFactor;
+  }
+
+  addKart(data: KartJoinedEvent): void {
+    const { kart } = data;
     this.karts[kart.id] = {
       ...kart,
       velocity: kart.velocity ?? vec3Zero(),
       driftState: kart.driftState ?? defaultDriftState(),
     };
+    if (data.botDifficulty) this.bots[kart.id] = data.botDifficulty;
   }
 
   removeKart(kartId: string): void {
     delete this.karts[kartId];
+    delete this.bots[kartId];
+    delete this.disconnectedKarts[kartId];
+  }
+
+  applyKartDisconnected(data: KartDisconnectedEvent): void {
+    this.disconnectedKarts[data.kartId] = Date.now();
+    this.addToast(`${data.kartName} lost connection`, "#FFAA00");
+  }
+
+  applyKartReconnected(data: KartReconnectedEvent): void {
+    delete this.disconnectedKarts[data.kartId];
+    if (data.kartId !== this.localPlayerId) this.addToast(`${data.kartName} is back`, "#44FF88");
+  }
+
+  isBot(kartId: string): boolean {
+    return kartId in this.bots;
+  }
+
+  /** Rules only; the caller resyncs karts and item boxes afterwards */
+  applyRoomSettings(data: RoomSettingsChangedEvent): void {
+    const { settings } = data;
+    this.trackId = settings.trackId;
+    this.lapCount = settings.lapCount;
+    this.itemMode = settings.itemMode;
+    this.itemWeights = { ...settings.itemWeights };
+    this.speedClass = settings.speedClass;
+    this.maxPlayers = settings.maxPlayers;
   }
 
   applyPhaseChanged(data: RacePhaseChangedEvent): void {
     this.phase = data.phase;
     this.raceTimer = data.raceTimer;
+    this.predictor = null;
+    this.interpolation.clear();
+    if (data.phase === "countdown") {
+      this.ratingChanges = {};
+      this.lapTimes = [];
+      this.lapStartTime = 0;
+      this.splitDelta = null;
+      this.lapSplits = [];
+    }
   }
 
   applyItemPickedUp(data: ItemPickedUpEvent): void {
@@ -323,6 +577,57 @@ export class RaceStore {
     this.lastLapKartId = data.kartId;
     this.lastLapNumber = data.lap;
     this.lastLapTime = performance.now();
+
+    if (data.kartId === this.localPlayerId) {
+      this.lapTimes = [...this.lapTimes, data.raceTime - this.lapStartTime];
+      this.lapStartTime = data.raceTime;
+      this.lapSplits = [];
+    }
+  }
+
+  applyCheckpointSplit(data: CheckpointSplitEvent): void {
+    if (data.kartId !== this.localPlayerId) return;
+    // Splits are compared by order within the lap, matching RaceGhost.splits
+    const reference = this.ghostKart ? this.ghost!.splits[this.lapSplits.length] : undefined;
+    this.lapSplits.push(data.splitTime);
+    this.splitDelta = reference === undefined ? null : data.splitTime - reference;
+  }
+
+  /** A lap's ghost from the server: keep it if it's a new personal best */
+  applyLapGhost(data: LapGhostEvent): void {
+    const { ghost } = data;
+    if (this.isSpectator || ghost.trackId !== this.trackId) return;
+    const best = loadSavedGhost(ghost.trackId);
+    if (best && best.lapTime <= ghost.lapTime) return;
+
+    saveGhost(ghost);
+    this.addToast("NEW BEST LAP!", "#FFD700");
+    // A loaded ghost stays as the fixed baseline until cleared
+    if (this.ghostSource === "best") this.ghost = ghost;
+  }
+
+  /** Race against a ghost from a file instead of the personal best */
+  loadGhost(ghost: RaceGhost): void {
+    this.ghost = ghost;
+    this.ghostSource = "file";
+    this.splitDelta = null;
+  }
+
+  /** Drop the current ghost; the next personal best becomes the new one */
+  clearGhost(): void {
+    this.ghost = null;
+    this.ghostSource = "best";
+    this.splitDelta = null;
+  }
+
+  applyCupUpdated(data: CupUpdatedEvent): void {
+    this.cup = data.cup;
+  }
+
+  applyRatingsChanged(data: RatingsChangedEvent): void {
+    const next: Record<string, RatingChange> = {};
+    for (const change of data.changes) next[change.playerId] = change;
+    this.ratingChanges = next;
   }
 
   applyRaceFinished(data: RaceFinishedEvent): void {
@@ -461,6 +766,11 @@ export class RaceStore {
     this.roomId = "";
     this.roomName = "";
     this.trackId = "track1";
+    this.lapCount = RACE_LAP_COUNT;
+    this.itemMode = "normal";
+    this.itemWeights = { ...DEFAULT_ITEM_WEIGHTS };
+    this.speedClass = RACE_DEFAULT_SPEED_CLASS;
+    this.maxPlayers = RACE_MAX_PLAYERS;
     this.finishedCount = 0;
     this.lastHitKartId = null;
     this.lastHitTime = 0;
@@ -478,9 +788,27 @@ export class RaceStore {
     this.pendingItem = null;
     this.pendingCharges = 0;
     this.readyPlayers = {};
+    this.hostId = null;
+    this.bots = {};
+    this.disconnectedKarts = {};
     this.rematchVotes = {};
     this.raceStats = {};
     this.isSpectator = false;
     this.countdownNumber = null;
+    this.lastReplayId = null;
+    this.ratingChanges = {};
+    this.cup = null;
+    this.heat = null;
+    this.mode = "race";
+    this.ghost = null;
+    this.ghostSource = "best";
+    this.lapTimes = [];
+    this.lapStartTime = 0;
+    this.splitDelta = null;
+    this.lapSplits = [];
+    this.predictor = null;
+    this.interpolation.clear();
+    this.interpolate = true;
+    this.snapshotDecoder.reset();
   }
 }
@@ -0,0 +1,335 @@
+/**
+ * Race replays — recording on the server, re-simulation on the client.
+ *
+ * A replay stores the race state at countdown start, the RNG seed/state and
+ * every per-kart input change. Because RaceSimulation is deterministic,
+ * feeding the same inputs back through it rebuilds the race tick for tick;
+ * nothing but inputs needs to be stored. Bots aren't recorded at all: their
+ * drivers are seeded, so playback drives them again from the same seeds.
+ */
+
+import {
+  DEFAULT_ITEM_WEIGHTS,
+  RACE_DEFAULT_SPEED_CLASS,
+  RACE_REPLAY_FRAME_TICKS,
+  RACE_REPLAY_VERSION,
+  type KartHitEvent,
+  type KartInput,
+  type LapCompletedEvent,
+  type RacePhase,
+  type RaceReplay,
+  type RaceRoomState,
+  type RaceSnapshot,
+  type RaceToastEvent,
+  type ReplayInputFrame,
+} from "./types.js";
+import {
+  RaceSimulation,
+  idleKartInput,
+  type RaceSimulationEvents,
+} from "./race-simulation.js";
+import { BotDriver } from "./bot-driver.js";
+
+// ---------------------------------------------------------------------------
+// Ids
+// ---------------------------------------------------------------------------
+
+/** Replay ids embed the room id so viewers know which raceRoom to ask */
+export function createReplayId(roomId: string, recordedAt: number): string {
+  return `${roomId}.${recordedAt.toString(36)}`;
+}
+
+/** Extract the room id from a replay id; null if malformed */
+export function getReplayRoomId(replayId: string): string | null {
+  const dot = replayId.lastIndexOf(".");
+  if (dot <= 0) return null;
+  return replayId.slice(0, dot);
+}
+
+// ---------------------------------------------------------------------------
+// Input encoding
+// ---------------------------------------------------------------------------
+
+const FLAG_THROTTLE = 1;
+const FLAG_BRAKE = 2;
+const FLAG_DRIFT = 4;
+const FLAG_USE_ITEM = 8;
+
+function encodeFlags(input: KartInput): number {
+  return (
+    (input.throttle ? FLAG_THROTTLE : 0) |
+    (input.brake ? FLAG_BRAKE : 0) |
+    (input.drift ? FLAG_DRIFT : 0) |
+    (input.useItem ? FLAG_USE_ITEM : 0)
+  );
+}
+
+function decodeInput(steering: number, flags: number): KartInput {
+  return {
+    steering,
+    throttle: (flags & FLAG_THROTTLE) !== 0,
+    brake: (flags & FLAG_BRAKE) !== 0,
+    drift: (flags & FLAG_DRIFT) !== 0,
+    useItem: (flags & FLAG_USE_ITEM) !== 0,
+  };
+}
+
+/** Plain copy of the race state (drops proxies and any actor-only fields) */
+function copyRaceState(s: RaceRoomState): RaceRoomState {
+  return JSON.parse(
+    JSON.stringify({
+      id: s.id,
+      name: s.name,
+      players: s.players,
+      projectiles: s.projectiles,
+      hazards: s.hazards,
+      itemBoxes: s.itemBoxes,
+      phase: s.phase,
+      lapCount: s.lapCount,
+      raceTimer: s.raceTimer,
+      maxPlayers: s.maxPlayers,
+      trackId: s.trackId,
+      createdAt: s.createdAt,
+      phaseStartedAt: s.phaseStartedAt,
+      positions: s.positions,
+      finishedCount: s.finishedCount,
+      readyPlayers: s.readyPlayers,
+      rematchVotes: s.rematchVotes,
+      stats: s.stats,
+      hostId: s.hostId,
+      mode: s.mode,
+      bots: s.bots,
+      // Replays saved before room settings existed ran on the defaults
+      itemMode: s.itemMode ?? "normal",
+      itemWeights: s.itemWeights ?? DEFAULT_ITEM_WEIGHTS,
+      speedClass: s.speedClass ?? RACE_DEFAULT_SPEED_CLASS,
+      // Dropped racers, cups and heats only matter to the live room
+      disconnected: {},
+      cup: null,
+      heat: null,
+    } satisfies RaceRoomState),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+/**
+ * Records a race from the moment the countdown begins. Create it right after
+ * `sim.beginCountdown()`, call `recordTick` with exactly the inputs passed to
+ * each `sim.advance`, and `finish` once the race is over. `botSeeds` holds the
+ * seed of each bot's freshly created BotDriver; their inputs are skipped.
+ */
+export class ReplayRecorder {
+  private readonly sim: RaceSimulation;
+  private readonly roomId: string;
+  private readonly recordedAt: number;
+  private readonly seed: number;
+  private readonly rngState: number;
+  private readonly startTick: number;
+  private readonly initialState: RaceRoomState;
+  private readonly kartIds: string[];
+  private readonly botSeeds: [number, number][];
+  private readonly lastInputs: Array<[number, number] | null>;
+  private readonly dt: number[] = [];
+  private readonly inputs: ReplayInputFrame[] = [];
+  private readonly removals: [number, number][] = [];
+  private ticks = 0;
+
+  constructor(
+    sim: RaceSimulation,
+    roomId: string,
+    recordedAt: number,
+    botSeeds: Record<string, number> = {},
+  ) {
+    this.sim = sim;
+    this.roomId = roomId;
+    this.recordedAt = recordedAt;
+    this.seed = sim.rng.seed;
+    this.rngState = sim.rng.getState();
+    this.startTick = sim.tick;
+    this.initialState = copyRaceState(sim.state);
+    this.kartIds = Object.keys(this.initialState.players);
+    this.botSeeds = this.kartIds.flatMap((kartId, kart) =>
+      botSeeds[kartId] === undefined ? [] : [[kart, botSeeds[kartId]] as [number, number]],
+    );
+    this.lastInputs = this.kartIds.map(() => null);
+  }
+
+  recordTick(inputs: Record<string, KartInput>, dtMs: number): void {
+    const tick = this.ticks++;
+
+    // Run-length encode tick lengths
+    const n = this.dt.length;
+    if (n > 0 && this.dt[n - 2] === dtMs) {
+      this.dt[n - 1]++;
+    } else {
+      this.dt.push(dtMs, 1);
+    }
+
+    for (const [kartId, input] of Object.entries(inputs)) {
+      const kart = this.kartIds.indexOf(kartId);
+      if (kart < 0 || this.botSeeds.some(([bot]) => bot === kart)) continue;
+      const flags = encodeFlags(input);
+      const last = this.lastInputs[kart];
+      if (!last || last[0] !== input.steering || last[1] !== flags) {
+        this.inputs.push([tick, kart, input.steering, flags]);
+      }
+      // useItem is one-shot, so the next tick compares against "released"
+      this.lastInputs[kart] = [input.steering, flags & ~FLAG_USE_ITEM];
+    }
+  }
+
+  /** Note a kart leaving before the next recorded tick */
+  recordKartRemoved(kartId: string): void {
+    const kart = this.kartIds.indexOf(kartId);
+    if (kart >= 0) this.removals.push([this.ticks, kart]);
+  }
+
+  finish(): RaceReplay {
+    return {
+      version: RACE_REPLAY_VERSION,
+      id: createReplayId(this.roomId, this.recordedAt),
+      roomId: this.roomId,
+      trackId: this.initialState.trackId,
+      recordedAt: this.recordedAt,
+      seed: this.seed,
+      rngState: this.rngState,
+      startTick: this.startTick,
+      initialState: this.initialState,
+      kartIds: this.kartIds,
+      botSeeds: this.botSeeds,
+      dt: this.dt,
+      inputs: this.inputs,
+      removals: this.removals,
+      durationTicks: this.ticks,
+      positions: [...this.sim.state.positions],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+export interface ReplayFrame {
+  /** Milliseconds since the countdown began */
+  time: number;
+  phase: RacePhase;
+  snapshot: RaceSnapshot;
+}
+
+export type ReplayTimelineEvent =
+  | { time: number; name: "kartHit"; payload: KartHitEvent }
+  | { time: number; name: "lapCompleted"; payload: LapCompletedEvent }
+  | { time: number; name: "raceToast"; payload: RaceToastEvent };
+
+export interface ReplayTimeline {
+  initialState: RaceRoomState;
+  frames: ReplayFrame[];
+  events: ReplayTimelineEvent[];
+  durationMs: number;
+}
+
+/**
+ * Re-simulate a replay and sample it into frames every
+ * RACE_REPLAY_FRAME_TICKS ticks. Scrubbing then becomes a frame lookup.
+ */
+export function buildReplayTimeline(replay: RaceReplay): ReplayTimeline {
+  if (replay.version !== RACE_REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${replay.version}`);
+  }
+
+  const state = copyRaceState(replay.initialState);
+  const events: ReplayTimelineEvent[] = [];
+  let time = 0;
+
+  const sim = new RaceSimulation({
+    state,
+    seed: replay.seed,
+    rngState: replay.rngState,
+    tick: replay.startTick,
+    emit: (name, payload) => {
+      if (name === "kartHit" || name === "lapCompleted" || name === "raceToast") {
+        events.push({
+          time,
+          name,
+          payload: payload as RaceSimulationEvents[typeof name],
+        } as ReplayTimelineEvent);
+      }
+    },
+  });
+
+  const frames: ReplayFrame[] = [];
+  const capture = () => {
+    frames.push({ time, phase: state.phase, snapshot: structuredClone(sim.snapshot()) });
+  };
+  capture();
+
+  const current: Record<string, KartInput> = {};
+  for (const kartId of replay.kartIds) current[kartId] = idleKartInput();
+
+  const bots = new Map<string, BotDriver>();
+  for (const [kart, seed] of replay.botSeeds) {
+    const kartId = replay.kartIds[kart];
+    bots.set(kartId, new BotDriver(state.bots[kartId], seed));
+  }
+
+  let inputIdx = 0;
+  let removalIdx = 0;
+  let dtIdx = 0;
+  let dtLeft = replay.dt[1] ?? 0;
+
+  for (let tick = 0; tick < replay.durationTicks; tick++) {
+    while (removalIdx < replay.removals.length && replay.removals[removalIdx][0] <= tick) {
+      const kartId = replay.kartIds[replay.removals[removalIdx][1]];
+      sim.removeKart(kartId);
+      delete current[kartId];
+      bots.delete(kartId);
+      removalIdx++;
+    }
+
+    while (inputIdx < replay.inputs.length && replay.inputs[inputIdx][0] <= tick) {
+      const [, kart, steering, flags] = replay.inputs[inputIdx];
+      const kartId = replay.kartIds[kart];
+      if (current[kartId]) current[kartId] = decodeInput(steering, flags);
+      inputIdx++;
+    }
+
+    // Bots read the state before the tick, as they do in the room
+    for (const [kartId, driver] of bots) {
+      current[kartId] = driver.nextInput(state.players[kartId], state, sim.track);
+    }
+
+    while (dtLeft <= 0 && dtIdx + 2 < replay.dt.length) {
+      dtIdx += 2;
+      dtLeft = replay.dt[dtIdx + 1];
+    }
+    const dtMs = replay.dt[dtIdx];
+    dtLeft--;
+
+    sim.advance(current, dtMs);
+    time += dtMs;
+
+    for (const input of Object.values(current)) input.useItem = false;
+
+    if ((tick + 1) % RACE_REPLAY_FRAME_TICKS === 0 || tick === replay.durationTicks - 1) {
+      capture();
+    }
+  }
+
+  return { initialState: replay.initialState, frames, events, durationMs: time };
+}
+
+/** Index of the last frame at or before `time` */
+export function findReplayFrame(frames: ReplayFrame[], time: number): number {
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].time <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
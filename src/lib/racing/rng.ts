@@ -0,0 +1,44 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * Small, fast and fully deterministic: the same seed always yields the same
+ * sequence on server and client, which is what the race simulation, replays
+ * and offline bots rely on. Not suitable for anything security related.
+ */
+
+export interface SeededRng {
+  /** Seed the generator was created with */
+  readonly seed: number;
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Current internal state, so a generator can be snapshotted and resumed */
+  getState(): number;
+  setState(state: number): void;
+}
+
+export function createSeededRng(seed: number): SeededRng {
+  const initial = seed >>> 0;
+  let state = initial;
+
+  return {
+    seed: initial,
+    next(): number {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState(): number {
+      return state;
+    },
+    setState(next: number): void {
+      state = next >>> 0;
+    },
+  };
+}
+
+/** Pick a fresh 32-bit seed from the platform RNG */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,27 @@
+/**
+ * Room passwords typed on the lobby page, handed to the play page through
+ * sessionStorage so they never end up in a URL or the browser history.
+ */
+
+function storageKey(roomId: string): string {
+  return `rivet-kart:room-password:${roomId}`;
+}
+
+export function loadRoomPassword(roomId: string): string {
+  if (typeof sessionStorage === "undefined") return "";
+  try {
+    return sessionStorage.getItem(storageKey(roomId)) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveRoomPassword(roomId: string, password: string): void {
+  if (typeof sessionStorage === "undefined") return;
+  try {
+    if (password) sessionStorage.setItem(storageKey(roomId), password);
+    else sessionStorage.removeItem(storageKey(roomId));
+  } catch {
+    // Storage disabled — the play page will ask for the password again
+  }
+}
@@ -0,0 +1,565 @@
+/**
+ * Binary, delta-compressed race snapshots.
+ *
+ * Every entity (kart, projectile, hazard) is quantized into a record of
+ * integers plus a few strings. A snapshot is then written relative to a
+ * baseline the client has acknowledged: per entity only the fields that
+ * changed, each as a zigzag varint of the difference. Without a usable
+ * baseline (first snapshot, reconnect, ack too old) the baseline is empty,
+ * which makes the same format a full keyframe. Item boxes are a bitfield
+ * indexed by position in `itemBoxes`, whose ids are their index.
+ *
+ * Layout:
+ *   u8 version | u8 flags | varint tick | [varint baseTick] | varint raceTimer
+ *   karts | projectiles | hazards | positions | item boxes
+ */
+
+import {
+  SNAPSHOT_BASELINE_HISTORY,
+  SNAPSHOT_FINE_SCALE,
+  SNAPSHOT_HEADING_STEPS,
+  SNAPSHOT_POSITION_SCALE,
+  SNAPSHOT_PROTOCOL_VERSION,
+  type DriftCharge,
+  type DriftDirection,
+  type EncodedRaceSnapshot,
+  type HazardState,
+  type ItemType,
+  type KartStatus,
+  type ProjectileState,
+  type RaceSnapshot,
+  type SurfaceType,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Quantized form
+// ---------------------------------------------------------------------------
+
+interface QuantizedEntity {
+  id: string;
+  nums: number[];
+  strs: string[];
+}
+
+interface QuantizedSnapshot {
+  tick: number;
+  raceTimer: number;
+  karts: QuantizedEntity[];
+  projectiles: QuantizedEntity[];
+  hazards: QuantizedEntity[];
+  /** Indexes into `karts` */
+  positions: number[];
+  itemBoxes: boolean[];
+}
+
+const KART_STATUSES: readonly KartStatus[] = [
+  "normal",
+  "boosted",
+  "starred",
+  "shrunk",
+  "spinning",
+  "falling",
+];
+const ITEM_TYPES: readonly ItemType[] = [
+  "greenShell",
+  "redShell",
+  "banana",
+  "mushroom",
+  "triMushroom",
+  "star",
+  "lightning",
+  "blueShell",
+];
+const SURFACES: readonly SurfaceType[] = ["asphalt", "shoulder", "sand", "rumble"];
+const PROJECTILE_TYPES: readonly ProjectileState["type"][] = [
+  "greenShell",
+  "redShell",
+  "blueShell",
+];
+const HAZARD_TYPES: readonly HazardState["type"][] = ["banana"];
+
+const KART_NUM_FIELDS = 26;
+const PROJECTILE_NUM_FIELDS = 9;
+const PROJECTILE_STR_FIELDS = 2;
+const HAZARD_NUM_FIELDS = 4;
+const HAZARD_STR_FIELDS = 1;
+
+const FLAG_DELTA = 1;
+
+function q(value: number, scale: number): number {
+  return Number.isFinite(value) ? Math.round(value * scale) : 0;
+}
+
+function quantizeHeading(h: number): number {
+  if (!Number.isFinite(h)) return 0;
+  const wrapped = Math.atan2(Math.sin(h), Math.cos(h));
+  return Math.round((wrapped / (Math.PI * 2)) * SNAPSHOT_HEADING_STEPS);
+}
+
+function enumIndex<T>(values: readonly T[], value: T): number {
+  return Math.max(0, values.indexOf(value));
+}
+
+function quantize(snapshot: RaceSnapshot): QuantizedSnapshot {
+  const P = SNAPSHOT_POSITION_SCALE;
+  const F = SNAPSHOT_FINE_SCALE;
+  const acks = snapshot.inputAcks ?? {};
+
+  const karts: QuantizedEntity[] = Object.entries(snapshot.karts).map(([id, k]) => ({
+    id,
+    nums: [
+      q(k.position.x, P),
+      q(k.position.y, P),
+      q(k.position.z, P),
+      quantizeHeading(k.heading),
+      q(k.speed, F),
+      q(k.velocity.x, F),
+      q(k.velocity.y, F),
+      q(k.velocity.z, F),
+      k.driftState.active ? 1 : 0,
+      k.driftState.direction,
+      k.driftState.charge,
+      q(k.driftState.timer, 1),
+      enumIndex(KART_STATUSES, k.status),
+      q(k.statusTimer, 1),
+      k.currentItem ? enumIndex(ITEM_TYPES, k.currentItem) + 1 : 0,
+      k.itemCharges,
+      k.lap,
+      k.checkpoint,
+      q(k.boostTimer, 1),
+      q(k.boostSpeed, F),
+      k.slipstreamActive ? 1 : 0,
+      q(k.slipAngle, F),
+      q(k.flowMeter, F),
+      enumIndex(SURFACES, k.surface),
+      q(k.loadFactor, F),
+      // +1 so "no ack yet" is 0
+      acks[id] !== undefined ? acks[id] + 1 : 0,
+    ],
+    strs: [],
+  }));
+
+  const projectiles: QuantizedEntity[] = snapshot.projectiles.map((p) => ({
+    id: p.id,
+    nums: [
+      enumIndex(PROJECTILE_TYPES, p.type),
+      q(p.position.x, P),
+      q(p.position.y, P),
+      q(p.position.z, P),
+      q(p.velocity.x, F),
+      q(p.velocity.y, F),
+      q(p.velocity.z, F),
+      p.bounces,
+      q(p.age, 1),
+    ],
+    strs: [p.ownerId, p.targetId ?? ""],
+  }));
+
+  const hazards: QuantizedEntity[] = snapshot.hazards.map((h) => ({
+    id: h.id,
+    nums: [
+      enumIndex(HAZARD_TYPES, h.type),
+      q(h.position.x, P),
+      q(h.position.y, P),
+      q(h.position.z, P),
+    ],
+    strs: [h.ownerId],
+  }));
+
+  const kartIndex = new Map(karts.map((k, i) => [k.id, i]));
+  const positions = snapshot.positions
+    .map((id) => kartIndex.get(id))
+    .filter((i): i is number => i !== undefined);
+
+  return {
+    tick: snapshot.tick,
+    raceTimer: q(snapshot.raceTimer, 1),
+    karts,
+    projectiles,
+    hazards,
+    positions,
+    itemBoxes: snapshot.itemBoxes.map((b) => b.active),
+  };
+}
+
+function dequantize(s: QuantizedSnapshot): RaceSnapshot {
+  const P = SNAPSHOT_POSITION_SCALE;
+  const F = SNAPSHOT_FINE_SCALE;
+
+  const karts: RaceSnapshot["karts"] = {};
+  const inputAcks: Record<string, number> = {};
+  for (const { id, nums: n } of s.karts) {
+    karts[id] = {
+      position: { x: n[0] / P, y: n[1] / P, z: n[2] / P },
+      heading: (n[3] / SNAPSHOT_HEADING_STEPS) * Math.PI * 2,
+      speed: n[4] / F,
+      velocity: { x: n[5] / F, y: n[6] / F, z: n[7] / F },
+      driftState: {
+        active: n[8] === 1,
+        direction: n[9] as DriftDirection,
+        charge: n[10] as DriftCharge,
+        timer: n[11],
+      },
+      status: KART_STATUSES[n[12]] ?? "normal",
+      statusTimer: n[13],
+      currentItem: n[14] > 0 ? (ITEM_TYPES[n[14] - 1] ?? null) : null,
+      itemCharges: n[15],
+      lap: n[16],
+      checkpoint: n[17],
+      boostTimer: n[18],
+      boostSpeed: n[19] / F,
+      slipstreamActive: n[20] === 1,
+      slipAngle: n[21] / F,
+      flowMeter: n[22] / F,
+      surface: SURFACES[n[23]] ?? "asphalt",
+      loadFactor: n[24] / F,
+    };
+    if (n[25] > 0) inputAcks[id] = n[25] - 1;
+  }
+
+  return {
+    karts,
+    projectiles: s.projectiles.map(({ id, nums: n, strs }) => ({
+      id,
+      type: PROJECTILE_TYPES[n[0]] ?? "greenShell",
+      position: { x: n[1] / P, y: n[2] / P, z: n[3] / P },
+      velocity: { x: n[4] / F, y: n[5] / F, z: n[6] / F },
+      ownerId: strs[0],
+      targetId: strs[1] || null,
+      bounces: n[7],
+      age: n[8],
+    })),
+    hazards: s.hazards.map(({ id, nums: n, strs }) => ({
+      id,
+      type: HAZARD_TYPES[n[0]] ?? "banana",
+      position: { x: n[1] / P, y: n[2] / P, z: n[3] / P },
+      ownerId: strs[0],
+    })),
+    itemBoxes: s.itemBoxes.map((active, id) => ({ id, active })),
+    raceTimer: s.raceTimer,
+    positions: s.positions.map((i) => s.karts[i].id),
+    tick: s.tick,
+    inputAcks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Byte I/O
+// ---------------------------------------------------------------------------
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buf = new Uint8Array(256);
+  private len = 0;
+
+  private ensure(n: number): void {
+    if (this.len + n <= this.buf.length) return;
+    const next = new Uint8Array(Math.max(this.buf.length * 2, this.len + n));
+    next.set(this.buf.subarray(0, this.len));
+    this.buf = next;
+  }
+
+  byte(v: number): void {
+    this.ensure(1);
+    this.buf[this.len++] = v;
+  }
+
+  /** Unsigned LEB128; arithmetic rather than bit ops so values past 2^31 work */
+  varint(v: number): void {
+    while (v >= 0x80) {
+      this.byte((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.byte(v);
+  }
+
+  zigzag(v: number): void {
+    this.varint(v >= 0 ? v * 2 : -v * 2 - 1);
+  }
+
+  string(s: string): void {
+    const bytes = textEncoder.encode(s);
+    this.varint(bytes.length);
+    this.ensure(bytes.length);
+    this.buf.set(bytes, this.len);
+    this.len += bytes.length;
+  }
+
+  bytes(): Uint8Array {
+    return this.buf.slice(0, this.len);
+  }
+}
+
+class ByteReader {
+  private readonly buf: Uint8Array;
+  private pos = 0;
+
+  constructor(buf: Uint8Array) {
+    this.buf = buf;
+  }
+
+  byte(): number {
+    if (this.pos >= this.buf.length) throw new Error("Snapshot truncated");
+    return this.buf[this.pos++];
+  }
+
+  varint(): number {
+    let result = 0;
+    let mult = 1;
+    for (;;) {
+      const b = this.byte();
+      result += (b & 0x7f) * mult;
+      if (b < 0x80) return result;
+      mult *= 0x80;
+    }
+  }
+
+  zigzag(): number {
+    const v = this.varint();
+    return v % 2 === 0 ? v / 2 : -(v + 1) / 2;
+  }
+
+  string(): string {
+    const len = this.varint();
+    if (this.pos + len > this.buf.length) throw new Error("Snapshot truncated");
+    const s = textDecoder.decode(this.buf.subarray(this.pos, this.pos + len));
+    this.pos += len;
+    return s;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Entity lists
+// ---------------------------------------------------------------------------
+
+/**
+ * Per entity: varint ref (baseline index + 1, or 0 followed by the id for a
+ * new entity), a varint mask of changed fields, then each changed field —
+ * numbers as zigzag deltas, strings in full. Entities missing from the list
+ * are gone.
+ */
+function writeEntities(
+  w: ByteWriter,
+  list: QuantizedEntity[],
+  base: QuantizedEntity[],
+  numCount: number,
+  strCount: number,
+): void {
+  const baseIndex = new Map(base.map((e, i) => [e.id, i]));
+  w.varint(list.length);
+  for (const entity of list) {
+    const idx = baseIndex.get(entity.id);
+    const prev = idx !== undefined ? base[idx] : null;
+    if (idx !== undefined) {
+      w.varint(idx + 1);
+    } else {
+      w.varint(0);
+      w.string(entity.id);
+    }
+
+    let mask = 0;
+    let bit = 1;
+    for (let i = 0; i < numCount; i++, bit *= 2) {
+      if (entity.nums[i] !== (prev?.nums[i] ?? 0)) mask += bit;
+    }
+    for (let i = 0; i < strCount; i++, bit *= 2) {
+      if (entity.strs[i] !== (prev?.strs[i] ?? "")) mask += bit;
+    }
+    w.varint(mask);
+
+    for (let i = 0; i < numCount; i++, mask = Math.floor(mask / 2)) {
+      if (mask % 2) w.zigzag(entity.nums[i] - (prev?.nums[i] ?? 0));
+    }
+    for (let i = 0; i < strCount; i++, mask = Math.floor(mask / 2)) {
+      if (mask % 2) w.string(entity.strs[i]);
+    }
+  }
+}
+
+function readEntities(
+  r: ByteReader,
+  base: QuantizedEntity[],
+  numCount: number,
+  strCount: number,
+): QuantizedEntity[] {
+  const count = r.varint();
+  const list: QuantizedEntity[] = [];
+  for (let n = 0; n < count; n++) {
+    const ref = r.varint();
+    const prev = ref > 0 ? base[ref - 1] : null;
+    if (ref > 0 && !prev) throw new Error("Snapshot references unknown entity");
+    const id = prev ? prev.id : r.string();
+
+    let mask = r.varint();
+    const nums: number[] = [];
+    const strs: string[] = [];
+    for (let i = 0; i < numCount; i++, mask = Math.floor(mask / 2)) {
+      const old = prev?.nums[i] ?? 0;
+      nums.push(mask % 2 ? old + r.zigzag() : old);
+    }
+    for (let i = 0; i < strCount; i++, mask = Math.floor(mask / 2)) {
+      strs.push(mask % 2 ? r.string() : (prev?.strs[i] ?? ""));
+    }
+    list.push({ id, nums, strs });
+  }
+  return list;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot encode / decode
+// ---------------------------------------------------------------------------
+
+const EMPTY_BASELINE: QuantizedSnapshot = {
+  tick: 0,
+  raceTimer: 0,
+  karts: [],
+  projectiles: [],
+  hazards: [],
+  positions: [],
+  itemBoxes: [],
+};
+
+function writeSnapshot(s: QuantizedSnapshot, base: QuantizedSnapshot | null): EncodedRaceSnapshot {
+  const w = new ByteWriter();
+  w.byte(SNAPSHOT_PROTOCOL_VERSION);
+  w.byte(base ? FLAG_DELTA : 0);
+  w.varint(s.tick);
+  if (base) w.varint(base.tick);
+  w.varint(Math.max(0, s.raceTimer));
+
+  const b = base ?? EMPTY_BASELINE;
+  writeEntities(w, s.karts, b.karts, KART_NUM_FIELDS, 0);
+  writeEntities(w, s.projectiles, b.projectiles, PROJECTILE_NUM_FIELDS, PROJECTILE_STR_FIELDS);
+  writeEntities(w, s.hazards, b.hazards, HAZARD_NUM_FIELDS, HAZARD_STR_FIELDS);
+
+  w.varint(s.positions.length);
+  for (const i of s.positions) w.varint(i);
+
+  w.varint(s.itemBoxes.length);
+  for (let i = 0; i < s.itemBoxes.length; i += 8) {
+    let bits = 0;
+    for (let j = 0; j < 8 && i + j < s.itemBoxes.length; j++) {
+      if (s.itemBoxes[i + j]) bits |= 1 << j;
+    }
+    w.byte(bits);
+  }
+  return w.bytes();
+}
+
+function readSnapshot(
+  data: EncodedRaceSnapshot,
+  getBaseline: (tick: number) => QuantizedSnapshot | undefined,
+): QuantizedSnapshot | null {
+  const r = new ByteReader(data);
+  const version = r.byte();
+  if (version !== SNAPSHOT_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version}`);
+  }
+  const flags = r.byte();
+  const tick = r.varint();
+  let base = EMPTY_BASELINE;
+  if (flags & FLAG_DELTA) {
+    const found = getBaseline(r.varint());
+    if (!found) return null;
+    base = found;
+  }
+  const raceTimer = r.varint();
+
+  const karts = readEntities(r, base.karts, KART_NUM_FIELDS, 0);
+  const projectiles = readEntities(r, base.projectiles, PROJECTILE_NUM_FIELDS, PROJECTILE_STR_FIELDS);
+  const hazards = readEntities(r, base.hazards, HAZARD_NUM_FIELDS, HAZARD_STR_FIELDS);
+
+  const positions: number[] = [];
+  const positionCount = r.varint();
+  for (let i = 0; i < positionCount; i++) positions.push(r.varint());
+
+  const itemBoxes: boolean[] = [];
+  const boxCount = r.varint();
+  for (let i = 0; i < boxCount; i += 8) {
+    const bits = r.byte();
+    for (let j = 0; j < 8 && i + j < boxCount; j++) itemBoxes.push((bits & (1 << j)) !== 0);
+  }
+
+  return { tick, raceTimer, karts, projectiles, hazards, positions, itemBoxes };
+}
+
+/** Keeps the most recent snapshots by tick so deltas can be built on them */
+class BaselineHistory {
+  private readonly entries = new Map<number, QuantizedSnapshot>();
+
+  get(tick: number): QuantizedSnapshot | undefined {
+    return this.entries.get(tick);
+  }
+
+  add(s: QuantizedSnapshot): void {
+    this.entries.set(s.tick, s);
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > SNAPSHOT_BASELINE_HISTORY) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Server side. Call `begin` once per outgoing snapshot, then `encode` for each
+ * connection with the last tick it acknowledged (-1 for none). Connections
+ * that acked the same tick share one encoding.
+ */
+export class SnapshotEncoder {
+  private readonly history = new BaselineHistory();
+  private current: QuantizedSnapshot | null = null;
+  private cache = new Map<number, EncodedRaceSnapshot>();
+
+  begin(snapshot: RaceSnapshot): void {
+    this.current = quantize(snapshot);
+    this.history.add(this.current);
+    this.cache = new Map();
+  }
+
+  encode(ackTick: number): EncodedRaceSnapshot {
+    if (!this.current) throw new Error("SnapshotEncoder.encode called before begin");
+    const base = ackTick >= 0 && ackTick < this.current.tick ? this.history.get(ackTick) : undefined;
+    const key = base ? base.tick : -1;
+    let bytes = this.cache.get(key);
+    if (!bytes) {
+      bytes = writeSnapshot(this.current, base ?? null);
+      this.cache.set(key, bytes);
+    }
+    return bytes;
+  }
+
+  reset(): void {
+    this.history.clear();
+    this.current = null;
+    this.cache = new Map();
+  }
+}
+
+/**
+ * Client side. Returns null when a delta's baseline isn't known (e.g. after
+ * a reconnect) — ack -1 so the server falls back to a keyframe.
+ */
+export class SnapshotDecoder {
+  private readonly history = new BaselineHistory();
+
+  decode(data: EncodedRaceSnapshot): RaceSnapshot | null {
+    const s = readSnapshot(data, (tick) => this.history.get(tick));
+    if (!s) return null;
+    this.history.add(s);
+    return dequantize(s);
+  }
+
+  reset(): void {
+    this.history.clear();
+  }
+}
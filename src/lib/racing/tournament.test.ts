@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import type { TournamentEntrant } from "./types.js";
+import { drawHeats, finishHeat, forfeitHeat, roundAdvancers } from "./tournament.js";
+
+function entrants(count: number): TournamentEntrant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `e${i + 1}`,
+    name: `Racer ${i + 1}`,
+    rating: null,
+    seed: i + 1,
+    eliminated: false,
+  }));
+}
+
+describe("forfeitHeat", () => {
+  it("places the entrants who showed up in seed order", () => {
+    const [heat] = drawHeats("t", 0, ["e1", "e2", "e3", "e4"]);
+    forfeitHeat(heat, ["e4", "e2", "stranger"], false);
+    expect(heat.status).toBe("finished");
+    expect(heat.places).toEqual(["e2", "e4"]);
+    expect(heat.advancing).toEqual(["e2", "e4"]);
+  });
+
+  it("sends nobody through from a heat nobody joined", () => {
+    const field = entrants(8);
+    const heats = drawHeats("t", 0, field.map((e) => e.id));
+    finishHeat(heats[0], heats[0].entrantIds, false);
+    forfeitHeat(heats[1], [], false);
+    expect(heats[1].advancing).toEqual([]);
+    expect(roundAdvancers(heats, field)).toEqual(heats[0].entrantIds.slice(0, 2));
+  });
+
+  it("crowns only one racer in a final", () => {
+    const [final] = drawHeats("t", 1, ["e1", "e2", "e3"]);
+    forfeitHeat(final, ["e3", "e2"], true);
+    expect(final.advancing).toEqual(["e2"]);
+  });
+});
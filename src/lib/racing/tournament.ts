@@ -0,0 +1,99 @@
+/**
+ * Tournament brackets.
+ *
+ * Entrants are seeded by rating and dealt into heats of up to
+ * RACE_MAX_PLAYERS in snake order, so every heat gets a similar spread of
+ * seeds. The top TOURNAMENT_ADVANCE_PER_HEAT of each heat go through to
+ * the next round; a round that fits in one heat is the final.
+ */
+
+import {
+  RACE_MAX_PLAYERS,
+  TOURNAMENT_ADVANCE_PER_HEAT,
+  TOURNAMENT_HEAT_DEADLINE_MS,
+  type TournamentEntrant,
+  type TournamentHeat,
+} from "./types.js";
+
+/**
+ * Number entrants from 1 by rating, highest first. Unrated entrants come
+ * after rated ones; ties keep sign-up order.
+ */
+export function seedEntrants(entrants: TournamentEntrant[]): void {
+  const order = entrants
+    .map((entrant, signUp) => ({ entrant, signUp }))
+    .sort(
+      (a, b) =>
+        (b.entrant.rating ?? -Infinity) - (a.entrant.rating ?? -Infinity) ||
+        a.signUp - b.signUp,
+    );
+  order.forEach(({ entrant }, i) => {
+    entrant.seed = i + 1;
+  });
+}
+
+/**
+ * Room a heat is raced in. The random part keeps anyone from opening the
+ * room before the tournament creates it as the heat.
+ */
+export function heatRoomId(tournamentId: string, heatId: string): string {
+  return `${tournamentId}-${heatId}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/** Deal `entrantIds` (best seed first) into the heats of round `round` */
+export function drawHeats(
+  tournamentId: string,
+  round: number,
+  entrantIds: string[],
+): TournamentHeat[] {
+  const count = Math.max(1, Math.ceil(entrantIds.length / RACE_MAX_PLAYERS));
+  const heats: TournamentHeat[] = Array.from({ length: count }, (_, i) => {
+    const id = `r${round + 1}h${i + 1}`;
+    return {
+      id,
+      round,
+      roomId: heatRoomId(tournamentId, id),
+      entrantIds: [],
+      status: "pending",
+      places: [],
+      advancing: [],
+      deadlineAt: Date.now() + TOURNAMENT_HEAT_DEADLINE_MS,
+    };
+  });
+
+  // Snake order: 1..n, then n..1, and so on
+  entrantIds.forEach((id, i) => {
+    const lap = Math.floor(i / count);
+    const slot = i % count;
+    heats[lap % 2 === 0 ? slot : count - 1 - slot].entrantIds.push(id);
+  });
+  return heats;
+}
+
+/**
+ * Record a heat's finishing order. Karts that aren't entrants (or appear
+ * twice) are ignored, and entrants who never showed up don't place.
+ */
+export function finishHeat(heat: TournamentHeat, positions: string[], isFinal: boolean): void {
+  const places: string[] = [];
+  for (const id of positions) {
+    if (heat.entrantIds.includes(id) && !places.includes(id)) places.push(id);
+  }
+  heat.places = places;
+  heat.advancing = places.slice(0, isFinal ? 1 : TOURNAMENT_ADVANCE_PER_HEAT);
+  heat.status = "finished";
+}
+
+/**
+ * Decide a heat whose deadline passed before it was raced: the entrants
+ * who showed up place in seed order and the rest forfeit.
+ */
+export function forfeitHeat(heat: TournamentHeat, presentIds: string[], isFinal: boolean): void {
+  finishHeat(heat, heat.entrantIds.filter((id) => presentIds.includes(id)), isFinal);
+}
+
+/** Everyone going through from a finished round, best seed first */
+export function roundAdvancers(heats: TournamentHeat[], entrants: TournamentEntrant[]): string[] {
+  const seedOf = (id: string) => entrants.find((e) => e.id === id)?.seed ?? Infinity;
+  return heats.flatMap((h) => h.advancing).sort((a, b) => seedOf(a) - seedOf(b));
+}
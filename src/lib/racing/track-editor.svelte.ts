@@ -0,0 +1,390 @@
+/**
+ * TrackEditor — reactive working copy of a track file for /race/editor.
+ *
+ * Edits go straight into `file`; `commit()` validates it and, when it
+ * passes, registers it under EDITOR_TRACK_ID so the preview (and anything
+ * else that calls getTrack) sees the unsaved layout. Zones are placed by
+ * segment index, so adding or removing control points, or changing how
+ * finely spans are sampled, remaps every index to stay on the same stretch
+ * of road.
+ */
+
+import {
+  TRACK_FILE_FORMAT,
+  TRACK_FILE_VERSION,
+  type SceneryObject,
+  type TrackDefinition,
+  type TrackFile,
+  type TrackId,
+  type TrackPoint,
+  type TrackSplinePath,
+} from "./types.js";
+import { buildTrackDefinition, formatTrackFile, parseTrackFile } from "./track-loader.js";
+import { getTrack, getTrackFile, registerTrack, unregisterTrack } from "./track.js";
+
+/** Registry ID the draft is previewed under; never offered as a race track */
+export const EDITOR_TRACK_ID = "editor-draft";
+
+/** Polylines are edited as a spline through every Nth center */
+const POLYLINE_POINT_STRIDE = 10;
+const MIN_CONTROL_POINTS = 4;
+const COORD_PRECISION = 100;
+
+export type EditorSelection =
+  | { kind: "point"; index: number }
+  | { kind: "scenery"; index: number }
+  | null;
+
+function round(value: number): number {
+  return Math.round(value * COORD_PRECISION) / COORD_PRECISION;
+}
+
+/**
+ * Spline version of a polyline track: one control point every
+ * POLYLINE_POINT_STRIDE centers, sampled that finely again so segment
+ * indices (and every zone) stay where they were. The baked heightfield
+ * belongs to the old mesh, so it's dropped.
+ */
+function toSplineFile(file: TrackFile, track: TrackDefinition): TrackFile {
+  const { heightfield: _heightfield, ...rest } = file;
+  return {
+    ...rest,
+    path: {
+      kind: "spline",
+      segmentsPerSpan: POLYLINE_POINT_STRIDE,
+      points: track.points.map((p) => ({
+        x: round(p.x),
+        y: round(p.y),
+        z: round(p.z),
+        width: round(p.width),
+      })),
+    },
+  };
+}
+
+function blankTrackFile(): TrackFile {
+  const ring = Array.from({ length: 8 }, (_, i): TrackPoint => {
+    const angle = (i / 8) * Math.PI * 2;
+    return { x: round(Math.sin(angle) * 120), y: 0, z: round(Math.cos(angle) * 120), width: 18 };
+  });
+  return {
+    format: TRACK_FILE_FORMAT,
+    version: TRACK_FILE_VERSION,
+    id: "new-track",
+    name: "New Track",
+    path: { kind: "spline", segmentsPerSpan: 20, points: ring },
+    boostZones: [],
+    itemBoxRows: [],
+    shortcuts: [],
+    scenery: [],
+    startGrid: {
+      lift: 0.5,
+      slots: [
+        { segment: 0, offset: -3.5 },
+        { segment: 0, offset: 3.5 },
+        { segment: 8, offset: -3.5 },
+        { segment: 8, offset: 3.5 },
+      ],
+    },
+    visual: { kind: "procedural" },
+  };
+}
+
+export class TrackEditor {
+  // ---------------------------------------------------------------------------
+  // Reactive state
+  // ---------------------------------------------------------------------------
+
+  file = $state<TrackFile>(blankTrackFile());
+  selection = $state<EditorSelection>(null);
+  /** Problems with the current edits; the preview keeps the last valid build */
+  errors = $state<string[]>([]);
+  /** Shown after loading, e.g. when a polyline was converted */
+  notice = $state<string | null>(null);
+  /** Last valid build of the draft */
+  definition = $state.raw<TrackDefinition>(buildTrackDefinition(blankTrackFile()));
+  /** Bumped on every successful commit so the preview rebuilds */
+  revision = $state(0);
+  /** Bumped when a different track is loaded so the camera re-frames */
+  loadCount = $state(0);
+  dragging = $state(false);
+
+  get path(): TrackSplinePath {
+    return this.file.path as TrackSplinePath;
+  }
+
+  get segmentCount(): number {
+    return this.path.points.length * this.path.segmentsPerSpan;
+  }
+
+  /** First segment of the selected control point's span (0 with nothing selected) */
+  get selectedSegment(): number {
+    const sel = this.selection;
+    return sel?.kind === "point" ? sel.index * this.path.segmentsPerSpan : 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Loading and saving
+  // ---------------------------------------------------------------------------
+
+  /** Start from a registered track (or a blank ring when `trackId` is null) */
+  load(trackId: TrackId | null): void {
+    const source = trackId ? getTrackFile(trackId) : null;
+    if (!source) {
+      this.replace(blankTrackFile(), null);
+      return;
+    }
+    const copy = structuredClone(source);
+    if (copy.path.kind === "polyline") {
+      this.replace(
+        toSplineFile(copy, getTrack(trackId!)),
+        `${copy.name} was traced from a mesh; it's now a spline through every ${POLYLINE_POINT_STRIDE}th center, without its baked heightfield.`,
+      );
+    } else {
+      this.replace(copy, null);
+    }
+  }
+
+  /** Load a track file's JSON; returns the problems if it can't be used */
+  importJson(text: string): string[] {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return ["The file isn't valid JSON"];
+    }
+    const { file, errors } = parseTrackFile(value);
+    if (!file) return errors;
+    if (file.path.kind === "polyline") {
+      this.replace(
+        toSplineFile(file, buildTrackDefinition(file)),
+        `${file.name} is a polyline; it's been converted to a spline for editing.`,
+      );
+    } else {
+      this.replace(file, null);
+    }
+    return [];
+  }
+
+  /** The draft as a track file, or null while it has errors */
+  exportJson(): string | null {
+    const { file } = parseTrackFile($state.snapshot(this.file));
+    return file ? formatTrackFile(file) : null;
+  }
+
+  /** Validate the current edits and, if they pass, update the preview */
+  commit(): boolean {
+    const snapshot = $state.snapshot(this.file);
+    this.errors = parseTrackFile(snapshot).errors;
+    if (this.errors.length > 0) return false;
+
+    registerTrack({ ...snapshot, id: EDITOR_TRACK_ID });
+    this.definition = getTrack(EDITOR_TRACK_ID);
+    this.revision += 1;
+    return true;
+  }
+
+  /** Take the draft out of the registry when the editor closes */
+  dispose(): void {
+    unregisterTrack(EDITOR_TRACK_ID);
+  }
+
+  private replace(file: TrackFile, notice: string | null): void {
+    this.file = file;
+    this.selection = null;
+    this.notice = notice;
+    this.loadCount += 1;
+    this.commit();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Control points
+  // ---------------------------------------------------------------------------
+
+  select(selection: EditorSelection): void {
+    this.selection = selection;
+  }
+
+  /** Move the selected handle along the ground while dragging */
+  dragTo(x: number, z: number): void {
+    const sel = this.selection;
+    if (!sel) return;
+    const target =
+      sel.kind === "point" ? this.path.points[sel.index] : this.file.scenery[sel.index]?.position;
+    if (!target) return;
+    target.x = round(x);
+    target.z = round(z);
+  }
+
+  /** Split the span after point `index` with a new point halfway along it */
+  insertPointAfter(index: number): void {
+    const { points, segmentsPerSpan: spp } = this.path;
+    const mid = this.definition.segments[index * spp + Math.floor(spp / 2)];
+    const next = points[(index + 1) % points.length];
+    const point: TrackPoint = {
+      x: round(mid?.center.x ?? (points[index].x + next.x) / 2),
+      y: round(mid?.center.y ?? (points[index].y + next.y) / 2),
+      z: round(mid?.center.z ?? (points[index].z + next.z) / 2),
+      width: round((points[index].width + next.width) / 2),
+    };
+    const spanStart = index * spp;
+    const spanEnd = spanStart + spp;
+    this.remapSegments(this.segmentCount + spp, (seg) => {
+      if (seg < spanStart) return seg;
+      if (seg < spanEnd) return spanStart + (seg - spanStart) * 2;
+      return seg + spp;
+    });
+    points.splice(index + 1, 0, point);
+    this.selection = { kind: "point", index: index + 1 };
+    this.commit();
+  }
+
+  /** The start point stays, and the loop keeps at least MIN_CONTROL_POINTS */
+  canRemovePoint(index: number): boolean {
+    return index > 0 && this.path.points.length > MIN_CONTROL_POINTS;
+  }
+
+  /** Remove a point, merging the spans either side */
+  removePoint(index: number): void {
+    const spp = this.path.segmentsPerSpan;
+    if (!this.canRemovePoint(index)) return;
+    const mergedStart = (index - 1) * spp;
+    const mergedEnd = mergedStart + spp * 2;
+    this.remapSegments(this.segmentCount - spp, (seg) => {
+      if (seg < mergedStart) return seg;
+      if (seg < mergedEnd) return mergedStart + Math.floor((seg - mergedStart) / 2);
+      return seg - spp;
+    });
+    this.path.points.splice(index, 1);
+    this.selection = null;
+    this.commit();
+  }
+
+  setSegmentsPerSpan(value: number): void {
+    const next = Math.max(1, Math.min(100, Math.round(value)));
+    const ratio = next / this.path.segmentsPerSpan;
+    this.remapSegments(this.path.points.length * next, (seg) => Math.round(seg * ratio));
+    this.path.segmentsPerSpan = next;
+    this.commit();
+  }
+
+  /**
+   * Rewrite every segment index in the file for a track that will have
+   * `newCount` segments. Checkpoints that land on each other are merged.
+   */
+  private remapSegments(newCount: number, map: (segment: number) => number): void {
+    const file = this.file;
+    const to = (seg: number) => Math.max(0, Math.min(newCount - 1, map(seg)));
+    for (const zone of file.boostZones) {
+      zone.segmentStart = to(zone.segmentStart);
+      zone.segmentEnd = Math.max(zone.segmentStart, to(zone.segmentEnd));
+    }
+    for (const row of file.itemBoxRows) row.segment = to(row.segment);
+    for (const shortcut of file.shortcuts) {
+      shortcut.segmentStart = to(shortcut.segmentStart);
+      shortcut.segmentEnd = to(shortcut.segmentEnd);
+    }
+    for (const slot of file.startGrid.slots) slot.segment = to(slot.segment);
+    if (file.checkpoints) {
+      file.checkpoints = [...new Set(file.checkpoints.map(to))].sort((a, b) => a - b);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Zones and scenery
+  // ---------------------------------------------------------------------------
+
+  addBoostZone(): void {
+    const start = this.selectedSegment;
+    this.file.boostZones.push({
+      segmentStart: start,
+      segmentEnd: Math.min(this.segmentCount - 1, start + Math.floor(this.path.segmentsPerSpan / 2)),
+    });
+    this.commit();
+  }
+
+  addItemBoxRow(): void {
+    this.file.itemBoxRows.push({ segment: this.selectedSegment, count: 3 });
+    this.commit();
+  }
+
+  /** Switch between evenly spaced checkpoints and an explicit list */
+  setCustomCheckpoints(custom: boolean): void {
+    if (custom) {
+      this.file.checkpoints = this.definition.checkpoints.map((cp) => cp.segmentIndex);
+    } else {
+      delete this.file.checkpoints;
+    }
+    this.commit();
+  }
+
+  addCheckpoint(): void {
+    const list = this.file.checkpoints ?? [];
+    const seg = this.selectedSegment;
+    if (!list.includes(seg)) {
+      this.file.checkpoints = [...list, seg].sort((a, b) => a - b);
+    }
+    this.commit();
+  }
+
+  /** A shortcut from the selected point across to the point two spans on */
+  addShortcut(): void {
+    const spp = this.path.segmentsPerSpan;
+    const start = this.selectedSegment;
+    const end = (start + spp * 2) % this.segmentCount;
+    this.file.shortcuts.push({ segmentStart: start, segmentEnd: end, points: [] });
+    this.redrawShortcut(this.file.shortcuts.length - 1);
+  }
+
+  /** Recompute a shortcut's road: entry, a point cutting inside, and exit */
+  redrawShortcut(index: number): void {
+    const shortcut = this.file.shortcuts[index];
+    const segments = this.definition.segments;
+    const entry = segments[shortcut.segmentStart]?.center;
+    const exit = segments[shortcut.segmentEnd]?.center;
+    if (!entry || !exit) {
+      this.commit();
+      return;
+    }
+    const vec = (x: number, y: number, z: number) => ({ x: round(x), y: round(y), z: round(z) });
+    shortcut.points = [
+      vec(entry.x, entry.y, entry.z),
+      vec((entry.x + exit.x) / 2, (entry.y + exit.y) / 2, (entry.z + exit.z) / 2),
+      vec(exit.x, exit.y, exit.z),
+    ];
+    this.commit();
+  }
+
+  /** Place a scenery object just off the road, right of the selected point */
+  addScenery(type: SceneryObject["type"]): void {
+    const seg = this.definition.segments[this.selectedSegment];
+    const halfWidth =
+      Math.sqrt((seg.right.x - seg.left.x) ** 2 + (seg.right.z - seg.left.z) ** 2) / 2;
+    const offset = halfWidth + 6;
+    this.file.scenery.push({
+      position: {
+        x: round(seg.center.x + seg.normal.x * offset),
+        y: round(seg.center.y),
+        z: round(seg.center.z + seg.normal.z * offset),
+      },
+      type,
+      color: type === "block" ? "#1A1A3E" : "#00FFFF",
+      height: type === "arch" ? 10 : type === "block" ? 20 : 8,
+      ...(type === "arch" || type === "block" ? { width: type === "arch" ? 22 : 8, depth: 2 } : {}),
+    });
+    this.selection = { kind: "scenery", index: this.file.scenery.length - 1 };
+    this.commit();
+  }
+
+  /** Remove one entry from a zone list (or scenery) by index */
+  removeAt(list: "boostZones" | "itemBoxRows" | "shortcuts" | "scenery", index: number): void {
+    this.file[list].splice(index, 1);
+    if (list === "scenery") this.selection = null;
+    this.commit();
+  }
+
+  removeCheckpoint(index: number): void {
+    this.file.checkpoints?.splice(index, 1);
+    this.commit();
+  }
+}
@@ -0,0 +1,593 @@
+/**
+ * Track loader — turns a JSON track file into a TrackDefinition.
+ *
+ * A track file describes a circuit as content: its centerline (a closed
+ * Catmull-Rom spline through control points, or a pre-sampled polyline),
+ * the zones laid along it by segment index, scenery, the start grid, the
+ * visual to render and, for mesh tracks, a baked road heightfield.
+ * `parseTrackFile` checks an untrusted value against the format and reports
+ * every problem it finds; `buildTrackDefinition` then generates the segments
+ * and world positions the sim and renderer use.
+ */
+
+import {
+  HEIGHTFIELD_STEP,
+  NUM_CHECKPOINTS,
+  RACE_MAX_PLAYERS,
+  TRACK_FILE_FORMAT,
+  TRACK_FILE_VERSION,
+  type CheckpointDef,
+  type ItemBoxZone,
+  type TrackDefinition,
+  type TrackFile,
+  type TrackHeightfield,
+  type TrackPoint,
+  type TrackPolylinePath,
+  type TrackSegment,
+  type Vec3,
+} from "./types.js";
+
+const TRACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const MAX_TRACK_NAME_LEN = 40;
+const MAX_SEGMENTS_PER_SPAN = 100;
+const MAX_ITEM_BOXES_PER_ROW = 8;
+const SCENERY_TYPES = ["pylon", "block", "billboard", "arch"];
+const MAX_HEIGHTFIELD_SIZE = 1024;
+
+// ---------------------------------------------------------------------------
+// Catmull-Rom interpolation
+// ---------------------------------------------------------------------------
+
+export function catmullRom(
+  p0: number,
+  p1: number,
+  p2: number,
+  p3: number,
+  t: number,
+): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    0.5 *
+    (2 * p1 +
+      (-p0 + p2) * t +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+      (-p0 + 3 * p1 - 3 * p2 + p3) * t3)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Heightfield decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Expand a heightfield's run-length data into one height per cell, row by
+ * row, with NaN for cells off the road. Returns null if the data is corrupt
+ * or doesn't fill exactly cols x rows cells.
+ */
+export function decodeHeightfield(heightfield: TrackHeightfield): Float32Array | null {
+  let binary: string;
+  try {
+    binary = atob(heightfield.data);
+  } catch {
+    return null;
+  }
+  if (binary.length % 2 !== 0) return null;
+
+  const cells = new Float32Array(heightfield.cols * heightfield.rows);
+  const readUint16 = (i: number) => binary.charCodeAt(i) | (binary.charCodeAt(i + 1) << 8);
+  let cell = 0;
+  for (let i = 0; i < binary.length; i += 2) {
+    const raw = readUint16(i);
+    const value = raw >= 0x8000 ? raw - 0x10000 : raw;
+    if (value === heightfield.sentinel) {
+      if (i + 2 >= binary.length) return null;
+      const run = readUint16(i + 2);
+      if (cell + run > cells.length) return null;
+      cells.fill(NaN, cell, cell + run);
+      cell += run;
+      i += 2;
+    } else {
+      if (cell >= cells.length) return null;
+      cells[cell++] = value * HEIGHTFIELD_STEP;
+    }
+  }
+  return cell === cells.length ? cells : null;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export interface TrackFileParseResult {
+  /** The file, typed, when there were no errors */
+  file: TrackFile | null;
+  /** One message per problem, prefixed with where it is (e.g. `path.points[3].width`) */
+  errors: string[];
+}
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/** Number of track segments the path will generate, or 0 if it is unusable */
+function pathSegmentCount(path: unknown): number {
+  if (!isObject(path)) return 0;
+  if (path.kind === "spline" && Array.isArray(path.points)) {
+    return Number.isInteger(path.segmentsPerSpan)
+      ? path.points.length * (path.segmentsPerSpan as number)
+      : 0;
+  }
+  if (path.kind === "polyline" && Array.isArray(path.centers)) return path.centers.length;
+  return 0;
+}
+
+class TrackFileChecker {
+  readonly errors: string[] = [];
+
+  constructor(private readonly segmentCount: number) {}
+
+  fail(where: string, problem: string): void {
+    this.errors.push(`${where} ${problem}`);
+  }
+
+  number(where: string, value: unknown, min = -Infinity, max = Infinity): boolean {
+    if (!isFiniteNumber(value)) {
+      this.fail(where, "must be a number");
+      return false;
+    }
+    if (value < min || value > max) {
+      this.fail(where, `must be between ${min} and ${max}`);
+      return false;
+    }
+    return true;
+  }
+
+  positive(where: string, value: unknown): boolean {
+    if (!isFiniteNumber(value) || value <= 0) {
+      this.fail(where, "must be a positive number");
+      return false;
+    }
+    return true;
+  }
+
+  integer(where: string, value: unknown, min: number, max: number): boolean {
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      this.fail(where, `must be a whole number from ${min} to ${max}`);
+      return false;
+    }
+    return true;
+  }
+
+  segment(where: string, value: unknown): boolean {
+    return this.integer(where, value, 0, Math.max(0, this.segmentCount - 1));
+  }
+
+  string(where: string, value: unknown, maxLen = Infinity): boolean {
+    if (typeof value !== "string" || value.trim() === "") {
+      this.fail(where, "must be a non-empty string");
+      return false;
+    }
+    if (value.length > maxLen) {
+      this.fail(where, `must be at most ${maxLen} characters`);
+      return false;
+    }
+    return true;
+  }
+
+  vec3(where: string, value: unknown): void {
+    if (!isObject(value)) {
+      this.fail(where, "must be an { x, y, z } object");
+      return;
+    }
+    this.number(`${where}.x`, value.x);
+    this.number(`${where}.y`, value.y);
+    this.number(`${where}.z`, value.z);
+  }
+
+  array(where: string, value: unknown, minLength = 0): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.fail(where, "must be an array");
+      return false;
+    }
+    if (value.length < minLength) {
+      this.fail(where, `needs at least ${minLength} entries`);
+      return false;
+    }
+    return true;
+  }
+
+  object(where: string, value: unknown): value is Obj {
+    if (!isObject(value)) {
+      this.fail(where, "must be an object");
+      return false;
+    }
+    return true;
+  }
+
+  splinePath(path: Obj): void {
+    this.integer("path.segmentsPerSpan", path.segmentsPerSpan, 1, MAX_SEGMENTS_PER_SPAN);
+    if (!this.array("path.points", path.points, 4)) return;
+    path.points.forEach((p, i) => {
+      const where = `path.points[${i}]`;
+      if (!this.object(where, p)) return;
+      this.number(`${where}.x`, p.x);
+      this.number(`${where}.y`, p.y);
+      this.number(`${where}.z`, p.z);
+      this.positive(`${where}.width`, p.width);
+      if (p.banking !== undefined) this.number(`${where}.banking`, p.banking, -Math.PI / 2, Math.PI / 2);
+    });
+  }
+
+  polylinePath(path: Obj): void {
+    if (!this.array("path.centers", path.centers, 4)) return;
+    path.centers.forEach((c, i) => {
+      if (!Array.isArray(c) || c.length !== 3 || !c.every(isFiniteNumber)) {
+        this.fail(`path.centers[${i}]`, "must be an [x, y, z] triple of numbers");
+      }
+    });
+    if (!this.array("path.widths", path.widths)) return;
+    if (path.widths.length !== path.centers.length) {
+      this.fail("path.widths", `must have one width per center (${path.centers.length})`);
+    }
+    path.widths.forEach((w, i) => this.positive(`path.widths[${i}]`, w));
+  }
+
+  zones(file: Obj): void {
+    if (this.array("boostZones", file.boostZones)) {
+      file.boostZones.forEach((z, i) => {
+        if (!this.object(`boostZones[${i}]`, z)) return;
+        const ok =
+          this.segment(`boostZones[${i}].segmentStart`, z.segmentStart) &&
+          this.segment(`boostZones[${i}].segmentEnd`, z.segmentEnd);
+        if (ok && (z.segmentEnd as number) < (z.segmentStart as number)) {
+          this.fail(`boostZones[${i}]`, "must not end before it starts");
+        }
+      });
+    }
+
+    if (this.array("itemBoxRows", file.itemBoxRows)) {
+      file.itemBoxRows.forEach((row, i) => {
+        if (!this.object(`itemBoxRows[${i}]`, row)) return;
+        this.segment(`itemBoxRows[${i}].segment`, row.segment);
+        this.integer(`itemBoxRows[${i}].count`, row.count, 1, MAX_ITEM_BOXES_PER_ROW);
+      });
+    }
+
+    if (file.checkpoints !== undefined && this.array("checkpoints", file.checkpoints, 1)) {
+      file.checkpoints.forEach((seg, i) => {
+        if (!this.segment(`checkpoints[${i}]`, seg)) return;
+        if (i > 0 && (seg as number) <= (file.checkpoints as number[])[i - 1]) {
+          this.fail(`checkpoints[${i}]`, "must come after the previous checkpoint");
+        }
+      });
+    }
+
+    if (this.array("shortcuts", file.shortcuts)) {
+      file.shortcuts.forEach((s, i) => {
+        if (!this.object(`shortcuts[${i}]`, s)) return;
+        this.segment(`shortcuts[${i}].segmentStart`, s.segmentStart);
+        this.segment(`shortcuts[${i}].segmentEnd`, s.segmentEnd);
+        if (this.array(`shortcuts[${i}].points`, s.points, 2)) {
+          s.points.forEach((p, j) => this.vec3(`shortcuts[${i}].points[${j}]`, p));
+        }
+      });
+    }
+  }
+
+  scenery(value: unknown): void {
+    if (!this.array("scenery", value)) return;
+    value.forEach((s, i) => {
+      const where = `scenery[${i}]`;
+      if (!this.object(where, s)) return;
+      this.vec3(`${where}.position`, s.position);
+      if (!SCENERY_TYPES.includes(s.type as string)) {
+        this.fail(`${where}.type`, `must be one of ${SCENERY_TYPES.join(", ")}`);
+      }
+      this.string(`${where}.color`, s.color);
+      this.positive(`${where}.height`, s.height);
+      if (s.width !== undefined) this.positive(`${where}.width`, s.width);
+      if (s.depth !== undefined) this.positive(`${where}.depth`, s.depth);
+    });
+  }
+
+  startGrid(value: unknown): void {
+    if (!this.object("startGrid", value)) return;
+    this.number("startGrid.lift", value.lift, 0);
+    if (!this.array("startGrid.slots", value.slots, RACE_MAX_PLAYERS)) return;
+    value.slots.forEach((slot, i) => {
+      if (!this.object(`startGrid.slots[${i}]`, slot)) return;
+      this.segment(`startGrid.slots[${i}].segment`, slot.segment);
+      this.number(`startGrid.slots[${i}].offset`, slot.offset);
+    });
+  }
+
+  heightfield(value: unknown): void {
+    if (!this.object("heightfield", value)) return;
+    const ok = [
+      this.number("heightfield.originX", value.originX),
+      this.number("heightfield.originZ", value.originZ),
+      this.positive("heightfield.cellWidth", value.cellWidth),
+      this.positive("heightfield.cellHeight", value.cellHeight),
+      this.integer("heightfield.cols", value.cols, 1, MAX_HEIGHTFIELD_SIZE),
+      this.integer("heightfield.rows", value.rows, 1, MAX_HEIGHTFIELD_SIZE),
+      this.integer("heightfield.sentinel", value.sentinel, -32768, 32767),
+      this.string("heightfield.data", value.data),
+    ].every(Boolean);
+    if (ok && !decodeHeightfield(value as unknown as TrackHeightfield)) {
+      this.fail("heightfield.data", `doesn't decode to ${value.cols} x ${value.rows} cells`);
+    }
+  }
+
+  visual(value: unknown): void {
+    if (!this.object("visual", value)) return;
+    if (value.kind === "procedural") return;
+    if (value.kind !== "gltf") {
+      this.fail("visual.kind", 'must be "procedural" or "gltf"');
+      return;
+    }
+    this.string("visual.modelPath", value.modelPath);
+    if (!this.object("visual.transform", value.transform)) return;
+    this.vec3("visual.transform.position", value.transform.position);
+    this.vec3("visual.transform.rotation", value.transform.rotation);
+    this.vec3("visual.transform.scale", value.transform.scale);
+  }
+}
+
+/** Check an untrusted value (e.g. parsed JSON) against the track file format */
+export function parseTrackFile(value: unknown): TrackFileParseResult {
+  if (!isObject(value)) return { file: null, errors: ["track file must be a JSON object"] };
+  if (value.format !== TRACK_FILE_FORMAT) {
+    return { file: null, errors: [`format must be "${TRACK_FILE_FORMAT}"`] };
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    return { file: null, errors: ["version must be a whole number"] };
+  }
+  if ((value.version as number) > TRACK_FILE_VERSION) {
+    return {
+      file: null,
+      errors: [`version ${value.version} is newer than this game supports (${TRACK_FILE_VERSION})`],
+    };
+  }
+
+  const segmentCount = pathSegmentCount(value.path);
+  const check = new TrackFileChecker(segmentCount);
+  if (typeof value.id !== "string" || !TRACK_ID_PATTERN.test(value.id)) {
+    check.fail("id", "must be 1-40 lowercase letters, digits or dashes");
+  }
+  check.string("name", value.name, MAX_TRACK_NAME_LEN);
+
+  if (check.object("path", value.path)) {
+    if (value.path.kind === "spline") check.splinePath(value.path);
+    else if (value.path.kind === "polyline") check.polylinePath(value.path);
+    else check.fail("path.kind", 'must be "spline" or "polyline"');
+  }
+
+  // Zone checks need a segment count; without a usable path they'd all fail
+  if (segmentCount > 0) {
+    check.zones(value);
+    check.scenery(value.scenery);
+    check.startGrid(value.startGrid);
+  }
+  check.visual(value.visual);
+  if (value.heightfield !== undefined) check.heightfield(value.heightfield);
+
+  if (check.errors.length > 0) return { file: null, errors: check.errors };
+  return { file: value as unknown as TrackFile, errors: [] };
+}
+
+/**
+ * JSON for a track file in the layout the checked-in files use: indented,
+ * with coordinate tuples and small flat objects kept on one line.
+ */
+export function formatTrackFile(file: TrackFile): string {
+  return (
+    JSON.stringify(file, null, 2)
+      .replace(
+        /\[\s*(-?[\d.e+-]+(?:,\s*-?[\d.e+-]+)*)\s*\]/g,
+        (_, body: string) => `[${body.split(/,\s*/).join(", ")}]`,
+      )
+      .replace(
+        /\{\n\s*((?:"\w+": (?:-?[\d.e+-]+|"[^"]*"),?\n\s*)+)\}/g,
+        (_, body: string) => `{ ${body.trim().split(/,\n\s*/).join(", ")} }`,
+      ) + "\n"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Segment generation
+// ---------------------------------------------------------------------------
+
+function distance3(a: Vec3, b: Vec3): number {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2 + (b.z - a.z) ** 2);
+}
+
+/** Right-hand road normal in the XZ plane for a forward direction */
+function rightNormal(forward: Vec3): Vec3 {
+  const len = Math.sqrt(forward.x * forward.x + forward.z * forward.z) || 1;
+  return { x: -forward.z / len, y: 0, z: forward.x / len };
+}
+
+/**
+ * Build a segment from its center, road half-width and banking.
+ * banking > 0 → right side lower (banked right, like turning right).
+ */
+function makeSegment(
+  center: Vec3,
+  forward: Vec3,
+  halfWidth: number,
+  banking: number,
+  distance: number,
+): TrackSegment {
+  const normal = rightNormal(forward);
+  const bankOffset = halfWidth * Math.sin(banking);
+  return {
+    center,
+    left: {
+      x: center.x - normal.x * halfWidth,
+      y: center.y + bankOffset,
+      z: center.z - normal.z * halfWidth,
+    },
+    right: {
+      x: center.x + normal.x * halfWidth,
+      y: center.y - bankOffset,
+      z: center.z + normal.z * halfWidth,
+    },
+    forward,
+    normal,
+    distance,
+  };
+}
+
+/** Sample a closed Catmull-Rom spline through the control points */
+export function buildSplineSegments(points: TrackPoint[], segmentsPerSpan: number): TrackSegment[] {
+  const n = points.length;
+  const segments: TrackSegment[] = [];
+  let cumDist = 0;
+  let prevCenter: Vec3 | null = null;
+
+  for (let i = 0; i < n; i++) {
+    const p0 = points[(i - 1 + n) % n];
+    const p1 = points[i];
+    const p2 = points[(i + 1) % n];
+    const p3 = points[(i + 2) % n];
+    const along = (t: number): Vec3 => ({
+      x: catmullRom(p0.x, p1.x, p2.x, p3.x, t),
+      y: catmullRom(p0.y, p1.y, p2.y, p3.y, t),
+      z: catmullRom(p0.z, p1.z, p2.z, p3.z, t),
+    });
+
+    for (let j = 0; j < segmentsPerSpan; j++) {
+      const t = j / segmentsPerSpan;
+      const center = along(t);
+      const hw = catmullRom(p0.width, p1.width, p2.width, p3.width, t) / 2;
+      const banking = catmullRom(
+        p0.banking ?? 0,
+        p1.banking ?? 0,
+        p2.banking ?? 0,
+        p3.banking ?? 0,
+        t,
+      );
+
+      if (prevCenter) cumDist += distance3(prevCenter, center);
+
+      // Forward direction from half a segment ahead
+      const ahead = along((j + 0.5) / segmentsPerSpan);
+      const fLen = distance3(center, ahead) || 1;
+      const forward: Vec3 = {
+        x: (ahead.x - center.x) / fLen,
+        y: (ahead.y - center.y) / fLen,
+        z: (ahead.z - center.z) / fLen,
+      };
+
+      segments.push(makeSegment(center, forward, hw, banking, cumDist));
+      prevCenter = center;
+    }
+  }
+  return segments;
+}
+
+/** One segment per center, facing the next; polylines have no banking */
+function buildPolylineSegments(path: TrackPolylinePath): TrackSegment[] {
+  const n = path.centers.length;
+  const segments: TrackSegment[] = [];
+  let cumDist = 0;
+
+  for (let i = 0; i < n; i++) {
+    const [cx, cy, cz] = path.centers[i];
+    const [nx, ny, nz] = path.centers[(i + 1) % n];
+    const center: Vec3 = { x: cx, y: cy, z: cz };
+    if (i > 0) {
+      const [px, py, pz] = path.centers[i - 1];
+      cumDist += distance3({ x: px, y: py, z: pz }, center);
+    }
+    const fLen = distance3(center, { x: nx, y: ny, z: nz }) || 1;
+    const forward: Vec3 = { x: (nx - cx) / fLen, y: (ny - cy) / fLen, z: (nz - cz) / fLen };
+    segments.push(makeSegment(center, forward, path.widths[i] / 2, 0, cumDist));
+  }
+  return segments;
+}
+
+/** Control points for the minimap and editor; polylines keep every 10th center */
+function polylinePoints(path: TrackPolylinePath, segments: TrackSegment[]): TrackPoint[] {
+  return segments
+    .filter((_, i) => i % 10 === 0)
+    .map((seg, idx) => ({
+      x: seg.center.x,
+      y: seg.center.y,
+      z: seg.center.z,
+      width: path.widths[idx * 10] ?? path.widths[0],
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Track definition
+// ---------------------------------------------------------------------------
+
+function itemBoxZone(segments: TrackSegment[], segmentIndex: number, count: number): ItemBoxZone {
+  const seg = segments[segmentIndex];
+  const positions: Vec3[] = [];
+  for (let b = 0; b < count; b++) {
+    const t = (b + 0.5) / count;
+    positions.push({
+      x: seg.left.x + (seg.right.x - seg.left.x) * t,
+      y: Math.max(seg.left.y, seg.right.y, seg.center.y) + 1.2,
+      z: seg.left.z + (seg.right.z - seg.left.z) * t,
+    });
+  }
+  return { segmentIndex, positions };
+}
+
+function checkpointIndices(file: TrackFile, totalSegments: number): number[] {
+  if (file.checkpoints) return file.checkpoints;
+  return Array.from({ length: NUM_CHECKPOINTS }, (_, i) =>
+    Math.floor((i / NUM_CHECKPOINTS) * totalSegments),
+  );
+}
+
+/** Generate the runtime track from a file that passed `parseTrackFile` */
+export function buildTrackDefinition(file: TrackFile): TrackDefinition {
+  const path = file.path;
+  const segments =
+    path.kind === "spline"
+      ? buildSplineSegments(path.points, path.segmentsPerSpan)
+      : buildPolylineSegments(path);
+  const last = segments[segments.length - 1];
+  const totalLength = last.distance + distance3(last.center, segments[0].center);
+
+  const checkpoints: CheckpointDef[] = checkpointIndices(file, segments.length).map((i) => ({
+    segmentIndex: i,
+    center: { ...segments[i].center },
+    normal: { ...segments[i].forward },
+  }));
+
+  const startPositions: Vec3[] = file.startGrid.slots.map(({ segment, offset }) => {
+    const seg = segments[segment];
+    return {
+      x: seg.center.x + seg.normal.x * offset,
+      y: seg.center.y + file.startGrid.lift,
+      z: seg.center.z + seg.normal.z * offset,
+    };
+  });
+
+  return {
+    points: path.kind === "spline" ? path.points : polylinePoints(path, segments),
+    segments,
+    totalLength,
+    boostZones: file.boostZones.map((z) => ({ ...z })),
+    itemBoxZones: file.itemBoxRows.map((row) => itemBoxZone(segments, row.segment, row.count)),
+    checkpoints,
+    startPositions,
+    startHeading: Math.atan2(segments[0].forward.x, segments[0].forward.z),
+    shortcuts: file.shortcuts,
+    scenery: file.scenery,
+    visual: file.visual,
+    heightfield: file.heightfield ?? null,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { TRACK_FILE_FORMAT, TRACK_FILE_VERSION, type TrackFile, type TrackPoint } from "./types.js";
+import { buildTrackDefinition } from "./track-loader.js";
+import { getTrack, listTrackIds } from "./track.js";
+import { validateTrack } from "./track-validator.js";
+
+function ringPoint(angle: number): TrackPoint {
+  return { x: Math.sin(angle) * 120, y: 0, z: Math.cos(angle) * 120, width: 18 };
+}
+
+/** A flat ring of radius 120 and width 18 by default, or whatever path `shape` traces */
+function trackFile(shape: (angle: number, i: number) => TrackPoint = ringPoint): TrackFile {
+  const points = Array.from({ length: 8 }, (_, i) => shape((i / 8) * Math.PI * 2, i));
+  return {
+    format: TRACK_FILE_FORMAT,
+    version: TRACK_FILE_VERSION,
+    id: "fixture",
+    name: "Fixture",
+    path: { kind: "spline", segmentsPerSpan: 20, points },
+    boostZones: [],
+    itemBoxRows: [],
+    shortcuts: [],
+    scenery: [],
+    startGrid: {
+      lift: 0.5,
+      slots: [
+        { segment: 0, offset: -3.5 },
+        { segment: 0, offset: 3.5 },
+      ],
+    },
+    visual: { kind: "procedural" },
+  };
+}
+
+function ring() {
+  return buildTrackDefinition(trackFile());
+}
+
+describe("registered tracks", () => {
+  it.each(listTrackIds())("%s races cleanly", (trackId) => {
+    const errors = validateTrack(getTrack(trackId)).filter((issue) => issue.severity === "error");
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("validateTrack", () => {
+  it("passes a plain ring", () => {
+    expect(validateTrack(ring())).toEqual([]);
+  });
+
+  it("flags checkpoints inside each other's pickup range", () => {
+    const track = ring();
+    track.checkpoints[1].segmentIndex = track.checkpoints[0].segmentIndex + 1;
+    expect(validateTrack(track)).toContainEqual(
+      expect.objectContaining({ check: "checkpoints", severity: "error" }),
+    );
+  });
+
+  it("flags a grid slot off the road", () => {
+    const track = ring();
+    track.startPositions[0] = { x: 0, y: 0, z: 0 };
+    expect(validateTrack(track)).toContainEqual(
+      expect.objectContaining({ check: "startGrid", severity: "error" }),
+    );
+  });
+
+  it("flags a road that crosses itself at the same height", () => {
+    const figureEight = trackFile((angle) => ({
+      x: Math.sin(angle) * 120,
+      y: 0,
+      z: Math.sin(angle * 2) * 60,
+      width: 18,
+    }));
+    expect(validateTrack(buildTrackDefinition(figureEight))).toContainEqual(
+      expect.objectContaining({ check: "selfIntersection", severity: "error" }),
+    );
+  });
+
+  it("flags a road narrower than the minimum", () => {
+    const pinched = trackFile((angle, i) => ({ ...ringPoint(angle), width: i === 3 ? 2 : 18 }));
+    expect(validateTrack(buildTrackDefinition(pinched))).toContainEqual(
+      expect.objectContaining({ check: "width", severity: "error" }),
+    );
+  });
+
+  it("flags an item box past the out-of-bounds line", () => {
+    const track = ring();
+    const { center } = track.segments[40];
+    const scale = (Math.hypot(center.x, center.z) + 70) / Math.hypot(center.x, center.z);
+    track.itemBoxZones = [
+      { segmentIndex: 40, positions: [{ x: center.x * scale, y: 0, z: center.z * scale }] },
+    ];
+    expect(validateTrack(track)).toContainEqual(
+      expect.objectContaining({ check: "itemBoxes", severity: "error" }),
+    );
+  });
+
+  it("flags a boost zone on a stretch a shortcut skips", () => {
+    const track = ring();
+    track.boostZones = [{ segmentStart: 30, segmentEnd: 40 }];
+    track.shortcuts = [{ segmentStart: 25, segmentEnd: 60, points: [] }];
+    expect(validateTrack(track)).toContainEqual(
+      expect.objectContaining({ check: "boostShortcutOverlap", severity: "warning" }),
+    );
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Track validation — checks a built TrackDefinition for layouts that pass
+ * parseTrackFile but race badly: checkpoints the sim can't tell apart, a
+ * grid off the road, a road that runs through itself, extreme banking,
+ * collapsed widths, item boxes out of reach, and boost zones on shortcuts.
+ *
+ * parseTrackFile answers "is this a track file"; validateTrack answers
+ * "will it race". Run it over every registered track with
+ * `npm run validate:tracks`.
+ */
+
+import {
+  CHECKPOINT_RANGE_FRACTION,
+  ITEM_BOX_PICKUP_RADIUS,
+  LAP_LINE_FRACTION,
+  OUT_OF_BOUNDS_BOUNDARY,
+  TRACK_BRIDGE_CLEARANCE,
+  TRACK_MAX_BANKING,
+  TRACK_MIN_ROAD_WIDTH,
+  type TrackDefinition,
+  type TrackIssue,
+  type TrackSegment,
+} from "./types.js";
+import { findNearestSegment, getLateralOffset, isOnRoad } from "./track.js";
+
+/** Crossings this close along the lap are one place, reported once */
+const CROSSING_MERGE_SEGMENTS = 4;
+
+type IssueSink = (issue: TrackIssue) => void;
+
+/** Every problem found, errors first, each group in lap order */
+export function validateTrack(track: TrackDefinition): TrackIssue[] {
+  const issues: TrackIssue[] = [];
+  const report: IssueSink = (issue) => issues.push(issue);
+  checkCheckpoints(track, report);
+  checkStartGrid(track, report);
+  checkSelfIntersections(track, report);
+  checkBankingAndWidth(track, report);
+  checkItemBoxes(track, report);
+  checkBoostShortcutOverlap(track, report);
+  return issues.sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1) ||
+      (a.segmentIndex ?? -1) - (b.segmentIndex ?? -1),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Segments from `from` forward to `to`, wrapping at the lap line */
+function forwardGap(from: number, to: number, total: number): number {
+  return (((to - from) % total) + total) % total;
+}
+
+function roadWidth(seg: TrackSegment): number {
+  return Math.hypot(seg.right.x - seg.left.x, seg.right.z - seg.left.z);
+}
+
+/** Consecutive segment indices grouped into [first, last] runs */
+function runs(indices: number[]): [number, number][] {
+  const out: [number, number][] = [];
+  for (const i of indices) {
+    const last = out[out.length - 1];
+    if (last && i === last[1] + 1) last[1] = i;
+    else out.push([i, i]);
+  }
+  return out;
+}
+
+function span([first, last]: [number, number]): string {
+  return first === last ? `segment ${first}` : `segments ${first}–${last}`;
+}
+
+function degrees(radians: number): string {
+  return `${Math.round((radians * 180) / Math.PI)}°`;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/**
+ * checkpointTick takes a checkpoint within CHECKPOINT_RANGE_FRACTION of the
+ * lap of it, and completes the lap within LAP_LINE_FRACTION past segment 0.
+ * Checkpoints closer together than that get collected without driving
+ * between them.
+ */
+function checkCheckpoints(track: TrackDefinition, report: IssueSink): void {
+  const total = track.segments.length;
+  const range = total * CHECKPOINT_RANGE_FRACTION;
+  const indices = track.checkpoints.map((cp) => cp.segmentIndex);
+
+  for (let i = 0; i + 1 < indices.length; i++) {
+    const here = indices[i];
+    const next = indices[i + 1];
+    if (next <= here) {
+      report({
+        check: "checkpoints",
+        severity: "error",
+        message: `Checkpoint ${i + 1} (segment ${next}) comes before checkpoint ${i} (segment ${here}); karts would have to turn back for it`,
+        segmentIndex: next,
+      });
+      continue;
+    }
+    const gap = next - here;
+    if (gap < range) {
+      report({
+        check: "checkpoints",
+        severity: "error",
+        message: `Checkpoints ${i} and ${i + 1} are ${gap} segments apart, inside the ${range.toFixed(1)}-segment pickup range; reaching one collects both`,
+        segmentIndex: here,
+      });
+    } else if (gap < range * 2) {
+      report({
+        check: "checkpoints",
+        severity: "warning",
+        message: `Checkpoints ${i} and ${i + 1} are ${gap} segments apart, so their ${range.toFixed(1)}-segment pickup ranges overlap`,
+        segmentIndex: here,
+      });
+    }
+  }
+
+  const last = indices[indices.length - 1];
+  if (last !== undefined && last < total * LAP_LINE_FRACTION + range && indices.length > 1) {
+    report({
+      check: "checkpoints",
+      severity: "warning",
+      message: `The last checkpoint (segment ${last}) is within range of the lap line; passing it completes the lap`,
+      segmentIndex: last,
+    });
+  }
+}
+
+function checkStartGrid(track: TrackDefinition, report: IssueSink): void {
+  track.startPositions.forEach((pos, slot) => {
+    const segIdx = findNearestSegment(track.segments, pos.x, pos.z);
+    if (!isOnRoad(track.segments, segIdx, pos.x, pos.z)) {
+      report({
+        check: "startGrid",
+        severity: "error",
+        message: `Grid slot ${slot + 1} is off the road at segment ${segIdx}`,
+        segmentIndex: segIdx,
+      });
+    }
+  });
+}
+
+/**
+ * Centerline spans that cross in plan view at nearly the same height.
+ * Crossings with TRACK_BRIDGE_CLEARANCE between them are bridges.
+ */
+function checkSelfIntersections(track: TrackDefinition, report: IssueSink): void {
+  const segments = track.segments;
+  const n = segments.length;
+  const found: [number, number][] = [];
+
+  for (let i = 0; i < n; i++) {
+    const a0 = segments[i].center;
+    const a1 = segments[(i + 1) % n].center;
+    for (let j = i + 2; j < n; j++) {
+      // The last span meets the first one at the lap line
+      if (i === 0 && j === n - 1) continue;
+      const b0 = segments[j].center;
+      const b1 = segments[(j + 1) % n].center;
+
+      const dax = a1.x - a0.x;
+      const daz = a1.z - a0.z;
+      const dbx = b1.x - b0.x;
+      const dbz = b1.z - b0.z;
+      const denom = dax * dbz - daz * dbx;
+      if (Math.abs(denom) < 1e-9) continue;
+      const t = ((b0.x - a0.x) * dbz - (b0.z - a0.z) * dbx) / denom;
+      const u = ((b0.x - a0.x) * daz - (b0.z - a0.z) * dax) / denom;
+      if (t < 0 || t > 1 || u < 0 || u > 1) continue;
+
+      const ya = a0.y + (a1.y - a0.y) * t;
+      const yb = b0.y + (b1.y - b0.y) * u;
+      if (Math.abs(ya - yb) >= TRACK_BRIDGE_CLEARANCE) continue;
+
+      const near = found.some(
+        ([fi, fj]) =>
+          Math.abs(fi - i) <= CROSSING_MERGE_SEGMENTS && Math.abs(fj - j) <= CROSSING_MERGE_SEGMENTS,
+      );
+      if (near) continue;
+      found.push([i, j]);
+      report({
+        check: "selfIntersection",
+        severity: "error",
+        message: `The road crosses itself: segment ${i} runs into segment ${j} with only ${Math.abs(ya - yb).toFixed(1)} units between them`,
+        segmentIndex: i,
+      });
+    }
+  }
+}
+
+function checkBankingAndWidth(track: TrackDefinition, report: IssueSink): void {
+  const steep: number[] = [];
+  const narrow: number[] = [];
+  let steepest = 0;
+
+  track.segments.forEach((seg, i) => {
+    const width = roadWidth(seg);
+    if (!(width >= TRACK_MIN_ROAD_WIDTH)) narrow.push(i);
+    const bank = Math.abs(Math.atan2(seg.left.y - seg.right.y, width));
+    if (bank > TRACK_MAX_BANKING) {
+      steep.push(i);
+      steepest = Math.max(steepest, bank);
+    }
+  });
+
+  for (const run of runs(narrow)) {
+    const minWidth = Math.min(...track.segments.slice(run[0], run[1] + 1).map(roadWidth));
+    report({
+      check: "width",
+      severity: "error",
+      message: `The road narrows to ${minWidth.toFixed(1)} units on ${span(run)} (minimum ${TRACK_MIN_ROAD_WIDTH})`,
+      segmentIndex: run[0],
+    });
+  }
+  for (const run of runs(steep)) {
+    report({
+      check: "banking",
+      severity: "warning",
+      message: `Banking passes ${degrees(TRACK_MAX_BANKING)} on ${span(run)} (up to ${degrees(steepest)})`,
+      segmentIndex: run[0],
+    });
+  }
+}
+
+/**
+ * Boxes are picked up within ITEM_BOX_PICKUP_RADIUS in plan view. One that
+ * far off the road takes a detour onto the shoulder; past the out-of-bounds
+ * line it can't be collected at all.
+ */
+function checkItemBoxes(track: TrackDefinition, report: IssueSink): void {
+  const segments = track.segments;
+  for (const zone of track.itemBoxZones) {
+    zone.positions.forEach((pos, box) => {
+      const segIdx = findNearestSegment(segments, pos.x, pos.z, zone.segmentIndex);
+      if (isOnRoad(segments, segIdx, pos.x, pos.z)) return;
+      const halfWidth = roadWidth(segments[segIdx]) / 2;
+      const lateral = Math.abs(getLateralOffset(segments, segIdx, pos.x, pos.z));
+      const outside = lateral - halfWidth;
+      if (outside <= ITEM_BOX_PICKUP_RADIUS) return;
+
+      const unreachable = lateral - ITEM_BOX_PICKUP_RADIUS > halfWidth * OUT_OF_BOUNDS_BOUNDARY;
+      report({
+        check: "itemBoxes",
+        severity: unreachable ? "error" : "warning",
+        message: unreachable
+          ? `Item box ${box + 1} of the row at segment ${zone.segmentIndex} is past the out-of-bounds line and can't be collected`
+          : `Item box ${box + 1} of the row at segment ${zone.segmentIndex} is ${outside.toFixed(1)} units off the road`,
+        segmentIndex: zone.segmentIndex,
+      });
+    });
+  }
+}
+
+/** A boost pad on a stretch a shortcut skips (or enters) rewards the wrong line */
+function checkBoostShortcutOverlap(track: TrackDefinition, report: IssueSink): void {
+  const total = track.segments.length;
+  for (const zone of track.boostZones) {
+    const zoneLength = forwardGap(zone.segmentStart, zone.segmentEnd, total);
+    track.shortcuts.forEach((shortcut, s) => {
+      const skipped = forwardGap(shortcut.segmentStart, shortcut.segmentEnd, total);
+      const overlaps =
+        forwardGap(shortcut.segmentStart, zone.segmentStart, total) < skipped ||
+        forwardGap(zone.segmentStart, shortcut.segmentStart, total) < zoneLength;
+      if (!overlaps) return;
+      report({
+        check: "boostShortcutOverlap",
+        severity: "warning",
+        message: `Boost zone ${zone.segmentStart}–${zone.segmentEnd} overlaps shortcut ${s + 1} (segments ${shortcut.segmentStart}–${shortcut.segmentEnd})`,
+        segmentIndex: zone.segmentStart,
+      });
+    });
+  }
+}
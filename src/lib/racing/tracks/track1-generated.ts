@@ -1,808 +0,0 @@
-// Auto-generated from track1 road mesh at final 5x world scale.
-// Y from mesh triangle centroids, XZ pulled onto road surface.
-
-export const TRACK1_CENTERS: [number, number, number][] = [
-  [-862.28, 35.75, -634.42],
-  [-846.09, 35.65, -621.49],
-  [-829.24, 35.51, -608.07],
-  [-811.89, 35.35, -594.25],
-  [-794.24, 35.15, -580.10],
-  [-776.45, 34.88, -565.71],
-  [-758.72, 34.53, -551.19],
-  [-741.21, 34.07, -536.61],
-  [-724.10, 33.47, -522.06],
-  [-707.56, 32.72, -507.63],
-  [-691.75, 31.78, -493.40],
-  [-676.83, 30.63, -479.44],
-  [-662.92, 29.30, -465.83],
-  [-650.15, 27.80, -452.62],
-  [-638.64, 26.17, -439.86],
-  [-628.47, 24.46, -427.60],
-  [-619.73, 22.73, -415.87],
-  [-612.46, 21.06, -404.69],
-  [-606.71, 19.51, -394.06],
-  [-602.48, 18.13, -383.99],
-  [-599.78, 16.96, -374.46],
-  [-598.58, 16.01, -365.43],
-  [-598.81, 15.30, -356.86],
-  [-600.42, 14.81, -348.72],
-  [-603.31, 14.53, -340.93],
-  [-607.35, 14.42, -333.43],
-  [-612.43, 14.45, -326.15],
-  [-618.38, 14.61, -319.02],
-  [-625.04, 14.86, -311.95],
-  [-632.23, 15.18, -304.87],
-  [-639.75, 15.56, -297.72],
-  [-647.40, 15.99, -290.43],
-  [-654.99, 16.49, -282.95],
-  [-662.30, 17.09, -275.24],
-  [-669.13, 17.81, -267.27],
-  [-675.29, 18.70, -259.03],
-  [-680.60, 19.79, -250.51],
-  [-684.87, 21.11, -241.73],
-  [-687.97, 22.67, -232.71],
-  [-689.76, 24.43, -223.50],
-  [-690.12, 26.31, -214.14],
-  [-688.99, 28.22, -204.69],
-  [-686.29, 30.06, -195.20],
-  [-682.00, 31.74, -185.73],
-  [-676.12, 33.18, -176.35],
-  [-668.68, 34.32, -167.11],
-  [-659.72, 35.13, -158.06],
-  [-649.32, 35.66, -149.24],
-  [-637.59, 35.96, -140.69],
-  [-624.62, 36.05, -132.42],
-  [-610.57, 36.00, -124.44],
-  [-595.57, 35.82, -116.76],
-  [-579.79, 35.54, -109.35],
-  [-563.40, 35.12, -102.20],
-  [-546.56, 34.50, -95.28],
-  [-529.45, 33.65, -88.54],
-  [-512.24, 32.50, -81.94],
-  [-495.10, 31.01, -75.43],
-  [-478.20, 29.14, -68.97],
-  [-461.70, 26.96, -62.50],
-  [-445.74, 24.56, -55.97],
-  [-430.47, 22.06, -49.33],
-  [-416.00, 19.59, -42.54],
-  [-402.45, 17.25, -35.55],
-  [-389.91, 15.16, -28.32],
-  [-378.48, 13.42, -20.82],
-  [-368.21, 12.05, -13.01],
-  [-359.15, 11.00, -4.85],
-  [-351.34, 10.22, 3.67],
-  [-344.80, 9.67, 12.59],
-  [-339.53, 9.27, 21.93],
-  [-335.51, 8.99, 31.71],
-  [-332.71, 8.77, 41.95],
-  [-331.09, 8.59, 52.68],
-  [-330.59, 8.44, 63.90],
-  [-331.15, 8.33, 75.63],
-  [-332.69, 8.24, 87.90],
-  [-335.12, 8.18, 100.69],
-  [-338.33, 8.14, 114.03],
-  [-342.23, 8.11, 127.91],
-  [-346.71, 8.08, 142.33],
-  [-351.65, 8.06, 157.28],
-  [-356.93, 8.03, 172.74],
-  [-362.44, 7.99, 188.71],
-  [-368.04, 7.94, 205.15],
-  [-373.61, 7.88, 222.02],
-  [-379.03, 7.79, 239.29],
-  [-384.17, 7.69, 256.90],
-  [-388.91, 7.56, 274.81],
-  [-393.13, 7.40, 292.94],
-  [-396.71, 7.23, 311.22],
-  [-399.54, 7.03, 329.60],
-  [-401.51, 6.81, 347.98],
-  [-402.52, 6.59, 366.28],
-  [-402.49, 6.35, 384.43],
-  [-401.35, 6.12, 402.34],
-  [-399.01, 5.89, 419.94],
-  [-395.45, 5.68, 437.14],
-  [-390.61, 5.49, 453.88],
-  [-384.49, 5.31, 470.10],
-  [-377.08, 5.17, 485.75],
-  [-368.40, 5.06, 500.79],
-  [-358.50, 4.99, 515.18],
-  [-347.42, 4.98, 528.91],
-  [-335.24, 5.01, 541.97],
-  [-322.05, 5.10, 554.38],
-  [-307.96, 5.25, 566.15],
-  [-293.10, 5.44, 577.32],
-  [-277.58, 5.66, 587.92],
-  [-261.57, 5.92, 598.01],
-  [-245.20, 6.20, 607.63],
-  [-228.63, 6.50, 616.85],
-  [-212.02, 6.81, 625.73],
-  [-195.51, 7.12, 634.33],
-  [-179.27, 7.43, 642.70],
-  [-163.42, 7.73, 650.90],
-  [-148.10, 8.02, 658.99],
-  [-133.44, 8.29, 666.99],
-  [-119.52, 8.52, 674.96],
-  [-106.46, 8.72, 682.93],
-  [-94.31, 8.87, 690.91],
-  [-83.13, 8.98, 698.93],
-  [-72.95, 9.03, 706.99],
-  [-63.78, 9.05, 715.12],
-  [-55.63, 9.04, 723.30],
-  [-48.47, 9.02, 731.54],
-  [-42.24, 8.98, 739.85],
-  [-36.89, 8.93, 748.22],
-  [-32.35, 8.89, 756.65],
-  [-28.50, 8.85, 765.13],
-  [-25.25, 8.81, 773.67],
-  [-22.48, 8.77, 782.27],
-  [-20.07, 8.73, 790.93],
-  [-17.86, 8.69, 799.64],
-  [-15.74, 8.63, 808.41],
-  [-13.56, 8.57, 817.23],
-  [-11.19, 8.50, 826.10],
-  [-8.48, 8.41, 835.00],
-  [-5.31, 8.30, 843.94],
-  [-1.57, 8.16, 852.89],
-  [2.85, 8.01, 861.84],
-  [8.05, 7.83, 870.75],
-  [14.11, 7.62, 879.59],
-  [21.09, 7.39, 888.33],
-  [29.05, 7.13, 896.93],
-  [38.00, 6.84, 905.32],
-  [47.97, 6.53, 913.47],
-  [58.95, 6.18, 921.32],
-  [70.92, 5.80, 928.79],
-  [83.82, 5.40, 935.83],
-  [97.62, 4.98, 942.38],
-  [112.23, 4.56, 948.37],
-  [127.57, 4.14, 953.73],
-  [143.54, 3.75, 958.40],
-  [160.03, 3.38, 962.33],
-  [176.93, 3.06, 965.45],
-  [194.12, 2.79, 967.71],
-  [211.46, 2.56, 969.06],
-  [228.85, 2.37, 969.46],
-  [246.15, 2.20, 968.87],
-  [263.24, 2.08, 967.26],
-  [280.03, 1.99, 964.61],
-  [296.40, 1.96, 960.89],
-  [312.27, 1.99, 956.10],
-  [327.57, 2.10, 950.23],
-  [342.23, 2.31, 943.28],
-  [356.23, 2.62, 935.26],
-  [369.53, 3.01, 926.19],
-  [382.14, 3.48, 916.09],
-  [394.06, 3.98, 904.99],
-  [405.34, 4.49, 892.93],
-  [416.01, 4.99, 879.94],
-  [426.15, 5.45, 866.08],
-  [435.81, 5.85, 851.40],
-  [445.10, 6.19, 835.96],
-  [454.08, 6.50, 819.83],
-  [462.87, 6.78, 803.07],
-  [471.54, 7.04, 785.76],
-  [480.19, 7.32, 767.95],
-  [488.90, 7.61, 749.73],
-  [497.73, 7.93, 731.17],
-  [506.74, 8.27, 712.33],
-  [515.99, 8.63, 693.27],
-  [525.49, 9.01, 674.07],
-  [535.26, 9.38, 654.77],
-  [545.29, 9.75, 635.43],
-  [555.57, 10.10, 616.08],
-  [566.06, 10.43, 596.77],
-  [576.71, 10.73, 577.53],
-  [587.46, 10.99, 558.38],
-  [598.25, 11.22, 539.34],
-  [609.02, 11.40, 520.42],
-  [619.70, 11.52, 501.63],
-  [630.21, 11.58, 482.98],
-  [640.52, 11.55, 464.47],
-  [650.56, 11.42, 446.10],
-  [660.30, 11.20, 427.87],
-  [669.73, 10.87, 409.78],
-  [678.83, 10.44, 391.82],
-  [687.62, 9.96, 374.00],
-  [696.14, 9.45, 356.31],
-  [704.42, 8.97, 338.75],
-  [712.53, 8.54, 321.32],
-  [720.55, 8.20, 304.01],
-  [728.56, 8.00, 286.84],
-  [736.67, 8.00, 269.78],
-  [744.98, 8.25, 252.85],
-  [753.59, 8.81, 236.02],
-  [762.62, 9.74, 219.30],
-  [772.16, 11.09, 202.67],
-  [782.32, 12.93, 186.12],
-  [793.18, 15.25, 169.63],
-  [804.82, 17.99, 153.19],
-  [817.31, 21.00, 136.77],
-  [830.69, 24.15, 120.35],
-  [845.00, 27.29, 103.92],
-  [860.26, 30.28, 87.44],
-  [876.47, 32.95, 70.90],
-  [893.62, 35.23, 54.27],
-  [911.68, 37.11, 37.54],
-  [930.60, 38.65, 20.68],
-  [950.34, 39.90, 3.68],
-  [970.82, 40.95, -13.47],
-  [991.98, 41.85, -30.77],
-  [1013.71, 42.70, -48.22],
-  [1035.94, 43.52, -65.83],
-  [1058.57, 44.36, -83.58],
-  [1081.48, 45.21, -101.44],
-  [1104.59, 46.07, -119.40],
-  [1127.77, 46.94, -137.43],
-  [1150.92, 47.82, -155.48],
-  [1173.93, 48.69, -173.50],
-  [1196.68, 49.58, -191.45],
-  [1219.07, 50.45, -209.27],
-  [1240.98, 51.33, -226.89],
-  [1262.31, 52.19, -244.24],
-  [1282.94, 53.03, -261.24],
-  [1302.78, 53.86, -277.80],
-  [1321.72, 54.66, -293.86],
-  [1339.65, 55.44, -309.31],
-  [1356.49, 56.18, -324.07],
-  [1372.15, 56.88, -338.06],
-  [1386.53, 57.53, -351.17],
-  [1399.56, 58.14, -363.33],
-  [1411.16, 58.68, -374.45],
-  [1421.26, 59.17, -384.46],
-  [1429.82, 59.58, -393.27],
-  [1436.77, 59.93, -400.83],
-  [1442.08, 60.21, -407.07],
-  [1445.71, 60.41, -411.95],
-  [1447.65, 60.53, -415.43],
-  [1447.88, 60.58, -417.49],
-  [1446.39, 60.56, -418.10],
-  [1443.21, 60.47, -417.26],
-  [1438.35, 60.31, -414.98],
-  [1431.82, 60.06, -411.28],
-  [1423.68, 59.75, -406.20],
-  [1413.96, 59.36, -399.78],
-  [1402.72, 58.91, -392.08],
-  [1390.01, 58.38, -383.16],
-  [1375.90, 57.80, -373.11],
-  [1360.45, 57.16, -362.00],
-  [1343.75, 56.47, -349.94],
-  [1325.85, 55.74, -337.03],
-  [1306.85, 54.97, -323.38],
-  [1286.81, 54.17, -309.10],
-  [1265.82, 53.34, -294.32],
-  [1243.96, 52.50, -279.15],
-  [1221.30, 51.63, -263.73],
-  [1197.93, 50.76, -248.18],
-  [1173.92, 49.88, -232.63],
-  [1149.34, 49.01, -217.21],
-  [1124.26, 48.14, -202.04],
-  [1098.76, 47.29, -187.25],
-  [1072.91, 46.44, -172.96],
-  [1046.77, 45.62, -159.28],
-  [1020.41, 44.82, -146.32],
-  [993.88, 44.04, -134.18],
-  [967.24, 43.26, -122.95],
-  [940.56, 42.47, -112.70],
-  [913.88, 41.62, -103.50],
-  [887.26, 40.67, -95.39],
-  [860.75, 39.58, -88.43],
-  [834.39, 38.31, -82.61],
-  [808.22, 36.85, -77.96],
-  [782.30, 35.19, -74.46],
-  [756.65, 33.38, -72.08],
-  [731.33, 31.49, -70.78],
-  [706.36, 29.62, -70.52],
-  [681.77, 27.85, -71.22],
-  [657.62, 26.25, -72.81],
-  [633.92, 24.91, -75.23],
-  [610.72, 23.88, -78.37],
-  [588.05, 23.15, -82.17],
-  [565.94, 22.72, -86.54],
-  [544.44, 22.55, -91.39],
-  [523.58, 22.62, -96.66],
-  [503.42, 22.91, -102.29],
-  [483.98, 23.37, -108.21],
-  [465.32, 23.97, -114.37],
-  [447.49, 24.67, -120.75],
-  [430.54, 25.44, -127.32],
-  [414.51, 26.22, -134.06],
-  [399.45, 26.93, -140.97],
-  [385.42, 27.49, -148.04],
-  [372.44, 27.81, -155.31],
-  [360.56, 27.84, -162.77],
-  [349.80, 27.52, -170.46],
-  [340.19, 26.81, -178.40],
-  [331.73, 25.74, -186.62],
-  [324.42, 24.37, -195.15],
-  [318.24, 22.80, -204.03],
-  [313.16, 21.12, -213.27],
-  [309.13, 19.45, -222.91],
-  [306.08, 17.88, -232.97],
-  [303.95, 16.50, -243.47],
-  [302.62, 15.33, -254.43],
-  [301.99, 14.39, -265.86],
-  [301.94, 13.63, -277.77],
-  [302.32, 13.01, -290.16],
-  [303.00, 12.43, -303.04],
-  [303.82, 11.84, -316.38],
-  [304.61, 11.16, -330.19],
-  [305.23, 10.32, -344.44],
-  [305.51, 9.29, -359.11],
-  [305.30, 8.02, -374.17],
-  [304.44, 6.52, -389.58],
-  [302.81, 4.87, -405.32],
-  [300.28, 3.15, -421.32],
-  [296.73, 1.42, -437.55],
-  [292.07, -0.23, -453.95],
-  [286.22, -1.73, -470.45],
-  [279.12, -3.00, -487.00],
-  [270.71, -4.01, -503.53],
-  [260.97, -4.79, -519.98],
-  [249.90, -5.38, -536.27],
-  [237.48, -5.82, -552.33],
-  [223.74, -6.13, -568.09],
-  [208.70, -6.37, -583.48],
-  [192.41, -6.56, -598.43],
-  [174.91, -6.74, -612.87],
-  [156.25, -6.90, -626.75],
-  [136.51, -7.05, -639.99],
-  [115.73, -7.18, -652.55],
-  [93.99, -7.30, -664.38],
-  [71.35, -7.41, -675.42],
-  [47.88, -7.48, -685.65],
-  [23.64, -7.53, -695.04],
-  [-1.30, -7.49, -703.56],
-  [-26.89, -7.31, -711.20],
-  [-53.07, -6.97, -717.97],
-  [-79.78, -6.46, -723.85],
-  [-106.98, -5.73, -728.88],
-  [-134.61, -4.76, -733.07],
-  [-162.63, -3.51, -736.45],
-  [-191.00, -2.05, -739.06],
-  [-219.68, -0.55, -740.95],
-  [-248.63, 1.00, -742.18],
-  [-277.81, 2.59, -742.81],
-  [-307.19, 4.21, -742.90],
-  [-336.73, 5.82, -742.52],
-  [-366.38, 7.38, -741.76],
-  [-396.11, 8.94, -740.68],
-  [-425.88, 10.70, -739.38],
-  [-455.62, 12.70, -737.92],
-  [-485.29, 14.88, -736.38],
-  [-514.84, 17.22, -734.85],
-  [-544.19, 19.66, -733.38],
-  [-573.27, 22.15, -732.04],
-  [-602.01, 24.64, -730.89],
-  [-630.32, 26.93, -729.97],
-  [-658.12, 28.93, -729.32],
-  [-685.30, 30.60, -728.94],
-  [-711.76, 31.95, -728.86],
-  [-737.40, 33.01, -729.06],
-  [-762.12, 33.81, -729.53],
-  [-785.80, 34.39, -730.23],
-  [-808.33, 34.79, -731.11],
-  [-829.60, 35.10, -732.10],
-  [-849.50, 35.34, -733.15],
-  [-867.93, 35.53, -734.17],
-  [-884.80, 35.68, -735.07],
-  [-900.02, 35.80, -735.75],
-  [-913.50, 35.90, -736.13],
-  [-925.17, 35.98, -736.12],
-  [-934.98, 36.05, -735.61],
-  [-942.88, 36.10, -734.52],
-  [-948.84, 36.14, -732.78],
-  [-952.83, 36.17, -730.31],
-  [-954.86, 36.19, -727.05],
-  [-954.94, 36.19, -722.95],
-  [-953.09, 36.19, -717.99],
-  [-949.37, 36.18, -712.12],
-  [-943.82, 36.16, -705.36],
-  [-936.54, 36.14, -697.69],
-  [-927.60, 36.10, -689.13],
-  [-917.11, 36.05, -679.72],
-  [-905.20, 36.00, -669.49],
-  [-892.00, 35.93, -658.49],
-  [-877.64, 35.85, -646.78],
-];
-
-export const TRACK1_WIDTHS: number[] = [
-  92.1,
-  95.8,
-  98.7,
-  100.8,
-  102.2,
-  102.9,
-  102.7,
-  101.6,
-  99.7,
-  97.0,
-  93.3,
-  88.6,
-  83.3,
-  77.1,
-  70.5,
-  63.6,
-  56.8,
-  50.2,
-  44.2,
-  39.0,
-  34.8,
-  31.4,
-  28.9,
-  27.2,
-  26.0,
-  25.4,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.2,
-  25.2,
-  25.2,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.2,
-  25.5,
-  25.8,
-  26.3,
-  26.8,
-  27.3,
-  27.8,
-  28.3,
-  28.7,
-  28.9,
-  28.9,
-  28.7,
-  28.4,
-  27.9,
-  27.4,
-  26.9,
-  26.4,
-  25.9,
-  25.5,
-  25.3,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.2,
-  25.4,
-  25.7,
-  26.0,
-  26.3,
-  26.6,
-  26.8,
-  27.1,
-  27.3,
-  27.3,
-  27.2,
-  26.9,
-  26.6,
-  26.3,
-  26.0,
-  25.8,
-  25.5,
-  25.2,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.2,
-  25.2,
-  25.3,
-  25.4,
-  25.5,
-  25.6,
-  25.7,
-  25.8,
-  25.7,
-  25.7,
-  25.6,
-  25.5,
-  25.4,
-  25.3,
-  25.2,
-  25.3,
-  25.6,
-  26.4,
-  27.6,
-  29.4,
-  31.7,
-  34.9,
-  38.8,
-  43.4,
-  48.5,
-  53.8,
-  58.7,
-  63.5,
-  67.8,
-  71.5,
-  74.3,
-  76.3,
-  77.2,
-  77.2,
-  76.9,
-  76.7,
-  76.5,
-  76.1,
-  75.7,
-  75.2,
-  74.4,
-  73.8,
-  73.2,
-  72.2,
-  70.3,
-  67.4,
-  64.0,
-  60.3,
-  56.6,
-  53.1,
-  49.6,
-  46.3,
-  43.6,
-  41.7,
-  40.9,
-  41.1,
-  41.9,
-  43.2,
-  44.6,
-  46.2,
-  47.7,
-  48.7,
-  49.2,
-  49.0,
-  47.9,
-  46.1,
-  43.7,
-  41.0,
-  38.1,
-  35.2,
-  32.6,
-  30.3,
-  28.4,
-  27.1,
-  26.1,
-  25.5,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.1,
-  25.2,
-  25.2,
-  25.2,
-  25.3,
-  25.3,
-  25.3,
-  25.3,
-  25.3,
-  25.2,
-  25.2,
-  25.1,
-  25.1,
-  25.1,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.0,
-  25.1,
-  25.5,
-  26.2,
-  27.3,
-  28.8,
-  30.8,
-  33.3,
-  36.3,
-  39.6,
-  43.0,
-  46.1,
-  48.5,
-  50.2,
-  51.2,
-  51.5,
-  51.1,
-  50.2,
-  49.0,
-  47.8,
-  47.3,
-  47.7,
-  49.4,
-  52.1,
-  55.8,
-  60.3,
-  65.5,
-  71.1,
-  76.9,
-  82.6,
-  87.7,
-];
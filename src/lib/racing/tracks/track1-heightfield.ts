@@ -1,8205 +0,0 @@
-// Auto-generated from track1 road mesh triangles.
-// Heightfield coordinates are in final gameplay world space.
-
-export const TRACK1_HF_COLS = 256;
-export const TRACK1_HF_ROWS = 256;
-export const TRACK1_HF_ORIGIN_X = -1280.094934;
-export const TRACK1_HF_ORIGIN_Z = -971.830243;
-export const TRACK1_HF_CELL_W = 11.778530;
-export const TRACK1_HF_CELL_H = 8.286141;
-export const TRACK1_HF_SENTINEL = -999.0;
-
-export const TRACK1_HEIGHTFIELD: number[] = [
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 37.7340, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 37.5937, 37.6980, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  37.3490, 37.4533, 37.5576, 37.6620, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  37.2087, 37.3130, 37.4173, 37.5216, 37.6260, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.9640,
-  37.0683, 37.1727, 37.2770, 37.3813, 37.4856, 37.5900, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.8237,
-  36.9280, 37.0323, 37.1367, 37.2410, 37.3453, 37.4496, 37.5540, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.5790, 36.6833,
-  36.7877, 36.8920, 36.9963, 37.1007, 37.2050, 37.3090, 37.4144, 37.5246,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.4387, 36.5430,
-  36.6473, 36.7517, 36.8559, 36.9598, 37.0638, 37.1677, 37.2763, 37.3865,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.1940, 36.2983, 36.4027,
-  36.5067, 36.6107, 36.7146, 36.8186, 36.9225, 37.0280, 37.1382, 37.2483,
-  37.3585, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.9494, 36.0536, 36.1576, 36.2615,
-  36.3655, 36.4694, 36.5733, 36.6773, 36.7812, 36.8899, 37.0001, 37.1102,
-  37.2204, 37.3305, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.9124, 36.0163, 36.1202,
-  36.2242, 36.3281, 36.4321, 36.5360, 36.6416, 36.7518, 36.8619, 36.9721,
-  37.0823, 37.1924, 37.3026, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -9.9416, -9.8564, -9.8203,
-  -9.7953, -9.7743, -9.7560, -9.7426, -9.7342, -9.7345, -9.7447, -9.8029,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.8750, 35.9790,
-  36.0829, 36.1869, 36.2908, 36.3947, 36.5035, 36.6136, 36.7238, 36.8340,
-  36.9441, 37.0543, 37.1645, 37.2746, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -10.1734, -9.9856, -9.8556, -9.7779, -9.7080, -9.6803,
-  -9.6531, -9.6298, -9.6080, -9.5913, -9.5786, -9.5745, -9.5775, -9.5919,
-  -9.6169, -9.6986, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.8377,
-  35.9416, 36.0456, 36.1495, 36.2552, 36.3654, 36.4755, 36.5857, 36.6958,
-  36.8060, 36.9160, 37.0258, 37.1361, 37.2514, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -10.1827, -10.0429, -9.8913, -9.7453, -9.6653, -9.5790, -9.5485,
-  -9.5190, -9.4918, -9.4658, -9.4458, -9.4300, -9.4207, -9.4210, -9.4300,
-  -9.4519, -9.4881, -9.5427, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.8004, 35.9043, 36.0083, 36.1171, 36.2272, 36.3374, 36.4476, 36.5574,
-  36.6672, 36.7770, 36.8868, 36.9999, 37.1152, 37.2305, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -10.2877,
-  -10.2512, -10.1137, -9.9701, -9.8176, -9.6480, -9.5535, -9.4532, -9.4184,
-  -9.3863, -9.3549, -9.3263, -9.3008, -9.2817, -9.2676, -9.2642, -9.2709,
-  -9.2923, -9.3227, -9.3736, -9.4388, -10.6530, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.7630, 35.8688, 35.9789, 36.0890, 36.1988, 36.3087, 36.4185,
-  36.5283, 36.6381, 36.7483, 36.8636, 36.9790, 37.0943, 37.2096, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -10.1689, -10.1783,
-  -10.1723, -10.0653, -9.9091, -9.7458, -9.5676, -9.4460, -9.3392, -9.2953,
-  -9.2608, -9.2264, -9.1940, -9.1641, -9.1398, -9.1204, -9.1118, -9.1116,
-  -9.1302, -9.1603, -9.2139, -9.2682, -9.3537, -11.1230, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.7305, 35.8403, 35.9501, 36.0599, 36.1697, 36.2795,
-  36.3893, 36.4991, 36.6121, 36.7274, 36.8428, 36.9581, 37.0734, 37.1888,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -9.9027, -10.0387, -10.1033,
-  -10.0906, -10.0155, -9.8521, -9.6785, -9.4974, -9.3532, -9.2504, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.9779, -8.9610,
-  -8.9728, -9.0034, -9.0508, -9.1101, -9.1901, -9.2839, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.5915, 35.7013, 35.8111, 35.9209, 36.0307, 36.1405,
-  36.2503, 36.3606, 36.4759, 36.5912, 36.7066, 36.8219, 36.9372, 37.0526,
-  37.1679, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -8.2768, -8.3736, -8.4472, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -9.6352, -9.7485, -9.8948, -10.0359,
-  -10.0261, -9.9758, -9.8106, -9.6367, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -8.8312, -8.8473, -8.8854, -8.9526, -9.0312, -9.1237, -9.2736, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.5623, 35.6721, 35.7820, 35.8918, 36.0016,
-  36.1114, 36.2244, 36.3397, 36.4550, 36.5703, 36.6857, 36.8010, 36.9163,
-  37.0314, 37.1485, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.6655, -7.8527,
-  -8.8288, -9.0005, -9.1311, -9.2553, -9.3305, -8.5444, -8.5226, -8.3992,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -9.4549, -9.6013, -9.7536, -9.9269,
-  -9.9672, -9.9336, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -8.7299, -8.7930, -8.8683, -8.9706, -9.0829, -9.9484,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.5332, 35.6430, 35.7528, 35.8626,
-  35.9728, 36.0881, 36.2035, 36.3188, 36.4341, 36.5494, 36.6644, 36.7795,
-  36.8945, 37.0139, 37.1338, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -7.0957, -7.2613, -8.2478, -8.4852,
-  -8.6503, -8.9039, -9.0356, -9.2387, -9.3838, -9.4149, -9.4607, -9.3661,
-  -8.4612, -8.3736, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -9.1492, -9.2797, -9.4318, -9.5983, -9.7791,
-  -9.9384, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -8.6347, -8.7172, -8.8151, -8.9223, -9.0579,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.5040, 35.6138, 35.7236,
-  35.8366, 35.9519, 36.0673, 36.1825, 36.2975, 36.4125, 36.5275, 36.6425,
-  36.7595, 36.8794, 36.9993, 37.1192, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -6.6448, -7.5966, -7.7426, -7.9886, -8.2451,
-  -8.4718, -8.8073, -9.0248, -9.2222, -9.4744, -9.4743, -9.5900, -9.4954,
-  -9.4880, -9.4004, -8.4669, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -8.9091, -8.9664, -9.0970, -9.2612, -9.4378, -9.6478,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -8.4954, -8.5626, -8.6587, -8.7770, -8.9075,
-  -9.2410, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.4749, 35.5851,
-  35.7004, 35.8155, 35.9305, 36.0455, 36.1605, 36.2755, 36.3905, 36.5055,
-  36.6249, 36.7448, 36.8647, 36.9847, 37.1046, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -7.1129, -7.2629, -7.4092, -7.7294, -8.0049,
-  -8.2933, -8.7108, -9.0141, -9.2236, 28.8657, 28.6010, 28.3174, 28.0453,
-  -9.7074, -9.6198, -9.4242, -8.5067, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -8.6734, -8.7786, -8.9054, -9.0597, -9.2562, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -8.4078, -8.5070, -8.6267, -8.7559,
-  -8.9035, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.4485,
-  35.5635, 35.6785, 35.7935, 35.9086, 36.0236, 36.1386, 36.2536, 36.3705,
-  36.4904, 36.6103, 36.7302, 36.8501, 36.9700, 37.0899, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -5.7928, -6.7776, -6.9275, 30.7613, 30.5029, 30.2381,
-  29.9687, 29.6951, 28.6139, 28.3406, 28.0695, 27.7991, 27.5155, 27.2437,
-  26.9832, 26.7367, 27.3132, 27.1054, 26.9246, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -8.4773, -8.5822, -8.7131, -8.8611, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.3609, -8.4760, -8.6103,
-  -8.7595, -9.1537, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.4266, 35.5416, 35.6566, 35.7716, 35.8866, 36.0016, 36.1166, 36.2359,
-  36.3558, 36.4757, 36.5957, 36.7156, 36.8355, 36.9554, 37.0752, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -5.2166, 31.5976, 31.3588, 31.1072, 30.0408, 29.7692, 29.4940,
-  29.2103, 28.9223, 28.6477, 28.3598, 28.0740, 27.8039, 27.5203, 27.2486,
-  26.9886, 26.7432, 26.5162, 26.3126, 26.1389, 26.8067, 26.7128, -999.0000,
-  -999.0000, -8.2563, -8.2900, -8.3774, -8.4930, -8.6589, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.2183, -8.3260, -8.4658,
-  -8.6146, -8.7760, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.4046, 35.5196, 35.6346, 35.7496, 35.8647, 35.9815, 36.1014,
-  36.2213, 36.3412, 36.4611, 36.5810, 36.7008, 36.8204, 36.9411, 37.0651,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 32.4388,
-  32.1995, -4.6549, 30.9058, 30.6647, 30.4041, 30.1317, 29.8518, 29.5566,
-  29.2586, 28.9740, 28.6815, 28.3789, 28.0807, 27.8087, 27.5251, 27.2535,
-  26.9939, 26.7496, 26.5248, 26.3251, 26.1579, 26.0325, 25.9441, 26.7113,
-  -999.0000, -8.0432, -8.1050, -8.1828, -8.2831, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.1856, -8.3206,
-  -8.4698, -8.6374, -9.4610, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.3827, 35.4977, 35.6127, 35.7277, 35.8469, 35.9668,
-  36.0867, 36.2066, 36.3263, 36.4459, 36.5655, 36.6852, 36.8080, 36.9320,
-  37.0559, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 32.9891, 32.7705, 31.7453,
-  31.5105, 31.2669, 31.0233, 30.7807, 30.5085, 30.2226, 29.9343, 29.6193,
-  29.3223, 29.0262, 28.7152, 28.3998, 28.1016, 27.8135, 27.5300, 27.2584,
-  26.9993, 26.7561, 26.5335, 26.3376, 26.1770, 26.0628, 25.9622, 25.9253,
-  26.6601, -7.8050, -7.8976, -7.9711, -8.0661, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.0472, -8.1733,
-  -8.3296, -8.4950, -8.6842, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.3607, 35.4757, 35.5925, 35.7124, 35.8323,
-  35.9519, 36.0715, 36.1911, 36.3107, 36.4303, 36.5509, 36.6749, 36.7989,
-  36.9228, 37.0468, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 33.5173, 33.3134, 32.2957, 32.0770, 31.8584,
-  31.6284, 31.3848, 31.1412, 30.8920, 30.6130, 30.3136, 30.0169, 29.6955,
-  29.3899, 29.0783, 28.7508, 28.4364, 28.1225, 27.8183, 27.5349, 27.2632,
-  27.0047, 26.7626, 26.5421, 26.3500, 26.1960, 26.0906, 25.9804, 25.9007,
-  25.8314, 26.5676, -7.6786, -7.7597, -7.8580, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -8.0355,
-  -8.1897, -8.3535, -8.5366, -10.0076, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.3388, 35.4578, 35.5774, 35.6971,
-  35.8167, 35.9363, 36.0559, 36.1755, 36.2951, 36.4178, 36.5418, 36.6658,
-  36.7897, 36.9137, 37.0377, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 34.0316, 33.0247, 32.8209, 32.6170, 32.4087, 32.1901, 31.9715,
-  31.7463, 31.5027, 31.2590, 31.0033, 30.7174, 30.4068, 30.0994, 29.7784,
-  29.4575, 29.9383, 29.6079, 29.2762, 28.9468, 28.6299, 28.3463, 28.0746,
-  27.8163, 27.5751, 26.5508, 26.3625, 26.2216, 26.1053, 25.9985, 25.8648,
-  25.8068, 25.7159, 26.4351, -7.5668, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.8949,
-  -8.0439, -8.2163, -8.3959, -8.6255, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3226, 35.4422, 35.5618,
-  35.6814, 35.8011, 35.9207, 36.0403, 36.1607, 36.2847, 36.4087, 36.5326,
-  36.6566, 36.7806, 36.9046, 37.0285, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 34.5301,
-  33.5287, 33.3333, 33.1346, 32.9307, 32.7269, 32.5218, 32.3032, 32.0846,
-  31.8643, 31.6206, 31.3769, 31.1146, 30.8145, 31.3118, 30.9898, 30.6647,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 27.1847, 27.0570, 26.1200, 26.0029, 25.8402,
-  25.7676, 25.6734, 25.5505, 26.2763, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.9066, -8.0786, -8.2585, -8.4543, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3070, 35.4266,
-  35.5462, 35.6658, 35.7855, 35.9051, 36.0276, 36.1516, 36.2756, 36.3995,
-  36.5235, 36.6475, 36.7715, 36.8952, 37.0209, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.0233, 34.0258, 33.8318,
-  33.6365, 33.4411, 33.2444, 33.0406, 32.8367, 32.6328, 32.4162, 32.1976,
-  31.9790, 31.7385, 32.3018, 32.0412, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -7.8005, 26.9222, 25.9651, 25.8156,
-  25.7108, 25.5631, 25.4678, 25.3663, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.7670, -7.9351, -8.1214, -8.3160, -8.6922, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.2914,
-  35.4110, 35.5306, 35.6502, 35.7705, 35.8945, 36.0185, 36.1425, 36.2664,
-  36.3904, 36.5141, 36.6378, 36.7615, 36.8890, 37.0165, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.5130, 35.3215, 34.3240, 34.1326, 33.9396,
-  33.7443, 33.5489, 33.3535, 33.1504, 32.9465, 32.7427, 32.5293, 33.1172,
-  32.8986, -0.9786, -0.9760, -0.5357, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -7.8177, -7.9487, 26.7144, 25.7466,
-  25.5916, 25.4804, 25.3453, 25.2481, 25.9766, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.6435, -7.7951, -7.9817, -8.1775, -8.3858, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.2758, 35.3954, 35.5150, 35.6374, 35.7614, 35.8854, 36.0092, 36.1329,
-  36.2566, 36.3803, 36.5040, 36.6296, 36.7571, 36.8846, 37.0121, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.8115, 34.8138, 34.6223, 34.4308, 34.2394, 34.0475,
-  33.8521, 33.6567, 33.4614, 33.2602, 33.0564, 33.6588, 33.4489, -0.2551,
-  -0.2178, -0.1787, -0.1098, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.8698, -7.4586, 26.4383,
-  25.4745, 25.3276, 25.2145, 25.1298, 25.0294, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -7.6578, -7.8407, -8.0372, -8.2466, -9.2245, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.2602, 35.3804, 35.5043, 35.6281, 35.7518, 35.8755, 35.9992,
-  36.1229, 36.2466, 36.3703, 36.4978, 36.6253, 36.7528, 36.8803, 37.0078,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  36.3024, 35.3039, 35.1122, 34.9206, 34.7290, 34.5376, 34.3461, 34.1547,
-  33.9599, 33.7645, 33.5692, 34.1764, -999.0000, -999.0000, -999.0000, 0.6186,
-  0.6362, 0.6683, 0.7028, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.3896, -6.9784,
-  26.1163, 25.1801, 25.0542, 24.9452, 24.8816, 25.6309, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -7.5245, -7.6977, -7.8954, -8.1025, -8.3378, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.2470, 35.3707, 35.4944, 35.6181, 35.7418, 35.8655,
-  35.9892, 36.1129, 36.2384, 36.3659, 36.4934, 36.6209, 36.7484, 36.8759,
-  37.0034, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.6071,
-  35.6093, 35.4107, 35.2191, 35.0275, 34.8358, 34.6444, 34.4529, 34.2615,
-  34.0677, 34.6785, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 1.4954,
-  1.4937, 1.4983, 1.5073, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.3205, -6.9060,
-  -6.6482, 25.7827, 24.8609, 24.7937, 24.7000, 24.6559, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -7.5583, -7.7540, -7.9598, -8.1790, -9.4596, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.2370, 35.3607, 35.4844, 35.6081, 35.7318,
-  35.8555, 35.9792, 36.1065, 36.2340, 36.3615, 36.4890, 36.6165, 36.7440,
-  36.8715, 36.9988, -999.0000, -999.0000, -999.0000, 37.1242, 36.9118, 35.9685,
-  35.7208, 35.5176, 35.3259, 35.1343, 34.9427, 34.7512, 34.5597, 35.1743,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 2.3758,
-  2.3547, 2.3336, 2.3162, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.2497, -6.8336,
-  -6.6371, 25.5763, 24.6496, 24.5559, 24.5191, 24.4854, 25.2722, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -7.4150, -7.6071, -7.8136, -8.0285, -8.2780, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 70.5105, 70.6892, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.2270, 35.3507, 35.4744, 35.5981,
-  35.7218, 35.8472, 35.9747, 36.1022, 36.2297, 36.3571, 36.4846, 36.6119,
-  36.7391, 36.8654, 36.9906, -999.0000, 37.4756, 36.5506, 36.3321, 36.1379,
-  35.8800, 35.6270, 35.4328, 35.2411, 35.0495, 35.6640, 35.4726, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.2592,
-  3.2186, 3.1780, 3.1326, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.7612,
-  -6.6345, -6.5234, 25.2193, 24.3559, 24.3039, 24.2771, 25.0890, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -7.4612, -7.6673, -7.8807, -8.1053, -9.1503,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 70.3065, 70.4852, 70.6638, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.2170, 35.3407, 35.4644,
-  35.5881, 35.7153, 35.8428, 35.9703, 36.0977, 36.2250, 36.3522, 36.4795,
-  36.6067, 36.7320, 36.8572, 36.9830, 37.0770, 36.7933, 36.5791, 36.3072,
-  36.0950, 35.7601, 35.5396, 35.3480, 35.9624, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.1448,
-  4.0843, 4.0237, 3.9512, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.7268,
-  -6.6375, -6.4871, 24.9595, 24.0931, 24.0884, 24.0918, 24.0952, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -7.3130, -7.5140, -7.7260, -7.9458, -8.1836,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 69.9238, 70.1025, 70.2811, 70.4598, 70.6384,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.2070, 35.3307,
-  35.4559, 35.5834, 35.7108, 35.8381, 35.9653, 36.0926, 36.2198, 36.3471,
-  36.4735, 36.5987, 36.7238, 36.8530, 36.9842, 37.0642, 36.8285, 36.5464,
-  36.3100, 35.9751, 36.4525, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.0242,
-  4.9367, 4.8534, 4.7701, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.7368,
-  -6.6376, -6.4508, -6.2889, 23.8387, 23.8358, 23.8404, 23.8660, 24.6991,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -7.3605, -7.5710, -7.7881, -8.0126,
-  -8.2874, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 69.7198, 69.8985, 70.0771, 70.2558, 70.4344,
-  70.6131, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.1969,
-  35.3239, 35.4512, 35.5784, 35.7057, 35.8329, 35.9602, 36.0875, 36.2147,
-  36.3401, 36.4653, 36.5938, 36.7230, 36.8544, 36.9859, 37.0927, 36.8231,
-  36.5224, 36.9249, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.9184,
-  5.8188, 5.7191, 5.6195, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.7467,
-  -6.6039, -6.4232, -6.2586, 24.3689, 23.5871, 23.6127, 23.6383, 24.4714,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -7.2058, -7.4082, -7.6223, -7.8419,
-  -8.0711, -8.8630, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 69.3371, 69.5158, 69.6944, 69.8731, 70.0517, 70.2304,
-  70.4091, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.1915, 35.3188, 35.4460, 35.5733, 35.7006, 35.8278, 35.9551, 36.0816,
-  36.2067, 36.3345, 36.4637, 36.5930, 36.7245, 36.8568, 37.0159, 37.7492,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.6867,
-  6.6642, 6.6366, 6.5369, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.8587,
-  -6.6508, -6.4660, -6.2885, 24.1411, 23.3592, 23.3860, 23.4154, 24.2521,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.2474, -7.4540, -7.6684,
-  -7.8829, -8.1025, -9.3027, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 69.1331, 69.3118, 69.4904, 69.6691, 69.8477, 70.0264,
-  70.2050, 70.3837, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.1864, 35.3137, 35.4409, 35.5682, 35.6954, 35.8227, 35.9482,
-  36.0753, 36.2045, 36.3337, 36.4632, 36.5947, 36.7350, 36.8941, 37.0381,
-  37.1659, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.4465,
-  7.4204, 7.3929, 7.3916, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.9627,
-  -6.7419, -6.5442, -6.3475, -999.0000, 23.1378, 23.1673, 23.1967, 23.2262,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.0939, -7.2815, -7.4913,
-  -7.6964, -7.9060, -8.0794, -8.4817, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 68.7504, 68.9291, 69.1077, 69.2864, 69.4650, 69.6437, 69.8224,
-  70.0010, 70.1797, 70.3583, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.1813, 35.3085, 35.4358, 35.5630, 35.6897, 35.8161,
-  35.9453, 36.0745, 36.2036, 36.3333, 36.4649, 36.6133, 36.7700, 36.9055,
-  37.0333, 37.1611, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.1676,
-  8.1401, 8.1663, 8.2536, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.0667,
-  -6.8262, -6.6115, -6.4056, -999.0000, 22.9189, 22.9514, 22.9844, 23.0175,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.1105, -7.3031,
-  -7.5073, -7.6973, -7.8527, -8.0040, -8.1314, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  68.3441, 68.5412, 68.7202, 68.8992, 69.0782, 69.2572, 69.4361, 69.6151,
-  69.7941, 69.9731, 70.1521, 70.3311, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.1761, 35.3034, 35.4306, 35.5568, 35.6860,
-  35.8152, 35.9444, 36.0736, 36.2035, 36.3351, 36.4916, 36.6369, 36.7726,
-  36.9006, 37.0285, 37.1563, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.8873,
-  8.9410, 9.0201, 9.0976, 9.7274, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.1974,
-  -6.9504, -6.7407, -6.5378, -999.0000, 22.7121, 22.7452, 22.7784, 22.8115,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.1204,
-  -7.3143, -7.4774, -7.6316, -7.7554, -7.8566, -7.9369, -8.0356, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  68.0995, 68.3110, 68.5045, 68.6835, 68.8625, 69.0415, 69.2204, 69.3994,
-  69.5784, 69.7574, 69.9364, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.1710, 35.2978, 35.4268, 35.5560,
-  35.6852, 35.8144, 35.9436, 36.0737, 36.2108, 36.3682, 36.5039, 36.6395,
-  36.7680, 36.8958, 37.0236, 37.1514, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.3986,
-  9.6882, 9.8174, 9.9120, 10.5570, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.3331,
-  -7.0792, -6.8714, -6.6708, -999.0000, 22.5098, 22.5456, 22.5813, 22.6171,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.1135, -7.2588, -7.4117, -7.5121, -7.6103, -7.6715, -7.7300, -7.7628,
-  -7.8257, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 67.6486,
-  67.8548, 68.0652, 68.2798, 68.4678, 68.6468, 68.8258, 69.0047, 69.1837,
-  69.3627, 69.5417, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.1676, 35.2968, 35.4259,
-  35.5551, 35.6843, 35.8135, 35.9439, 36.0890, 36.2352, 36.3709, 36.5065,
-  36.6354, 36.7632, 36.8910, 37.0188, 37.1466, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.0536,
-  10.3428, 10.4814, 10.6380, 11.3233, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.4606,
-  -7.1818, -6.9607, -6.7477, -999.0000, 23.1264, 22.3558, 22.3916, 22.4274,
-  23.2697, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -7.0468, -7.1756, -7.2695, -7.3598, -7.4127, -7.4635, -7.4875,
-  -7.5124, -7.5238, -7.5565, -9.1926, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 67.4039,
-  67.6102, 67.8194, 68.0340, 68.2485, 68.4311, 68.6101, 68.7890, 68.9680,
-  69.1470, 69.3260, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.1667, 35.2959,
-  35.4251, 35.5543, 35.6835, 35.8140, 35.9665, 36.1022, 36.2378, 36.3735,
-  36.5027, 36.6305, 36.7583, 36.8861, 37.0154, 37.1509, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.6673,
-  11.0045, 11.1987, 11.3868, 12.0770, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.1621, -6.9514, -6.7480, -999.0000, 22.9475, 22.1780, 22.2146, 22.2512,
-  23.0939, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -6.9471, -7.0315, -7.1036, -7.1550, -7.1961, -7.2189,
-  -7.2362, -7.2430, -7.2505, -7.2580, -7.2863, -8.9193, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 66.9530, 67.1593,
-  67.3656, 67.5736, 67.7882, 68.0027, 68.2154, 68.3944, 68.5733, 68.7523,
-  68.9313, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.1659,
-  35.2950, 35.4242, 35.5534, 35.6865, 35.8335, 35.9691, 36.1048, 36.2404,
-  36.3701, 36.4979, 36.6257, 36.7535, 36.8862, 37.0217, 37.1571, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.2374,
-  11.5909, 11.7854, 12.0121, 12.2389, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.1415, -6.9418, -6.7485, -999.0000, 22.7779, 22.0084, 22.0451, 22.0818,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -6.8260, -6.8546, -6.9011, -6.9304, -6.9517,
-  -6.9629, -6.9684, -6.9720, -6.9749, -6.9858, -7.0042, -7.0679, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 66.5021, 66.7083, 66.9146,
-  67.1209, 67.3278, 67.5424, 67.7570, 67.9715, 68.1787, 68.3576, 68.5366,
-  68.7156, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.1650, 35.2942, 35.4234, 35.5648, 35.7005, 35.8361, 35.9717, 36.1074,
-  36.2375, 36.3653, 36.4931, 36.6215, 36.7570, 36.8924, 37.0279, 37.1634,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.1594, 12.4083, 12.6572, 12.9060, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -7.0652, -6.8568, -6.6583, -6.5072, 21.8238, 21.8584, 21.8930, 21.9277,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.6684, -6.6718, -6.6885,
-  -6.6913, -6.6954, -6.6958, -6.6972, -6.7077, -6.7212, -6.7587, -6.8055,
-  -8.1950, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 66.2574, 66.4637, 66.6700,
-  66.8763, 67.0826, 67.2966, 67.5112, 67.7257, 67.9403, 68.1419, 68.3209,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.1641, 35.2933, 35.4318, 35.5674, 35.7031, 35.8387, 35.9744,
-  36.1048, 36.2326, 36.3604, 36.4922, 36.6277, 36.7632, 36.8987, 37.0341,
-  37.1696, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.6654, 12.9143, 13.1903, 13.4753, 14.3653, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -6.9242, -6.7265, -6.5380, -6.3802, 21.6845, 21.7134, 21.7476, 21.7823,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.4480,
-  -6.4273, -6.4264, -6.4214, -6.4221, -6.4320, -6.4465, -6.4850, -6.5261,
-  -6.6156, -7.6748, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 65.8065, 66.0128, 66.2191, 66.4254,
-  66.6316, 66.8379, 67.0508, 67.2654, 67.4799, 67.6945, 67.9091, 68.1052,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.2988, 35.4344, 35.5700, 35.7057, 35.8413,
-  35.9722, 36.1000, 36.2278, 36.3630, 36.4985, 36.6340, 36.7694, 36.9049,
-  37.0404, 37.1759, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  13.9581, 13.4173, 13.7065, 13.9956, 14.8904, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -6.7847, -6.5961, -6.4101, -6.2424, 21.5667, 21.5956, 21.6246, 21.6536,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -6.1566, -6.1526, -6.1575, -6.1778, -6.2149, -6.2688,
-  -6.3535, -6.4463, -7.9133, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 65.5490, 65.7681, 65.9744, 66.1807,
-  66.3870, 66.5933, 66.8050, 67.0196, 67.2341, 67.4487, 67.6633, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.3014, 35.4370, 35.5726, 35.7083,
-  35.8395, 35.9673, 36.0983, 36.2338, 36.3693, 36.5047, 36.6402, 36.7757,
-  36.9112, 37.0465, 37.1830, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.3719, 13.8283, 14.1376, 14.4641, 14.7907, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -6.5846, -6.3875, -6.2064, 22.1970, 21.4654, 21.4837, 21.5071, 21.5360,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -5.8909, -5.9122, -5.9450, -6.0142,
-  -6.0976, -6.2111, -6.3666, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 65.0630, 65.2871, 65.5144, 65.7298, 65.9361,
-  66.1424, 66.3486, 66.5592, 66.7738, 66.9884, 67.2029, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3040, 35.4396, 35.5752,
-  35.7069, 35.8347, 35.9691, 36.1046, 36.2400, 36.3755, 36.5110, 36.6463,
-  36.7816, 36.9170, 37.0543, 37.1917, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 14.1945, 14.5036, 14.8126, 15.1063, 16.0957, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -6.3617, -6.1774, -6.0073, 22.0747, 21.3796, 21.3978, 21.4160, 22.2388,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -5.6683, -5.6867, -5.7605,
-  -5.8440, -5.9866, -6.1346, -6.3398, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 64.5773, 64.8015, 65.0256, 65.2525, 65.4798, 65.6914,
-  65.8977, 66.1040, 66.3134, 66.5280, 66.7426, 66.9571, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3066, 35.4422,
-  35.5743, 35.7044, 35.8399, 35.9753, 36.1108, 36.2461, 36.3815, 36.5168,
-  36.6521, 36.7884, 36.9257, 37.0630, 37.2003, 37.3377, -999.0000, -999.0000,
-  -999.0000, 15.3069, 14.7760, 15.0076, 15.4167, 16.3047, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -6.1406, -5.9578, -5.7881, 22.0456, 21.3354, 21.3265, 21.3296, 22.1525,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -5.5121,
-  -5.6208, -5.7625, -5.9111, -6.1247, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 64.3159, 64.5400, 64.7642, 64.9906, 65.2179, 65.4452,
-  65.6531, 65.8594, 66.0676, 66.2822, 66.4968, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3092,
-  35.4416, 35.5752, 35.7106, 35.8460, 35.9813, 36.1166, 36.2519, 36.3872,
-  36.5226, 36.6597, 36.7971, 36.9344, 37.0717, 37.2090, 37.3463, -999.0000,
-  -999.0000, 15.5427, 14.9664, 15.3026, 15.6114, 15.9137, 16.7620, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.8756, -5.6982, -5.5383, 21.3147, 21.2660, 21.2595, 21.2530, 22.0627,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.4016, -5.5385, -5.7357, -5.9440, -6.2033, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 63.8302, 64.0544, 64.2786, 64.5027, 64.7287, 64.9560, 65.1834,
-  65.4084, 65.6147, 65.8218, 66.0364, 66.2510, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.3105, 35.4458, 35.5811, 35.7165, 35.8518, 35.9871, 36.1224, 36.2577,
-  36.3938, 36.5311, 36.6684, 36.8057, 36.9431, 37.0804, 37.2177, 37.3550,
-  -999.0000, -999.0000, 15.1721, 15.4768, 15.7804, 16.0827, 16.9321, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.6220, -5.4400, 22.0089, 21.2683, 21.2320, 21.1868, 21.1553, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.2010, -5.3578, -5.5601, -5.7670, -6.0039, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  63.3446, 63.5688, 63.7929, 64.0171, 64.2412, 64.4668, 64.6941, 64.9215,
-  65.1488, 65.3701, 65.5764, 65.7906, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.3163, 35.4516, 35.5869, 35.7222, 35.8576, 35.9929, 36.1282,
-  36.2651, 36.4025, 36.5398, 36.6771, 36.8144, 36.9517, 37.0890, 37.2262,
-  37.3650, -999.0000, 16.1511, 15.6468, 15.9495, 16.2528, 16.5561, 17.4391,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.3645, -5.1788, 21.3183, 21.2337, 21.1451, 21.0969, 21.8654, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -5.1869, -5.3841, -5.6257, -5.8836, -7.3155, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  63.0831, 63.3073, 63.5315, 63.7556, 63.9798, 64.2049, 64.4322, 64.6596,
-  64.8869, 65.1142, 65.3317, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.3221, 35.4574, 35.5927, 35.7280, 35.8633, 35.9992,
-  36.1365, 36.2738, 36.4111, 36.5484, 36.6858, 36.8229, 36.9601, 37.0980,
-  37.2368, 37.3756, -999.0000, 15.8163, 16.1196, 16.4229, 16.7261, 17.6454,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -5.0992, 22.1317, 21.2582, 21.1388, 21.0756, 21.0125, 21.7666, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -5.0366, -5.2569, -5.5077, -5.7626, -6.0771, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 62.5885,
-  62.8202, 63.0458, 63.2700, 63.4942, 63.7183, 63.9430, 64.1703, 64.3977,
-  64.6250, 64.8523, 65.0796, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.3279, 35.4632, 35.5985, 35.7338, 35.8705,
-  36.0078, 36.1452, 36.2825, 36.4197, 36.5569, 36.6941, 36.8312, 36.9698,
-  37.1086, 37.2474, 37.3862, 16.7954, 16.2897, 16.5929, 16.8960, 17.1986,
-  18.1196, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  22.1389, 21.3376, 21.1663, 21.0448, 20.9706, 20.9074, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -5.1426, -5.3905, -5.6503, -5.9541, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 62.0895, 62.3209,
-  62.5526, 62.7844, 63.0085, 63.2327, 63.4568, 63.6811, 63.9085, 64.1358,
-  64.3631, 64.5904, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.3336, 35.4690, 35.6046, 35.7419,
-  35.8792, 36.0164, 36.1536, 36.2908, 36.4280, 36.5652, 36.7028, 36.8416,
-  36.9804, 37.1192, 37.2580, 37.3967, 16.4597, 16.7628, 17.0655, 17.3678,
-  17.6683, 18.5350, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 22.2453,
-  21.4212, 21.2307, 21.0828, 20.9647, 20.8661, 21.6056, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -5.0404, -5.3100, -5.5883, -5.8762, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 61.8220, 62.0534,
-  62.2850, 62.5170, 62.7471, 62.9712, 63.1954, 63.4195, 63.6466, 63.8739,
-  64.1012, 64.3285, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3394, 35.4759, 35.6131,
-  35.7503, 35.8875, 36.0247, 36.1619, 36.2991, 36.4363, 36.5746, 36.7134,
-  36.8522, 36.9910, 37.1298, 37.2685, 37.4073, 16.9325, 17.2347, 17.5358,
-  17.8354, 18.1315, 19.0442, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 22.2669, 21.4814,
-  21.2912, 21.1226, 20.9677, 20.8459, 20.7631, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.9787, -5.2474, -5.5258, -5.8125, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 61.3230, 61.5544, 61.7858,
-  62.0174, 62.2494, 62.4814, 62.7098, 62.9339, 63.1581, 63.3847, 63.6120,
-  63.8393, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3470, 35.4842,
-  35.6214, 35.7586, 35.8958, 36.0330, 36.1702, 36.3077, 36.4464, 36.5852,
-  36.7240, 36.8628, 37.0016, 37.1404, 37.2791, 37.4182, 17.4032, 17.7033,
-  18.0005, 18.2935, 18.5792, 19.5602, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 22.1800, 21.4424, 21.3031,
-  21.1196, 20.9638, 20.8306, 20.7349, 21.4423, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.9237, -5.1861, -5.4737, -5.7698, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 60.8241, 61.0555, 61.2869, 61.5183,
-  61.7497, 61.9818, 62.2138, 62.4458, 62.6724, 62.8966, 63.1228, 63.3501,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.3553,
-  35.4925, 35.6297, 35.7669, 35.9041, 36.0413, 36.1795, 36.3182, 36.4570,
-  36.5958, 36.7346, 36.8733, 37.0120, 37.1507, 37.2903, 37.4302, 37.5700,
-  18.1649, 18.4549, 18.7159, 19.0950, 19.4910, 20.4865, 20.8705, 21.2490,
-  -999.0000, -999.0000, 22.1067, 22.1274, 21.4536, 21.3642, 21.2478, 21.1138,
-  20.9480, 20.8195, 20.7032, 21.3976, -3.5332, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.8905, -5.1597, -5.4534, -5.7550, -7.5709, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 60.5565, 60.7879, 61.0193, 61.2507,
-  61.4821, 61.7141, 61.9462, 62.1782, 62.4102, 62.6351, 62.8609, 63.0882,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.3637, 35.5008, 35.6380, 35.7752, 35.9125, 36.0513, 36.1900, 36.3288,
-  36.4676, 36.6063, 36.7449, 36.8836, 37.0226, 37.1624, 37.3023, 37.4421,
-  37.5819, 18.6130, 18.8483, 19.1801, 19.5162, 19.8522, 20.1833, 20.5053,
-  20.8140, 21.1170, 21.2395, 21.2737, 21.2423, 21.1621, 21.0531, 20.9245,
-  20.7823, 20.6529, 21.3471, -3.3896, -3.3591, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.8579, -5.1299, -5.4296, -5.7359, -7.3492, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 60.0576, 60.2890, 60.5204, 60.7518, 60.9832,
-  61.2146, 61.4465, 61.6785, 61.9105, 62.1426, 62.3737, 62.5990, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.5091, 35.6463, 35.7843, 35.9231, 36.0618, 36.2005,
-  36.3392, 36.4779, 36.6166, 36.7552, 36.8947, 37.0345, 37.1744, 37.3142,
-  37.4540, 37.5938, 18.9970, 19.2652, 19.5413, 19.8128, 20.0833, 20.3530,
-  20.6180, 20.8739, 20.9981, 21.0416, 21.0210, 20.9536, 20.8533, 20.7305,
-  20.5930, 21.2719, -3.3014, -3.2720, -3.2544, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.7344, -5.0264, -5.3449, -5.6690, -7.2706, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 59.5588, 59.7907, 60.0214, 60.2528, 60.4842, 60.7156,
-  60.9470, 61.1789, 61.4109, 61.6429, 61.8749, 62.1070, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 21.5977, 21.0168, 20.4327,
-  19.7727, 19.0071, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.5174, 35.6561, 35.7948, 35.9334, 36.0721,
-  36.2108, 36.3495, 36.4882, 36.6270, 36.7668, 36.9066, 37.0465, 37.1863,
-  37.3261, 37.4659, 37.6057, 19.3049, 19.5214, 19.7442, 19.9699, 20.1951,
-  20.4214, 20.6277, 20.7565, 20.8093, 20.7993, 20.7423, 20.6511, 20.5358,
-  21.2108, -3.2372, -3.2004, -3.1744, -3.1586, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.5081, -4.8458, -5.2017, -5.5594, -7.3035, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 59.2918, 59.5237, 59.7543, 59.9853, 60.2167, 60.4481,
-  60.6795, 60.9113, 61.1433, 61.3753, 61.6073, 61.8393, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 22.7974, 22.3003, 21.3675, 20.7780, 20.1809,
-  19.4798, 18.6965, 17.9132, 17.5133, 16.6576, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.5277, 35.6664, 35.8051, 35.9438,
-  36.0824, 36.2211, 36.3598, 36.4991, 36.6389, 36.7787, 36.9186, 37.0584,
-  37.1982, 37.3380, 37.4778, 37.6181, 19.4976, 19.6755, 19.8565, 20.0371,
-  20.2248, 20.3816, 20.5149, 20.5769, 20.5775, 20.5308, -999.0000, 21.1482,
-  -999.0000, -3.1346, -3.1011, -3.0827, -3.0742, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -4.2735, -4.6789, -5.0756, -5.4731, -7.3365, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 58.7928, 59.0247, 59.2566, 59.4874, 59.7179, 59.9491, 60.1805,
-  60.4119, 60.6437, 60.8757, 61.1077, 61.3397, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 23.5151, 22.5824, 22.0689, 21.5553, 20.9781, 20.3810,
-  19.6217, 18.8384, 18.0166, 17.1350, 16.2626, 15.8253, 14.9580, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.5380, 35.6767, 35.8154,
-  35.9541, 36.0927, 36.2314, 36.3712, 36.5110, 36.6509, 36.7907, 36.9305,
-  37.0702, 37.2100, 37.3499, 37.4904, 37.6308, 19.6068, 19.7431, 19.8792,
-  20.0282, 20.1355, 20.2698, 20.3436, 20.3549, 21.1245, -999.0000, -999.0000,
-  -999.0000, -3.1605, -3.1238, -3.0881, -3.0508, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -3.8198, -4.2949, -4.7711, -5.2381, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  58.2938, 58.5257, 58.7576, 58.9895, 59.2204, 59.4510, 59.6816, 59.9130,
-  60.1444, 60.3760, 60.6080, 60.8401, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  24.7594, 24.2656, 23.3534, 22.7810, 22.2566, 21.7431, 21.1782, 20.5316,
-  19.7636, 18.9803, 18.0752, 17.1992, 16.3269, 15.3991, 14.5035, 14.0560,
-  13.1958, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.5483, 35.6870,
-  35.8257, 35.9644, 36.1035, 36.2433, 36.3831, 36.5230, 36.6627, 36.8025,
-  36.9422, 37.0820, 37.2222, 37.3626, 37.5030, 37.6434, 37.7838, 20.5272,
-  20.6161, 20.7011, 20.8312, 20.9101, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.2084, -3.1475, -3.0829, -3.0204, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -3.3866, -3.9135, -4.4306, -4.9463, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  58.0267, 58.2586, 58.4906, 58.7225, 58.9535, 59.1840, 59.4146, 59.6454,
-  59.8768, 60.1084, 60.3404, 60.5724, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 25.5199,
-  24.6017, 24.1120, 23.6223, 23.0287, 22.4557, 21.9308, 21.3783, 20.6737,
-  19.9056, 19.0480, 18.1358, 17.2635, 16.3378, 15.3861, 14.4931, 13.6002,
-  12.7072, 12.2733, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.5586,
-  35.6973, 35.8360, 35.9756, 36.1154, 36.2552, 36.3950, 36.5347, 36.6745,
-  36.8142, 36.9540, 37.0945, 37.2349, 37.3753, 37.5157, 37.6561, 37.7965,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.2843, -3.1868, -3.1051, -3.0291, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -2.7793, -3.4606, -4.1173, -4.6681, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 57.5277,
-  57.7597, 57.9916, 58.2235, 58.4554, 58.6865, 58.9171, 59.1476, 59.3782,
-  59.6093, 59.8408, 60.0728, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 25.3831,
-  24.8764, 24.3808, 23.8911, 23.2822, 22.7033, 22.1304, 21.5732, 20.8158,
-  20.0208, 19.1065, 18.2000, 17.2764, 16.3100, 15.3756, 14.4827, 13.5678,
-  12.6215, 11.7532, 11.3341, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.5689, 35.7079, 35.8477, 35.9874, 36.1272, 36.2669, 36.4067, 36.5464,
-  36.6862, 36.8263, 36.9667, 37.1071, 37.2475, 37.3879, 37.5283, 37.6687,
-  37.8092, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.4203, -3.3018, -3.1971, -3.0932, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -2.1460, -2.8784, -3.5683, -4.2597, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 57.0339, 57.2607,
-  57.4926, 57.7245, 57.9564, 58.1883, 58.4196, 58.6501, 58.8807, 59.1113,
-  59.3418, 59.5732, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 26.5859, 25.6602,
-  25.1535, 24.6497, 24.1540, 23.5419, 22.9510, 23.1588, 22.5400, 21.7554,
-  20.9137, 19.9627, 19.0203, 17.2487, 16.2822, 15.3652, 14.4221, 13.4619,
-  12.5450, 11.6768, 10.8085, 10.3750, 9.5682, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.5799, 35.7197, 35.8594, 35.9992, 36.1389, 36.2787, 36.4184,
-  36.5582, 36.6986, 36.8390, 36.9794, 37.1198, 37.2602, 37.4006, 37.5410,
-  37.6814, 37.8219, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.5557, -3.4078, -3.2751, -3.1479, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -0.4745, -1.4654, -2.3353, -3.0635, -3.8178, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 56.5455, 56.7721, 56.9969,
-  57.2255, 57.4574, 57.6894, 57.9213, 58.1526, 58.3832, 58.6138, 58.8443,
-  59.0749, 59.3056, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 27.3679, 26.4730, 25.9503,
-  25.4306, 24.9240, 24.4138, 23.8017, 23.9812, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 18.0415, 17.0552, 15.2763, 14.3162, 13.3560,
-  12.4686, 11.6003, 10.7119, 9.8088, 8.9972, 8.6427, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.5916, 35.7314, 35.8711, 36.0109, 36.1507, 36.2904,
-  36.4304, 36.5708, 36.7112, 36.8516, 36.9920, 37.1324, 37.2728, 37.4132,
-  37.5537, 37.6942, 37.8347, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.7302, -3.5530, -3.3969, -3.2494, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 0.3752, -0.6589, -1.6440, -2.5561, -4.2394, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 56.2838, 56.5104, 56.7354,
-  56.9592, 57.1904, 57.4223, 57.6542, 57.8857, 58.1163, 58.3468, 58.5774,
-  58.8079, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 27.2633, 26.7884, 26.3136,
-  25.7723, 25.2307, 25.4675, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.0002, 15.0113, 13.2605,
-  12.3698, 11.4544, 10.5389, 9.6770, 8.8654, 8.0537, 7.7137, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.7431, 35.8829, 36.0226, 36.1624,
-  36.3027, 36.4431, 36.5835, 36.7239, 36.8642, 37.0046, 37.1450, 37.2854,
-  37.4259, 37.5664, 37.7070, 37.8475, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -3.9182, -3.7270, -3.5477, -3.3678, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 13.0794, 13.0258, 12.9665, 12.9006, 12.8221, 12.7254, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  2.5958, 1.2587, 0.0504, -0.9354, -1.8792, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 55.7954, 56.0220, 56.2487, 56.4739,
-  56.6976, 56.9233, 57.1552, 57.3871, 57.6187, 57.8493, 58.0799, 58.3104,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 28.4586, 27.5787, 27.1039, 26.6291,
-  26.1359, 26.3812, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 13.9370,
-  12.1968, 11.2814, 10.3659, 9.5451, 8.7335, 7.9219, 7.1081, 6.7976,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.7549, 35.8946, 36.0345,
-  36.1749, 36.3153, 36.4557, 36.5961, 36.7364, 36.8768, 37.0172, 37.1576,
-  37.2982, 37.4387, 37.5792, 37.7197, 37.8602, 38.0008, -999.0000, -999.0000,
-  -999.0000, -4.1088, -3.8812, -3.6752, -3.4796, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 13.0116,
-  12.9625, 12.9121, 12.8591, 12.8067, 12.7581, 12.6999, 12.6295, 12.5545,
-  12.4714, 12.3785, 12.2668, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.9781,
-  3.4470, 2.1147, 0.8342, -0.2764, -1.2850, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 55.3070, 55.5337, 55.7603, 55.9870, 56.2124,
-  56.4361, 56.6599, 56.8882, 57.1201, 57.3518, 57.5824, 57.8129, 58.0435,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 28.3802, 27.9518, 27.4675, 26.9798,
-  26.4921, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.8410, 11.1084, 10.2249, 9.4102, 8.5667, 7.7231, 6.9154, 6.1852,
-  5.9096, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.7666, 35.9068,
-  36.0471, 36.1875, 36.3279, 36.4683, 36.6086, 36.7490, 36.8894, 37.0299,
-  37.1704, 37.3110, 37.4515, 37.5920, 37.7325, 37.8730, 38.0147, -999.0000,
-  -999.0000, -4.3250, -4.0845, -3.8515, -3.6292, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.9358, 12.8641,
-  12.7955, 12.7338, 12.6808, 12.6464, 12.6111, 12.5733, 12.5179, 12.4680,
-  12.4040, 12.3331, 12.2468, 12.1631, 12.0739, 11.9717, 11.8715, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.5967, 7.2186, 5.7509,
-  4.2180, 2.8570, 1.6204, 0.4394, -1.8841, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 54.8186, 55.0453, 55.2719, 55.4986, 55.7252, 55.9508,
-  56.1746, 56.3984, 56.6222, 56.8530, 57.0849, 57.3154, 57.5460, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 29.5543, 28.7240, 28.2956, 27.8672, 27.3861,
-  27.6641, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 10.8221, 9.1817, 8.3381, 7.4946, 6.7400, 6.0099,
-  5.2797, 5.0217, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.7790,
-  35.9193, 36.0597, 36.2001, 36.3405, 36.4808, 36.6212, 36.7616, 36.9022,
-  37.0427, 37.1832, 37.3237, 37.4643, 37.6048, 37.7453, 37.8913, 38.0277,
-  -999.0000, -4.5459, -4.2759, -4.0174, -3.7681, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.8707, 12.7947, 12.7104,
-  12.6311, 12.5585, 12.4985, 12.4769, 12.4543, 12.4487, 12.4168, 12.3837,
-  12.3369, 12.2808, 12.2091, 12.1486, 12.0770, 11.9995, 11.9244, 11.8527,
-  11.7857, 11.6754, 11.5057, 10.9406, 10.2256, 9.0310, 7.7851, 6.3674,
-  4.9573, 3.5833, 2.3421, 1.1022, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 54.3435, 54.5569, 54.7835, 55.0102, 55.2369, 55.4635, 55.6893,
-  55.9131, 56.1369, 56.3607, 56.5859, 56.8179, 57.0485, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 29.9102, 29.0677, 28.6393, 28.2109, 27.7875,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 9.7502, 8.1096, 7.2947, 6.5646, 5.8345,
-  5.1043, 4.3742, 4.1666, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  35.7915, 35.9319, 36.0723, 36.2127, 36.3530, 36.4934, 36.6339, 36.7744,
-  36.9150, 37.0555, 37.1960, 37.3365, 37.4770, 37.6230, 37.7679, 37.9043,
-  38.0408, -4.7585, -4.4609, -4.1763, -3.9081, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 12.8257, 12.7460, 12.6501, 12.5620,
-  12.4669, 12.3858, 12.3111, 12.3023, 12.3054, 12.3275, 12.3197, 12.3026,
-  12.2664, 12.2312, 12.1808, 12.1332, 12.0760, 12.0156, 11.9571, 11.9066,
-  11.8563, 11.7698, 11.6356, 11.1369, 10.4958, 9.3924, 8.2984, 6.9552,
-  5.6303, 4.2815, 3.0131, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 54.0929, 54.3049, 54.5218, 54.7485, 54.9751, 55.2018, 55.4278,
-  55.6516, 55.8754, 56.0991, 56.3229, 56.5508, 56.7815, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 29.8483, 29.4761, 29.0590, 28.6407, 28.9904,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.6782, 7.1032, 6.3532, 5.6031,
-  4.8531, 4.1547, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 35.8041, 35.9445, 36.0848, 36.2252, 36.3656, 36.5062, 36.6467,
-  36.7872, 36.9277, 37.0683, 37.2088, 37.3493, 37.5014, 37.6445, 37.7809,
-  37.9174, 38.0539, 38.1903, -4.3458, -4.0471, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 12.7905, 12.7088, 12.6165, 12.5172, 12.4182,
-  12.3091, 12.1924, -999.0000, -999.0000, -999.0000, 12.1559, 12.1961, 12.2157,
-  12.2012, 12.1839, 12.1567, 12.1146, 12.0751, 12.0350, 11.9910, 11.9603,
-  11.9309, 11.8607, 11.7679, 11.3257, 10.7420, 9.7723, 8.7718, 7.4834,
-  6.2546, 4.9355, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  53.6281, 53.8423, 54.0545, 54.2635, 54.4868, 54.7134, 54.9401, 55.1663,
-  55.3901, 55.6139, 55.8376, 56.0614, 56.2852, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 30.2094, 29.8372, 29.4650, 29.0756, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.6265, 6.0812, 5.3312,
-  4.5811, 3.9496, 3.3230, 3.1296, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.9570, 36.0974, 36.2379, 36.3784, 36.5189,
-  36.6595, 36.8000, 36.9405, 37.0810, 37.2257, 37.3798, 37.5211, 37.6576,
-  37.7940, 37.9305, 38.0669, 38.2034, -4.1913, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 12.7227, 12.6909, 12.5967, 12.4943, 12.3919, 12.2721,
-  11.9232, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.1015, 12.1224, 12.0989, 12.0772, 12.0558, 12.0337, 12.0105,
-  11.9966, 11.9383, 11.8864, 11.4813, 10.9696, 10.1154, 9.1484, 7.9770,
-  6.7609, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 53.1633,
-  53.3775, 53.5916, 53.8041, 54.0130, 54.2250, 54.4517, 54.6783, 54.9048,
-  55.1286, 55.3523, 55.5761, 55.7999, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 31.3441, 30.5704, 30.1982, 29.8455, 29.5050, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.6030, 5.0592,
-  4.3712, 3.7446, 3.1179, 2.4913, 2.3078, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 35.9696, 36.1101, 36.2507, 36.3912,
-  36.5317, 36.6723, 36.8128, 36.9533, 37.1041, 37.2583, 37.3977, 37.5342,
-  37.6706, 37.8071, 37.9435, 38.0755, 38.2136, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 12.6781, 12.5890, 12.4937, 12.3819, 12.2657, 11.2378,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.0437, 12.0596, 12.0582,
-  12.0594, 12.0274, 12.0025, 11.6517, 11.1834, 10.4261, 9.4821, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 52.6985, 52.9126,
-  53.1268, 53.3410, 53.5536, 53.7626, 53.9716, 54.1900, 54.4166, 54.6433,
-  54.8671, 55.0908, 55.3146, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 31.7107, 30.9755, 30.6350, 30.2946, 30.7279, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.5811,
-  4.1414, 3.5036, 2.8657, 2.2279, 1.6082, 1.4177, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.9824, 36.1229, 36.2635,
-  36.4040, 36.5445, 36.6850, 36.8284, 36.9826, 37.1367, 37.2743, 37.4108,
-  37.5472, 37.6837, 37.8180, 37.9463, 38.0854, 38.2245, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.6418, 12.5917, 12.4943, 12.3912, 12.2763, 11.7762, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 52.2337, 52.4478, 52.6620,
-  52.8762, 53.0904, 53.3032, 53.5122, 53.7212, 53.9302, 54.1549, 54.3815,
-  54.6056, 54.8293, 55.0531, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 32.0782, 31.3470, 31.0362, 30.7254, 31.1900, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.6309, 3.2033, 2.5655, 1.9306, 1.3287, 0.7269, 0.5215, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.9952, 36.1357,
-  36.2763, 36.4168, 36.5573, 36.7069, 36.8610, 37.0145, 37.1509, 37.2874,
-  37.4238, 37.5603, 37.6836, 37.8181, 37.9572, 38.0963, 38.2355, 38.3746,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.5903, 12.5060, 12.4100, 12.3002, 12.1573, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 51.7880, 51.9866, 52.1972, 52.4114,
-  52.6256, 52.8397, 53.0528, 53.2618, 53.4708, 53.6798, 53.8932, 54.1198,
-  54.3440, 54.5678, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 32.0254, 31.7145, 31.4070, 31.1473, 31.6451, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.3597, 2.9031, 2.2653, 1.6511, 1.0493, 0.4474, -0.1545, -0.3668,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.0080,
-  36.1485, 36.2890, 36.4312, 36.5853, 36.7394, 36.8911, 37.0275, 37.1640,
-  37.3004, 37.4260, 37.5507, 37.6898, 37.8290, 37.9681, 38.1073, 38.2464,
-  38.3855, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.5181, 12.4273, 12.3286, 12.2144, 10.4084, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 51.3479, 51.5477, 51.7464, 51.9466, 52.1608,
-  52.3749, 52.5891, 52.8024, 53.0114, 53.2204, 53.4294, 53.6383, 53.8581,
-  54.0825, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 32.3929, 32.1166, 31.8570, 31.5973, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 3.3927, 1.9735, 1.3802, 0.7886, 0.1969, -0.3948, -1.0227,
-  -1.2555, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 36.1613, 36.3096, 36.4637, 36.6179, 36.7677, 36.9041, 37.0406,
-  37.1685, 37.2917, 37.4225, 37.5616, 37.7008, 37.8399, 37.9790, 38.1182,
-  38.2573, 38.3962, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.5174, 12.4523, 12.3604, 12.2570, 12.1102, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 51.1076, 51.3074, 51.5061, 51.7022, 51.9101,
-  52.1243, 52.3385, 52.5520, 52.7610, 52.9700, 53.1789, 53.3879, 53.5969,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 32.7682, 32.5203, 32.2724, 32.0246, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 2.5301, 1.1718, 0.5802, -0.0115, -0.6167, -1.2557,
-  -1.8947, -2.1414, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  37.0149, 36.0567, 36.1880, 36.3422, 36.4963, 36.6443, 36.7807, 36.9109,
-  37.0341, 37.1574, 37.2943, 37.4334, 37.5726, 37.7117, 37.8508, 37.9900,
-  38.1292, 38.2675, 38.4051, 38.5426, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.4636, 12.3852, 12.2934, 12.1909, 10.7659, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 50.6674, 50.8672, 51.0670, 51.2658, 51.4619, 51.6595,
-  51.8737, 52.0878, 52.3016, 52.5105, 52.7195, 52.9285, 53.1375, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 33.1319, 32.8841, 32.6430, 32.4633, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 1.7487, 0.3718, -0.2199, -0.8497, -1.4887,
-  -2.1277, -2.7667, -2.9907, -999.0000, -999.0000, -999.0000, -999.0000, 37.1142,
-  36.2317, 35.9546, 36.0462, 36.2206, 36.3747, 36.5209, 36.6533, 36.7766,
-  36.8998, 37.0270, 37.1661, 37.3052, 37.4444, 37.5835, 37.7227, 37.8619,
-  38.0012, 38.1389, 38.2764, 38.4140, 38.5515, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.4074, 12.3276, 12.2379, 12.1349, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 50.2273, 50.4271, 50.6269, 50.8267, 51.0256, 51.2217, 51.4178,
-  51.6230, 51.8372, 52.0511, 52.2601, 52.4691, 52.6781, 52.8871, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 33.4957, 33.2617, 33.0819, 32.9022, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 0.9487, -0.4436, -1.0734, -1.6913,
-  -2.3092, -2.9327, -3.5748, -3.8087, -999.0000, -999.0000, 37.2697, 36.5152,
-  36.1760, 35.8526, 35.9553, 36.0694, 36.2532, 36.3957, 36.5190, 36.6422,
-  36.7655, 36.8987, 37.0379, 37.1770, 37.3162, 37.4554, 37.5947, 37.7339,
-  37.8726, 38.0102, 38.1477, 38.2853, 38.4228, 38.5604, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.3704,
-  12.3581, 12.2799, 12.1926, 12.0422, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  49.7872, 49.9870, 50.1868, 50.3866, 50.5864, 50.7853, 50.9814, 51.1775,
-  51.3736, 51.5866, 51.8007, 52.0097, 52.2187, 52.4277, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 33.8697, 33.6830, 33.4964, 33.3146, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 0.1665, -1.2334, -1.8513,
-  -2.4692, -3.1029, -3.7450, -4.3871, -4.6025, 37.4256, 36.6409, 36.3695,
-  36.1137, 35.7506, 35.8471, 35.8952, 36.4665, 36.2614, 36.3847, 36.5079,
-  36.6314, 36.7705, 36.9097, 37.0489, 37.1881, 37.3274, 37.4666, 37.6058,
-  37.7440, 37.8815, 38.0191, 38.1566, 38.2942, 38.4317, 38.5693, 38.7058,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.3617,
-  12.3086, 12.2314, 12.1454, 11.1212, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 49.3667,
-  49.5515, 49.7467, 49.9465, 50.1463, 50.3461, 50.5450, 50.7411, 50.9372,
-  51.1333, 51.3360, 51.5501, 51.7593, 51.9683, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 34.2176, 34.0309, 33.8442, 33.7335, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.6083, -2.0113,
-  -2.6311, -3.2732, -3.9069, -4.5135, 37.5888, 36.7665, 36.4919, 36.2265,
-  35.9707, 35.6486, 35.7384, 36.2315, -999.0000, -7.5736, -6.8824, 36.3736,
-  36.5032, 36.6424, 36.7816, 36.9208, 37.0601, 37.1993, 37.3385, 37.4777,
-  37.6153, 37.7528, 37.8904, 38.0279, 38.1655, 38.3031, 38.4408, 38.5765,
-  38.7118, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.3283,
-  12.2663, 12.1930, 12.1085, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 48.9492, 49.1356,
-  49.3204, 49.5064, 49.7062, 49.9060, 50.1058, 50.3048, 50.5009, 50.6970,
-  50.8931, 51.0892, 51.2995, 51.5089, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 34.9829, 34.3788, 34.2507, 34.1524, 34.8319, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -1.3862,
-  -2.7912, -3.3977, -4.0043, 37.7425, 36.8921, 36.6175, 36.3429, 36.0835,
-  35.8278, 35.5553, 35.9975, -7.8664, -8.1690, -7.8408, -7.1566, -6.5794,
-  36.3751, 36.5143, 36.6535, 36.7928, 36.9320, 37.0712, 37.2105, 37.3491,
-  37.4866, 37.6242, 37.7617, 37.8993, 38.0369, 38.1746, 38.3119, 38.4472,
-  38.5825, 38.7177, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.2852,
-  12.2276, 12.1586, 12.0794, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 28.9223, 28.1061,
-  27.2689, 25.5941, 24.8866, 24.1790, 23.4643, 22.8360, 22.2950, 22.6323,
-  22.2122, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 48.5317, 48.7182, 48.9046,
-  49.0894, 49.2723, 49.4658, 49.6656, 49.8654, 50.0645, 50.2606, 50.4567,
-  50.6528, 50.8489, 51.0489, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.3278, 34.7678, 34.6685, 34.5650, 35.2434, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -2.1160, 37.9688, 37.1437, 36.9678, 36.7432, 36.4686, 36.1963, 35.9405,
-  35.6848, 35.8485, -7.9916, -8.1706, -8.0979, -7.8537, -7.1635, -6.6238,
-  -6.0981, 36.3862, 36.5255, 36.6647, 36.8039, 36.9432, 37.0824, 37.2204,
-  37.3579, 37.4955, 37.6330, 37.7707, 37.9084, 38.0461, 38.1826, 38.3179,
-  38.4532, 38.5884, 38.7237, 38.8590, -999.0000, -999.0000, -999.0000, 12.2493,
-  12.1939, 12.1297, 12.0467, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 30.6166, 29.7357, 28.0110, 27.1384,
-  26.2861, 25.4338, 24.7223, 24.0147, 23.2221, 22.5937, 22.0576, 21.5908,
-  21.1874, 20.8422, 21.3702, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 48.1142, 48.3007, 48.4871, 48.6736,
-  48.8583, 49.0413, 49.2255, 49.4253, 49.6251, 49.8242, 50.0203, 50.2164,
-  50.4125, 50.6086, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.6555, 35.1615, 35.0692, 34.9656, 35.6440, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  37.9927, 37.1301, 36.9542, 36.7784, 36.5942, 36.3196, 36.0533, 35.7976,
-  35.9576, -7.6583, -7.9080, -8.0503, -8.0142, -7.8838, -7.2053, -6.6701,
-  -6.1477, -5.6355, 36.3974, 36.5366, 36.6759, 36.8151, 36.9542, 37.0917,
-  37.2293, 37.3669, 37.5046, 37.6423, 37.7800, 37.9177, 38.0533, 38.1886,
-  38.3239, 38.4591, 38.5944, 38.7297, 38.8649, -999.0000, -999.0000, 12.2152,
-  12.1645, 12.1057, 12.0175, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 33.1449, 32.3214, 30.6207, 29.7297, 28.8387, 27.9477, 26.9838,
-  26.1315, 25.2792, 24.5580, 23.8176, 22.9799, 22.3514, 21.8201, 21.3625,
-  20.9733, 20.6424, 20.3658, 20.9365, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 47.6967, 47.8832, 48.0696, 48.2561, 48.4426,
-  48.6272, 48.8102, 48.9932, 49.1850, 49.3848, 49.5839, 49.7800, 49.9761,
-  50.1722, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.9710, 35.4722, 35.4102, 35.3481, 35.2628, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.0258,
-  37.1165, 36.9406, 36.7648, 36.5889, 36.4131, 36.1706, 35.9103, 36.0668,
-  -7.2582, -7.5871, -7.7785, -7.9299, -7.9311, -7.8785, -7.2762, -6.7458,
-  -6.2158, -5.6944, -999.0000, -999.0000, 36.5478, 36.6870, 36.8255, 36.9630,
-  37.1007, 37.2384, 37.3761, 37.5138, 37.6515, 37.7887, 37.9240, 38.0593,
-  38.1946, 38.3298, 38.4651, 38.6004, 38.7356, 38.8679, 39.0001, 12.1851,
-  12.1388, 12.0854, 11.9919, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  34.0258, 32.3563, 31.5029, 30.6495, 29.6620, 28.7710, 27.8800, 26.9095,
-  25.9769, 25.1246, 24.3938, 23.5746, 22.7377, 22.1091, 21.5827, 21.1342,
-  20.7592, 20.4470, 20.1807, 19.9542, 20.5522, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 47.2971, 47.4657, 47.6522, 47.8386, 48.0251, 48.2115,
-  48.3962, 48.5791, 48.7621, 48.9451, 49.1445, 49.3437, 49.5398, 49.7359,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.7830, 35.7209, 35.6660, 35.6309, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.2073, 38.0499, 37.1047,
-  36.9271, 36.7512, 36.5753, 36.3995, 36.2236, 36.0231, 36.1757, -6.7967,
-  -7.1999, -7.4980, -7.6501, -7.8022, -7.8215, -7.7986, -7.3471, -6.8214,
-  -6.2960, -5.7927, -999.0000, -999.0000, -999.0000, 36.5590, 36.6969, 36.8346,
-  36.9723, 37.1100, 37.2477, 37.3853, 37.5230, 37.6594, 37.7947, 37.9300,
-  38.0652, 38.2005, 38.3359, 38.4714, 38.6055, 38.7378, 38.8700, 39.0022,
-  12.1143, 12.0668, 11.9770, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 35.6138, 34.0596,
-  33.2487, 32.3647, 31.5113, 30.6579, 29.6817, 28.7032, 27.8122, 26.8561,
-  25.8614, 24.9700, 24.2225, 23.3317, 22.4955, 21.8707, 21.3453, 20.9060,
-  20.5451, 20.2517, 20.0062, 19.7861, 19.5889, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 46.9056, 47.0769, 47.2440, 47.4211, 47.6076, 47.7941, 47.9805,
-  48.1651, 48.3481, 48.5310, 48.7140, 48.9042, 49.1034, 49.2995, 49.4956,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 36.0988, 36.0637, 36.0287, 35.9936, 36.7522,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 38.2003, 37.2747, 37.1139, 36.9479,
-  36.7703, 36.5927, 36.4151, 36.2375, 36.4711, 36.2738, -5.5830, -5.9624,
-  -6.3657, -7.3696, -7.5217, -7.6737, -6.9234, -999.0000, -7.3352, -6.8649,
-  -6.3780, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.5684, 36.7061,
-  36.8438, 36.9815, 37.1192, 37.2569, 37.3946, 37.5301, 37.6654, 37.8007,
-  37.9360, 38.0714, 38.2069, 38.3424, 38.4754, 38.6077, 38.7399, 38.8721,
-  39.0044, 12.0528, 11.9717, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 37.0825, 36.4339, 34.9066, 34.2006,
-  33.3664, 32.4153, 31.5197, 30.6663, 29.7218, 28.7117, 27.7445, 26.8028,
-  25.8081, 24.8154, 23.9796, 23.0888, 22.2532, 21.6338, 21.1092, 20.6786,
-  20.3342, 20.0588, 19.8317, 19.6297, 19.4333, 20.0548, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  46.5141, 46.6853, 46.8566, 47.0236, 47.1901, 47.3766, 47.5630, 47.7495,
-  47.9341, 48.1170, 48.3000, 48.4829, 48.6659, 48.8631, 49.0592, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 36.7951, 36.3564, 36.3433, 36.3302, 37.0990,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 38.1993, 37.2723, 37.1116, 36.9508, 36.7901,
-  36.6135, 36.4359, 36.2583, 36.4919, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.7670, -7.2819, -6.8181,
-  -6.3563, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  36.7153, 36.8530, 36.9907, 37.1284, 37.2655, 37.4008, 37.5361, 37.6714,
-  37.8069, 37.9424, 38.0779, 38.2131, 38.3453, 38.4776, 38.6098, 38.7420,
-  38.8743, 39.0065, 39.1384, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 37.7692, 36.3845, 35.7535, 35.0476, 34.3416,
-  33.4696, 32.5364, 31.5819, 30.6747, 29.7619, 28.7518, 27.7418, 26.7494,
-  26.5747, 25.5579, 24.6036, 23.6944, -999.0000, 22.2133, 21.6944, 21.2752,
-  20.1385, 19.8839, 19.6707, 19.4736, 19.2873, 19.1025, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 45.9513, 46.1226,
-  46.2938, 46.4651, 46.6363, 46.8031, 46.9683, 47.1456, 47.3320, 47.5185,
-  47.7030, 47.8860, 48.0689, 48.2519, 48.4348, 48.6229, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 37.0696, 36.6263, 36.6132, 36.6136, 36.6343,
-  37.4518, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.3464, 38.2039, 37.2700, 37.1092, 36.9485, 36.7877, 36.6269,
-  36.4567, 36.2791, 36.5128, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.6758, -7.2296, -6.7713,
-  -6.3176, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 36.7246, 36.8623, 37.0000, 37.1362, 37.2715, 37.4069, 37.5424,
-  37.6779, 37.8134, 37.9488, 38.0830, 38.2152, 38.3475, 38.4797, 38.6119,
-  38.7442, 38.8766, 39.0074, 39.1358, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 38.4559, 37.1313, 36.4931, 35.8864, 35.1886, 34.4600,
-  33.5729, 32.6575, 31.7030, 30.7486, 29.8021, 29.6095, 28.5734, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  20.7515, 19.7120, 19.5142, 19.3263, 19.1415, 18.9852, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 45.5684, 45.7310, 45.9023,
-  46.0736, 46.2448, 46.4161, 46.5827, 46.7478, 46.9145, 47.1010, 47.2875,
-  47.4719, 47.6549, 47.8379, 48.0208, 48.2038, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 36.8962, 36.9058, 36.9265, 36.9472,
-  37.7453, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  38.3444, 37.4348, 37.2765, 37.1131, 36.9497, 36.7863, 36.6246, 36.4638,
-  36.3000, 36.5336, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -7.1828, -6.8316, -6.4873,
-  -6.1505, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 36.7338, 36.8715, 37.0070, 37.1424, 37.2779, 37.4134,
-  37.5489, 37.6843, 37.8198, 37.9529, 38.0851, 38.2174, 38.3496, 38.4818,
-  38.6143, 38.7468, 38.8763, 39.0047, 39.1331, 39.2615, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.2391, 37.8102, 37.2959, 36.6347, 35.9949, 35.3297, 34.5633,
-  33.6762, 32.7785, 31.8241, 31.6730, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 20.3621, 19.3658, 19.1904, 19.0424, 18.8944, 19.5651, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 45.2206, 45.3648, 45.5108, 45.6821,
-  45.8533, 46.0246, 46.1958, 46.3623, 46.5274, 46.6925, 46.8700, 47.0564,
-  47.2409, 47.4238, 47.6068, 47.7898, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 37.5602, 37.1553, 37.1774, 37.1995,
-  37.2390, 38.0775, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.4789, 38.3508,
-  37.4369, 37.2962, 37.1456, 36.9822, 36.8188, 36.6553, 36.4919, 36.7391,
-  36.5557, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.6906, -6.3435, -6.0035,
-  -5.6706, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 36.8779, 37.0134, 37.1489, 37.2844,
-  37.4198, 37.5553, 37.6906, 37.8228, 37.9550, 38.0873, 38.2196, 38.3521,
-  38.4846, 38.6169, 38.7453, 38.8737, 39.0020, 39.1304, 39.2588, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 39.7832,
-  38.7433, 38.3581, 37.9582, 37.4604, 36.8267, 36.1150, 35.4707, 34.6666,
-  33.7795, 33.7220, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 19.1966, 19.0472, 18.8978, 18.7618, 19.4732, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 44.8728, 45.0169, 45.1611, 45.2979, 45.4618,
-  45.6331, 45.8043, 45.9756, 46.1418, 46.3070, 46.4721, 46.6389, 46.8254,
-  47.0098, 47.1928, 47.3757, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 37.3748, 37.3968, 37.4325,
-  37.4910, 37.5495, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.4870, 37.5798, 37.4391,
-  37.2984, 37.1577, 37.0146, 36.8512, 36.6878, 36.5244, 36.7701, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -6.1249, -5.8156, -5.5155,
-  -5.1973, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.8844, 37.0199, 37.1553,
-  37.2908, 37.4263, 37.5605, 37.6927, 37.8249, 37.9573, 38.0898, 38.2223,
-  38.3548, 38.4859, 38.6143, 38.7426, 38.8710, 38.9994, 39.1277, 39.2561,
-  39.3818, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 40.0330, 39.1419,
-  38.8834, 38.5250, 38.0772, 37.6249, 37.0035, 36.3070, 35.6053, 35.5989,
-  34.7390, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 19.7647, 18.8695, 18.7724, 18.6752, 19.3834, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 44.5249, 44.6691, 44.8132, 44.9572, 45.0938, 45.2415,
-  45.4128, 45.5841, 45.7553, 45.9214, 46.0865, 46.2517, 46.4168, 46.5944,
-  46.7788, 46.9617, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.0118, 37.6259, 37.6844,
-  37.7274, 37.7662, 38.6061, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 38.6120, 37.7247, 37.5820, 37.4413, 37.3006,
-  37.1598, 37.0191, 36.8784, 36.7202, 36.5568, 36.8002, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -5.1071, -4.7882, -4.4771,
-  -4.1856, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 36.8908, 37.0263,
-  37.1618, 37.2973, 37.4304, 37.5626, 37.6951, 37.8276, 37.9601, 38.0926,
-  38.2251, 38.3548, 38.4832, 38.6116, 38.7400, 38.8683, 38.9968, 39.1255,
-  39.2495, 39.3725, 39.4956, -999.0000, -999.0000, 40.1014, 39.4520, 39.3413,
-  39.0235, 38.7650, 38.2320, 37.7894, 37.1794, 36.4990, 36.5790, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 19.5512, 18.6877, 18.6311, 18.5745, 18.4914, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 44.1771, 44.3213, 44.4654, 44.6096, 44.7531, 44.8896, 45.0262,
-  45.1926, 45.3638, 45.5351, 45.7009, 45.8661, 46.0312, 46.1963, 46.3634,
-  46.5477, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 37.8101, 37.8489,
-  37.8878, 37.9418, 38.0145, 38.8605, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.7235, 37.8450, 37.7284, 37.6118, 37.4720, 37.3258, 37.1796,
-  37.0335, 36.8873, 36.7411, 36.9999, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -4.0950, -3.7647, -3.4416,
-  -3.1385, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  37.0328, 37.1680, 37.3003, 37.4328, 37.5653, 37.6978, 37.8303, 37.9628,
-  38.0953, 38.2238, 38.3522, 38.4805, 38.6089, 38.7374, 38.8661, 38.9941,
-  39.1172, 39.2402, 39.3633, 39.4863, -999.0000, 39.5828, 39.6165, 39.5065,
-  39.2545, 38.9052, 38.4843, 37.9389, 38.1596, 37.4739, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 19.3408, 18.4886, 18.4339, 18.3961, 18.4024, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 43.7277,
-  43.8354, 43.9734, 44.1176, 44.2617, 44.4059, 44.5489, 44.6855, 44.8220,
-  44.9723, 45.1436, 45.3148, 45.4805, 45.6456, 45.8108, 45.9759, 46.1410,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.3993, 38.0094,
-  38.0509, 38.1236, 38.1836, 38.2195, 38.2780, 39.1328, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.9262, 38.8420,
-  37.9635, 37.8469, 37.7302, 37.6136, 37.4970, 37.3654, 37.2193, 37.0731,
-  36.9269, 36.7808, 37.0339, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -3.1497, -2.8334, -2.5203,
-  -2.2159, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 37.0381, 37.1706, 37.3031, 37.4356, 37.5681, 37.7006, 37.8331,
-  37.9644, 38.0927, 38.2211, 38.3495, 38.4781, 38.6068, 38.7355, 38.8618,
-  38.9849, 39.1079, 39.2310, 39.3540, 39.4771, 39.6267, 39.7143, 39.6716,
-  39.5277, 39.1219, 38.7367, 38.9085, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 17.1971, 17.3595, 17.5212, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 19.1490, 18.3089, 18.3152, 18.3215, 18.3278, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 43.4328, 43.5426,
-  43.6496, 43.7698, 43.9139, 44.0581, 44.2022, 44.3448, 44.4813, 44.6179,
-  44.7544, 44.9233, 45.0946, 45.2601, 45.4252, 45.5903, 45.7555, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.5827,
-  38.2131, 38.2460, 38.2789, 38.3260, 38.3844, 38.4287, 39.2135, 39.2471,
-  39.2380, 39.1910, 39.1439, 39.0862, 39.0070, 38.9279, 38.0681, 37.9801,
-  37.8575, 37.7321, 37.6155, 37.4988, 37.3822, 37.2589, 37.1127, 36.9665,
-  37.2304, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -2.3124, -1.9813, -1.6564,
-  -1.3321, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 37.1733, 37.3058, 37.4383, 37.5708, 37.7033,
-  37.8333, 37.9617, 38.0901, 38.2188, 38.3475, 38.4762, 38.6049, 38.7296,
-  38.8526, 38.9757, 39.0987, 39.2218, 39.3453, 39.5028, 39.6659, 39.8134,
-  39.7121, 39.3951, 39.5504, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  16.7924, 17.0928, 17.3333, 17.4958, 17.6578, 17.6866, 16.6149, -999.0000,
-  -999.0000, -999.0000, 18.9668, 18.1883, 18.2094, 18.2306, 18.2518, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 43.1379, 43.2477, 43.3576,
-  43.4638, 43.5661, 43.7102, 43.8544, 43.9985, 44.1406, 44.2772, 44.4137,
-  44.5503, 44.7030, 44.8743, 45.0396, 45.2048, 45.3699, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  38.7181, 38.3413, 38.3742, 38.4324, 38.4553, 38.4593, 38.4737, 38.4867,
-  38.4214, 38.3673, 38.3131, 38.2446, 38.1533, 38.0653, 37.9773, 37.8894,
-  37.7746, 37.6472, 37.5199, 37.3926, 37.2674, 37.1508, 37.4162, 37.2684,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -1.4793, -1.1401, -1.0274,
-  -1.0644, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 37.1761, 37.3086, 37.4411, 37.5736,
-  37.7023, 37.8307, 37.9594, 38.0881, 38.2168, 38.3455, 38.4742, 38.5973,
-  38.7203, 38.8434, 38.9664, 39.0900, 39.2156, 39.3788, 39.5420, 39.6757,
-  39.7228, 40.1634, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.6025,
-  16.9089, 17.1778, 17.4331, 17.5984, 17.7469, 17.7678, 17.7844, 16.8533,
-  -999.0000, -999.0000, 17.9973, 18.0420, 18.0953, 18.1485, 19.0060, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 42.7331, 42.8429, 42.9528, 43.0627, 43.1726,
-  43.2780, 43.3796, 43.5066, 43.6507, 43.7949, 43.9365, 44.0730, 44.2096,
-  44.3461, 44.4828, 44.6540, 44.8192, 44.9843, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.4366, 38.4804, 38.4820, 38.4831, 38.4907, 38.5051, 38.4521,
-  38.3699, 38.3035, 38.2494, 38.1845, 38.0766, 37.9746, 37.8866, 37.7986,
-  37.6916, 37.5643, 37.4369, 37.3096, 37.1823, 37.4549, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.9134, -0.8808, -0.8929,
-  -0.8918, -0.7984, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 37.3113, 37.4429,
-  37.5714, 37.7001, 37.8288, 37.9575, 38.0862, 38.2149, 38.3419, 38.4650,
-  38.5880, 38.7111, 38.8346, 38.9582, 39.0917, 39.2548, 39.4140, 39.5356,
-  39.5851, 39.6613, 39.7765, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.3510, 16.6790,
-  16.9881, 17.2556, 17.5244, 17.6976, 17.8200, 17.8411, 17.8592, 17.8139,
-  -999.0000, -999.0000, 17.8549, 17.9511, 18.0466, 18.0998, 18.9574, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 42.4504, 42.5480, 42.6579, 42.7678, 42.8776, 42.9875,
-  43.0922, 43.1938, 43.3029, 43.4470, 43.5912, 43.7323, 43.8689, 44.0054,
-  44.1420, 44.2785, 44.4336, 44.5987, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.9424, 38.9210, 38.5097, 38.5109, 38.5222, 38.4728, 38.4176,
-  38.3318, 38.2436, 38.1856, 38.1244, 38.0165, 37.9087, 37.8008, 37.7079,
-  37.6086, 37.4813, 37.3540, 37.6345, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.7133, -0.6887,
-  -0.6222, -0.4046, -0.0420, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 37.3120,
-  37.4407, 37.5694, 37.6981, 37.8268, 37.9555, 38.0842, 38.2096, 38.3327,
-  38.4557, 38.5793, 38.7028, 38.8264, 38.9677, 39.1309, 39.2711, 39.3926,
-  39.4473, 39.5279, 39.6430, 39.7499, 39.8537, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.0681, 16.4288, 16.7391,
-  17.0458, 17.3313, 17.6003, 17.7926, 17.8907, 17.9116, 17.8945, 17.8546,
-  18.1212, 18.3792, 17.7672, 17.8693, 17.9545, 18.0397, 18.9123, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 42.2005, 42.2803, 42.3630, 42.4728, 42.5827, 42.6926, 42.8025,
-  42.9064, 43.0081, 43.1097, 43.2434, 43.3875, 43.5282, 43.6647, 43.8013,
-  43.9378, 44.0744, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 38.9570, 38.5392, 38.4935, 38.4382, 38.3820,
-  38.2937, 38.2054, 38.1219, 38.0643, 37.9565, 37.8486, 37.7407, 37.6328,
-  37.5257, 37.8079, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.4979, -0.4412,
-  -0.2635, -0.0424, 0.3416, 0.7944, 1.0269, 1.2246, 1.3336, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 37.4388, 37.5675, 37.6962, 37.8249, 37.9536, 38.0773, 38.2004,
-  38.3239, 38.4475, 38.5711, 38.6946, 38.8438, 39.0066, 39.1282, 39.2497,
-  39.3096, 39.3944, 39.5096, 39.6138, 39.7177, 39.8215, 39.9254, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.1522, 16.4780, 16.7948,
-  17.1017, 17.4000, 17.6632, 17.8618, 17.9526, 17.9564, 17.9203, 17.8970,
-  17.8487, 17.6708, 17.6994, 17.8331, 17.9464, 18.0316, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 41.8709,
-  41.9506, 42.0304, 42.1100, 42.1835, 42.2878, 42.3977, 42.5075, 42.6174,
-  42.7206, 42.8223, 42.9239, 43.0397, 43.1838, 43.3240, 43.4606, 43.5971,
-  43.7337, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 38.9519, 38.8793, 38.4037, 38.3439,
-  38.2556, 38.1673, 38.0791, 38.0039, 37.8964, 38.1977, 38.0898, 37.9707,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.2874, -0.1256,
-  0.0419, 0.2997, 0.6714, 1.0636, 1.2884, 1.4771, 1.6063, 1.7203,
-  1.8236, 1.8973, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 37.4368, 37.5656, 37.6943, 37.8220, 37.9451, 38.0686,
-  38.1921, 38.3157, 38.4393, 38.5628, 38.7198, 38.8637, 38.9852, 39.1068,
-  39.1718, 39.2610, 39.3740, 39.4778, 39.5816, 39.6855, 39.7893, 39.8932,
-  39.9950, -999.0000, -999.0000, -999.0000, 15.8701, 16.2018, 16.5234, 16.8452,
-  17.1520, 17.4384, -999.0000, -999.0000, -999.0000, 17.9730, 17.9430, 17.9226,
-  17.8981, 17.7767, 17.7565, 17.8345, 17.9175, 18.8277, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 41.6210, 41.7008,
-  41.7806, 41.8603, 41.9392, 42.0128, 42.1027, 42.2126, 42.3225, 42.4324,
-  42.5348, 42.6365, 42.7381, 42.8397, 42.9802, 43.1199, 43.2564, 43.3930,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.7147,
-  38.6264, 38.5358, 38.4440, 38.3521, 38.2441, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 0.1674,
-  0.3583, 0.6402, 1.0060, 1.3265, 1.5360, 1.7182, 1.8561, 1.9823,
-  2.0935, 2.1687, 2.2178, 2.2633, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 11.8714, 11.9011, 37.5636, 37.6897, 37.8132, 37.9368,
-  38.0604, 38.1839, 38.3075, 38.4327, 38.5958, 38.7207, 38.8423, 38.9638,
-  39.0341, 39.1276, 39.2379, 39.3418, 39.4456, 39.5494, 39.6533, 39.7580,
-  39.8581, 39.9493, 40.0406, 40.1318, 15.9160, 16.2437, 16.5668, 16.8857,
-  17.1847, -999.0000, -999.0000, -999.0000, -999.0000, 17.9675, 17.9572, 17.9517,
-  17.9474, 17.8853, 17.8651, 17.8868, 17.9697, 18.8425, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 41.3290, 41.3786, 41.4509, 41.5307,
-  41.6105, 41.6902, 41.7685, 41.8420, 41.9177, 42.0276, 42.1374, 42.2473,
-  42.3490, 42.4507, 42.5523, 42.6540, 42.7765, 42.9158, 43.0523, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  0.6365, 0.9603, 1.3197, 1.5806, 1.7815, 1.9597, 2.1033, 2.2377,
-  2.3593, 2.4344, 2.4896, 2.5676, 2.6146, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 11.8408, 11.8857, 11.9162, 37.5579, 37.6814, 37.8050,
-  37.9286, 38.0521, 38.1757, 38.3087, 38.4563, 38.5778, 38.6993, 38.8209,
-  38.8964, 38.9941, 39.1019, 39.2057, 39.3096, 39.4134, 39.5179, 39.6237,
-  39.7211, 39.8124, 39.9036, 39.9949, 40.0861, 40.1774, 16.6074, 16.9171,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 17.9675, 17.9781,
-  17.9938, 17.9939, 17.9737, 17.9534, 18.8263, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 41.0705, 41.1212, 41.1719, 41.2207, 41.2808, 41.3606,
-  41.4404, 41.5201, 41.5978, 41.6713, 41.7448, 41.8425, 41.9524, 42.0616,
-  42.1632, 42.2649, 42.3665, 42.4682, 42.5728, 42.7116, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 1.6053, 1.8257, 2.0217, 2.1965, 2.3507, 2.4936,
-  2.6274, 2.7015, 2.7675, 2.8773, 2.9395, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 11.8642, 11.9016, 11.9343, 11.9612, 37.6732,
-  37.7968, 37.9203, 38.0439, 38.1847, 38.3133, 38.4349, 38.5564, 38.6779,
-  38.7586, 38.8607, 38.9659, 39.0697, 39.1735, 39.2778, 39.3836, 39.4895,
-  39.5842, 39.6754, 39.7667, 39.8579, 39.9492, 40.0412, 40.1187, 40.1958,
-  40.2728, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 17.9718, 18.0033,
-  18.0336, 18.0302, 18.0273, 18.7259, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  40.8120, 40.8627, 40.9134, 40.9641, 41.0149, 41.0628, 41.1108, 41.1905,
-  41.2703, 41.3501, 41.4271, 41.5006, 41.5741, 41.6575, 41.7673, 41.8758,
-  41.9774, 42.0791, 42.1807, 42.2824, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 2.4117, 2.5852, 2.7457,
-  2.8843, 2.9652, 3.0781, 3.1815, 3.2540, 3.2863, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 11.8444, 11.8871, 11.9211, 11.9548, 11.9624,
-  37.6650, 37.7885, 37.9121, 38.0488, 38.1704, 38.2919, 38.4134, 38.5350,
-  38.6209, 38.7260, 38.8298, 38.9337, 39.0377, 39.1435, 39.2494, 39.3553,
-  39.4472, 39.5385, 39.6297, 39.7210, 39.8128, 39.9033, 39.9803, 40.0573,
-  40.1344, 40.2114, 40.2884, 40.3552, -999.0000, -999.0000, 17.9877, 18.0348,
-  18.0763, 18.0721, 18.5572, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 40.6253, 40.6449,
-  40.6627, 40.7056, 40.7564, 40.8071, 40.8578, 40.9049, 40.9489, 41.0204,
-  41.1002, 41.1800, 41.2563, 41.3299, 41.4034, 41.4769, 41.5823, 41.6900,
-  41.7917, 41.8933, 41.9949, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 3.2163, 3.4090, 3.5141, 3.5759, 3.6084, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 11.8695, 11.9094, 11.9450, 11.9739,
-  11.1034, -999.0000, 37.7803, 37.9059, 38.0274, 38.1490, 38.2705, 38.3920,
-  38.4831, 38.5899, 38.6938, 38.7976, 38.9035, 39.0093, 39.1152, 39.2190,
-  39.3103, 39.4015, 39.4928, 39.5843, 39.6766, 39.7648, 39.8419, 39.9189,
-  39.9959, 40.0730, 40.1504, 40.2151, 40.2696, 40.3241, 40.3787, 40.4332,
-  18.1177, 18.1243, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 40.4268, 40.4410, 40.4606, 40.4802, 40.4998,
-  40.5165, 40.5486, 40.5993, 40.6500, 40.7007, 40.7470, 40.7909, 40.8504,
-  40.9301, 41.0099, 41.0856, 41.1591, 41.2327, 41.3062, 41.3972, 41.5042,
-  41.6059, 41.7075, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.7192, 8.5749, 8.3872,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 3.7539, 3.8733, 3.9240, 3.9410, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 11.8532, 11.9007, 11.9382, 11.9732,
-  12.0013, -999.0000, -999.0000, -999.0000, 37.8845, 38.0060, 38.1276, 38.2491,
-  38.3454, 38.4539, 38.5578, 38.6634, 38.7692, 38.8751, 38.9810, 39.0821,
-  39.1733, 39.2646, 39.3559, 39.4482, 39.5405, 39.6264, 39.7034, 39.7805,
-  39.8575, 39.9346, 40.0128, 40.0749, 40.1294, 40.1840, 40.2385, 40.2931,
-  40.3435, 40.3764, 40.4094, 40.4424, 40.4753, 40.5030, 40.5036, 40.5042,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 40.4053, 40.3742, 40.3515,
-  40.3367, 40.3219, 40.3072, 40.2912, 40.2959, 40.3155, 40.3352, 40.3548,
-  40.3702, 40.3915, 40.4422, 40.4930, 40.5437, 40.5891, 40.6330, 40.6803,
-  40.7600, 40.8398, 40.9149, 40.9884, 41.0619, 41.1355, 41.2122, 41.3184,
-  41.4201, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.9855, 8.8780, 8.7260, 8.5735, 8.4084,
-  8.2435, 8.0587, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.2608, 4.2865, 4.2455, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.8900, 11.9320, 11.9720,
-  12.0071, 11.9905, -999.0000, -999.0000, -999.0000, -999.0000, 37.9846, 38.1062,
-  38.2118, 38.3179, 38.4233, 38.5291, 38.6350, 38.7409, 38.8467, 38.9451,
-  39.0364, 39.1276, 39.2198, 39.3121, 39.4044, 39.4880, 39.5650, 39.6420,
-  39.7190, 39.7970, 39.8752, 39.9347, 39.9892, 40.0438, 40.0983, 40.1546,
-  40.2041, 40.2370, 40.2700, 40.3030, 40.3359, 40.3606, 40.3638, 40.3644,
-  40.3650, 40.3656, 40.3643, 40.3332, 40.3021, 40.2710, 40.2399, 40.2170,
-  40.2023, 40.1875, 40.1727, 40.1550, 40.1509, 40.1705, 40.1901, 40.2097,
-  40.2239, 40.2366, 40.2852, 40.3359, 40.3866, 40.4311, 40.4751, 40.5191,
-  40.5899, 40.6697, 40.7441, 40.8177, 40.8912, 40.9647, 41.0383, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 9.0710, 8.9905, 8.8638, 8.7105, 8.5583, 8.3972,
-  8.2366, 8.0661, 7.8921, 7.4205, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.5386, 4.4904, 4.4323, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.8792, 11.9316, 11.9734,
-  12.0124, 12.0513, 10.9844, -999.0000, -999.0000, -999.0000, -999.0000, 37.9632,
-  38.0780, 38.1832, 38.2890, 38.3949, 38.5008, 38.6066, 38.7125, 38.8082,
-  38.8994, 38.9913, 39.0837, 39.1760, 39.2683, 39.3495, 39.4265, 39.5036,
-  39.5812, 39.6594, 39.7376, 39.7945, 39.8490, 39.9036, 39.9583, 40.0168,
-  40.0647, 40.0977, 40.1306, 40.1636, 40.1887, 40.2077, 40.2241, 40.2247,
-  40.2253, 40.2259, 40.2300, 40.1989, 40.1678, 40.1367, 40.1065, 40.0826,
-  40.0678, 40.0530, 40.0382, 40.0187, 40.0058, 40.0254, 40.0450, 40.0646,
-  40.0777, 40.0903, 40.1281, 40.1789, 40.2293, 40.2732, 40.3172, 40.3611,
-  40.4199, 40.4996, 40.5734, 40.6469, 40.7205, 40.7940, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.2541, 9.1341, 8.9890, 8.8435, 8.6920, 8.5413, 8.3832,
-  8.2230, 8.0563, 7.8884, 7.7092, 7.5155, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.7561, 4.6903, 4.6191, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.9275, 11.9742,
-  12.0219, 12.0677, 12.1076, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 38.0489, 38.1548, 38.2607, 38.3666, 38.4724, 38.5783, 38.6712,
-  38.7629, 38.8552, 38.9476, 39.0399, 39.1322, 39.2111, 39.2881, 39.3654,
-  39.4436, 39.5218, 39.5998, 39.6543, 39.7089, 39.7634, 39.8205, 39.8791,
-  39.9253, 39.9583, 39.9912, 40.0242, 40.0336, 40.0547, 40.0844, 40.0850,
-  40.0855, 40.0861, 40.0957, 40.0646, 40.0335, 40.0024, 39.9736, 39.9481,
-  39.9333, 39.9185, 39.9037, 39.8825, 39.8607, 39.8803, 39.8999, 39.9188,
-  39.9314, 39.9440, 39.9711, 40.0218, 40.0714, 40.1153, 40.1593, 40.2032,
-  40.2498, 40.3292, 40.4027, 40.4762, 40.5497, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.2520, 9.1123, 8.9652, 8.8191, 8.6704, 8.5213, 8.3684,
-  8.2083, 8.0449, 7.8769, 7.7050, 7.5271, 7.3370, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.9137, 4.8444, 4.7731, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.9135, 11.9813,
-  12.0318, 12.0790, 12.1361, 12.1837, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 38.1265, 38.2323, 38.3382, 38.4430, 38.5345,
-  38.6268, 38.7191, 38.8115, 38.9038, 38.9956, 39.0726, 39.1497, 39.2278,
-  39.3060, 39.3842, 39.4596, 39.5141, 39.5687, 39.6242, 39.6828, 39.7414,
-  39.7859, 39.8189, 39.8518, 39.8761, 39.8784, 39.9018, 39.9446, 39.9452,
-  39.9458, 39.9476, 39.9613, 39.9303, 39.8992, 39.8681, 39.8407, 39.8139,
-  39.7988, 39.7840, 39.7686, 39.7463, 39.7240, 39.7353, 39.7549, 39.7725,
-  39.7851, 39.7978, 39.8140, 39.8647, 39.9134, 39.9574, 40.0014, 40.0453,
-  40.0893, 40.1584, 40.2320, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.2302, 9.0854, 8.9379, 8.7868, 8.6270, 8.4804, 8.3454,
-  8.1910, 8.0338, 7.8663, 7.6976, 7.5222, 7.3434, 7.1562, 5.5455,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0190, 4.9784, 4.8932, 4.8086, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.9854,
-  12.0432, 12.0997, 12.1594, 12.2211, 12.2940, 12.3031, -999.0000, -999.0000,
-  -999.0000, -999.0000, 13.2482, 13.5248, 13.8011, 38.2040, 38.3061, 38.3984,
-  38.4907, 38.5830, 38.6754, 38.7677, 38.8572, 38.9342, 39.0120, 39.0902,
-  39.1684, 39.2466, 39.3194, 39.3739, 39.4285, 39.4864, 39.5450, 39.6036,
-  39.6465, 39.6795, 39.7125, 39.7209, 39.7233, 39.7488, 39.8049, 39.8055,
-  39.8061, 39.8109, 39.8246, 39.7960, 39.7649, 39.7345, 39.7078, 39.6810,
-  39.6643, 39.6495, 39.6323, 39.6101, 39.5878, 39.5902, 39.6098, 39.6263,
-  39.6389, 39.6515, 39.6641, 39.7077, 39.7555, 39.7995, 39.8434, 39.8874,
-  39.9313, 39.9877, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.3348, 9.2067, 9.0567, 8.9092, 8.8326, -999.0000, -999.0000, -999.0000,
-  8.1515, 8.0151, 7.8556, 7.6883, 7.5160, 7.3398, 7.1589, 6.9694,
-  6.0847, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0978, 5.0376, 4.9403, 4.8441, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.0521, 12.1212, 12.1831, 12.2578, 12.3387, 12.4358, 12.5448, 12.6988,
-  12.8798, 13.0856, 13.3290, 13.5767, 13.8493, 14.1220, 14.4131, 14.6997,
-  38.3546, 38.4469, 38.5393, 38.6316, 38.7187, 38.7961, 38.8744, 38.9526,
-  39.0308, 39.1090, 39.1792, 39.2337, 39.2901, 39.3487, 39.4073, 39.4659,
-  39.5071, 39.5401, 39.5634, 39.5658, 39.5682, 39.5959, 39.6651, 39.6657,
-  39.6663, 39.6742, 39.6879, 39.6617, 39.6306, 39.6016, 39.5749, 39.5481,
-  39.5299, 39.5151, 39.4961, 39.4738, 39.4515, 39.4451, 39.4647, 39.4800,
-  39.4926, 39.5052, 39.5179, 39.5506, 39.5976, 39.6416, 39.6855, 39.7295,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.2751, 9.1491, 9.0191, 8.8648, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 7.8362, 7.6769, 7.5085, 7.3344, 7.1552, 6.9742,
-  6.7828, 6.5489, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.1040, 5.0335, 4.9539, 4.8676, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  12.0307, 12.1390, 12.2099, 12.2942, 12.3766, 12.4897, 12.6102, 12.7685,
-  12.9474, 13.1524, 13.3854, 13.6298, 13.8954, 14.1679, 14.4447, -999.0000,
-  -999.0000, -999.0000, 38.4032, 38.4955, 38.5803, 38.6585, 38.7368, 38.8150,
-  38.8932, 38.9714, 39.0390, 39.0938, 39.1524, 39.2110, 39.2695, 39.3281,
-  39.3677, 39.4007, 39.4083, 39.4107, 39.4130, 39.4429, 39.5184, 39.5260,
-  39.5266, 39.5374, 39.5511, 39.5274, 39.4963, 39.4687, 39.4420, 39.4152,
-  39.3954, 39.3806, 39.3599, 39.3376, 39.3153, 39.3000, 39.3196, 39.3337,
-  39.3464, 39.3590, 39.3716, 39.3936, 39.4397, 39.4837, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.2262, 9.0766, 8.9313, 8.7869, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 7.6504, 7.4984, 7.3286, 7.1521, 6.9715,
-  6.7885, 6.5978, 6.3900, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0990, 5.0253, 4.9448, 4.8553, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.1381, 12.2397, 12.3304, 12.4231, 12.5404, 12.6678, 12.8281,
-  13.0062, 13.2124, 13.4384, 13.6830, 13.9382, 14.2052, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 38.4427, 38.5209, 38.5992, 38.6774,
-  38.7556, 38.8338, 38.8988, 38.9560, 39.0146, 39.0732, 39.1318, 39.1904,
-  39.2284, 39.2508, 39.2532, 39.2555, 39.2579, 39.2900, 39.3655, 39.3862,
-  39.3870, 39.4007, 39.4144, 39.3931, 39.3626, 39.3358, 39.3091, 39.2823,
-  39.2609, 39.2460, 39.2237, 39.2014, 39.1791, 39.1568, 39.1746, 39.1875,
-  39.2001, 39.2127, 39.2253, 39.2380, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.2460, 9.1091, 8.9628, 8.8043, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 7.4666, 7.3190, 7.1495, 6.9704,
-  6.7896, 6.6046, 6.4146, 6.2183, 4.5311, -999.0000, -999.0000, -999.0000,
-  -999.0000, 5.2598, 5.2447, 5.0565, 4.9352, 4.8322, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 12.3600, 12.4689, 12.5895, 12.7242, 12.8859,
-  13.0635, 13.2704, 13.4893, 13.7303, 13.9697, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 38.5398,
-  38.6180, 38.6962, 38.7597, 38.8183, 38.8769, 38.9355, 38.9941, 39.0527,
-  39.0890, 39.0956, 39.0980, 39.1004, 39.1027, 39.1371, 39.2125, 39.2465,
-  39.2503, 39.2640, 39.2776, 39.2588, 39.2297, 39.2029, 39.1762, 39.1494,
-  39.1264, 39.1097, 39.0874, 39.0651, 39.0428, 39.0206, 39.0286, 39.0412,
-  39.0538, 39.0664, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.2458, 9.1109, 8.9679, 8.8187, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.1403, 6.9702,
-  6.7902, 6.6083, 6.4226, 6.2351, 6.0411, 5.8351, -999.0000, -999.0000,
-  -999.0000, 5.1973, 5.2396, 5.1849, 4.9987, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 12.4978, 12.6319, 12.7756, 12.9389,
-  13.1159, 13.3215, 13.5316, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 16.2641,
-  16.5466, 16.8258, 17.1223, 38.6806, 38.7391, 38.7977, 38.8563, 38.9149,
-  38.9381, 38.9405, 38.9429, 38.9452, 38.9476, 38.9841, 39.0596, 39.1067,
-  39.1135, 39.1272, 39.1409, 39.1245, 39.0968, 39.0700, 39.0433, 39.0165,
-  38.9919, 38.9735, 38.9512, 38.9289, 38.9066, 38.8843, 38.8823, 38.8949,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.2186, 9.0958, 8.9571, 8.8167, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.9626,
-  6.7904, 6.6108, 6.4289, 6.2436, 6.0585, 5.8704, 5.6848, 5.5048,
-  5.3493, 5.2117, 5.1152, 5.1599, 5.0945, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 15.9120, 16.1862,
-  16.4694, 16.7502, 17.0535, 17.3428, -999.0000, -999.0000, -999.0000, 38.7772,
-  38.7830, 38.7854, 38.7877, 38.7901, 38.7925, 38.8312, 38.9066, 38.9670,
-  38.9768, 38.9905, 39.0042, 38.9907, 38.9639, 38.9371, 38.9104, 38.8836,
-  38.8575, 38.8373, 38.8150, 38.7927, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.1864, 9.0808, 8.9476, 8.8132, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.7820, 6.6119, 6.4341, 6.2519, 6.0702, 5.8870, 5.7095, 5.5355,
-  5.3843, 5.2398, 5.1236, 5.0364, 5.0548, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 15.5598, 15.8200, 16.0837,
-  16.3705, 16.6688, 16.9638, 15.7539, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 38.8307, 38.6782, 38.7537, 38.8273,
-  38.8401, 38.8537, 38.8674, 38.8578, 38.8310, 38.8042, 38.7775, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.0626, 8.9350, 8.8054, 8.6580, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.5965, 6.4355, 6.2605, 6.0809, 5.9014, 5.7291, 5.5573,
-  5.4102, 5.2614, 5.1320, 5.0233, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 15.2191, 15.4562, 15.7088, 15.9838,
-  16.2712, 16.5706, 15.9186, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 38.4143, 38.2931, 38.3833, 38.4816,
-  38.5366, 38.5587, 39.0925, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.0434, 8.9213, 8.7952, 8.6623, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 6.2626, 6.0894, 5.9162, 5.7460, 5.5775,
-  5.4331, 5.2825, 5.1468, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 14.9065, 15.1157, 15.3372, 15.5933, 15.8698,
-  16.1512, 15.9273, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 37.5870, 37.8024, 37.9631, 38.0771,
-  38.1726, 38.1947, 38.8420, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.0242, 8.9071, 8.7826, 8.6546, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 6.0760, 5.9240, 5.7577, 5.5932,
-  5.4496, 5.2980, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 14.6567, 14.7956, 14.9898, 15.2142, 15.4665, 15.7398,
-  15.7854, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 37.1184, 37.0710, 37.2871, 37.5032, 37.6727,
-  37.8086, 37.8307, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 8.9872, 8.8909, 8.7693, 8.6469, 8.4879, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 14.4500, 14.5539, 14.6887, 14.8659, 15.0897, 15.3304, 15.5200,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 36.5895, 36.8482, 37.1081, 37.2917,
-  37.4110, 37.9909, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.8701, 8.7538, 8.6333, 8.5045, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.3979, 14.4119, 14.4407, 14.5774, 14.7349, 14.9458, 15.1402, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 35.8226, 36.1814, 36.4539, 36.7167, 36.9322,
-  37.0419, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.8480, 8.7353, 8.6171, 8.4952, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.3553, 14.3546, 14.3561, 14.4481, 14.6059, 14.7506, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 35.2420, 35.3080, 35.6668, 36.0400, 36.3253, 36.5728,
-  37.1799, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.8176, 8.7163, 8.6009, 8.4838, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.3584,
-  14.3078, 14.2806, 14.2936, 14.3154, 14.4329, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 34.4662, 34.8644, 35.2561, 35.6143, 35.9164, 36.2002,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.6953, 8.5822, 8.4677, 8.3326, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.3654, 14.3201,
-  14.2638, 14.2067, 14.2103, 14.6732, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 33.6919, 33.9523, 34.4706, 34.8639, 35.1816, 35.4836, 36.2726,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.6685, 8.5603, 8.4484, 8.3300, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.3487, 14.3297, 14.2749,
-  14.2176, 14.1589, 14.0987, 15.3637, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  32.4510, 32.9199, 33.4395, 33.9698, 34.4727, 34.8115, 35.1503, 35.9200,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.6416, 8.5385, 8.4284, 8.3126, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.3395, 14.2851, 14.2272,
-  14.1690, 14.1005, 14.5658, 15.9768, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 31.2562,
-  31.8538, 32.5213, 33.0529, 33.5832, 34.0438, 34.4831, 34.8219, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.0997, 4.0315, 3.9576, 3.9474, 3.9370,
-  3.9782, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.5984, 8.5140, 8.4051, 8.2943, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 14.3437, 14.2972, 14.2366, 14.1767,
-  14.1150, 14.1642, 15.1782, 16.1591, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 30.1264, 30.6422,
-  31.4260, 32.0844, 32.6663, 33.1595, 33.6112, 34.0629, 35.1019, -999.0000,
-  -999.0000, 4.3971, 4.2704, 4.1370, 4.0604, 3.9841, 3.9802, 3.9833,
-  4.0615, 4.1403, 4.2196, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.4846, 8.3803, 8.2730, 8.1477,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 14.3072, 14.2471, 14.1854, 14.1241,
-  14.0476, 14.7984, 15.5904, 16.3508, 17.5997, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 28.9385, 29.3298, 30.2165,
-  30.9982, 31.6476, 32.2629, 32.7833, 33.2555, 33.7278, -999.0000, 4.7464,
-  4.6092, 4.4364, 4.2982, 4.1629, 4.0778, 4.0031, 4.0032, 4.0166,
-  4.1235, 4.2117, 4.3196, 4.4087, 4.3679, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.4541, 8.3533, 8.2463, 8.1335,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 14.3207, 14.2612, 14.1971, 14.1332, 14.0652,
-  14.4525, 14.9834, 15.6817, 16.4802, 17.3081, 18.7290, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 26.5064, 27.0750, 28.0382, 28.9125, 29.7925,
-  30.5704, 31.2143, 31.8980, 32.4450, 32.9253, 33.9683, 5.0133, 4.8239,
-  4.6438, 4.4678, 4.3179, 4.1849, 4.0929, 4.0198, 4.0245, 4.0578,
-  4.1771, 4.2863, 4.4145, 4.5056, 4.4937, 4.4345, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.4202, 8.3231, 8.2188, 8.1107,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 14.2901, 14.2760, 14.2104, 14.1440, 14.0760, 14.0599,
-  14.4419, 15.0368, 15.7844, 16.5968, 17.4813, 18.5042, 20.0209, 21.3524,
-  22.6131, 23.9589, 24.5741, 25.6616, 26.7232, 27.6651, 28.5265, 29.3686,
-  30.1444, 30.8522, 31.5170, 32.0640, 33.1458, 5.2708, 5.0671, 4.8630,
-  4.6697, 4.4948, 4.3355, 4.2040, 4.1027, 4.0312, 4.0463, 4.1044,
-  4.2367, 4.3694, 4.5025, 4.5770, 4.5745, 4.5204, 4.2004, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.3714, 8.2929, 8.1919, 8.0862,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 14.2938, 14.2283, 14.1592, 14.0909, 14.0114, 14.8183,
-  14.4067, 15.1337, 15.9046, 16.7276, 17.6703, 18.6782, 19.6979, 20.8682,
-  22.0187, 23.1810, 24.3168, 25.3829, 26.3714, 27.2920, 28.1406, 28.9550,
-  29.7745, 30.4902, 31.1360, 31.6830, 5.5443, 5.3237, 5.1013, 4.8951,
-  4.6924, 4.5187, 4.3460, 4.2136, 4.0865, -999.0000, -999.0000, 4.1324,
-  4.2952, 4.4554, 4.6015, 4.6651, 4.6638, 4.4902, 4.1990, 3.1187,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.2589, 8.1606, 8.0589,
-  7.9042, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 14.2494, 14.1782, 14.1055, 14.0306, 12.7902, -999.0000,
-  14.4815, 15.2375, 16.0367, 16.8902, 17.8319, 18.8281, 19.7957, 20.9285,
-  21.9522, 23.0762, 24.1170, 25.1106, 26.0504, 26.9399, 27.7857, 28.5955,
-  29.4066, 30.1243, 30.7550, 31.9448, 5.5907, 5.3631, 5.1339, 4.9249,
-  4.7143, 4.5338, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 4.4919, 4.6955, 4.7475, 4.7293, 4.4627, 4.1814, 3.8685,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.2221, 8.1282, 8.0286,
-  7.9065, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 14.2736, 14.2020, 14.1272, 14.0525, 13.9590, -999.0000, -999.0000,
-  15.5890, 15.3608, 16.1812, 17.0646, 17.9929, 18.9509, 19.8935, 20.9262,
-  21.9069, 22.9584, 23.9631, 24.9091, 25.7880, 26.6580, 27.4569, 28.2504,
-  29.0317, 29.7485, 31.1650, 5.8785, 5.6324, 5.3960, 5.1691, 4.9349,
-  4.7250, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 4.8404, 4.7055, 4.4405, 4.1583, 3.8371,
-  3.4093, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.1853, 8.0960, 7.9985,
-  7.8898, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 14.2312, 14.1540, 14.0739, 13.9926, 12.4519, -999.0000, -999.0000,
-  -999.0000, 16.5112, 16.3466, 17.2326, 18.1460, 19.0754, 19.9797, 20.9382,
-  21.8999, 22.8719, 23.8205, 24.7100, 25.5457, 26.3792, 27.1282, 27.9053,
-  28.6296, 30.1631, 6.1737, 5.9181, 5.6701, 5.4264, 5.1814, 4.9233,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.6864, 4.4331, 4.1367, 3.8140,
-  3.4757, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.1467, 8.0640, 7.9685,
-  7.8635, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.2548, 14.1879, 14.1060, 14.0236, 13.9228, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 16.4958, 17.3872, 18.2928, 19.1895, 20.0477, 20.9944,
-  21.8677, 22.7880, 23.6858, 24.5433, 25.3495, 26.1004, 26.7994, 28.3005,
-  6.7355, 6.4783, 6.2169, 5.9538, 5.7054, 5.4567, 5.1959, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.4128, 4.1192, 3.8034,
-  3.5689, 2.7663, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.0943, 8.0320, 7.9389,
-  7.8371, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.2257, 14.1427, 14.0553, 13.9674, 12.8128, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 18.5313, 18.4151, 19.2878, 20.1157, 21.0063,
-  21.8355, 22.7066, 23.5623, 24.3821, 25.1546, 26.5336, 27.2049, 7.0534,
-  6.7963, 6.5214, 6.2541, 5.9927, 5.7338, 5.4680, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.4014, 4.1247, 3.9151,
-  3.6746, 3.3987, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.9959, 7.9051,
-  7.8051, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.1876, 14.0997, 14.0090, 13.9110, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 19.5346, 20.3346, 20.1838, 21.0181,
-  21.8424, 22.6781, 23.4941, 25.0534, 25.6956, -999.0000, 7.3701, 7.1190,
-  6.8403, 6.5621, 6.2890, 6.0246, 5.7441, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.2592, 4.0420,
-  3.7877, 3.5410, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.9541, 7.8679,
-  7.7724, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.2225,
-  14.1493, 14.0562, 13.9624, 13.8290, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 21.6905,
-  22.5258, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.4514, 7.1654,
-  6.8773, 6.6006, 6.3222, 6.0392, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.3931, 4.1688,
-  3.9839, 3.7751, 2.7438, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.9525, 7.8994, 7.8226,
-  7.7251, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.2076,
-  14.1155, 14.0160, 13.9120, 12.3414, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.7914, 7.4963, 7.2050,
-  6.9168, 6.6332, 6.3441, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.4368,
-  4.2336, 4.0101, 3.7441, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 7.9198, 7.8934, 7.8325, 7.7589,
-  7.6717, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1776,
-  14.0819, 13.9796, 13.8714, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.1358, 7.8378, 7.5383, 7.2416,
-  6.9519, 6.6570, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.7126,
-  4.4924, 4.2669, 4.0339, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 7.8984, 7.8627, 7.8268, 7.7744, 7.7009,
-  7.6055, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1539,
-  14.0509, 13.9438, 13.8232, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.4875, 8.1835, 7.8759, 7.5759, 7.2767,
-  6.9793, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.0368,
-  4.8324, 4.6095, 4.3743, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 7.6405, 7.7549, 7.7856, 7.7491, 7.7114, 7.6389,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1366,
-  14.0309, 13.9203, 13.7811, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.8393, 8.5330, 8.2238, 7.9135, 7.6100, 7.3060,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.4376,
-  5.2054, 4.9630, 4.7071, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 7.3072, 7.4851, 7.5898, 7.7008, 7.6599, 7.6190, 7.5555,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1194,
-  14.0110, 13.8981, 13.7003, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.1945, 8.8906, 8.5736, 8.2592, 7.9494, 7.6370, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.8544,
-  5.6040, 5.3444, 5.0765, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.8983, 7.0974, 7.2980, 7.4235, 7.5343, 7.5671, 7.5099, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1110,
-  14.0004, 13.8846, 13.5842, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.5565, 9.2510, 8.9290, 8.6091, 8.2919, 7.9781, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.3277,
-  6.0431, 5.7594, 5.4795, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.4525,
-  6.6731, 6.8766, 7.0783, 7.2487, 7.3576, 7.4587, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1119,
-  14.0008, 13.8837, 13.7331, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.9217,
-  9.6137, 9.2896, 8.9631, 8.6423, 8.3217, 7.9846, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.8005,
-  6.4968, 6.1912, 5.8826, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.0217, 6.2212,
-  6.4343, 6.6535, 6.8540, 7.0593, 7.1630, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1134,
-  14.0016, 13.8841, 13.7548, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.2709, 9.9820,
-  9.6512, 9.3212, 8.9958, 8.6696, 8.3344, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.2883,
-  6.9550, 6.6284, 6.3016, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.6180, 5.7995, 5.9804,
-  6.1936, 6.4163, 6.6216, 6.8094, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1237,
-  14.0203, 13.9091, 13.8049, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.6461, 10.3497, 10.0168,
-  9.6824, 9.3503, 9.0227, 8.6860, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.7800,
-  7.4146, 7.0697, 6.7219, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 5.3008, 5.4073, 5.5635, 5.7457,
-  5.9477, 6.1659, 6.3541, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1463,
-  14.0455, 13.9354, 13.8417, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 11.0370, 10.7184, 10.3823, 10.0442,
-  9.7107, 9.3770, 9.0412, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.2570,
-  7.8823, 7.5114, 7.1324, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.0416, 5.1043, 5.2034, 5.3279, 5.5104,
-  5.6939, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 14.1542,
-  14.0706, 13.9800, 13.9165, 13.7674, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 11.4119, 11.0870, 10.7474, 10.4073, 10.0698,
-  9.7341, 9.3956, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.1127, 8.7172,
-  8.3195, 7.9363, 7.2580, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 4.9012, 4.8959, 4.8964, 4.9962, 5.1041, 5.2625,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.1187, 14.0540, 13.9413, 13.8125, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 11.7862, 11.4515, 11.1115, 10.7693, 10.4293, 10.0910,
-  9.7499, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.5653, 9.1652,
-  8.7480, 8.3453, 6.5067, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 4.8487, 4.7526, 4.7374, 4.7311, 4.7854, 4.8872, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.1787, 14.0805, 13.9642, 13.8482, 13.7163, -999.0000, -999.0000, -999.0000,
-  12.4647, 12.1442, 11.8104, 11.4697, 11.1286, 10.7882, 10.4473, 10.1040,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.9767, 9.5589,
-  9.1604, 8.7546, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.8497, 4.7579, 4.6490, 4.5793, 4.5715, 4.5655, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  14.1868, 14.1061, 13.9854, 13.8722, 13.7165, 13.4705, 13.1397, 12.8024,
-  12.4846, 12.1554, 11.8203, 11.4810, 11.1420, 10.8015, 10.4566, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.7888, 10.3828, 9.9463,
-  9.5330, 9.1126, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.7715, 4.6562, 4.5440, 4.4359, 4.4016, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 14.1101, 14.0027, 13.8856, 13.7020, 13.4406, 13.1235, 12.7987,
-  12.4825, 12.1576, 11.8248, 11.4899, 11.1493, 10.8040, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.1192, 10.7073, 10.3187,
-  9.8864, 8.1946, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.7787,
-  4.6705, 4.5491, 4.4310, 4.3192, 4.2088, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 13.9977, 13.8691, 13.6639, 13.3867, 13.0888, 12.7885,
-  12.4748, 12.1575, 11.8259, 11.4920, 11.1370, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 11.8221, 11.4464, 11.0222, 10.6204,
-  10.2330, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.6871,
-  4.5628, 4.4369, 4.3162, 4.1899, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 13.9552, 13.8464, 13.6222, 13.3462, 13.0662, 12.7757,
-  12.4639, 12.1514, 11.8179, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 12.4342, 12.0563, 11.6869, 11.3149, 10.9012,
-  9.8095, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.6965, 4.5814,
-  4.4466, 4.3193, 4.1933, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 13.5589, 13.2944, 13.0302, 12.7561,
-  12.4404, 12.1128, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 12.5896, 12.2787, 11.9028, 11.5550, 11.1773,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.6058, 4.4703,
-  4.3304, 4.1942, 4.0257, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 13.0313, 12.7196, 12.4358, 12.1003, 11.7443, 10.3607,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.4969, 4.3502,
-  4.2094, 4.0666, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 13.2559, 13.0644, 12.8263, 12.5382, 12.2821, 11.9138, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.5289, 4.3870, 4.2323,
-  4.0817, 3.9147, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 13.1810,
-  13.2652, 13.2632, 13.0822, 12.9148, 12.6446, 12.3742, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.4298, 4.2718, 4.1117,
-  3.9532, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 12.9139, 13.0424, 13.1383,
-  13.1958, 13.2046, 13.0837, 12.9195, 12.7221, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.3275, 4.1591, 3.9911,
-  3.8236, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 12.6540, 12.7946, 12.9111, 13.0110, 13.0939,
-  13.1334, 13.1398, 13.0635, 12.9083, 11.7023, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.3728, 4.2252, 4.0492, 3.8741,
-  3.6568, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 12.3841, 12.5443, 12.6765, 12.7977, 12.9036, 12.9850, 13.0546,
-  13.0903, 13.0734, 13.0257, 11.8213, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.2912, 4.1172, 3.9354, 3.7521,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 11.9021, 12.1159,
-  12.2880, 12.4426, 12.5810, 12.6908, 12.8008, 12.8938, 12.9615, 13.0122,
-  13.0429, 13.0086, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.2081, 4.0196, 3.8281, 3.6329,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 11.1183, 11.4603, 11.7473, 11.9985, 12.2062,
-  12.3583, 12.4918, 12.6164, 12.7136, 12.8074, 12.8858, 12.9441, 12.9776,
-  12.7011, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.1180, 3.9241, 3.7249, 3.5232,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  10.2101, 10.4619, 10.7738, 11.1146, 11.4687, 11.7941, 12.0591, 12.2925,
-  12.4329, 12.5490, 12.6515, 12.7484, 12.8186, 12.8815, 12.8747, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.0343, 3.8324, 3.6249, 3.4051,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.8604, 9.8991, 9.9366,
-  10.1523, 10.3978, 10.7272, 11.0898, 11.4579, 11.8291, 12.1134, 12.3840,
-  12.5051, 12.6160, 12.6973, 12.7745, 12.5347, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.9632, 3.7562, 3.5430, 3.3087,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 9.7403, 9.7709, 9.7833, 9.8158, 9.8619,
-  10.0605, 10.3276, 10.6770, 11.0531, 11.4329, 11.8505, 12.1688, 12.4796,
-  12.5826, 12.6771, 11.6979, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.8945, 3.6811, 3.4611, 3.2187,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 9.6887, 9.6748, 9.6797, 9.6848, 9.6875, 9.7074, 9.7823,
-  9.9741, 10.2504, 10.6030, 11.0047, 11.4125, 11.8472, 12.1967, 12.5336,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.8349, 3.6214, 3.3994, 3.1572,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 7.4745, 7.3188, 7.1263, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.9094,
-  9.7710, 9.6742, 9.6109, 9.6072, 9.5975, 9.5901, 9.6030, 9.6891,
-  9.8753, 10.1622, 10.5197, 10.9387, 11.3595, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.7964, 3.5785, 3.3514, 3.1132,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.0868, 8.0692, 8.0148,
-  7.9272, 7.8172, 7.6837, 7.5302, 7.3596, 7.1751, 6.9794, 6.7796,
-  6.5774, 6.3661, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.1746, 9.9579,
-  9.7530, 9.6491, 9.5461, 9.5333, 9.5095, 9.4923, 9.4875, 9.5834,
-  9.7521, 10.0496, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.7610, 3.5419, 3.3112, 3.0853,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.0737, 8.1370, 8.1700, 8.1575, 8.1296, 8.0596,
-  7.9654, 7.8457, 7.7035, 7.5412, 7.3601, 7.1682, 6.9608, 6.7556,
-  6.5455, 6.3355, 6.1360, 5.9473, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 10.4467, 10.2135, 9.9869,
-  9.7458, 9.6199, 9.4946, 9.4589, 9.4231, 9.3934, 9.3407, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.7228, 3.5263, 3.3110, 3.0858,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.7798,
-  7.9489, 8.0554, 8.1573, 8.2023, 8.2330, 8.2092, 8.1770, 8.0964,
-  8.0026, 7.8717, 7.7207, 7.5498, 7.3576, 7.1574, 6.9413, 6.7244,
-  6.5023, 6.2868, 6.0822, 5.8930, 5.7217, 5.5570, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 10.7216, 10.4954, 10.2536, 10.0121,
-  9.7692, 9.5942, 9.4608, 9.3842, 9.3111, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.5311, 3.3142, 3.0886,
-  2.8822, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 7.2512, 7.4826, 7.6924, 7.8609,
-  8.0192, 8.1232, 8.2235, 8.2615, 8.2936, 8.2618, 8.2248, 8.1319,
-  8.0351, 7.8936, 7.7396, 7.5570, 7.3578, 7.1434, 6.9164, 6.6868,
-  6.4515, 6.2319, 6.0240, 5.8249, 5.6593, 5.5053, 5.3814, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 10.9516, 10.7654, 10.5444, 10.2976, 10.0439,
-  9.7926, 9.5672, 9.3971, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.5361, 3.3236, 3.1340,
-  2.9330, 2.7164, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.5236, 6.8241, 7.0855, 7.3334, 7.5549, 7.7574, 7.9263,
-  8.0790, 8.1898, 8.2829, 8.3202, 8.3457, 8.3158, 8.2713, 8.1692,
-  8.0640, 7.9117, 7.7484, 7.5547, 7.3434, 7.1202, 6.8814, 6.6429,
-  6.3988, 6.1695, 5.9497, 5.7525, 5.5841, 5.4375, 5.3314, 5.2200,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 11.1757, 11.0023, 10.8098, 10.5923, 10.3412, 10.0725,
-  9.8012, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.5406, 3.3725, 3.1826,
-  2.9822, 2.8177, 2.6248, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.0136,
-  6.3247, 6.6199, 6.8987, 7.1578, 7.3982, 7.6209, 7.8197, 7.9911,
-  8.1393, 8.2550, 8.3420, 8.3795, 8.3931, 8.3594, 8.2935, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.3027, 6.0929, 5.8714, 5.6779, 5.5002, 5.3656, 5.2612, 5.1712,
-  5.1077, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 11.3709, 11.2354, 11.0564, 10.8596, 10.6383, 10.3871, 9.8413,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.4195, 3.2341,
-  3.0642, 2.9054, 2.7499, 2.6129, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 5.1260, 5.4654, 5.7847, 6.1032,
-  6.4018, 6.6939, 6.9639, 7.2275, 7.4625, 7.6864, 7.8802, 8.0563,
-  8.1969, 8.3142, 8.3872, 8.3900, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.5868, 5.4100, 5.2912, 5.1748, 5.1179,
-  5.0761, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 11.4521, 11.3004, 11.1217, 10.9168, 10.6884, 9.2242, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.4488, 3.2979,
-  3.1510, 2.9928, 2.8643, 2.7361, 2.6307, 2.5222, 2.4054, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  3.9091, 4.2414, 4.5731, 4.9014, 5.2290, 5.5537, 5.8661, 6.1790,
-  6.4743, 6.7655, 7.0301, 7.2952, 7.5271, 7.7499, 7.9364, 8.1083,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 5.3118, 5.1990, 5.1048, 5.0529,
-  5.0148, 5.0181, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.6404, 11.5262, 11.3690, 11.1979, 10.9837, 9.8185, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.3701,
-  3.2349, 3.0908, 2.9742, 2.8537, 2.7653, 2.6741, 2.6065, 2.5421,
-  2.4992, 2.5117, 2.5855, 2.7471, 2.9359, 3.1931, 3.4518, 3.7431,
-  4.0440, 4.3584, 4.6757, 4.9967, 5.3160, 5.6345, 5.9462, 6.2527,
-  6.5450, 6.8325, 7.0963, 7.3538, 7.5818, 7.7859, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.0805, 5.0300, 4.9814,
-  4.9713, 4.9905, 4.9878, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.6981, 11.6073, 11.4512, 11.2728, 11.0467, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  3.3122, 3.1987, 3.0878, 2.9819, 2.8956, 2.8166, 2.7549, 2.7009,
-  2.6628, 2.6886, 2.7584, 2.9142, 3.0903, 3.3339, 3.5813, 3.8649,
-  4.1553, 4.4609, 4.7734, 5.0892, 5.4023, 5.7159, 6.0249, 6.3257,
-  6.6134, 6.8935, 7.1436, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.9409, 4.9138,
-  4.9268, 4.9530, 4.9827, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.7224, 11.6403, 11.5410, 11.3816, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 3.2883, 3.1959, 3.1085, 3.0280, 2.9589, 2.8995, 2.8538,
-  2.8180, 2.8482, 2.9135, 3.0619, 3.2322, 3.4647, 3.7049, 3.9836,
-  4.2642, 4.5650, 4.8695, 5.1802, 5.4888, 5.7948, 6.0975, 6.3837,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.8595,
-  4.8771, 4.9102, 4.9599, 4.9490, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.7438, 11.6686, 11.5771, 11.4535, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 3.2265, 3.1543, 3.0981, 3.0449, 3.0043,
-  2.9722, 3.0047, 3.0658, 3.2076, 3.3726, 3.5948, 3.8272, 4.0991,
-  4.3734, 4.6677, 4.9625, 5.2661, 5.5620, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.7774,
-  4.8280, 4.8880, 4.9374, 4.9752, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.7701, 11.7175, 11.6456, 11.3504, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.2214, 3.1828, 3.1506,
-  3.1228, 3.1600, 3.2150, 3.3535, 3.5103, 3.7235, 3.9484, 4.2101,
-  4.4757, 4.7517, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.8036, 4.8676, 4.9188, 4.9662, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.7463, 11.7051, 11.6598, 11.4254, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  3.2419, 3.2924, 3.3447, 3.4782, 3.6265, 3.8147, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.7759, 4.8552, 4.9125, 4.9590, 4.9761, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.7205, 11.7050, 11.6955, 11.6691, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 4.8547, 4.9109, 4.9530, 4.9852, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.6991, 11.6892, 11.6930, 11.7069, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 4.8532, 4.9093, 4.9584, 4.9946, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.6283, 11.6460, 11.6490, 11.6468, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 4.8449, 4.9263, 4.9700, 5.0039, 5.0003, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  11.5328, 11.5446, 11.5504, 11.5627, 11.0095, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 4.9451, 4.9854, 5.0187, 5.0326, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 11.4319, 11.4488, 11.4570, 11.3592, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 4.9700, 5.0166, 5.0486, 5.0620, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 11.3117, 11.3127, 11.2656, 11.1506, 9.4079, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 10.1771, 10.0977, 9.9709, 8.7345, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0095, 5.0529, 5.0759, 5.0874, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 11.1668, 11.1472, 11.0741, 10.9440, 10.7266, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 10.2011, 10.0813, 9.9920, 9.8735, 9.7440, 9.6234,
-  8.1745, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0407, 5.0878, 5.1108, 5.1243, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 10.9938, 10.8989, 10.7489, 10.5235, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 10.1207, 10.0951, 9.9634, 9.8708, 9.7467, 9.6202, 9.5206,
-  9.4222, 8.0385, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.0918, 5.1433, 5.1593, 5.1676, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 10.8465, 10.7252, 10.5528, 10.3203, 10.0253, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  10.0028, 9.9784, 9.9473, 9.8477, 9.7468, 9.6272, 9.4849, 9.4025,
-  9.3245, 9.2548, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.1992, 5.2078, 5.2105, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 10.6779, 10.5558, 10.3679, 10.1460, 9.8718, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  9.8357, 9.8291, 9.7968, 9.7335, 9.6188, 9.5087, 9.3854, 9.2960,
-  9.2279, 9.1769, 9.1021, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.2675, 5.2687, 5.2654, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 10.4083, 10.2090, 9.9743, 9.7007, 9.3791,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.5730,
-  9.6235, 9.6693, 9.6444, 9.6063, 9.4679, 9.3652, 9.2695, 9.1961,
-  9.1449, 9.0960, 9.0427, 7.8074, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.3420, 5.3356, 5.3256, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 10.2475, 10.0525, 9.8100, 9.5409, 9.2412,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.3625,
-  9.4068, 9.4511, 9.4854, -999.0000, -999.0000, -999.0000, 9.0754, 9.0992,
-  9.0616, 9.0160, 8.9937, 8.9535, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.4178, 5.4025, 5.3853, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 9.9104, 9.6610, 9.3862, 9.0900,
-  8.7483, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.0731, 9.1433,
-  9.1852, 9.2251, 9.2529, -999.0000, -999.0000, -999.0000, -999.0000, 8.9963,
-  8.9789, 8.9586, 8.9397, 8.9136, 7.6670, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.5120, 5.4867, 5.4592, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 9.7536, 9.5146, 9.2369, 8.9383,
-  8.6124, 6.9008, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.8675, 8.9175,
-  8.9572, 8.9927, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  8.9127, 8.9067, 8.8895, 8.8792, 8.8509, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.6139, 5.6049, 5.5716, 5.5360, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.3743, 9.0940, 8.7889,
-  8.4633, 8.1010, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.6458, 8.6901,
-  8.7280, 8.7587, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 8.8538, 8.8537, 8.8533, 8.8431, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.7439, 5.7045, 5.6557, 5.6065, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 9.2166, 8.9537, 8.6470,
-  8.3181, 7.9631, 6.7783, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.4403, 8.4741,
-  8.5015, 8.5163, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 8.8185, 8.8297, 8.8304, 8.8224, 8.2789, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.8669, 5.8146, 5.7583, 5.6975, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.8148, 8.5093,
-  8.1715, 7.8157, 7.4323, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.2367, 8.2680,
-  8.2941, 8.2932, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 8.7764, 8.8078, 8.8087, 8.7949, 8.7497, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.9879, 5.9136, 5.8509, 5.7815, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.3720,
-  8.0350, 7.6742, 7.2852, 6.6810, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.0327, 8.0616,
-  8.0861, 8.0486, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.7886, 8.7875, 8.7694, 8.7319, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.1859, 6.1191, 6.0323, 5.9509, 5.8528, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.2319,
-  7.9001, 7.5295, 7.1398, 6.7234, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.8466, 7.8720,
-  7.8924, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 8.7835, 8.7830, 8.7569, 8.6563, 8.5066, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.3503, 6.2441, 6.1517, 6.0602, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  7.7610, 7.3947, 6.9985, 6.5739, 6.1034, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.6624, 7.6867,
-  7.7060, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.7673, 8.6866, 8.5766, 8.4450, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.5058, 6.3801, 6.2606, 6.1623, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  7.6160, 7.2551, 6.8562, 6.4271, 5.9718, 4.1626, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.4782, 7.5035,
-  7.5238, 7.4832, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.7089, 8.6280, 8.5222, 8.3240, 8.0623,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.7953, 6.6490, 6.5136, 6.3891, 6.2536, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 7.1176, 6.7127, 6.2819, 5.8260, 5.3447, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.3132, 7.3385,
-  7.3576, 7.3487, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 8.6540, 8.5859, 8.4215, 8.2039, 7.9668,
-  7.0058, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.1053,
-  6.9501, 6.7893, 6.6438, 6.5132, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.9610, 6.5714, 6.1344, 5.6739, 5.2067, 3.9381, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.1479, 7.1733,
-  7.1914, 7.1894, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.4971, 8.3184, 8.1146, 7.8231,
-  7.4549, 6.2829, -999.0000, -999.0000, -999.0000, -999.0000, 6.9482, 7.0846,
-  7.0905, 6.9248, 6.7715, 6.6219, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 6.4317, 5.9809, 5.5214, 5.0720, 4.7268, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.9839, 7.0151,
-  7.0381, 7.0501, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 8.3950, 8.2326, 8.0023, 7.6866,
-  7.3465, 6.8790, 6.4214, 5.8230, 6.2693, 6.5888, 6.9299, 7.0589,
-  7.1572, 7.0536, 6.8963, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.8244, 5.3703, 4.9881, 4.6560, 3.9618,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.8366, 6.8694,
-  6.8915, 6.9043, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 8.1554, 7.8859, 7.5719,
-  7.2081, 6.7814, 6.4010, 6.0905, 6.2675, 6.5249, 6.8408, 7.0419,
-  7.1283, 7.1720, 6.9913, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.6655, 5.2626, 4.9022, 4.5805, 4.3265,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.6810, 6.7236,
-  6.7445, 6.7663, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.7711, 7.4809,
-  7.1020, 6.7075, 6.3679, 6.0807, 6.2478, 6.4589, 6.7641, 7.0253,
-  7.1084, 7.1739, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 5.1234, 4.7811, 4.4959, 4.2589,
-  3.8949, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.5033, 6.5856,
-  6.6148, 6.6392, 6.6335, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 7.3684,
-  7.0175, 6.6346, 6.3347, 6.0671, 6.2286, 6.4000, 6.6906, 6.9697,
-  7.0823, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 4.9736, 4.6707, 4.4060, 4.1851,
-  3.9532, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.4549,
-  6.4861, 6.5100, 6.5279, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.9297, 6.5896, 6.3082, 6.0524, 6.2100, 6.3640, 6.6182, 6.8713,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.5268, 4.2864, 4.0414,
-  3.7925, 3.3598, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.3241,
-  6.3584, 6.3921, 6.4181, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 6.5104, 6.2722, 6.0378, 6.1772, 6.3113, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 4.3770, 4.1229, 3.8538,
-  3.6201, 3.3727, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 6.1893,
-  6.2460, 6.2794, 6.3082, 6.3120, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.8931, 3.6441,
-  3.3838, 3.0036, 2.0014, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.1313, 6.1670, 6.2030, 6.2329, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.6551, 3.3845,
-  3.0151, 2.6348, 2.2324, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  6.0160, 6.0650, 6.1052, 6.1393, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 1.6529,
-  1.6155, 1.5604, 1.5128, 1.4873, 1.4472, 1.3499, 1.2459, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.0197,
-  2.6509, 2.2669, 1.8109, -0.0585, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  5.8963, 5.9667, 6.0077, 6.0476, 6.0845, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 1.9340, 1.8455, 1.7492,
-  1.6634, 1.6079, 1.5617, 1.5420, 1.5033, 1.4116, 1.3070, 1.1253,
-  0.9265, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 2.6516,
-  2.2753, 1.8290, 1.3724, 0.8782, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 5.8657, 5.9153, 5.9636, 6.0054, 5.9988, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 2.1342, 2.0069, 1.8827, 1.7881,
-  1.6969, 1.6464, 1.6040, 1.5899, 1.5552, 1.4676, 1.3486, 1.1747,
-  0.9840, 0.7286, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  1.8406, 1.3929, 0.9340, 0.5052, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 5.7602, 5.8310, 5.8796, 5.9252, 5.9719, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 2.4684, 2.3240, 2.1696, 2.0402, 1.9131, 1.8176,
-  1.7301, 1.6837, 1.6419, 1.6376, 1.6047, 1.5220, 1.3899, 1.2198,
-  1.0119, 0.7716, 0.5093, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  1.4061, 0.9596, 0.5568, 0.1732, -1.6861, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.7431, 5.7964, 5.8537, 5.9055, 5.9359, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 2.6908, 2.5142, 2.3531, 2.1989, 2.0632, 1.9428, 1.8442,
-  1.7608, 1.7113, 1.6730, 1.6768, 1.6488, 1.5740, 1.4325, 1.2647,
-  1.0394, 0.8025, 0.5311, 0.2293, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  0.9718, 0.5855, 0.2051, -0.1564, -0.7755, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.6444, 5.7241, 5.7824, 5.8355, 5.8920, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.0866,
-  2.9029, 2.7158, 2.5390, 2.3710, 2.2219, 2.0834, 1.9654, 1.8610,
-  1.7724, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 1.4679, 1.2916,
-  1.0653, 0.8260, 0.5455, 0.2597, -0.0743, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 0.1979, -0.1571, -0.5093, -0.8274, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.6478, 5.7114, 5.7742, 5.8365, 5.8889,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 3.3257, 3.1187,
-  2.9224, 2.7298, 2.5549, 2.3857, 2.2387, 2.0940, 1.9690, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 1.3023,
-  1.0919, 0.8360, 0.5616, 0.2692, -0.0514, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -0.2439, -0.6013, -0.8786, -1.1226, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 5.5490, 5.6443, 5.7131, 5.7775, 5.8327,
-  5.8692, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 3.7615, 3.5510, 3.3388, 3.1286,
-  2.9319, 2.7412, 2.5671, 2.3979, 2.2451, 0.8733, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  1.0980, 0.8477, 0.5768, 0.2712, -0.0431, -0.3752, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -0.7656, -1.0276, -1.2444, -1.4449, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, 5.5768, 5.6542, 5.7179, 5.7728,
-  5.8221, 5.8043, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 4.2117, 4.0003, 3.7764, 3.5551, 3.3415, 3.1332,
-  2.9377, 2.7488, 2.5693, 2.3865, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, 0.8503, 0.5793, 0.2736, -0.0376, -0.3732, -0.7238, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -1.2992, -1.4709, -1.6338, -1.7930, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.5894, 5.6589, 5.7186,
-  5.7452, 5.7412, 5.6956, 5.5925, -999.0000, -999.0000, -999.0000, -999.0000,
-  4.6611, 4.4452, 4.2190, 3.9923, 3.7691, 3.5497, 3.3378, 3.1344,
-  2.9347, 2.7454, 1.2693, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 0.5779, 0.2809, -0.0417, -0.3768, -0.7197, -1.0970,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -1.8865, -1.9771, -2.0597, -2.1266, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.4773, 5.5991, 5.6626,
-  5.6721, 5.6723, 5.6179, 5.5422, 5.4066, 5.2493, 5.0609, 4.8572,
-  4.6437, 4.4205, 4.1979, 3.9747, 3.7540, 3.5410, 3.3281, 3.1245,
-  2.9105, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, 0.2769, -0.0434, -0.3762, -0.7238, -1.0832,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -2.4675, -2.4245, -2.4277, -2.4473, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.5274, 5.5840,
-  5.5992, 5.5960, 5.5356, 5.4617, 5.3347, 5.1860, 5.0054, 4.8110,
-  4.6024, 4.3857, 4.1686, 3.9524, 3.7356, 3.5223, 3.3096, 2.0508,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -0.0475, -0.3793, -0.7259, -1.0807,
-  -1.4491, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -2.8794, -2.7937, -2.7643, -2.7516, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, 5.4918,
-  5.5266, 5.5100, 5.4552, 5.3795, 5.2570, 5.1129, 4.9418, 4.7548,
-  4.5547, 4.3475, 4.1359, 3.9219, 3.7064, 3.4771, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -0.0660, -0.3842, -0.7283, -1.0825,
-  -1.4424, -1.8157, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -3.4419, -3.2471, -3.0655, -3.0045, -2.9892, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  5.4354, 5.4209, 5.3756, 5.2944, 5.1824, 5.0415, 4.8790, 4.6972,
-  4.5025, 4.3014, 4.0918, 3.8692, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.3937, -0.7276, -1.0813,
-  -1.4398, -1.7989, -2.1697, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -3.4508, -3.3567, -3.3044, -3.1799, -3.7732, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, 5.2790, 5.2043, 5.0995, 4.9634, 4.8060, 4.6316,
-  4.4368, 4.2280, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -0.7328, -1.0770,
-  -1.4325, -1.7880, -2.1470, -2.4906, -2.8290, -999.0000, -3.3457, -3.4367,
-  -3.4883, -3.3938, -3.3581, -3.3325, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -1.0777,
-  -1.4209, -1.7730, -2.1178, -2.4493, -2.7517, -3.0182, -3.2246, -3.3661,
-  -3.4211, -3.3987, -3.3770, -3.3992, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -1.4122, -1.7552, -2.0843, -2.4099, -2.6914, -2.9471, -3.1363, -3.2880,
-  -3.3747, -3.3744, -3.3723, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -1.7357, -2.0487, -2.3715, -2.6301, -2.8809, -3.0491, -3.1756,
-  -3.2885, -3.3586, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -2.0201, -2.3250, -2.5703, -2.8159, -2.9678, -3.0997,
-  -3.2285, -4.5975, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -2.3217, -2.5300, -2.7617, -2.9213, -3.7249,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-  -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000, -999.0000,
-];
@@ -122,7 +122,8 @@ export interface SceneryObject {
   depth?: number;
 }
 
-export type TrackId = "track1" | "neon-circuit";
+/** Any registered track — the built-ins plus whatever `registerTrack` has loaded */
+export type TrackId = string;
 
 export interface TrackVisualTransform {
   position: Vec3;
@@ -140,6 +141,23 @@ export type TrackVisualDefinition =
       transform: TrackVisualTransform;
     };
 
+/**
+ * Road surface heights on a regular XZ grid, baked from a track's road mesh
+ * by scripts/bake-track-heightfield.mjs. `data` is base64 little-endian
+ * int16 heights in HEIGHTFIELD_STEP units; a run of cells off the road is
+ * stored as `sentinel` followed by the run length (unsigned).
+ */
+export interface TrackHeightfield {
+  originX: number;
+  originZ: number;
+  cellWidth: number;
+  cellHeight: number;
+  cols: number;
+  rows: number;
+  sentinel: number;
+  data: string;
+}
+
 export interface TrackDefinition {
   points: TrackPoint[];
   segments: TrackSegment[];
@@ -152,6 +170,85 @@ export interface TrackDefinition {
   shortcuts: ShortcutZone[];
   scenery: SceneryObject[];
   visual: TrackVisualDefinition;
+  /** Mesh tracks drive on the baked road surface; spline tracks have none */
+  heightfield: TrackHeightfield | null;
+}
+
+// ---------------------------------------------------------------------------
+// Track file types — the JSON content format read by track-loader.ts
+// ---------------------------------------------------------------------------
+
+/** Centerline from control points: a closed Catmull-Rom spline */
+export interface TrackSplinePath {
+  kind: "spline";
+  /** Segments generated between each pair of control points */
+  segmentsPerSpan: number;
+  points: TrackPoint[];
+}
+
+/** Centerline already sampled one point per segment (e.g. traced from a mesh) */
+export interface TrackPolylinePath {
+  kind: "polyline";
+  centers: [number, number, number][];
+  /** Road width at each center */
+  widths: number[];
+}
+
+export interface TrackItemBoxRow {
+  segment: number;
+  /** Boxes spread evenly across the road */
+  count: number;
+}
+
+export interface TrackGridSlot {
+  segment: number;
+  /** Distance right of the centerline; negative is left */
+  offset: number;
+}
+
+export interface TrackFile {
+  format: typeof TRACK_FILE_FORMAT;
+  version: number;
+  id: TrackId;
+  name: string;
+  path: TrackSplinePath | TrackPolylinePath;
+  boostZones: BoostZone[];
+  itemBoxRows: TrackItemBoxRow[];
+  /** Segment index of each checkpoint; evenly spaced when left out */
+  checkpoints?: number[];
+  shortcuts: ShortcutZone[];
+  scenery: SceneryObject[];
+  /** One slot per kart, pole position first */
+  startGrid: {
+    /** Height above the road karts are dropped from */
+    lift: number;
+    slots: TrackGridSlot[];
+  };
+  visual: TrackVisualDefinition;
+  /** Written by the bake script; tracks without one are driven on the centerline */
+  heightfield?: TrackHeightfield;
+}
+
+// ---------------------------------------------------------------------------
+// Track validation types
+// ---------------------------------------------------------------------------
+
+export type TrackIssueCheck =
+  | "checkpoints"
+  | "startGrid"
+  | "selfIntersection"
+  | "banking"
+  | "width"
+  | "itemBoxes"
+  | "boostShortcutOverlap";
+
+/** A problem `validateTrack` found; errors break races, warnings are worth a look */
+export interface TrackIssue {
+  check: TrackIssueCheck;
+  severity: "error" | "warning";
+  message: string;
+  /** Where on the lap it is, when it's in one place */
+  segmentIndex?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -164,6 +261,7 @@ export interface KartInput {
   brake: boolean;
   drift: boolean;
   useItem: boolean;
+  seq?: number; // client sequence number, echoed back in RaceSnapshot.inputAcks
 }
 
 export type DriftDirection = -1 | 0 | 1;
@@ -184,6 +282,8 @@ export type KartStatus =
   | "spinning"
   | "falling";
 
+export type BotDifficulty = "easy" | "normal" | "hard";
+
 export type RocketStartTier = "perfect" | "good" | "ok" | "stall" | "none";
 
 export interface RaceStats {
@@ -193,6 +293,9 @@ export interface RaceStats {
   driftBoosts: number;
   topSpeed: number;
   bestLapTime: number | null;
+  lapStartTime: number; // raceTimer when the current lap began
+  lapTimes: number[]; // ms per completed lap
+  splits: number[][]; // per lap: ms from lap start to each checkpoint
 }
 
 export interface KartState {
@@ -275,6 +378,14 @@ export type RacePhase =
   | "racing"
   | "finished";
 
+/** `timeTrial`: one racer, no item boxes, a fixed mushroom allowance */
+export type RaceMode = "race" | "timeTrial";
+
+/** `custom` uses the room's per-item weights on top of the normal odds */
+export type RaceItemMode = "normal" | "off" | "custom";
+
+export type RaceSpeedClass = "50cc" | "100cc" | "150cc";
+
 export interface RaceRoomState {
   id: string;
   name: string;
@@ -294,8 +405,47 @@ export interface RaceRoomState {
   readyPlayers: string[];
   rematchVotes: Record<string, boolean>;
   stats: Record<string, RaceStats>;
+  hostId: string | null; // player who manages the room (bots, settings)
+  bots: Record<string, BotDifficulty>; // CPU-driven kart IDs
+  mode: RaceMode;
+  itemMode: RaceItemMode;
+  itemWeights: Record<ItemType, number>; // only used when itemMode is "custom"
+  speedClass: RaceSpeedClass;
+  disconnected: Record<string, number>; // kart ID -> when its racer dropped (ms)
+  cup: RaceCup | null; // set while the room runs a cup
+  heat: TournamentHeatInfo | null; // set when the room hosts a tournament heat
+}
+
+/** One racer's running total in a cup; kept after they leave */
+export interface CupStanding {
+  kartId: string;
+  name: string;
+  points: number;
+  wins: number;
+  lastPoints: number; // from the most recent race
+}
+
+export interface CupRaceResult {
+  trackId: TrackId;
+  places: { kartId: string; name: string; place: number | null; points: number }[];
 }
 
+/** A fixed run of races, scored by finishing place */
+export interface RaceCup {
+  tracks: TrackId[];
+  raceIndex: number; // race being run or just finished (0-based)
+  standings: CupStanding[]; // leader first
+  results: CupRaceResult[]; // one per finished race
+  championId: string | null; // set once the last race is scored
+  nextRaceAt: number | null; // wall clock (ms) the intermission ends, between races only
+}
+
+/** The part of the room state the host can change while waiting */
+export type RaceRoomSettings = Pick<
+  RaceRoomState,
+  "trackId" | "lapCount" | "itemMode" | "itemWeights" | "speedClass" | "maxPlayers"
+>;
+
 // ---------------------------------------------------------------------------
 // Event payloads
 // ---------------------------------------------------------------------------
@@ -330,10 +480,29 @@ export interface RaceSnapshot {
   raceTimer: number;
   positions: string[];
   tick: number;
+  /** Last input seq the server has simulated, per kart (client prediction) */
+  inputAcks?: Record<string, number>;
 }
 
+/** RaceSnapshot as sent over the wire: binary, delta-encoded (see snapshot-codec.ts) */
+export type EncodedRaceSnapshot = Uint8Array;
+
 export interface KartJoinedEvent {
   kart: KartState;
+  /** Set when the kart is a CPU racer */
+  botDifficulty?: BotDifficulty;
+}
+
+export interface HostChangedEvent {
+  hostId: string | null;
+}
+
+export interface RoomSettingsChangedEvent {
+  settings: RaceRoomSettings;
+}
+
+export interface CupUpdatedEvent {
+  cup: RaceCup | null;
 }
 
 export interface KartLeftEvent {
@@ -341,6 +510,18 @@ export interface KartLeftEvent {
   kartName: string;
 }
 
+/** A racer's connection dropped mid-race; their kart coasts until they rejoin */
+export interface KartDisconnectedEvent {
+  kartId: string;
+  kartName: string;
+  graceMs: number; // the kart is removed if they aren't back by then
+}
+
+export interface KartReconnectedEvent {
+  kartId: string;
+  kartName: string;
+}
+
 export interface ItemPickedUpEvent {
   kartId: string;
   item: ItemType;
@@ -367,6 +548,17 @@ export interface LapCompletedEvent {
   raceTime: number;
 }
 
+export interface CheckpointSplitEvent {
+  kartId: string;
+  lap: number; // 0-based lap the checkpoint belongs to
+  checkpoint: number;
+  splitTime: number; // ms since that lap began
+}
+
+export interface LapGhostEvent {
+  ghost: RaceGhost;
+}
+
 export interface RaceFinishedEvent {
   positions: string[];
   finishTimes: Record<string, number | null>;
@@ -419,6 +611,302 @@ export interface RaceJoinStateResult {
   isSpectator: boolean;
 }
 
+export interface ReplaySavedEvent {
+  replayId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Replay types
+// ---------------------------------------------------------------------------
+
+/** Input change for one kart: [tick offset, kart index, steering, button flags] */
+export type ReplayInputFrame = [tick: number, kart: number, steering: number, flags: number];
+
+/**
+ * A recorded race: the state at countdown start plus every input change.
+ * Re-running RaceSimulation over it reproduces the race exactly.
+ */
+export interface RaceReplay {
+  version: number;
+  id: string;
+  roomId: string;
+  trackId: TrackId;
+  recordedAt: number;
+  seed: number;
+  /** RNG state when the countdown began */
+  rngState: number;
+  /** Simulation tick when the countdown began */
+  startTick: number;
+  initialState: RaceRoomState;
+  /** Kart ids referenced by index from `inputs` and `removals` */
+  kartIds: string[];
+  /** [kart index, BotDriver seed] for each bot; bots have no `inputs` */
+  botSeeds: [kart: number, seed: number][];
+  /** Tick lengths in ms, run-length encoded as [dtMs, count, dtMs, count, ...] */
+  dt: number[];
+  inputs: ReplayInputFrame[];
+  /** Karts that left mid-race: [tick offset, kart index] */
+  removals: [tick: number, kart: number][];
+  durationTicks: number;
+  positions: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Ghost types
+// ---------------------------------------------------------------------------
+
+/**
+ * One recorded lap, raced against in time trials. Frames are flattened as
+ * [ms since lap start, x, y, z, heading] every GHOST_SAMPLE_INTERVAL.
+ */
+export interface RaceGhost {
+  version: number;
+  trackId: TrackId;
+  carId: RaceCarId;
+  playerName: string;
+  recordedAt: number;
+  lapTime: number;
+  /** ms from lap start to each checkpoint */
+  splits: number[];
+  frames: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Test drive types
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a test-drive kart got into trouble: `offRoad` when it left the
+ * road, `wall` when it scrubbed along the edge of the course, and
+ * `outOfBounds` when it went far enough off to be respawned.
+ */
+export type TestDriveMarkKind = "offRoad" | "wall" | "outOfBounds";
+
+export interface TestDriveMark {
+  kind: TestDriveMarkKind;
+  position: Vec3;
+  /** 0-based lap it happened on */
+  lap: number;
+  segmentIndex: number;
+}
+
+// ---------------------------------------------------------------------------
+// Leaderboard types
+// ---------------------------------------------------------------------------
+
+export interface LeaderboardEntry {
+  playerName: string;
+  carId: RaceCarId;
+  time: number; // ms
+  recordedAt: number;
+}
+
+/** Fastest times for one track in one mode, fastest first */
+export interface LeaderboardBoard {
+  totalTimes: LeaderboardEntry[];
+  bestLaps: LeaderboardEntry[];
+}
+
+export interface LeaderboardState {
+  trackId: TrackId;
+  boards: Record<RaceMode, LeaderboardBoard>;
+}
+
+/** One racer's result as reported by a race room */
+export interface LeaderboardResult {
+  playerName: string;
+  carId: RaceCarId;
+  finishTime: number | null; // null if they didn't complete every lap
+  bestLapTime: number | null;
+}
+
+export interface LeaderboardReport {
+  roomId: string;
+  mode: RaceMode;
+  lapCount: number;
+  speedClass: RaceSpeedClass;
+  results: LeaderboardResult[];
+}
+
+export interface LeaderboardUpdatedEvent {
+  mode: RaceMode;
+  board: LeaderboardBoard;
+}
+
+// ---------------------------------------------------------------------------
+// Player profile types
+// ---------------------------------------------------------------------------
+
+/** Lifetime totals across every race the player finished or left */
+export interface PlayerCareer {
+  races: number;
+  wins: number;
+  podiums: number;
+  finishes: number; // races where every lap was completed
+  itemsUsed: number;
+  hitsDealt: number;
+  hitsTaken: number;
+  driftBoosts: number;
+  topSpeed: number;
+  bestLaps: Partial<Record<TrackId, number>>; // ms, any mode or class
+}
+
+/** One entry in a player's race history, newest first */
+export interface PlayerRaceRecord {
+  raceId: string; // roomId plus the finish time, unique per race
+  roomId: string;
+  trackId: TrackId;
+  mode: RaceMode;
+  speedClass: RaceSpeedClass;
+  lapCount: number;
+  carId: RaceCarId;
+  place: number | null; // null if they didn't finish
+  racers: number; // humans and bots on the grid
+  finishTime: number | null;
+  bestLapTime: number | null;
+  recordedAt: number;
+}
+
+/** Sent by a race room to each human racer's player actor */
+export interface PlayerRaceReport {
+  record: Omit<PlayerRaceRecord, "recordedAt">;
+  stats: Pick<RaceStats, "itemsUsed" | "hitsDealt" | "hitsTaken" | "driftBoosts" | "topSpeed">;
+}
+
+/**
+ * A player as everyone else sees them. The private token that keys the
+ * player actor is never part of it; `id` is safe to share.
+ */
+export interface PlayerProfile {
+  id: string;
+  displayName: string;
+  carId: RaceCarId;
+  accentIndex: number | null; // preferred accent slot, null = whatever is free
+  createdAt: number;
+  lastSeenAt: number;
+  career: PlayerCareer;
+  recentRaces: PlayerRaceRecord[];
+}
+
+export type PlayerProfilePatch = Partial<Pick<PlayerProfile, "displayName" | "carId" | "accentIndex">>;
+
+export interface ProfileUpdatedEvent {
+  profile: PlayerProfile;
+}
+
+// ---------------------------------------------------------------------------
+// Party types
+// ---------------------------------------------------------------------------
+
+/** A party member, identified by their public profile ID */
+export interface PartyMember {
+  id: string;
+  name: string;
+  carId: RaceCarId;
+  joinedAt: number;
+}
+
+export interface PartyMemberPresence extends PartyMember {
+  online: boolean; // has a connection to the party right now
+}
+
+export interface PartySnapshot {
+  id: string;
+  leaderId: string | null;
+  members: PartyMemberPresence[]; // in join order
+  roomId: string | null; // room the leader last took the party to
+}
+
+export interface PartyJoinResult {
+  success: boolean;
+  message?: string;
+  memberId?: string;
+}
+
+export interface PartyUpdatedEvent {
+  party: PartySnapshot;
+}
+
+/** Sent to members only: follow the leader into this room */
+export interface PartyMovedEvent {
+  roomId: string;
+  password?: string;
+}
+
+export interface PartyKickedEvent {
+  partyId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Tournament types
+// ---------------------------------------------------------------------------
+
+export type TournamentStatus = "signup" | "running" | "finished";
+
+/** A signed-up racer, identified by their public profile ID */
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  rating: number | null; // race rating at sign-up, if it could be read
+  seed: number; // 1 = top seed; 0 until the bracket is drawn
+  eliminated: boolean;
+}
+
+export interface TournamentHeat {
+  id: string;
+  round: number; // 0-based
+  roomId: string;
+  entrantIds: string[]; // in seed order
+  status: "pending" | "finished";
+  places: string[]; // entrant IDs in finishing order; no-shows are left out
+  advancing: string[]; // entrant IDs moving on (the winner, in the final)
+  deadlineAt: number; // after this, a heat not under way is decided without its no-shows
+}
+
+export interface TournamentSnapshot {
+  id: string;
+  name: string;
+  status: TournamentStatus;
+  hostId: string | null; // the organizer's profile ID
+  trackId: TrackId;
+  lapCount: number;
+  entrants: TournamentEntrant[]; // in sign-up order
+  rounds: TournamentHeat[][]; // heats per round, earliest first
+  championId: string | null;
+  createdAt: number;
+}
+
+export interface TournamentSettings {
+  name: string;
+  trackId: TrackId;
+  lapCount: number;
+}
+
+/** What a race room needs to know to run one heat */
+export interface TournamentHeatInfo {
+  tournamentId: string;
+  heatId: string;
+  label: string; // e.g. "Weekend Cup · Round 1 · Heat 2"
+  entrantIds: string[];
+}
+
+/** Sent by a heat's race room when its race finishes */
+export interface TournamentHeatReport {
+  heatId: string;
+  roomId: string;
+  positions: string[]; // kart IDs, 1st first
+}
+
+/** A heat room's answer when its deadline passes */
+export interface TournamentHeatPresence {
+  underway: boolean; // counting down or racing; the report will follow
+  entrantIds: string[]; // entrants holding a kart in the room
+}
+
+export interface TournamentUpdatedEvent {
+  tournament: TournamentSnapshot;
+}
+
 // ---------------------------------------------------------------------------
 // Lobby types (extends existing bump game lobby)
 // ---------------------------------------------------------------------------
@@ -440,6 +928,22 @@ export interface RaceRoomSummary {
 export const TRACK_ROAD_WIDTH = 18;
 export const TRACK_WALL_HEIGHT = 1.5;
 export const NUM_CHECKPOINTS = 8;
+/** A checkpoint counts once a kart is within this fraction of the lap of it */
+export const CHECKPOINT_RANGE_FRACTION = 0.05;
+/** With every checkpoint passed, the lap completes within this fraction past segment 0 */
+export const LAP_LINE_FRACTION = 0.1;
+export const TRACK_FILE_FORMAT = "rivet-kart-track";
+export const TRACK_FILE_VERSION = 1;
+/** World units per stored heightfield step */
+export const HEIGHTFIELD_STEP = 0.01;
+
+// ---------------------------------------------------------------------------
+// Constants — Track validation
+// ---------------------------------------------------------------------------
+
+export const TRACK_MIN_ROAD_WIDTH = 6; // narrower and karts can't pass each other
+export const TRACK_MAX_BANKING = 0.5; // radians (~29°) before karts start sliding off
+export const TRACK_BRIDGE_CLEARANCE = 4; // height gap at which crossing roads count as a bridge
 
 // ---------------------------------------------------------------------------
 // Constants — Kart physics
@@ -483,6 +987,8 @@ export const SHELL_RADIUS = 1.5;
 export const BANANA_RADIUS = 1.5;
 export const SPIN_DURATION = 1500;
 export const ITEM_BOX_RESPAWN_TIME = 10000;
+/** A kart collects a box within this distance of it, in plan view */
+export const ITEM_BOX_PICKUP_RADIUS = KART_RADIUS + 0.8;
 export const PROJECTILE_MAX_AGE = 10000;
 
 // ---------------------------------------------------------------------------
@@ -510,6 +1016,60 @@ export const RACE_TIME_LIMIT = 300000; // 5 minutes max
 export const PRE_RACE_COUNTDOWN = 3000;
 export const RACE_FINISH_DISPLAY = 10000;
 export const KART_COLLISION_PUSH = 0.75;
+export const RACE_REJOIN_GRACE = 30000; // ms a dropped racer's kart waits for them mid-race
+
+// ---------------------------------------------------------------------------
+// Constants — Room settings
+// ---------------------------------------------------------------------------
+
+export const RACE_MIN_LAPS = 1;
+export const RACE_MAX_LAPS = 7;
+export const ITEM_WEIGHT_MAX = 5; // custom odds multiplier per item, 0 = never rolled
+export const DEFAULT_ITEM_WEIGHTS: Record<ItemType, number> = {
+  greenShell: 1,
+  redShell: 1,
+  banana: 1,
+  mushroom: 1,
+  triMushroom: 1,
+  star: 1,
+  lightning: 1,
+  blueShell: 1,
+};
+export const RACE_DEFAULT_SPEED_CLASS: RaceSpeedClass = "150cc";
+/** Scales top speed and acceleration; 150cc is the tuned baseline */
+export const SPEED_CLASS_MULTIPLIERS: Record<RaceSpeedClass, number> = {
+  "50cc": 0.8,
+  "100cc": 0.9,
+  "150cc": 1,
+};
+
+// ---------------------------------------------------------------------------
+// Constants — Cups
+// ---------------------------------------------------------------------------
+
+export const CUP_POINTS = [10, 7, 5, 3]; // by finishing place; a DNF scores nothing
+export const CUP_MIN_RACES = 2;
+export const CUP_MAX_RACES = 6;
+export const CUP_INTERMISSION = 12000; // ms of standings between races
+
+// ---------------------------------------------------------------------------
+// Constants — Time trial
+// ---------------------------------------------------------------------------
+
+export const TIME_TRIAL_MUSHROOMS = 3; // granted once at the start, no item boxes
+export const GHOST_FORMAT_VERSION = 1;
+export const GHOST_SAMPLE_INTERVAL = 50; // ms between recorded ghost frames
+export const GHOST_FRAME_SIZE = 5; // t, x, y, z, heading
+export const GHOST_OPACITY = 0.35;
+export const GHOST_KART_ID = "ghost"; // render-only kart, never in state.players
+
+// ---------------------------------------------------------------------------
+// Constants — Test drive
+// ---------------------------------------------------------------------------
+
+export const TEST_DRIVE_KART_ID = "test-driver";
+export const TEST_DRIVE_MAX_MARKS = 300; // oldest marks drop off past this
+export const TEST_DRIVE_MARK_SPACING = 6; // min distance between marks of one kind
 
 // ---------------------------------------------------------------------------
 // Constants — Car selection and player accents
@@ -529,6 +1089,73 @@ export const RACE_SERVER_TICK_INTERVAL = 16; // ~60Hz
 export const RACE_SNAPSHOT_INTERVAL = 50; // 20Hz
 export const RACE_INPUT_SEND_INTERVAL = 50; // 20Hz
 
+// ---------------------------------------------------------------------------
+// Constants — Client prediction
+// ---------------------------------------------------------------------------
+
+export const PREDICTION_HISTORY_TICKS = 120; // ~2s of unacknowledged ticks kept for replay
+export const PREDICTION_POSITION_TOLERANCE = 1.5; // world units before a rewind
+export const PREDICTION_HEADING_TOLERANCE = 0.15; // radians before a rewind
+export const PREDICTION_ERROR_DECAY = 10; // correction smoothing rate per second
+
+// ---------------------------------------------------------------------------
+// Constants — Snapshot interpolation
+// ---------------------------------------------------------------------------
+
+export const INTERP_BASE_DELAY = 100; // ms remote entities are rendered in the past
+export const INTERP_MAX_DELAY = 300; // ms, upper bound once jitter is added
+export const INTERP_JITTER_MULTIPLIER = 2; // extra delay per ms of measured jitter
+export const INTERP_MAX_EXTRAPOLATION = 50; // ms to coast past the newest snapshot
+export const INTERP_BUFFER_SIZE = 32; // snapshots kept (~1.6s at 20Hz)
+
+// ---------------------------------------------------------------------------
+// Constants — Snapshot encoding
+// ---------------------------------------------------------------------------
+
+export const SNAPSHOT_PROTOCOL_VERSION = 1;
+export const SNAPSHOT_BASELINE_HISTORY = 32; // sent snapshots a delta may be based on (~1.6s)
+export const SNAPSHOT_POSITION_SCALE = 100; // 1cm precision
+export const SNAPSHOT_FINE_SCALE = 1000; // speeds, velocities and other small floats
+export const SNAPSHOT_HEADING_STEPS = 65536; // heading quantized to 16 bits
+
+// ---------------------------------------------------------------------------
+// Constants — Replays
+// ---------------------------------------------------------------------------
+
+export const RACE_REPLAY_VERSION = 2;
+export const RACE_REPLAY_HISTORY = 3; // replays kept per room
+export const RACE_REPLAY_FRAME_TICKS = 3; // playback keyframe every N ticks (~20Hz)
+
+// ---------------------------------------------------------------------------
+// Constants — Leaderboards
+// ---------------------------------------------------------------------------
+
+export const LEADERBOARD_SIZE = 10; // entries kept per board
+
+// ---------------------------------------------------------------------------
+// Constants — Player profiles
+// ---------------------------------------------------------------------------
+
+export const PLAYER_RECENT_RACES = 20; // race history entries kept per profile
+export const PLAYER_TOKEN_STORAGE_KEY = "rivet-kart:player-token";
+
+// ---------------------------------------------------------------------------
+// Constants — Parties
+// ---------------------------------------------------------------------------
+
+export const PARTY_MAX_SIZE = RACE_MAX_PLAYERS; // a party always fits in one race room
+export const PARTY_STORAGE_KEY = "rivet-kart:party";
+
+// ---------------------------------------------------------------------------
+// Constants — Tournaments
+// ---------------------------------------------------------------------------
+
+export const TOURNAMENT_MIN_ENTRANTS = 2;
+export const TOURNAMENT_MAX_ENTRANTS = 32;
+export const TOURNAMENT_ADVANCE_PER_HEAT = 2; // top finishers per heat who reach the next round
+export const TOURNAMENT_HEAT_DEADLINE_MS = 10 * 60_000; // from a heat's draw until no-shows forfeit
+export const TOURNAMENT_DEADLINE_CHECK_INTERVAL = 15_000;
+
 // ---------------------------------------------------------------------------
 // Constants — Lobby
 // ---------------------------------------------------------------------------
@@ -0,0 +1,112 @@
+/**
+ * useParty — composable for the local player's party.
+ *
+ * Connects to the party actor, keeps its snapshot current and hands the
+ * leader's moves to `onMoved`. The party ID is remembered in localStorage,
+ * so the lobby page and every race room reconnect to the same party.
+ */
+
+import { getRivetContext } from "@rivetkit/svelte";
+import type { registry } from "$lib/actors/registry.js";
+import {
+  PARTY_STORAGE_KEY,
+  type PartyJoinResult,
+  type PartyMovedEvent,
+  type PartySnapshot,
+  type PartyUpdatedEvent,
+} from "./types.js";
+import type { ActionResult } from "../game/types.js";
+
+interface PartyActions {
+  getParty(): Promise<PartySnapshot>;
+  join(inviteToken?: string): Promise<PartyJoinResult>;
+  invite(renew?: boolean): Promise<string | null>;
+  leave(): Promise<void>;
+  kick(memberId: string): Promise<ActionResult>;
+  moveTo(roomId: string, password?: string): Promise<ActionResult>;
+}
+
+interface UsePartyOptions {
+  partyId: string;
+  playerToken: string;
+  /** The leader took the party to another room */
+  onMoved?: (event: PartyMovedEvent) => void;
+  /** This player was kicked; the stored party ID is already cleared */
+  onRemoved?: () => void;
+}
+
+export function loadPartyId(): string | null {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    return localStorage.getItem(PARTY_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePartyId(partyId: string | null): void {
+  if (typeof localStorage === "undefined") return;
+  try {
+    if (partyId) localStorage.setItem(PARTY_STORAGE_KEY, partyId);
+    else localStorage.removeItem(PARTY_STORAGE_KEY);
+  } catch {
+    // Storage disabled — the party lasts until the page is left
+  }
+}
+
+export function newPartyId(): string {
+  return `party_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function useParty(options: UsePartyOptions) {
+  const { partyId, playerToken, onMoved, onRemoved } = options;
+  const { useActor } = getRivetContext<typeof registry>();
+
+  const party = useActor({
+    name: "party",
+    key: [partyId],
+    params: { playerToken },
+  }) as ReturnType<typeof useActor> & PartyActions;
+
+  let snapshot = $state<PartySnapshot | null>(null);
+
+  $effect(() => {
+    if (!party.isConnected) return;
+    party
+      .getParty()
+      .then((result) => {
+        snapshot = result;
+      })
+      .catch(() => {});
+  });
+
+  party.onEvent("partyUpdated", (data: PartyUpdatedEvent) => {
+    snapshot = data.party;
+  });
+
+  party.onEvent("partyMoved", (data: PartyMovedEvent) => {
+    onMoved?.(data);
+  });
+
+  party.onEvent("partyKicked", () => {
+    savePartyId(null);
+    onRemoved?.();
+  });
+
+  return {
+    get party() {
+      return snapshot;
+    },
+    get isConnected() {
+      return party.isConnected;
+    },
+    join: (inviteToken?: string) => party.join(inviteToken),
+    invite: (renew?: boolean) => party.invite(renew),
+    kick: (memberId: string) => party.kick(memberId),
+    moveTo: (roomId: string, password?: string) => party.moveTo(roomId, password),
+    async leave(): Promise<void> {
+      savePartyId(null);
+      await party.leave().catch(() => {});
+    },
+  };
+}
@@ -2,8 +2,8 @@
  * useRaceRoom — composable that wires a raceRoom actor to a RaceStore.
  *
  * Creates the actor connection, subscribes to events, and provides
- * controls (sendInput, useItem, leave, readyUp, voteRematch) for
- * components to use.
+ * controls (sendInput, useItem, leave, readyUp, voteRematch, and the host's
+ * addBot/removeBot/updateRoomSettings/configureCup) for components to use.
  */
 
 import { goto } from "$app/navigation";
@@ -12,44 +12,88 @@ import { useThrottle } from "runed";
 import type { registry } from "$lib/actors/registry.js";
 import { RaceStore } from "./race-store.svelte.js";
 import type { RaceRoomControls } from "./context.js";
+import { idleKartInput } from "./race-simulation.js";
 import {
   RACE_INPUT_SEND_INTERVAL,
+  RACE_SERVER_TICK_INTERVAL,
+  type BotDifficulty,
+  type CheckpointSplitEvent,
+  type CupUpdatedEvent,
   type KartInput,
-  type KartState,
+  type KartJoinedEvent,
+  type RaceMode,
   type RacePhase,
-  type RaceSnapshot,
+  type EncodedRaceSnapshot,
   type RaceJoinStateResult,
   type KartHitEvent,
   type LapCompletedEvent,
+  type LapGhostEvent,
   type ItemPickedUpEvent,
   type ItemUsedEvent,
   type RaceFinishedEvent,
   type RacePhaseChangedEvent,
+  type ReplaySavedEvent,
+  type HostChangedEvent,
+  type KartDisconnectedEvent,
+  type KartReconnectedEvent,
+  type RaceRoomSettings,
+  type RoomSettingsChangedEvent,
+  type TrackId,
 } from "./types.js";
+import {
+  ROOM_PASSWORD_LOCKED,
+  ROOM_PASSWORD_REQUIRED,
+  ROOM_PASSWORD_WRONG,
+  type ActionResult,
+  type RatingsChangedEvent,
+} from "../game/types.js";
 
 interface UseRaceRoomOptions {
   roomId: string;
   playerName: string;
   carId: string;
+  /** Identity token; the server takes the name and car from this player's profile */
+  playerToken?: string;
+  /** Lets this tab take its kart back if the connection drops mid-race */
+  rejoinToken?: string;
+  /** For password-protected rooms */
+  password?: string;
   store: RaceStore;
+  /** Only used if this client ends up creating the room */
+  mode?: RaceMode;
 }
 
 interface RaceRoomActions {
   getJoinState(): Promise<RaceJoinStateResult>;
   sendInput(input: KartInput): Promise<void>;
+  ackSnapshot(tick: number): Promise<void>;
   useItem(): Promise<void>;
   readyUp(): Promise<void>;
   voteRematch(): Promise<void>;
+  addBot(difficulty: BotDifficulty): Promise<string | null>;
+  removeBot(kartId?: string): Promise<void>;
+  updateRoomSettings(patch: Partial<RaceRoomSettings>): Promise<RaceRoomSettings | null>;
+  configureCup(tracks: TrackId[] | null): Promise<ActionResult>;
 }
 
 export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
-  const { roomId, playerName, carId, store } = opts;
+  const {
+    roomId,
+    playerName,
+    carId,
+    playerToken,
+    rejoinToken,
+    password,
+    store,
+    mode = "race",
+  } = opts;
   const { useActor } = getRivetContext<typeof registry>();
 
   const room = useActor(() => ({
     name: "raceRoom" as const,
     key: [roomId],
-    params: { playerName, carId },
+    params: { playerName, carId, playerToken, rejoinToken, password },
+    createWithInput: { mode },
   })) as ReturnType<typeof useActor> & RaceRoomActions;
 
   // -------------------------------------------------------------------------
@@ -88,16 +132,26 @@ export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
   // Wire actor events → store mutations
   // -------------------------------------------------------------------------
 
-  room.onEvent("kartJoined", (data: { kart: KartState }) => {
-    store.addKart(data.kart);
+  room.onEvent("kartJoined", (data: KartJoinedEvent) => {
+    store.addKart(data);
   });
 
   room.onEvent("kartLeft", (data: { kartId: string }) => {
     store.removeKart(data.kartId);
   });
 
-  room.onEvent("raceSnapshot", (data: RaceSnapshot) => {
-    store.applySnapshot(data);
+  room.onEvent("kartDisconnected", (data: KartDisconnectedEvent) => {
+    store.applyKartDisconnected(data);
+  });
+
+  room.onEvent("kartReconnected", (data: KartReconnectedEvent) => {
+    store.applyKartReconnected(data);
+  });
+
+  room.onEvent("raceSnapshot", (data: EncodedRaceSnapshot) => {
+    // Acks let the server delta-encode the next snapshot against this one
+    const tick = store.applyEncodedSnapshot(data);
+    room.ackSnapshot(tick).catch(() => {});
   });
 
   room.onEvent("phaseChanged", (data: RacePhaseChangedEvent) => {
@@ -141,6 +195,14 @@ export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
     store.applyLapCompleted(data);
   });
 
+  room.onEvent("checkpointSplit", (data: CheckpointSplitEvent) => {
+    store.applyCheckpointSplit(data);
+  });
+
+  room.onEvent("lapGhost", (data: LapGhostEvent) => {
+    store.applyLapGhost(data);
+  });
+
   room.onEvent("raceFinished", (data: RaceFinishedEvent) => {
     store.applyRaceFinished(data);
     store.phase = "finished";
@@ -189,16 +251,40 @@ export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
     store.applyRaceToast(data);
   });
 
+  room.onEvent("replaySaved", (data: ReplaySavedEvent) => {
+    store.lastReplayId = data.replayId;
+  });
+
+  room.onEvent("hostChanged", (data: HostChangedEvent) => {
+    store.hostId = data.hostId;
+  });
+
+  room.onEvent("ratingsChanged", (data: RatingsChangedEvent) => {
+    store.applyRatingsChanged(data);
+  });
+
+  room.onEvent("roomSettingsChanged", (data: RoomSettingsChangedEvent) => {
+    store.applyRoomSettings(data);
+    // A new track moves the grid and item boxes; pull the full state
+    syncState();
+  });
+
+  room.onEvent("cupUpdated", (data: CupUpdatedEvent) => {
+    store.applyCupUpdated(data);
+  });
+
   // -------------------------------------------------------------------------
   // Throttled input sender (20 Hz)
   // -------------------------------------------------------------------------
 
   let lastInput: KartInput | null = null;
+  // Seq the next send will carry; predicted ticks are tagged with it too
+  let inputSeq = 0;
 
   const throttledSend = useThrottle(
     () => {
       if (!lastInput || !room.isConnected) return;
-      room.sendInput({ ...lastInput }).catch(() => {});
+      room.sendInput({ ...lastInput, seq: inputSeq++ }).catch(() => {});
     },
     () => RACE_INPUT_SEND_INTERVAL,
   );
@@ -208,6 +294,30 @@ export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
     throttledSend();
   }
 
+  // -------------------------------------------------------------------------
+  // Local kart prediction (fixed steps at the server tick rate)
+  // -------------------------------------------------------------------------
+
+  $effect(() => {
+    let rafId = 0;
+    let last = performance.now();
+    let accumulator = 0;
+
+    const frame = (now: number) => {
+      // Cap catch-up after a backgrounded tab; the server corrects the rest
+      accumulator = Math.min(accumulator + now - last, RACE_SERVER_TICK_INTERVAL * 8);
+      last = now;
+      while (accumulator >= RACE_SERVER_TICK_INTERVAL) {
+        accumulator -= RACE_SERVER_TICK_INTERVAL;
+        store.predictLocalKart(lastInput ?? idleKartInput(), inputSeq, RACE_SERVER_TICK_INTERVAL);
+      }
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+
+    return () => cancelAnimationFrame(rafId);
+  });
+
   function useItem(): void {
     if (!room.isConnected) return;
     room.useItem().catch(() => {});
@@ -227,17 +337,54 @@ export function useRaceRoom(opts: UseRaceRoomOptions): RaceRoomControls {
     room.voteRematch().catch(() => {});
   }
 
+  function addBot(difficulty: BotDifficulty): void {
+    if (!room.isConnected) return;
+    room.addBot(difficulty).catch(() => {});
+  }
+
+  function removeBot(kartId?: string): void {
+    if (!room.isConnected) return;
+    room.removeBot(kartId).catch(() => {});
+  }
+
+  function updateRoomSettings(patch: Partial<RaceRoomSettings>): void {
+    if (!room.isConnected) return;
+    room.updateRoomSettings(patch).catch(() => {});
+  }
+
+  function configureCup(tracks: TrackId[] | null): void {
+    if (!room.isConnected) return;
+    room
+      .configureCup(tracks)
+      .then((result) => {
+        if (!result.success && result.message) store.addToast(result.message, "#FF4444");
+      })
+      .catch(() => {});
+  }
+
   return {
     sendInput,
     useItem,
     leave,
     readyUp,
     voteRematch,
+    addBot,
+    removeBot,
+    updateRoomSettings,
+    configureCup,
     get isConnected() {
       return room.isConnected;
     },
     get connStatus() {
       return (room as any).connStatus ?? "unknown";
     },
+    get accessError() {
+      const code = (room.error as { code?: string } | null)?.code;
+      return code === ROOM_PASSWORD_REQUIRED ||
+        code === ROOM_PASSWORD_WRONG ||
+        code === ROOM_PASSWORD_LOCKED
+        ? code
+        : null;
+    },
   };
 }
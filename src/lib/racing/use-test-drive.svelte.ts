@@ -0,0 +1,235 @@
+/**
+ * useTestDrive — runs a RaceSimulation in the browser and wires it to a
+ * RaceStore, standing in for useRaceRoom so RaceScene and RaceInput work
+ * unchanged with no actor behind them. The track editor uses it to drive
+ * a draft that only exists in this tab's track registry.
+ *
+ * While the kart drives, every spot where it leaves the road, scrubs along
+ * the edge of the course or gets respawned is reported through `onMark`.
+ */
+
+import type { RaceStore } from "./race-store.svelte.js";
+import type { RaceRoomControls } from "./context.js";
+import {
+  RaceSimulation,
+  generateItemBoxes,
+  idleKartInput,
+  type RaceSimulationEmit,
+  type RaceSimulationEvents,
+} from "./race-simulation.js";
+import { findNearestSegment } from "./track.js";
+import {
+  DEFAULT_ITEM_WEIGHTS,
+  PRE_RACE_COUNTDOWN,
+  RACE_DEFAULT_SPEED_CLASS,
+  RACE_MAX_LAPS,
+  RACE_SERVER_TICK_INTERVAL,
+  TEST_DRIVE_KART_ID,
+  TEST_DRIVE_MARK_SPACING,
+  type KartInput,
+  type KartState,
+  type RaceRoomState,
+  type TestDriveMark,
+  type TestDriveMarkKind,
+  type TrackId,
+} from "./types.js";
+
+interface UseTestDriveOptions {
+  store: RaceStore;
+  trackId: TrackId;
+  playerName: string;
+  carId: string;
+  /** Called for each new trouble spot */
+  onMark?: (mark: TestDriveMark) => void;
+  /** Called by the HUD's leave control */
+  onLeave?: () => void;
+}
+
+export interface TestDriveControls extends RaceRoomControls {
+  /** Put the kart back on the grid and count down again */
+  restart: () => void;
+}
+
+/** A one-kart room on `trackId` with the longest race allowed */
+function createTestDriveState(trackId: TrackId): RaceRoomState {
+  return {
+    id: "test-drive",
+    name: "Test Drive",
+    players: {},
+    projectiles: [],
+    hazards: [],
+    itemBoxes: generateItemBoxes(trackId),
+    phase: "waiting",
+    lapCount: RACE_MAX_LAPS,
+    raceTimer: 0,
+    maxPlayers: 1,
+    trackId,
+    createdAt: Date.now(),
+    phaseStartedAt: Date.now(),
+    positions: [],
+    finishedCount: 0,
+    readyPlayers: [],
+    rematchVotes: {},
+    stats: {},
+    hostId: TEST_DRIVE_KART_ID,
+    bots: {},
+    mode: "race",
+    itemMode: "normal",
+    itemWeights: { ...DEFAULT_ITEM_WEIGHTS },
+    speedClass: RACE_DEFAULT_SPEED_CLASS,
+    disconnected: {},
+    cup: null,
+    heat: null,
+  };
+}
+
+export function useTestDrive(opts: UseTestDriveOptions): TestDriveControls {
+  const { store, trackId, playerName, carId, onMark, onLeave } = opts;
+
+  // Simulation events go straight to the store, as useRaceRoom does with the actor's
+  const handlers: { [K in keyof RaceSimulationEvents]: (payload: RaceSimulationEvents[K]) => void } = {
+    phaseChanged: (data) => store.applyPhaseChanged(data),
+    itemPickedUp: (data) => store.applyItemPickedUp(data),
+    itemUsed: (data) => store.applyItemUsed(data),
+    kartHit: (data) => store.applyKartHit(data),
+    lapCompleted: (data) => store.applyLapCompleted(data),
+    checkpointSplit: (data) => store.applyCheckpointSplit(data),
+    raceFinished: (data) => {
+      store.applyRaceFinished(data);
+      store.phase = "finished";
+    },
+    driftTierReached: (data) => store.applyDriftTier(data),
+    slipstream: (data) => store.applySlipstream(data),
+    rocketStart: (data) => store.applyRocketStart(data),
+    raceToast: (data) => store.applyRaceToast(data),
+  };
+  const emit: RaceSimulationEmit = (name, payload) => {
+    (handlers[name] as (data: typeof payload) => void)(payload);
+  };
+
+  let sim: RaceSimulation;
+  let lastInput: KartInput | null = null;
+  let pendingUseItem = false;
+  let countdownElapsed = 0;
+
+  // Trouble-spot tracking for the driven kart
+  let wasOffRoad = false;
+  let wasScrubbing = false;
+  let wasFalling = false;
+  const lastMarks: Partial<Record<TestDriveMarkKind, { x: number; z: number }>> = {};
+
+  function start(): void {
+    sim = new RaceSimulation({
+      state: createTestDriveState(trackId),
+      seed: Math.floor(Math.random() * 0x7fffffff),
+      emit,
+    });
+    sim.addKart({ id: TEST_DRIVE_KART_ID, name: playerName, carId, accentIndex: 0 });
+    store.interpolate = false;
+    store.initFromJoinState({
+      state: structuredClone(sim.state),
+      playerId: TEST_DRIVE_KART_ID,
+      isSpectator: false,
+    });
+    countdownElapsed = 0;
+    wasOffRoad = wasScrubbing = wasFalling = false;
+    sim.beginCountdown();
+  }
+
+  function mark(kind: TestDriveMarkKind, kart: KartState): void {
+    const { x, y, z } = kart.position;
+    const last = lastMarks[kind];
+    if (last && Math.hypot(x - last.x, z - last.z) < TEST_DRIVE_MARK_SPACING) return;
+    lastMarks[kind] = { x, z };
+    onMark?.({
+      kind,
+      position: { x, y, z },
+      lap: kart.lap,
+      segmentIndex: findNearestSegment(sim.track.segments, x, z),
+    });
+  }
+
+  /** Compare the kart against the last tick and report what went wrong */
+  function watchKart(): void {
+    const kart = sim.state.players[TEST_DRIVE_KART_ID];
+    if (!kart || sim.state.phase !== "racing") return;
+    const offRoad = kart.surface === "shoulder" || kart.surface === "sand";
+    const scrubbing = sim.getKartSim(TEST_DRIVE_KART_ID).wallScrub;
+    const falling = kart.status === "falling";
+    if (offRoad && !wasOffRoad) mark("offRoad", kart);
+    if (scrubbing && !wasScrubbing) mark("wall", kart);
+    if (falling && !wasFalling) mark("outOfBounds", kart);
+    wasOffRoad = offRoad;
+    wasScrubbing = scrubbing;
+    wasFalling = falling;
+  }
+
+  function step(): void {
+    const input = { ...(lastInput ?? idleKartInput()), useItem: pendingUseItem };
+    pendingUseItem = false;
+    if (sim.state.phase === "countdown") countdownElapsed += RACE_SERVER_TICK_INTERVAL;
+    sim.advance({ [TEST_DRIVE_KART_ID]: input }, RACE_SERVER_TICK_INTERVAL);
+    watchKart();
+  }
+
+  start();
+
+  // -------------------------------------------------------------------------
+  // Simulation loop (fixed steps at the server tick rate)
+  // -------------------------------------------------------------------------
+
+  $effect(() => {
+    let rafId = 0;
+    let last = performance.now();
+    let accumulator = 0;
+
+    const frame = (now: number) => {
+      // A backgrounded tab pauses the drive rather than fast-forwarding it
+      accumulator = Math.min(accumulator + now - last, RACE_SERVER_TICK_INTERVAL * 8);
+      last = now;
+      let stepped = false;
+      while (accumulator >= RACE_SERVER_TICK_INTERVAL) {
+        accumulator -= RACE_SERVER_TICK_INTERVAL;
+        step();
+        stepped = true;
+      }
+      if (stepped) {
+        store.applySnapshot(structuredClone(sim.snapshot()));
+        store.countdownNumber =
+          sim.state.phase === "countdown"
+            ? Math.max(1, Math.ceil((PRE_RACE_COUNTDOWN - countdownElapsed) / 1000))
+            : null;
+      }
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+
+    return () => cancelAnimationFrame(rafId);
+  });
+
+  // -------------------------------------------------------------------------
+  // Controls
+  // -------------------------------------------------------------------------
+
+  const noop = () => {};
+
+  return {
+    sendInput: (input) => {
+      lastInput = input;
+    },
+    useItem: () => {
+      pendingUseItem = true;
+    },
+    leave: () => onLeave?.(),
+    readyUp: noop,
+    voteRematch: start,
+    addBot: noop,
+    removeBot: noop,
+    updateRoomSettings: noop,
+    configureCup: noop,
+    restart: start,
+    isConnected: true,
+    connStatus: "connected",
+    accessError: null,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * useTournament — composable for a tournament's live bracket.
+ *
+ * Connects to the tournament actor with the local player's profile (so
+ * they can sign up), keeps the snapshot current and exposes the sign-up
+ * and organizer actions.
+ */
+
+import { getRivetContext } from "@rivetkit/svelte";
+import type { registry } from "$lib/actors/registry.js";
+import type {
+  TournamentSettings,
+  TournamentSnapshot,
+  TournamentUpdatedEvent,
+} from "./types.js";
+import type { ActionResult } from "../game/types.js";
+
+interface TournamentActions {
+  getTournament(): Promise<TournamentSnapshot>;
+  getMemberId(): Promise<string | null>;
+  open(settings: Partial<TournamentSettings>): Promise<ActionResult>;
+  signUp(): Promise<ActionResult>;
+  withdraw(): Promise<ActionResult>;
+  start(): Promise<ActionResult>;
+}
+
+interface UseTournamentOptions {
+  tournamentId: string;
+  playerToken: string;
+}
+
+export function newTournamentId(): string {
+  return `tour_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function useTournament(options: UseTournamentOptions) {
+  const { tournamentId, playerToken } = options;
+  const { useActor } = getRivetContext<typeof registry>();
+
+  const actor = useActor({
+    name: "tournament",
+    key: [tournamentId],
+    params: { playerToken },
+  }) as ReturnType<typeof useActor> & TournamentActions;
+
+  let snapshot = $state<TournamentSnapshot | null>(null);
+  let memberId = $state<string | null>(null);
+
+  $effect(() => {
+    if (!actor.isConnected) return;
+    Promise.all([actor.getTournament(), actor.getMemberId()])
+      .then(([result, id]) => {
+        snapshot = result;
+        memberId = id;
+      })
+      .catch(() => {});
+  });
+
+  actor.onEvent("tournamentUpdated", (data: TournamentUpdatedEvent) => {
+    snapshot = data.tournament;
+  });
+
+  return {
+    get tournament() {
+      return snapshot;
+    },
+    /** The local player's profile ID, as the tournament knows it */
+    get memberId() {
+      return memberId;
+    },
+    get isConnected() {
+      return actor.isConnected;
+    },
+    open: (settings: Partial<TournamentSettings>) => actor.open(settings),
+    signUp: () => actor.signUp(),
+    withdraw: () => actor.withdraw(),
+    start: () => actor.start(),
+  };
+}